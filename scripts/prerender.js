@@ -0,0 +1,145 @@
+// Renders every route to static HTML after `vite build`, so crawlers and link
+// unfurlers get real markup, meta tags and JSON-LD. Also writes the sitemap
+// and robots.txt from the same route table, plus the blog's RSS and Atom
+// feeds and the help centre's search index, and refuses to ship any page
+// whose JSON-LD fails validation, points at a file of ours that isn't in the
+// build, or that axe finds WCAG 2.2 AA violations in.
+import { existsSync } from "node:fs";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath, pathToFileURL } from "node:url";
+import { auditAccessibility } from "./a11y.js";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const dist = path.join(root, "dist");
+const ssrEntry = path.join(root, "dist-ssr", "entry-server.js");
+
+const {
+  render,
+  staticPages,
+  feeds,
+  helpIndex,
+  validateStructuredData,
+  chatScriptIssues,
+  SITE_URL,
+} = await import(pathToFileURL(ssrEntry).href);
+const template = await fs.readFile(path.join(dist, "index.html"), "utf8");
+
+const toHtml = (url) => {
+  const { html, head } = render(url);
+  return template
+    .replace("<!--app-head-->", head)
+    .replace("<!--app-html-->", html);
+};
+
+const JSON_LD_RE = /<script type="application\/ld\+json">([\s\S]*?)<\/script>/g;
+
+// Every string in the document that names a file on this site, such as the
+// logo or a share image. Page URLs have no extension and are left alone.
+const localAssets = (value) => {
+  if (typeof value === "string") {
+    if (!value.startsWith(`${SITE_URL}/`)) return [];
+    const pathname = new URL(value).pathname;
+    return /\.\w+$/.test(pathname) ? [pathname] : [];
+  }
+  if (value && typeof value === "object") return Object.values(value).flatMap(localAssets);
+  return [];
+};
+
+const structuredDataIssues = (url, html) => {
+  const blocks = [...html.matchAll(JSON_LD_RE)].map((match) => match[1]);
+  if (!blocks.length) return [`${url}: no JSON-LD found`];
+  return blocks.flatMap((block) => {
+    let doc;
+    try {
+      doc = JSON.parse(block);
+    } catch (err) {
+      return [`${url}: JSON-LD is not valid JSON (${err.message})`];
+    }
+    const missing = [...new Set(localAssets(doc))]
+      .filter((asset) => !existsSync(path.join(dist, decodeURIComponent(asset))))
+      .map((asset) => `${url}: ${asset} is not in the build`);
+    return [
+      ...validateStructuredData(doc).map(
+        (issue) => `${url}: ${issue.at || "(root)"} ${issue.message}`
+      ),
+      ...missing,
+    ];
+  });
+};
+
+const outputFor = (url) =>
+  url === "/"
+    ? path.join(dist, "index.html")
+    : path.join(dist, url.replace(/^\//, ""), "index.html");
+
+const pages = staticPages();
+const rendered = [
+  ...pages.map((page) => ({ url: page.path, file: outputFor(page.path) })),
+  // Vercel serves 404.html for anything that doesn't match a file.
+  { url: "/404", file: path.join(dist, "404.html") },
+].map((page) => ({ ...page, html: toHtml(page.url) }));
+
+const issues = rendered.flatMap((page) => structuredDataIssues(page.url, page.html));
+if (issues.length) {
+  console.error("Structured data failed validation:");
+  for (const issue of issues) console.error(`  ${issue}`);
+  process.exit(1);
+}
+
+const chatIssues = chatScriptIssues();
+if (chatIssues.length) {
+  console.error("Support chat script failed validation:");
+  for (const issue of chatIssues) console.error(`  ${issue}`);
+  process.exit(1);
+}
+
+// Sequential on purpose: each audit spins up its own DOM.
+const a11yIssues = [];
+for (const page of rendered) {
+  a11yIssues.push(...(await auditAccessibility(page.url, page.html)));
+}
+if (a11yIssues.length) {
+  console.error("Accessibility checks failed (WCAG 2.2 AA):");
+  for (const issue of a11yIssues) console.error(`  ${issue}`);
+  process.exit(1);
+}
+
+for (const page of rendered) {
+  await fs.mkdir(path.dirname(page.file), { recursive: true });
+  await fs.writeFile(page.file, page.html);
+}
+
+for (const output of [...feeds(), helpIndex()]) {
+  const file = path.join(dist, output.path.replace(/^\//, ""));
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, output.body);
+}
+
+const today = new Date().toISOString().slice(0, 10);
+const sitemap = [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+  ...pages
+    .filter((page) => page.indexable)
+    .map(
+      (page) =>
+        `  <url><loc>${SITE_URL}${page.path === "/" ? "/" : page.path}</loc><lastmod>${page.lastmod ?? today}</lastmod></url>`
+    ),
+  "</urlset>",
+  "",
+].join("\n");
+await fs.writeFile(path.join(dist, "sitemap.xml"), sitemap);
+
+const robots = [
+  "User-agent: *",
+  ...pages.filter((page) => !page.indexable).map((page) => `Disallow: ${page.path}`),
+  "",
+  `Sitemap: ${SITE_URL}/sitemap.xml`,
+  "",
+].join("\n");
+await fs.writeFile(path.join(dist, "robots.txt"), robots);
+
+console.log(
+  `Prerendered ${rendered.length} pages, ${feeds().length} feeds, the help search index, sitemap.xml and robots.txt`
+);
@@ -0,0 +1,27 @@
+// Renders PNG copies of SVG artwork for places that don't accept SVG, such
+// as the logo in structured data and blog link previews. The PNGs are committed next to their
+// sources; run `npm run images` after editing an SVG to regenerate them.
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { Resvg } from "@resvg/resvg-js";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const publicDir = path.join(root, "public");
+
+/** Source SVG (relative to public/) and the width of the PNG to write. */
+const JOBS = [
+  { src: "logo.svg", width: 512 },
+  // Blog heroes are drawn at 1200×630, the share-image size.
+  ...(await fs.readdir(path.join(publicDir, "blog")))
+    .filter((file) => file.endsWith(".svg"))
+    .map((file) => ({ src: `blog/${file}`, width: 1200 })),
+];
+
+for (const { src, width } of JOBS) {
+  const svg = await fs.readFile(path.join(publicDir, src), "utf8");
+  const png = new Resvg(svg, { fitTo: { mode: "width", value: width } }).render().asPng();
+  const out = src.replace(/\.svg$/, ".png");
+  await fs.writeFile(path.join(publicDir, out), png);
+  console.log(`Wrote public/${out} (${width}px wide)`);
+}
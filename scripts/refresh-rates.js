@@ -0,0 +1,51 @@
+// Refreshes the exchange-rate table in src/money/rates.ts before a build.
+// Off by default so builds stay reproducible and work offline; set
+// RATES_REFRESH=1 to fetch, and RATES_URL to use a source other than the
+// ECB reference rates via Frankfurter. The source must answer with
+// `{ base, date, rates: { EUR: 1.15, ... } }`. A failed fetch keeps the
+// committed table and only warns, so a rates outage never blocks a deploy.
+import fs from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const ratesFile = path.join(root, "src", "money", "rates.ts");
+const DEFAULT_URL = "https://api.frankfurter.app/latest?from=GBP";
+
+const source = await fs.readFile(ratesFile, "utf8");
+const currentDate = source.match(/date: "([\d-]+)"/)?.[1] ?? "unknown";
+const currencies = [...source.matchAll(/^\s{4}([A-Z]{3}): /gm)].map((m) => m[1]);
+
+if (process.env.RATES_REFRESH !== "1") {
+  console.log(`Using committed exchange rates from ${currentDate}`);
+  process.exit(0);
+}
+
+const url = process.env.RATES_URL || DEFAULT_URL;
+
+try {
+  const response = await fetch(url, { signal: AbortSignal.timeout(10_000) });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  const body = await response.json();
+  if (body.base !== "GBP") throw new Error(`expected GBP base, got ${body.base}`);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(body.date ?? "")) throw new Error("missing date");
+
+  const rates = { ...body.rates, GBP: 1 };
+  const lines = currencies.map((code) => {
+    const rate = rates[code];
+    if (!(typeof rate === "number" && rate > 0)) {
+      throw new Error(`no usable rate for ${code}`);
+    }
+    return `    ${code}: ${Number(rate.toFixed(4))},`;
+  });
+
+  const next = source
+    .replace(/date: "[\d-]+"/, `date: "${body.date}"`)
+    .replace(/rates: \{\n[\s\S]*?\n {2}\}/, `rates: {\n${lines.join("\n")}\n  }`);
+  await fs.writeFile(ratesFile, next);
+  console.log(`Refreshed exchange rates to ${body.date} from ${url}`);
+} catch (err) {
+  console.warn(
+    `Could not refresh exchange rates (${err.message}); keeping rates from ${currentDate}`
+  );
+}
@@ -1,168 +1,109 @@
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import {
   Check,
   Shield,
   Zap,
   BarChart3,
-  Cookie as CookieIcon,
   Mail,
   Phone,
-  Globe,
+  Rss,
   ArrowRight,
   Map as MapIcon,
   Users
 } from "lucide-react";
-import { motion } from "framer-motion";
-
-// ===== Utilities =====
-const cx = (...cls: Array<string | false | null | undefined>) =>
-  cls.filter(Boolean).join(" ");
-const isBrowser =
-  typeof window !== "undefined" && typeof document !== "undefined";
-
-// ===== UI Primitives =====
-const Container: React.FC<{
-  id?: string;
-  className?: string;
-  children: React.ReactNode;
-}> = ({ id, className, children }) => (
-  <section id={id} className={cx("mx-auto max-w-7xl px-6 lg:px-8", className)}>
-    {children}
-  </section>
-);
-
-const Button: React.FC<
-  React.ButtonHTMLAttributes<HTMLButtonElement> & {
-    variant?: "primary" | "secondary";
-    as?: "a";
-    href?: string;
-  }
-> = ({ variant = "primary", as, href, className, children, ...props }) => {
-  const baseStyles =
-    "inline-flex items-center justify-center rounded-xl px-6 py-3 font-medium transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-[#0F1B2A]";
-  const variants = {
-    primary:
-      "bg-blue-600 hover:bg-blue-700 text-white focus:ring-blue-500 shadow-lg hover:shadow-xl",
-    secondary:
-      "bg-gray-700 hover:bg-gray-600 text-white focus:ring-gray-500 border border-gray-600",
-  };
-
-  if (as === "a" && href) {
-    return (
-      <a href={href} className={cx(baseStyles, variants[variant], className)}>
-        {children}
-      </a>
-    );
-  }
-  return (
-    <button className={cx(baseStyles, variants[variant], className)} {...props}>
-      {children}
-    </button>
-  );
-};
-
-const Card: React.FC<{
-  className?: string;
-  children: React.ReactNode;
-  hover?: boolean;
-}> = ({ className, children, hover = false }) => (
-  <div
-    className={cx(
-      "rounded-2xl bg-gray-800 p-6 shadow-lg",
-      hover && "hover:shadow-xl transition-shadow duration-300",
-      className
-    )}
-  >
-    {children}
-  </div>
-);
-
-// ===== Cookie Consent =====
-const CookieBanner: React.FC = () => {
-  const [visible, setVisible] = useState<boolean>(false);
-
-  useEffect(() => {
-    if (!isBrowser) return;
-    setVisible(!localStorage.getItem("ft_cookie_ok"));
-  }, []);
-
-  if (!visible) return null;
-
-  return (
-    <motion.div
-      initial={{ opacity: 0, y: 100 }}
-      animate={{ opacity: 1, y: 0 }}
-      className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2 w-[95%] md:w-[720px] rounded-2xl bg-gray-800 text-white/90 p-6 shadow-2xl border border-gray-700"
-    >
-      <div className="flex items-start gap-4">
-        <CookieIcon className="mt-0.5 h-5 w-5 text-blue-400" />
-        <div className="flex-1">
-          <p className="text-sm font-medium">We Value Your Privacy</p>
-          <p className="text-sm text-white/70 mt-1">
-            We use essential cookies to operate our platform and analytics to
-            improve our service. See our{" "}
-            <a
-              className="text-blue-400 hover:text-blue-300 underline"
-              href="#privacy"
-            >
-              Privacy Policy
-            </a>
-            .
-          </p>
-        </div>
-        <div className="flex gap-2">
-          <Button
-            onClick={() => {
-              if (isBrowser) localStorage.setItem("ft_cookie_ok", "1");
-              setVisible(false);
-            }}
-            className="text-sm"
-          >
-            Accept
-          </Button>
-          <a
-            href="#privacy"
-            className="rounded-xl px-4 py-2 text-sm border border-gray-600 hover:bg-gray-700 transition-colors"
-          >
-            Manage
-          </a>
-        </div>
-      </div>
-    </motion.div>
-  );
-};
+import { m } from "framer-motion";
+import { Button, Card, Container } from "./components/ui";
+import { CookieBanner } from "./consent/CookieBanner";
+import { ChatWidget } from "./chat/ChatWidget";
+import { ConsentProvider } from "./consent/ConsentProvider";
+import { AnalyticsProvider } from "./analytics/AnalyticsProvider";
+import { ThemeProvider } from "./theme/ThemeProvider";
+import { ThemeSwitcher } from "./theme/ThemeSwitcher";
+import { MotionPolicy } from "./motion/MotionPolicy";
+import { useAnalytics } from "./analytics/useAnalytics";
+import {
+  CTA_WORDING,
+  HERO_HEADLINE,
+  PRICING_DEFAULT_CYCLE,
+} from "./experiments/config";
+import { useExperiment } from "./experiments/useExperiment";
+import { useConsent } from "./consent/useConsent";
+import { ContactSection } from "./contact/ContactSection";
+import { DemoSection } from "./demo/DemoSection";
+import { FleetCalculator } from "./pricing/FleetCalculator";
+import { PlanComparison } from "./pricing/PlanComparison";
+import { PLANS, describeFeature, getPlan } from "./pricing/catalog";
+import {
+  CALCULATOR_PARAMS,
+  parseBillingCycle,
+  type BillingCycle,
+} from "./pricing/calculator";
+import { readQuery, updateQuery } from "./lib/url";
+import { DashboardPreview } from "./telemetry/DashboardPreview";
+import { TELEMETRY_INTERVAL_MS } from "./telemetry/simulator";
+import { Router } from "./router/Router";
+import { Link } from "./router/Link";
+import { useRouter } from "./router/useRouter";
+import { ROUTES, matchRoute } from "./router/routes";
+import { applyHead } from "./seo/head";
+import { headForPath } from "./seo/pages";
+import { COMPANY } from "./seo/company";
+import { serializeJsonLd, structuredDataFor } from "./seo/structuredData";
+import { validateStructuredData } from "./seo/validate";
+import { FaqSection } from "./faq/FaqSection";
+import { BlogIndexPage } from "./blog/BlogIndexPage";
+import { BlogPostPage } from "./blog/BlogPostPage";
+import { findPostByPath } from "./blog/posts";
+import { RSS_PATH } from "./blog/feeds";
+import { CustomersSection } from "./customers/CustomersSection";
+import { CaseStudyPage } from "./customers/CaseStudyPage";
+import { findCaseStudyByPath } from "./customers/caseStudies";
+import { SolutionPage } from "./solutions/SolutionPage";
+import { findSolutionByPath } from "./solutions/registry";
+import { TrialPage } from "./trial/TrialPage";
+import { MoneyProvider } from "./money/MoneyProvider";
+import { PriceDisplayControls } from "./money/PriceDisplayControls";
+import { useMoney } from "./money/useMoney";
+import { HelpCentrePage } from "./help/HelpCentrePage";
+import { HelpArticlePage } from "./help/HelpArticlePage";
+import { findHelpArticleByPath } from "./help/content";
+import { RoutePlaybackPage } from "./playback/RoutePlaybackPage";
+import { GeofenceSandboxPage } from "./geofence/GeofenceSandboxPage";
+import { StatusProvider } from "./status/StatusProvider";
+import { StatusPage } from "./status/StatusPage";
+import { StatusBadge } from "./status/StatusBadge";
+import { useStatus } from "./status/useStatus";
+import { SLA_TARGET, formatUptime, overallUptime } from "./status/status";
+import { trialHref } from "./trial/trial";
+import {
+  FOOTER_COLUMNS,
+  LOGIN_LINK,
+  NAV_CTA,
+  NAV_ITEMS,
+} from "./router/navigation";
+import { MobileNav } from "./components/MobileNav";
+import { NavMenu } from "./components/NavMenu";
+import { FeatureCard } from "./components/FeatureCard";
+import { LegalPage } from "./pages/LegalPage";
+import { LoginPage } from "./pages/LoginPage";
+import { NotFoundPage } from "./pages/NotFoundPage";
+import { isBrowser } from "./lib/utils";
 
 // ===== SEO JSON-LD =====
 const JsonLD: React.FC = () => {
-  const json = useMemo(
-    () => ({
-      "@context": "https://schema.org",
-      "@type": "Organization",
-      name: "Franstrack",
-      description:
-        "Professional GPS tracking and fleet management solutions with real-time vehicle monitoring and analytics.",
-      url: "https://www.franstrack.co.uk",
-      logo: "https://www.franstrack.co.uk/logo.png",
-      address: {
-        "@type": "PostalAddress",
-        addressLocality: "Liverpool",
-        addressCountry: "UK",
-      },
-      contactPoint: {
-        "@type": "ContactPoint",
-        telephone: "+44-151-000-0000",
-        contactType: "customer service",
-      },
-    }),
-    []
-  );
+  const { location } = useRouter();
+  const doc = useMemo(() => structuredDataFor(location.path), [location.path]);
 
-  if (!isBrowser) return null;
+  useEffect(() => {
+    if (!import.meta.env.DEV) return;
+    for (const issue of validateStructuredData(doc))
+      console.warn(`JSON-LD ${issue.at}: ${issue.message}`);
+  }, [doc]);
 
   return (
     <script
       type="application/ld+json"
-      dangerouslySetInnerHTML={{ __html: JSON.stringify(json) }}
+      dangerouslySetInnerHTML={{ __html: serializeJsonLd(doc) }}
     />
   );
 };
@@ -170,6 +111,7 @@ const JsonLD: React.FC = () => {
 // ===== Sections =====
 const Nav: React.FC = () => {
   const [scrolled, setScrolled] = useState(false);
+  const { location } = useRouter();
 
   useEffect(() => {
     if (!isBrowser) return;
@@ -181,232 +123,215 @@ const Nav: React.FC = () => {
   return (
     <header
       className={`fixed top-0 w-full z-50 transition-all duration-300 ${
-        scrolled ? "bg-gray-900/95 backdrop-blur-md shadow-lg" : "bg-transparent"
+        scrolled ? "bg-canvas/95 backdrop-blur-md shadow-raised" : "bg-transparent"
       }`}
     >
       <div className="mx-auto max-w-7xl px-6 lg:px-8 py-4">
         <div className="flex items-center justify-between">
-          <a className="flex items-center gap-3 group" href="#home">
-            <div className="h-10 w-10 rounded-xl bg-blue-600 grid place-items-center font-bold text-white group-hover:scale-105 transition-transform">
+          <Link className="flex items-center gap-3 group" to="/#home">
+            <div
+              aria-hidden="true"
+              className="h-10 w-10 rounded-control bg-primary grid place-items-center font-bold text-on-primary group-hover:scale-105 transition-transform"
+            >
               F
             </div>
-            <span className="text-xl font-bold bg-gradient-to-r from-white to-gray-300 bg-clip-text text-transparent">
+            <span className="text-xl font-bold bg-gradient-to-r from-fg to-fg/70 bg-clip-text text-transparent">
               Franstrack
             </span>
-          </a>
+          </Link>
 
           <nav
             className="hidden lg:flex items-center gap-8 text-sm font-medium"
             aria-label="Primary"
           >
-            {["Solutions", "Pricing", "Features", "Customers", "Contact"].map(
-              (item) => (
-                <a
-                  key={item}
-                  href={`#${item.toLowerCase()}`}
-                  className="text-white/80 hover:text-white transition-colors"
+            {NAV_ITEMS.map((item) =>
+              item.groups ? (
+                <NavMenu key={item.label} label={item.label} groups={item.groups} />
+              ) : (
+                <Link
+                  key={item.label}
+                  to={item.href}
+                  className="text-fg/80 hover:text-fg transition-colors"
                 >
-                  {item}
-                </a>
+                  {item.label}
+                </Link>
               )
             )}
-            <a
-              href="#login"
-              className="text-white/80 hover:text-white transition-colors"
+            <Link
+              to={LOGIN_LINK.href}
+              aria-current={location.path === LOGIN_LINK.href ? "page" : undefined}
+              className="text-fg/80 hover:text-fg transition-colors"
             >
-              Login
-            </a>
-            <Button as="a" href="#demo" className="text-sm">
-              Get Started
+              {LOGIN_LINK.label}
+            </Link>
+            <ThemeSwitcher />
+            <Button
+              as="a"
+              href={NAV_CTA.href}
+              trackingId="nav-get-started"
+              className="text-sm"
+            >
+              {NAV_CTA.label}
             </Button>
           </nav>
 
-          <button className="lg:hidden rounded-xl px-3 py-2 border border-gray-600 hover:bg-gray-800 transition-colors">
-            Menu
-          </button>
+          <MobileNav />
         </div>
       </div>
     </header>
   );
 };
 
-const Hero: React.FC = () => (
-  <section
-    id="home"
-    className="relative min-h-screen flex items-center justify-center overflow-hidden bg-gradient-to-br from-gray-900 via-blue-900/20 to-gray-900 pt-20"
-  >
-    <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_center,_var(--tw-gradient-stops))] from-blue-500/10 via-transparent to-transparent" />
-
-    <Container className="py-20 lg:py-32">
-      <div className="grid lg:grid-cols-2 gap-16 items-center">
-        <motion.div
-          initial={{ opacity: 0, y: 30 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.7 }}
-          className="text-center lg:text-left"
-        >
-          <div className="inline-flex items-center gap-2 rounded-full bg-blue-500/10 px-4 py-2 text-sm text-blue-400 mb-6">
-            <Shield className="h-4 w-4" />
-            Trusted by UK Fleets Since 2020
-          </div>
+const Hero: React.FC = () => {
+  const { value: headline } = useExperiment(HERO_HEADLINE);
+  const { value: cta } = useExperiment(CTA_WORDING);
 
-          <h1 className="text-4xl lg:text-6xl font-bold leading-tight">
-            Smarter Fleet
-            <span className="bg-gradient-to-r from-blue-400 to-cyan-400 bg-clip-text text-transparent">
-              {" "}
-              Management
-            </span>
-          </h1>
-
-          <p className="mt-6 text-xl text-white/70 leading-relaxed max-w-2xl">
-            Real-time GPS tracking, advanced analytics, and comprehensive fleet
-            management solutions designed to optimize your operations and reduce
-            costs.
-          </p>
-
-          <div className="mt-8 flex flex-col sm:flex-row gap-4 justify-center lg:justify-start">
-            <Button as="a" href="#pricing" className="text-lg px-8 py-4">
-              Start Free Trial
-              <ArrowRight className="ml-2 h-5 w-5" />
-            </Button>
-            <Button
-              variant="secondary"
-              as="a"
-              href="#demo"
-              className="text-lg px-8 py-4"
-            >
-              View Demo
-            </Button>
-          </div>
+  return (
+    <section
+      id="home"
+      className="relative min-h-screen flex items-center justify-center overflow-hidden bg-gradient-to-br from-canvas via-accent/10 to-canvas pt-20"
+    >
+      <div className="absolute inset-0 bg-[radial-gradient(ellipse_at_center,_var(--tw-gradient-stops))] from-accent/10 via-transparent to-transparent" />
 
-          <div className="mt-12 grid grid-cols-2 lg:grid-cols-4 gap-6 text-sm">
-            {[
-              { icon: Shield, label: "UK Data Centers", sub: "GDPR Compliant" },
-              { icon: Zap, label: "Real-time", sub: "5s Updates" },
-              { icon: BarChart3, label: "Analytics", sub: "Live Insights" },
-              { icon: Users, label: "24/7 Support", sub: "Always Available" },
-            ].map((item, index) => (
-              <div key={index} className="flex items-center gap-3">
-                <div className="rounded-lg bg-blue-500/10 p-2">
-                  <item.icon className="h-5 w-5 text-blue-400" />
-                </div>
-                <div className="text-left">
-                  <div className="font-semibold text-white">{item.label}</div>
-                  <div className="text-white/60 text-xs">{item.sub}</div>
-                </div>
-              </div>
-            ))}
-          </div>
-        </motion.div>
+      <Container className="py-20 lg:py-32">
+        <div className="grid lg:grid-cols-2 gap-16 items-center">
+          <m.div
+            initial={{ opacity: 0, y: 30 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.7 }}
+            className="text-center lg:text-left"
+          >
+            <div className="inline-flex items-center gap-2 rounded-full bg-accent/10 px-4 py-2 text-sm text-accent mb-6">
+              <Shield className="h-4 w-4" />
+              Trusted by UK Fleets Since 2020
+            </div>
 
-        <motion.div
-          initial={{ opacity: 0, scale: 0.95 }}
-          animate={{ opacity: 1, scale: 1 }}
-          transition={{ duration: 0.7, delay: 0.2 }}
-          className="relative"
-        >
-          <Card className="overflow-hidden border border-gray-700">
-            <div className="bg-gradient-to-br from-gray-800 to-gray-900 p-8">
-              <div className="flex items-center gap-3 mb-6">
-                <div className="flex gap-1">
-                  <div className="w-3 h-3 rounded-full bg-red-500"></div>
-                  <div className="w-3 h-3 rounded-full bg-yellow-500"></div>
-                  <div className="w-3 h-3 rounded-full bg-green-500"></div>
-                </div>
-                <div className="text-sm text-white/60">Live Dashboard Preview</div>
-              </div>
+            <h1 className="text-4xl lg:text-6xl font-bold leading-tight">
+              {headline.title}
+              <span className="bg-gradient-to-r from-highlight to-highlight-alt bg-clip-text text-transparent">
+                {" "}
+                {headline.highlight}
+              </span>
+            </h1>
+
+            <p className="mt-6 text-xl text-fg/70 leading-relaxed max-w-2xl">
+              Real-time GPS tracking, advanced analytics, and comprehensive fleet
+              management solutions designed to optimize your operations and reduce
+              costs.
+            </p>
+
+            <div className="mt-8 flex flex-col sm:flex-row gap-4 justify-center lg:justify-start">
+              <Button
+                as="a"
+                href={trialHref()}
+                trackingId="hero-start-trial"
+                className="text-lg px-8 py-4"
+              >
+                {cta.trial}
+                <ArrowRight className="ml-2 h-5 w-5" />
+              </Button>
+              <Button
+                variant="secondary"
+                as="a"
+                href="/#demo"
+                trackingId="hero-view-demo"
+                className="text-lg px-8 py-4"
+              >
+                View Demo
+              </Button>
+            </div>
 
-              <div className="bg-gray-900 rounded-xl p-6 border border-gray-700">
-                <div className="flex justify-between items-center mb-4">
-                  <div className="text-white font-semibold">Active Vehicles</div>
-                  <div className="text-green-400 text-sm font-medium">
-                    12/12 Online
+            <div className="mt-12 grid grid-cols-2 lg:grid-cols-4 gap-6 text-sm">
+              {[
+                { icon: Shield, label: "UK Data Centers", sub: "GDPR Compliant" },
+                {
+                  icon: Zap,
+                  label: "Real-time",
+                  sub: `${TELEMETRY_INTERVAL_MS / 1000}s Updates`,
+                },
+                { icon: BarChart3, label: "Analytics", sub: "Live Insights" },
+                { icon: Users, label: "24/7 Support", sub: "Always Available" },
+              ].map((item, index) => (
+                <div key={index} className="flex items-center gap-3">
+                  <div className="rounded-lg bg-accent/10 p-2">
+                    <item.icon className="h-5 w-5 text-accent" />
+                  </div>
+                  <div className="text-left">
+                    <div className="font-semibold text-fg">{item.label}</div>
+                    <div className="text-fg/60 text-xs">{item.sub}</div>
                   </div>
                 </div>
+              ))}
+            </div>
+          </m.div>
 
-                <div className="space-y-3">
-                  {[
-                    "Delivery Van #25",
-                    "Service Truck #08",
-                    "Executive Car #03",
-                  ].map((vehicle, index) => (
-                    <div
-                      key={index}
-                      className="flex items-center justify-between p-3 rounded-lg bg-gray-800/50"
-                    >
-                      <div className="flex items-center gap-3">
-                        <div
-                          className={`w-2 h-2 rounded-full ${
-                            index === 0 ? "bg-green-400" : "bg-blue-400"
-                          }`}
-                        ></div>
-                        <span className="text-white text-sm">{vehicle}</span>
-                      </div>
-                      <div className="text-white/60 text-sm">62 mph</div>
-                    </div>
-                  ))}
-                </div>
+          <m.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            transition={{ duration: 0.7, delay: 0.2 }}
+            className="relative"
+          >
+            <DashboardPreview />
+          </m.div>
+        </div>
+      </Container>
+    </section>
+  );
+};
 
-                <div className="mt-6 pt-4 border-t border-gray-700">
-                  <div className="flex justify-between text-sm">
-                    <div className="text-white/60">Total Distance Today</div>
-                    <div className="text-white font-semibold">427 mi</div>
-                  </div>
-                </div>
-              </div>
+const Stats: React.FC = () => {
+  const { feed } = useStatus();
+  // Measured uptime once the feed is in; the contractual SLA until then.
+  const uptime = feed
+    ? { value: formatUptime(overallUptime(feed, 90)), label: "Uptime, last 90 days" }
+    : { value: formatUptime(SLA_TARGET, 0), label: "Uptime SLA" };
+
+  return (
+    <Container className="py-16 lg:py-24">
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-8">
+        {[
+          uptime,
+          { value: "24/7", label: "Support" },
+          { value: "15s", label: "Update Speed" },
+          { value: "99.9%", label: "Data Accuracy" },
+        ].map((stat, index) => (
+          <m.div
+            key={index}
+            initial={{ opacity: 0, y: 20 }}
+            whileInView={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.5, delay: index * 0.1 }}
+            className="text-center"
+          >
+            <div className="text-3xl lg:text-4xl font-bold text-fg mb-2">
+              {stat.value}
             </div>
-          </Card>
-        </motion.div>
+            <div className="text-fg/60 text-sm font-medium">{stat.label}</div>
+          </m.div>
+        ))}
       </div>
     </Container>
-  </section>
-);
-
-const Stats: React.FC = () => (
-  <Container className="py-16 lg:py-24">
-    <div className="grid grid-cols-2 lg:grid-cols-4 gap-8">
-      {[
-        { value: "98%", label: "Uptime SLA" },
-        { value: "24/7", label: "Support" },
-        { value: "15s", label: "Update Speed" },
-        { value: "99.9%", label: "Data Accuracy" },
-      ].map((stat, index) => (
-        <motion.div
-          key={index}
-          initial={{ opacity: 0, y: 20 }}
-          whileInView={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.5, delay: index * 0.1 }}
-          className="text-center"
-        >
-          <div className="text-3xl lg:text-4xl font-bold text-white mb-2">
-            {stat.value}
-          </div>
-          <div className="text-white/60 text-sm font-medium">{stat.label}</div>
-        </motion.div>
-      ))}
-    </div>
-  </Container>
-);
+  );
+};
 
 const Features: React.FC = () => (
   <Container id="features" className="py-16 lg:py-28">
-    <motion.div
+    <m.div
       initial={{ opacity: 0, y: 30 }}
       whileInView={{ opacity: 1, y: 0 }}
       className="text-center mb-16"
     >
-      <h2 className="text-3xl lg:text-5xl font-bold text-white mb-6">
+      <h2 className="text-3xl lg:text-5xl font-bold text-fg mb-6">
         Comprehensive Fleet
-        <span className="bg-gradient-to-r from-blue-400 to-cyan-400 bg-clip-text text-transparent">
+        <span className="bg-gradient-to-r from-highlight to-highlight-alt bg-clip-text text-transparent">
           {" "}
           Solutions
         </span>
       </h2>
-      <p className="text-xl text-white/70 max-w-3xl mx-auto">
+      <p className="text-xl text-fg/70 max-w-3xl mx-auto">
         Everything you need to manage your fleet efficiently, reduce costs, and
         improve customer service.
       </p>
-    </motion.div>
+    </m.div>
 
     <div className="grid lg:grid-cols-3 gap-8">
       {[
@@ -421,6 +346,7 @@ const Features: React.FC = () => (
             "Geofencing",
             "Speed Monitoring",
           ],
+          link: { label: "Try route playback", href: ROUTES.playback.path },
         },
         {
           icon: BarChart3,
@@ -440,149 +366,97 @@ const Features: React.FC = () => (
           description:
             "Protect your assets with instant alerts and comprehensive security features.",
           features: ["SOS Alerts", "Theft Prevention", "Tamper Alerts", "Driver Safety"],
+          link: { label: "Try geofencing and alerts", href: ROUTES.geofencing.path },
         },
       ].map((feature, index) => (
-        <motion.div
-          key={index}
-          initial={{ opacity: 0, y: 30 }}
-          whileInView={{ opacity: 1, y: 0 }}
-          transition={{ duration: 0.5, delay: index * 0.1 }}
-        >
-          <Card hover className="h-full border border-gray-700">
-            <div className="rounded-xl bg-blue-500/10 p-3 w-12 h-12 flex items-center justify-center mb-6">
-              <feature.icon className="h-6 w-6 text-blue-400" />
-            </div>
-
-            <h3 className="text-xl font-bold text-white mb-3">
-              {feature.title}
-            </h3>
-            <p className="text-white/70 mb-6">{feature.description}</p>
-
-            <ul className="space-y-3">
-              {feature.features.map((item, idx) => (
-                <li key={idx} className="flex items-center gap-3 text-sm text-white/80">
-                  <Check className="h-4 w-4 text-green-400 flex-shrink-0" />
-                  {item}
-                </li>
-              ))}
-            </ul>
-          </Card>
-        </motion.div>
+        <FeatureCard key={feature.title} feature={feature} index={index} />
       ))}
     </div>
   </Container>
 );
 
+const BILLING_OPTIONS: Array<{ cycle: BillingCycle; label: string }> = [
+  { cycle: "monthly", label: "Monthly" },
+  { cycle: "annual", label: "Annual (Save 20%)" },
+];
+
 const Pricing: React.FC = () => {
-  const [billingCycle, setBillingCycle] = useState<"monthly" | "annual">(
-    "monthly"
-  );
+  const { value: defaultCycle } = useExperiment(PRICING_DEFAULT_CYCLE);
+  const [billingCycle, setBillingCycle] = useState<BillingCycle>(defaultCycle);
+  const chosen = useRef(false);
+  const { track } = useAnalytics();
+  const { format, vatNote } = useMoney();
 
-  const plans: Array<{
-    name: string;
-    description: string;
-    monthlyPrice: number;
-    annualPrice: number;
-    featured: boolean;
-    features: string[];
-  }> = [
-    {
-      name: "Essential",
-      description: "Perfect for small fleets",
-      monthlyPrice: 12,
-      annualPrice: 10,
-      featured: false,
-      features: [
-        "Live GPS Tracking",
-        "Basic Reports",
-        "Email Support",
-        "30-day History",
-        "Mobile App Access",
-      ],
-    },
-    {
-      name: "Professional",
-      description: "For growing businesses",
-      monthlyPrice: 18,
-      annualPrice: 15,
-      featured: true,
-      features: [
-        "All Essential features",
-        "Advanced Analytics",
-        "Priority Support",
-        "90-day History",
-        "API Access",
-        "Custom Reports",
-        "SMS Alerts",
-      ],
-    },
-    {
-      name: "Enterprise",
-      description: "For large operations",
-      monthlyPrice: 25,
-      annualPrice: 20,
-      featured: false,
-      features: [
-        "All Professional features",
-        "Unlimited History",
-        "24/7 Phone Support",
-        "Dedicated Account Manager",
-        "Custom Integrations",
-        "SLA Guarantee",
-        "White-label Options",
-      ],
-    },
-  ];
+  // A cycle from the URL or the visitor's own toggle outranks the experiment.
+  useEffect(() => {
+    if (chosen.current) return;
+    const fromUrl = parseBillingCycle(readQuery().get(CALCULATOR_PARAMS.billing));
+    setBillingCycle(fromUrl ?? defaultCycle);
+  }, [defaultCycle]);
+
+  const changeBillingCycle = (
+    cycle: BillingCycle,
+    source: "pricing" | "calculator" = "pricing"
+  ) => {
+    if (cycle !== billingCycle) track("pricing_toggle", { cycle, source });
+    chosen.current = true;
+    setBillingCycle(cycle);
+    updateQuery({ [CALCULATOR_PARAMS.billing]: cycle === "monthly" ? null : cycle });
+  };
 
   return (
     <Container id="pricing" className="py-16 lg:py-28">
-      <motion.div
+      <m.div
         initial={{ opacity: 0, y: 30 }}
         whileInView={{ opacity: 1, y: 0 }}
         className="text-center mb-16"
       >
-        <h2 className="text-3xl lg:text-5xl font-bold text-white mb-6">
+        <h2 className="text-3xl lg:text-5xl font-bold text-fg mb-6">
           Simple, Transparent
-          <span className="bg-gradient-to-r from-blue-400 to-cyan-400 bg-clip-text text-transparent">
+          <span className="bg-gradient-to-r from-highlight to-highlight-alt bg-clip-text text-transparent">
             {" "}
             Pricing
           </span>
         </h2>
-        <p className="text-xl text-white/70 max-w-2xl mx-auto">
+        <p className="text-xl text-fg/70 max-w-2xl mx-auto">
           No hidden fees. No long-term contracts. Scale up or down as your
           business needs change.
         </p>
-      </motion.div>
-
-      <div className="flex justify-center mb-12">
-        <div className="bg-gray-800 rounded-xl p-1 inline-flex">
-          <button
-            onClick={() => setBillingCycle("monthly")}
-            className={`px-6 py-3 rounded-lg font-medium transition-all ${
-              billingCycle === "monthly"
-                ? "bg-blue-600 text-white shadow-lg"
-                : "text-white/70 hover:text-white"
-            }`}
-          >
-            Monthly
-          </button>
-          <button
-            onClick={() => setBillingCycle("annual")}
-            className={`px-6 py-3 rounded-lg font-medium transition-all ${
-              billingCycle === "annual"
-                ? "bg-blue-600 text-white shadow-lg"
-                : "text-white/70 hover:text-white"
-            }`}
-          >
-            Annual (Save 20%)
-          </button>
+      </m.div>
+
+      <div className="flex justify-center mb-10">
+        <div
+          role="group"
+          aria-label="Billing period"
+          className="bg-surface rounded-control p-1 inline-flex"
+        >
+          {BILLING_OPTIONS.map((option) => (
+            <button
+              key={option.cycle}
+              type="button"
+              aria-pressed={billingCycle === option.cycle}
+              onClick={() => changeBillingCycle(option.cycle)}
+              className={`px-6 py-3 rounded-lg font-medium transition-all ${
+                billingCycle === option.cycle
+                  ? "bg-primary text-on-primary shadow-raised"
+                  : "text-fg/70 hover:text-fg"
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
         </div>
+        <p className="sr-only" role="status">
+          Showing {billingCycle} prices
+        </p>
       </div>
 
+      <PriceDisplayControls className="-mt-6 mb-12" />
+
       <div className="grid lg:grid-cols-3 gap-8 max-w-6xl mx-auto">
-        {plans.map((plan, index) => (
-          <motion.div
-            key={plan.name}
+        {PLANS.map((plan, index) => (
+          <m.div
+            key={plan.id}
             initial={{ opacity: 0, y: 30 }}
             whileInView={{ opacity: 1, y: 0 }}
             transition={{ duration: 0.5, delay: index * 0.1 }}
@@ -590,7 +464,7 @@ const Pricing: React.FC = () => {
           >
             {plan.featured && (
               <div className="absolute -top-4 left-1/2 -translate-x-1/2">
-                <div className="bg-gradient-to-r from-blue-500 to-cyan-500 text-white px-6 py-2 rounded-full text-sm font-semibold">
+                <div className="bg-gradient-to-r from-primary to-primary-alt text-on-primary px-6 py-2 rounded-full text-sm font-semibold">
                   Most Popular
                 </div>
               </div>
@@ -598,209 +472,350 @@ const Pricing: React.FC = () => {
 
             <Card
               className={`h-full border-2 ${
-                plan.featured ? "border-blue-500" : "border-gray-700"
+                plan.featured ? "border-accent" : "border-line"
               } relative overflow-hidden`}
             >
               <div className="text-center mb-8">
-                <h3 className="text-2xl font-bold text-white mb-2">
+                <h3 className="text-2xl font-bold text-fg mb-2">
                   {plan.name}
                 </h3>
-                <p className="text-white/60">{plan.description}</p>
+                <p className="text-fg/60">{plan.description}</p>
 
                 <div className="mt-6">
-                  <span className="text-4xl font-bold text-white">
-                    £
-                    {billingCycle === "monthly"
-                      ? plan.monthlyPrice
-                      : plan.annualPrice}
+                  <span className="text-4xl font-bold text-fg">
+                    {format(
+                      billingCycle === "monthly"
+                        ? plan.monthlyPrice
+                        : plan.annualPrice
+                    )}
                   </span>
-                  <span className="text-white/60 ml-2">per vehicle/month</span>
+                  <span className="text-fg/60 ml-2">per vehicle/month</span>
+                  <span className="block text-sm text-fg/50 mt-1">{vatNote}</span>
                 </div>
               </div>
 
               <ul className="space-y-4 mb-8">
-                {plan.features.map((feature) => (
+                {plan.extends && (
+                  <li className="flex items-center gap-3 text-fg/80">
+                    <Check className="h-5 w-5 text-success flex-shrink-0" />
+                    All {getPlan(plan.extends).name} features
+                  </li>
+                )}
+                {plan.highlights.map((feature) => (
                   <li
                     key={feature}
-                    className="flex items-center gap-3 text-white/80"
+                    className="flex items-center gap-3 text-fg/80"
                   >
-                    <Check className="h-5 w-5 text-green-400 flex-shrink-0" />
-                    {feature}
+                    <Check className="h-5 w-5 text-success flex-shrink-0" />
+                    {describeFeature(plan, feature)}
                   </li>
                 ))}
               </ul>
 
               <Button
                 as="a"
-                href="#contact"
+                href={trialHref(plan.id, billingCycle)}
+                trackingId={`pricing-get-started-${plan.id}`}
+                onClick={() =>
+                  track("plan_selected", {
+                    plan: plan.id,
+                    cycle: billingCycle,
+                    source: "pricing",
+                  })
+                }
                 variant={plan.featured ? "primary" : "secondary"}
                 className="w-full"
               >
                 Get Started
+                <span className="sr-only"> with {plan.name}</span>
               </Button>
             </Card>
-          </motion.div>
+          </m.div>
         ))}
       </div>
 
-      <motion.div
+      <PlanComparison billingCycle={billingCycle} />
+
+      <FleetCalculator
+        plans={PLANS}
+        billingCycle={billingCycle}
+        onBillingCycleChange={(cycle) => changeBillingCycle(cycle, "calculator")}
+      />
+
+      <m.div
         initial={{ opacity: 0, y: 20 }}
         whileInView={{ opacity: 1, y: 0 }}
         className="text-center mt-12"
       >
-        <p className="text-white/60">
+        <p className="text-fg/60">
           All plans include UK data hosting, GDPR compliance, and our 14-day
           free trial.
           <br />
           Need a custom solution?{" "}
-          <a
-            href="#contact"
-            className="text-blue-400 hover:text-blue-300 underline"
+          <Link
+            to="/?plan=enterprise#contact"
+            className="text-accent hover:text-accent-hover underline"
           >
             Contact our team
-          </a>
+          </Link>
         </p>
-      </motion.div>
+      </m.div>
     </Container>
   );
 };
 
-const CTA: React.FC = () => (
-  <Container className="py-16 lg:py-24">
-    <motion.div
-      initial={{ opacity: 0, y: 30 }}
-      whileInView={{ opacity: 1, y: 0 }}
-      className="bg-gradient-to-r from-blue-600 to-cyan-600 rounded-3xl p-8 lg:p-12 text-center"
-    >
-      <h2 className="text-3xl lg:text-4xl font-bold text-white mb-6">
-        Ready to Transform Your Fleet Management?
-      </h2>
-      <p className="text-blue-100 text-xl mb-8 max-w-2xl mx-auto">
-        Join hundreds of UK businesses that trust Franstrack for their fleet
-        tracking needs. Start your 14-day free trial today.
-      </p>
-      <div className="flex flex-col sm:flex-row gap-4 justify-center">
-        <Button
-          as="a"
-          href="#pricing"
-          className="bg-white text-blue-600 hover:bg-gray-100 text-lg px-8 py-4"
-        >
-          Start Free Trial
-        </Button>
-        <Button
-          variant="secondary"
-          as="a"
-          href="#demo"
-          className="border-white text-white hover:bg-white/10 text-lg px-8 py-4"
-        >
-          Schedule Demo
-        </Button>
-      </div>
-    </motion.div>
-  </Container>
-);
+const CTA: React.FC = () => {
+  const { value: cta } = useExperiment(CTA_WORDING);
 
-const Footer: React.FC = () => (
-  <footer className="bg-gray-900 border-t border-gray-800">
-    <Container className="py-12 lg:py-16">
-      <div className="grid lg:grid-cols-4 gap-8 lg:gap-12">
-        <div className="lg:col-span-1">
-          <div className="flex items-center gap-3 mb-6">
-            <div className="h-10 w-10 rounded-xl bg-blue-600 grid place-items-center font-bold text-white">
-              F
-            </div>
-            <span className="text-xl font-bold text-white">Franstrack</span>
-          </div>
-          <p className="text-white/60 mb-6 leading-relaxed">
-            Professional GPS tracking and fleet management solutions for UK
-            businesses.
-          </p>
-          <div className="flex gap-4">
-            {[Mail, Phone, Globe].map((Icon, index) => (
+  return (
+    <Container className="py-16 lg:py-24">
+      <m.div
+        initial={{ opacity: 0, y: 30 }}
+        whileInView={{ opacity: 1, y: 0 }}
+        className="bg-gradient-to-r from-primary to-primary-alt rounded-panel p-8 lg:p-12 text-center"
+      >
+        <h2 className="text-3xl lg:text-4xl font-bold text-on-primary mb-6">
+          Ready to Transform Your Fleet Management?
+        </h2>
+        <p className="text-on-primary/80 text-xl mb-8 max-w-2xl mx-auto">
+          Join hundreds of UK businesses that trust Franstrack for their fleet
+          tracking needs. Start your 14-day free trial today.
+        </p>
+        <div className="flex flex-col sm:flex-row gap-4 justify-center">
+          <Button
+            variant="inverse"
+            as="a"
+            href={trialHref()}
+            trackingId="cta-start-trial"
+            className="text-lg px-8 py-4"
+          >
+            {cta.trial}
+          </Button>
+          <Button
+            variant="outline-inverse"
+            as="a"
+            href="/#demo"
+            trackingId="cta-schedule-demo"
+            className="text-lg px-8 py-4"
+          >
+            {cta.demo}
+          </Button>
+        </div>
+      </m.div>
+    </Container>
+  );
+};
+
+const FOOTER_CONTACT_LINKS = [
+  { label: `Email ${COMPANY.email}`, href: `mailto:${COMPANY.email}`, icon: Mail },
+  COMPANY.telephone
+    ? { label: `Call ${COMPANY.telephone}`, href: `tel:${COMPANY.telephone}`, icon: Phone }
+    : { label: "Contact our sales team", href: "/#contact", icon: Phone },
+  { label: "Blog RSS feed", href: RSS_PATH, icon: Rss },
+];
+
+const footerHeadingId = (title: string) =>
+  `footer-${title.toLowerCase().replace(/\W+/g, "-")}`;
+
+const Footer: React.FC = () => {
+  const { openPreferences } = useConsent();
+
+  return (
+    <footer className="bg-canvas border-t border-line-subtle">
+      <Container className="py-12 lg:py-16">
+        <div className="grid sm:grid-cols-2 lg:grid-cols-5 gap-8 lg:gap-12">
+          <div className="lg:col-span-1">
+            <div className="flex items-center gap-3 mb-6">
               <div
-                key={index}
-                className="rounded-lg bg-gray-800 p-2 hover:bg-gray-700 transition-colors cursor-pointer"
+                aria-hidden="true"
+                className="h-10 w-10 rounded-control bg-primary grid place-items-center font-bold text-on-primary"
               >
-                <Icon className="h-5 w-5 text-white/70" />
+                F
               </div>
-            ))}
-          </div>
-        </div>
-
-        {[
-          {
-            title: "Solutions",
-            links: [
-              "Live Tracking",
-              "Fleet Analytics",
-              "Driver Safety",
-              "Fuel Management",
-              "Maintenance",
-            ],
-          },
-          {
-            title: "Company",
-            links: ["About Us", "Customers", "Blog", "Careers", "Contact"],
-          },
-          {
-            title: "Legal",
-            links: ["Privacy Policy", "Terms of Service", "GDPR", "Security", "Compliance"],
-          },
-        ].map((column) => (
-          <div key={column.title}>
-            <h4 className="font-semibold text-white mb-4">{column.title}</h4>
-            <ul className="space-y-3">
-              {column.links.map((link) => (
-                <li key={link}>
+              <span className="text-xl font-bold text-fg">Franstrack</span>
+            </div>
+            <p className="text-fg/60 mb-6 leading-relaxed">
+              Professional GPS tracking and fleet management solutions for UK
+              businesses.
+            </p>
+            <ul className="flex gap-4">
+              {FOOTER_CONTACT_LINKS.map((link) => (
+                <li key={link.href}>
                   <a
-                    href="#"
-                    className="text-white/60 hover:text-white transition-colors text-sm"
+                    href={link.href}
+                    aria-label={link.label}
+                    title={link.label}
+                    className="block rounded-lg bg-surface p-2 hover:bg-surface-muted transition-colors"
                   >
-                    {link}
+                    <link.icon className="h-5 w-5 text-fg/70" aria-hidden="true" />
                   </a>
                 </li>
               ))}
             </ul>
           </div>
-        ))}
-      </div>
 
-      <div className="border-t border-gray-800 mt-12 pt-8 flex flex-col lg:flex-row justify-between items-center gap-4">
-        <div className="text-white/60 text-sm">
-          © {new Date().getFullYear()} Franstrack. All rights reserved.
+          {FOOTER_COLUMNS.map((column) => (
+            <nav key={column.title} aria-labelledby={footerHeadingId(column.title)}>
+              <h2
+                id={footerHeadingId(column.title)}
+                className="font-semibold text-fg mb-4"
+              >
+                {column.title}
+              </h2>
+              <ul className="space-y-3">
+                {column.links.map((link) => (
+                  <li key={link.label}>
+                    <Link
+                      to={link.href}
+                      className="text-fg/60 hover:text-fg transition-colors text-sm"
+                    >
+                      {link.label}
+                    </Link>
+                  </li>
+                ))}
+              </ul>
+            </nav>
+          ))}
         </div>
-        <div className="flex gap-6 text-sm text-white/60">
-          <a href="#privacy" className="hover:text-white transition-colors">
-            Privacy
-          </a>
-          <a href="#terms" className="hover:text-white transition-colors">
-            Terms
-          </a>
-          <a href="#cookies" className="hover:text-white transition-colors">
-            Cookies
-          </a>
+
+        <div className="border-t border-line-subtle mt-12 pt-8 flex flex-col lg:flex-row justify-between items-center gap-4">
+          <div className="flex flex-col sm:flex-row items-center gap-4">
+            <div className="text-fg/60 text-sm">
+              © {new Date().getFullYear()} Franstrack. All rights reserved.
+            </div>
+            <StatusBadge />
+          </div>
+          <nav aria-label="Legal" className="flex gap-6 text-sm text-fg/60">
+            <Link
+              to={ROUTES.privacy.path}
+              className="hover:text-fg transition-colors"
+            >
+              Privacy
+            </Link>
+            <Link
+              to={ROUTES.terms.path}
+              className="hover:text-fg transition-colors"
+            >
+              Terms
+            </Link>
+            <Link
+              to={ROUTES.cookies.path}
+              className="hover:text-fg transition-colors"
+            >
+              Cookies
+            </Link>
+            <button
+              type="button"
+              onClick={openPreferences}
+              className="hover:text-fg transition-colors"
+            >
+              Cookie settings
+            </button>
+          </nav>
         </div>
-      </div>
-    </Container>
-  </footer>
+      </Container>
+    </footer>
+  );
+};
+
+const HomePage: React.FC = () => (
+  <>
+    <Hero />
+    <Stats />
+    <Features />
+    <CustomersSection />
+    <Pricing />
+    <FaqSection />
+    <CTA />
+    <DemoSection />
+    <ContactSection />
+  </>
 );
 
-export default function FranstrackSite() {
+const RouteView: React.FC = () => {
+  const { location } = useRouter();
+  const route = matchRoute(location.path);
+
+  useEffect(() => {
+    applyHead(headForPath(location.path));
+  }, [location.path]);
+
+  switch (route) {
+    case "home":
+      return <HomePage />;
+    case "privacy":
+    case "terms":
+    case "cookies":
+    case "gdpr":
+    case "security":
+      return <LegalPage doc={route} />;
+    case "blog":
+      return <BlogIndexPage />;
+    case "trial":
+      return <TrialPage />;
+    case "help":
+      return <HelpCentrePage />;
+    case "status":
+      return <StatusPage />;
+    case "playback":
+      return <RoutePlaybackPage />;
+    case "geofencing":
+      return <GeofenceSandboxPage />;
+    case "login":
+      return <LoginPage />;
+    default: {
+      const post = findPostByPath(location.path);
+      if (post) return <BlogPostPage post={post} />;
+      const study = findCaseStudyByPath(location.path);
+      if (study) return <CaseStudyPage study={study} />;
+      const solution = findSolutionByPath(location.path);
+      if (solution) return <SolutionPage solution={solution} />;
+      const article = findHelpArticleByPath(location.path);
+      if (article) return <HelpArticlePage article={article} />;
+      return <NotFoundPage />;
+    }
+  }
+};
+
+const MAIN_ID = "main-content";
+
+export default function FranstrackSite({
+  initialPath,
+}: {
+  initialPath?: string;
+}) {
   return (
-    <div className="min-h-screen bg-gray-900 text-white">
-      <JsonLD />
-      <Nav />
-
-      <main>
-        <Hero />
-        <Stats />
-        <Features />
-        <Pricing />
-        <CTA />
-      </main>
-
-      <Footer />
-      <CookieBanner />
-    </div>
+    <Router initialPath={initialPath}>
+      <ConsentProvider>
+        <ThemeProvider>
+          <MoneyProvider>
+            <StatusProvider>
+              <AnalyticsProvider>
+                <MotionPolicy>
+                  <div className="min-h-screen bg-canvas text-fg">
+                    <JsonLD />
+                    <a
+                      href={`#${MAIN_ID}`}
+                      className="sr-only focus:not-sr-only focus:fixed focus:top-4 focus:left-4 focus:z-[100] focus:rounded-control focus:bg-primary focus:px-4 focus:py-2 focus:text-on-primary focus:shadow-overlay"
+                    >
+                      Skip to main content
+                    </a>
+                    <Nav />
+
+                    <main id={MAIN_ID} tabIndex={-1} className="focus:outline-none">
+                      <RouteView />
+                    </main>
+
+                    <Footer />
+                    <ChatWidget />
+                    <CookieBanner />
+                  </div>
+                </MotionPolicy>
+              </AnalyticsProvider>
+            </StatusProvider>
+          </MoneyProvider>
+        </ThemeProvider>
+      </ConsentProvider>
+    </Router>
   );
 }
@@ -0,0 +1,29 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useConsent } from "../consent/useConsent";
+import { AnalyticsContext } from "./context";
+import { createTracker, type Tracker } from "./tracker";
+
+// ===== Analytics Provider =====
+/** Feeds the cookie banner's analytics choice to the tracker as it changes. */
+export const AnalyticsProvider: React.FC<{
+  tracker?: Tracker;
+  children: React.ReactNode;
+}> = ({ tracker: provided, children }) => {
+  const [tracker] = useState(() => provided ?? createTracker());
+  const { ready, decided, isAllowed } = useConsent();
+  const allowed = isAllowed("analytics");
+
+  useEffect(() => {
+    if (!ready) return;
+    tracker.setConsent(!decided ? "pending" : allowed ? "granted" : "denied");
+  }, [tracker, ready, decided, allowed]);
+
+  const value = useMemo(
+    () => ({ track: tracker.track, expose: tracker.expose }),
+    [tracker]
+  );
+
+  return (
+    <AnalyticsContext.Provider value={value}>{children}</AnalyticsContext.Provider>
+  );
+};
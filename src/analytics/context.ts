@@ -0,0 +1,9 @@
+import { createContext } from "react";
+import type { Tracker } from "./tracker";
+
+export interface AnalyticsContextValue {
+  track: Tracker["track"];
+  expose: Tracker["expose"];
+}
+
+export const AnalyticsContext = createContext<AnalyticsContextValue | null>(null);
@@ -0,0 +1,44 @@
+import type { PlanId } from "../pricing/catalog";
+import type { BillingCycle } from "../pricing/calculator";
+import type { HelpDocumentKind } from "../help/search";
+import type { HandoffTarget } from "../chat/script";
+import type { TripFormat } from "../playback/trip";
+import type { FenceShape } from "../geofence/fences";
+import type { FenceKind } from "../geofence/rules";
+
+// ===== Analytics Events =====
+// Every event the site may send, with its properties. Keep properties free of
+// anything that identifies a visitor: no names, emails or free text.
+export interface AnalyticsEventMap {
+  /** A `Button` or link carrying a tracking ID was activated. */
+  cta_click: { id: string; href?: string };
+  pricing_toggle: { cycle: BillingCycle; source: "pricing" | "calculator" };
+  plan_selected: { plan: PlanId; cycle: BillingCycle; source: string };
+  form_submitted: { form: "contact" | "demo" | "trial"; plan?: PlanId };
+  /** A tracked section first scrolled into view. */
+  section_viewed: { section: string };
+  /** A visitor was shown a variant of an A/B experiment. */
+  experiment_exposure: { experiment: string; variant: string };
+  /** "Was this helpful?" answered on a help centre FAQ or article. */
+  help_feedback: { kind: HelpDocumentKind; id: string; helpful: boolean };
+  /** The support chat passed its transcript to a form; `node` is where it left the script. */
+  chat_handoff: { target: HandoffTarget; node: string };
+  /** A trip was picked in the route playback demo; file contents are never sent. */
+  playback_loaded: { source: "sample" | TripFormat };
+  /** A fence was drawn in the geofence sandbox; its coordinates are never sent. */
+  geofence_drawn: { shape: FenceShape["type"]; kind: FenceKind };
+}
+
+export type AnalyticsEventName = keyof AnalyticsEventMap;
+
+export type AnalyticsEvent = {
+  [K in AnalyticsEventName]: {
+    name: K;
+    props: AnalyticsEventMap[K];
+    /** Page the event happened on, without query or hash. */
+    path: string;
+    timestamp: string;
+    /** Variants this visitor has been exposed to, so conversions can be split by them. */
+    experiments: Record<string, string>;
+  };
+}[AnalyticsEventName];
@@ -0,0 +1,52 @@
+import { isBrowser } from "../lib/utils";
+import type { AnalyticsEvent } from "./events";
+
+// ===== Analytics Sinks =====
+export interface AnalyticsSink {
+  send: (events: AnalyticsEvent[]) => void;
+}
+
+export const createConsoleSink = (): AnalyticsSink => ({
+  send(events) {
+    for (const event of events) {
+      console.info(`[analytics] ${event.name}`, event.props);
+    }
+  },
+});
+
+/** Posts batches as JSON, surviving page unloads where `sendBeacon` exists. */
+export const createBeaconSink = (endpoint: string): AnalyticsSink => ({
+  send(events) {
+    if (!isBrowser || !events.length) return;
+    const body = JSON.stringify({ events });
+    const blob = new Blob([body], { type: "application/json" });
+    if (navigator.sendBeacon?.(endpoint, blob)) return;
+    fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+      keepalive: true,
+    }).catch(() => {
+      // Analytics is best-effort; never surface delivery failures to visitors.
+    });
+  },
+});
+
+/** Collects events in memory so tests and tools can inspect what was sent. */
+export const createMemorySink = (): AnalyticsSink & {
+  events: AnalyticsEvent[];
+  clear: () => void;
+} => {
+  const events: AnalyticsEvent[] = [];
+  return {
+    events,
+    send: (batch) => void events.push(...batch),
+    clear: () => void events.splice(0),
+  };
+};
+
+export const getDefaultSinks = (): AnalyticsSink[] => {
+  const endpoint = import.meta.env.VITE_ANALYTICS_ENDPOINT;
+  if (endpoint) return [createBeaconSink(endpoint)];
+  return import.meta.env.DEV ? [createConsoleSink()] : [];
+};
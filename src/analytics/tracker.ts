@@ -0,0 +1,81 @@
+import { isBrowser } from "../lib/utils";
+import type {
+  AnalyticsEvent,
+  AnalyticsEventMap,
+  AnalyticsEventName,
+} from "./events";
+import { getDefaultSinks, type AnalyticsSink } from "./sinks";
+
+// ===== Analytics Tracker =====
+// Events wait in a queue until the visitor's analytics consent is known. A
+// grant flushes the queue to every sink; a refusal discards it, and anything
+// tracked afterwards is dropped on the spot.
+export type AnalyticsConsent = "pending" | "granted" | "denied";
+
+/** Stops a visitor who never answers the banner from growing the queue forever. */
+export const MAX_QUEUED_EVENTS = 100;
+
+export interface TrackerOptions {
+  sinks?: AnalyticsSink[];
+  maxQueued?: number;
+}
+
+export const createTracker = ({
+  sinks = getDefaultSinks(),
+  maxQueued = MAX_QUEUED_EVENTS,
+}: TrackerOptions = {}) => {
+  let consent: AnalyticsConsent = "pending";
+  let queue: AnalyticsEvent[] = [];
+  let experiments: Record<string, string> = {};
+
+  const dispatch = (events: AnalyticsEvent[]) => {
+    if (!events.length) return;
+    for (const sink of sinks) {
+      try {
+        sink.send(events);
+      } catch {
+        // One failing sink must not stop the others or break the page.
+      }
+    }
+  };
+
+  const track = <K extends AnalyticsEventName>(
+    name: K,
+    props: AnalyticsEventMap[K]
+  ) => {
+    if (consent === "denied") return;
+    const event = {
+      name,
+      props,
+      path: isBrowser ? window.location.pathname : "",
+      timestamp: new Date().toISOString(),
+      experiments,
+    } as AnalyticsEvent;
+    if (consent === "granted") {
+      dispatch([event]);
+    } else if (queue.length < maxQueued) {
+      queue.push(event);
+    }
+  };
+
+  return {
+    consent: () => consent,
+    queued: () => queue.length,
+    track,
+    /** Records the variant shown; later events carry it. Repeats are ignored. */
+    expose(experiment: string, variant: string) {
+      if (experiments[experiment] === variant) return;
+      experiments = { ...experiments, [experiment]: variant };
+      track("experiment_exposure", { experiment, variant });
+    },
+    setConsent(next: AnalyticsConsent) {
+      consent = next;
+      if (next === "pending") return;
+      const pending = queue;
+      queue = [];
+      if (next === "granted") dispatch(pending);
+    },
+  };
+};
+
+export type Tracker = ReturnType<typeof createTracker>;
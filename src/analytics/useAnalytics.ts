@@ -0,0 +1,33 @@
+import { useContext, useEffect, useRef } from "react";
+import { AnalyticsContext } from "./context";
+
+export const useAnalytics = () => {
+  const ctx = useContext(AnalyticsContext);
+  if (!ctx) throw new Error("useAnalytics must be used inside <AnalyticsProvider>");
+  return ctx;
+};
+
+/** Reports `section_viewed` the first time the element behind `ref` scrolls into view. */
+export const useSectionViewed = <T extends Element>(section?: string) => {
+  const ref = useRef<T>(null);
+  const { track } = useAnalytics();
+
+  useEffect(() => {
+    const el = ref.current;
+    if (!section || !el || !("IntersectionObserver" in window)) return;
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (!entry.isIntersecting) return;
+        track("section_viewed", { section });
+        observer.disconnect();
+      },
+      // A share-of-section threshold never fires for sections taller than the
+      // viewport allows, so count any part reaching the top three quarters.
+      { rootMargin: "0px 0px -25% 0px" }
+    );
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [section, track]);
+
+  return ref;
+};
@@ -0,0 +1,31 @@
+import { createMockAuthProvider } from "./mockProvider";
+import { AuthError, type AuthProvider } from "./provider";
+
+// ===== Auth Configuration =====
+export const PORTAL_URL =
+  import.meta.env.VITE_PORTAL_URL ?? "https://app.franstrack.co.uk";
+
+export const REMEMBERED_EMAIL_KEY = "ft_login_email";
+
+/** Used when no sign-in service is configured; every request fails politely. */
+export const createUnavailableAuthProvider = (portalUrl = PORTAL_URL): AuthProvider => {
+  const unavailable = async (): Promise<never> => {
+    throw new AuthError(
+      "unavailable",
+      `Sign-in isn't available here right now. Please sign in at ${portalUrl}.`
+    );
+  };
+  return {
+    signInWithPassword: unavailable,
+    sendMagicLink: unavailable,
+    verifyMfa: unavailable,
+    requestPasswordReset: unavailable,
+  };
+};
+
+// The mock's demo accounts only reach a bundle built for development or with
+// VITE_AUTH_MOCK=true, so production builds never ship them.
+export const getDefaultAuthProvider = (): AuthProvider =>
+  import.meta.env.DEV || import.meta.env.VITE_AUTH_MOCK === "true"
+    ? createMockAuthProvider()
+    : createUnavailableAuthProvider();
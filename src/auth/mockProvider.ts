@@ -0,0 +1,108 @@
+import { AuthError, type AuthProvider, type AuthResult } from "./provider";
+
+// ===== Mock Auth Provider =====
+export interface MockUser {
+  email: string;
+  password: string;
+  /** When set, sign-in requires this one-time code as a second step. */
+  mfaCode?: string;
+}
+
+export const MOCK_USERS: MockUser[] = [
+  { email: "demo@franstrack.co.uk", password: "fleet-demo" },
+  { email: "mfa@franstrack.co.uk", password: "fleet-demo", mfaCode: "123456" },
+];
+
+export interface MockAuthOptions {
+  users?: MockUser[];
+  /** Failed attempts allowed per email within `windowSeconds`. */
+  maxAttempts?: number;
+  windowSeconds?: number;
+  latencyMs?: number;
+  now?: () => number;
+}
+
+/** In-memory provider for local development; never ship real credentials here. */
+export const createMockAuthProvider = ({
+  users = MOCK_USERS,
+  maxAttempts = 5,
+  windowSeconds = 60,
+  latencyMs = 400,
+  now = Date.now,
+}: MockAuthOptions = {}): AuthProvider => {
+  const failures = new Map<string, number[]>();
+  const challenges = new Map<string, MockUser>();
+
+  const delay = () => new Promise((resolve) => setTimeout(resolve, latencyMs));
+  const key = (email: string) => email.trim().toLowerCase();
+
+  const guard = (email: string) => {
+    const windowStart = now() - windowSeconds * 1000;
+    const recent = (failures.get(key(email)) ?? []).filter((t) => t > windowStart);
+    failures.set(key(email), recent);
+    if (recent.length >= maxAttempts) {
+      const retryAfter = Math.ceil((recent[0] + windowSeconds * 1000 - now()) / 1000);
+      throw new AuthError(
+        "rate_limited",
+        "Too many attempts. Please wait before trying again.",
+        Math.max(1, retryAfter)
+      );
+    }
+  };
+
+  const fail = (email: string) => {
+    failures.set(key(email), [...(failures.get(key(email)) ?? []), now()]);
+  };
+
+  const authenticated = (email: string): AuthResult => ({
+    status: "authenticated",
+    session: {
+      token: `mock-${Math.random().toString(36).slice(2)}`,
+      email,
+      expiresAt: new Date(now() + 3600 * 1000).toISOString(),
+    },
+  });
+
+  return {
+    async signInWithPassword({ email, password }) {
+      await delay();
+      guard(email);
+      const user = users.find((u) => key(u.email) === key(email));
+      if (!user || user.password !== password) {
+        fail(email);
+        throw new AuthError(
+          "invalid_credentials",
+          "That email and password don't match our records."
+        );
+      }
+      if (user.mfaCode) {
+        const challengeId = `challenge-${Math.random().toString(36).slice(2)}`;
+        challenges.set(challengeId, user);
+        return { status: "mfa_required", challengeId, method: "totp" };
+      }
+      return authenticated(user.email);
+    },
+    async sendMagicLink(email) {
+      await delay();
+      guard(email);
+    },
+    async verifyMfa(challengeId, code) {
+      await delay();
+      const user = challenges.get(challengeId);
+      if (!user) {
+        throw new AuthError("invalid_code", "This sign-in has expired. Please start again.");
+      }
+      guard(user.email);
+      if (code !== user.mfaCode) {
+        fail(user.email);
+        throw new AuthError("invalid_code", "That code isn't right. Please try again.");
+      }
+      challenges.delete(challengeId);
+      return authenticated(user.email);
+    },
+    async requestPasswordReset(email) {
+      await delay();
+      guard(email);
+    },
+  };
+};
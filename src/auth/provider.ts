@@ -0,0 +1,43 @@
+// ===== Auth Provider =====
+// The marketing site only hosts the sign-in shell; the provider decides how
+// credentials are checked. Swap the mock for a real implementation in config.
+
+export interface AuthSession {
+  token: string;
+  email: string;
+  expiresAt: string;
+}
+
+export type AuthResult =
+  | { status: "authenticated"; session: AuthSession }
+  | { status: "mfa_required"; challengeId: string; method: "totp" | "sms" };
+
+export type AuthErrorCode =
+  | "invalid_credentials"
+  | "invalid_code"
+  | "rate_limited"
+  | "network"
+  | "unavailable";
+
+export class AuthError extends Error {
+  readonly code: AuthErrorCode;
+  /** Set for `rate_limited`: how long until another attempt is allowed. */
+  readonly retryAfterSeconds?: number;
+
+  constructor(code: AuthErrorCode, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = "AuthError";
+    this.code = code;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export interface AuthProvider {
+  signInWithPassword: (credentials: {
+    email: string;
+    password: string;
+  }) => Promise<AuthResult>;
+  sendMagicLink: (email: string) => Promise<void>;
+  verifyMfa: (challengeId: string, code: string) => Promise<AuthResult>;
+  requestPasswordReset: (email: string) => Promise<void>;
+}
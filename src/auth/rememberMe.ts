@@ -0,0 +1,23 @@
+import { isBrowser } from "../lib/utils";
+import { REMEMBERED_EMAIL_KEY } from "./config";
+
+// ===== Remember Me =====
+// Only called when the visitor has allowed functional storage.
+export const readRememberedEmail = (): string => {
+  if (!isBrowser) return "";
+  try {
+    return localStorage.getItem(REMEMBERED_EMAIL_KEY) ?? "";
+  } catch {
+    return "";
+  }
+};
+
+export const writeRememberedEmail = (email: string | null) => {
+  if (!isBrowser) return;
+  try {
+    if (email) localStorage.setItem(REMEMBERED_EMAIL_KEY, email);
+    else localStorage.removeItem(REMEMBERED_EMAIL_KEY);
+  } catch {
+    // Storage unavailable; nothing to remember.
+  }
+};
@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, Rss } from "lucide-react";
+import { m } from "framer-motion";
+import { Container } from "../components/ui";
+import { cx } from "../lib/utils";
+import { Link } from "../router/Link";
+import { useRouter } from "../router/useRouter";
+import { RSS_PATH } from "./feeds";
+import {
+  BLOG_PARAMS,
+  BLOG_TAGS,
+  POSTS,
+  blogIndexHref,
+  formatPostDate,
+  formatTag,
+  paginatePosts,
+  postPath,
+  type BlogPost,
+} from "./posts";
+
+const PostCard: React.FC<{ post: BlogPost }> = ({ post }) => (
+  <article className="h-full rounded-card bg-surface shadow-raised hover:shadow-raised-hover transition-shadow duration-300 border border-line overflow-hidden flex flex-col">
+    <img
+      src={post.hero.src}
+      alt={post.hero.alt}
+      loading="lazy"
+      className="aspect-[1200/630] w-full object-cover bg-canvas"
+    />
+    <div className="p-6 flex flex-col flex-1">
+      <div className="flex flex-wrap gap-2 mb-4">
+        {post.tags.map((tag) => (
+          <span
+            key={tag}
+            className="rounded-full bg-accent/10 px-3 py-1 text-xs text-accent-hover"
+          >
+            {formatTag(tag)}
+          </span>
+        ))}
+      </div>
+      <h2 className="text-xl font-bold text-fg mb-3">
+        <Link to={postPath(post.slug)} className="hover:text-accent-hover">
+          {post.title}
+        </Link>
+      </h2>
+      <p className="text-fg/70 mb-6 flex-1">{post.summary}</p>
+      <p className="text-sm text-fg/50">
+        <time dateTime={post.date}>{formatPostDate(post.date)}</time> ·{" "}
+        {post.readingMinutes} min read
+      </p>
+    </div>
+  </article>
+);
+
+// ===== Blog Index =====
+export const BlogIndexPage: React.FC = () => {
+  const { location } = useRouter();
+  // The prerendered page is the unfiltered first page; apply the query once
+  // mounted so hydration sees the same markup.
+  const [mounted, setMounted] = useState(false);
+  useEffect(() => setMounted(true), []);
+
+  const query = new URLSearchParams(mounted ? location.search : "");
+  const tagParam = query.get(BLOG_PARAMS.tag);
+  const tag = tagParam && BLOG_TAGS.includes(tagParam) ? tagParam : null;
+  const { posts, page, pageCount, total } = paginatePosts(POSTS, {
+    tag,
+    page: Number(query.get(BLOG_PARAMS.page) ?? 1),
+  });
+
+  const chip = (active: boolean) =>
+    cx(
+      "rounded-full px-4 py-2 text-sm border transition-colors",
+      active
+        ? "border-accent bg-primary text-on-primary"
+        : "border-line text-fg/70 hover:text-fg hover:border-line-strong"
+    );
+
+  return (
+    <Container className="pt-32 pb-16 lg:pb-28">
+      <m.div
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="text-center mb-12"
+      >
+        <h1 className="text-4xl lg:text-5xl font-bold text-fg mb-6">
+          Fleet
+          <span className="bg-gradient-to-r from-highlight to-highlight-alt bg-clip-text text-transparent">
+            {" "}
+            Insights
+          </span>
+        </h1>
+        <p className="text-xl text-fg/70 max-w-2xl mx-auto">
+          Compliance guides, tachograph rules and practical advice for UK fleet
+          managers.
+        </p>
+        <a
+          href={RSS_PATH}
+          className="mt-6 inline-flex items-center gap-2 text-sm text-accent hover:text-accent-hover"
+        >
+          <Rss className="h-4 w-4" aria-hidden="true" />
+          Subscribe via RSS
+        </a>
+      </m.div>
+
+      <nav aria-label="Filter posts by topic" className="mb-12">
+        <ul className="flex flex-wrap justify-center gap-2">
+          <li>
+            <Link
+              to={blogIndexHref({ tag: null, page: 1 })}
+              aria-current={tag === null ? "page" : undefined}
+              className={chip(tag === null)}
+            >
+              All posts
+            </Link>
+          </li>
+          {BLOG_TAGS.map((t) => (
+            <li key={t}>
+              <Link
+                to={blogIndexHref({ tag: t, page: 1 })}
+                aria-current={tag === t ? "page" : undefined}
+                className={chip(tag === t)}
+              >
+                {formatTag(t)}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </nav>
+
+      <p className="sr-only" role="status">
+        {tag
+          ? `${total} posts tagged ${formatTag(tag)}, page ${page} of ${pageCount}`
+          : `${total} posts, page ${page} of ${pageCount}`}
+      </p>
+
+      <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+        {posts.map((post) => (
+          <PostCard key={post.slug} post={post} />
+        ))}
+      </div>
+
+      {pageCount > 1 && (
+        <nav aria-label="Pagination" className="mt-12 flex justify-center">
+          <ul className="flex items-center gap-2">
+            <li>
+              {page > 1 ? (
+                <Link
+                  to={blogIndexHref({ tag, page: page - 1 })}
+                  className="flex items-center gap-1 rounded-control px-3 py-2 text-sm text-fg/70 hover:text-fg hover:bg-surface"
+                >
+                  <ChevronLeft className="h-4 w-4" aria-hidden="true" />
+                  Newer
+                </Link>
+              ) : null}
+            </li>
+            {Array.from({ length: pageCount }, (_, i) => i + 1).map((n) => (
+              <li key={n}>
+                <Link
+                  to={blogIndexHref({ tag, page: n })}
+                  aria-label={`Page ${n}`}
+                  aria-current={n === page ? "page" : undefined}
+                  className={cx(
+                    "grid h-10 w-10 place-items-center rounded-control text-sm",
+                    n === page
+                      ? "bg-primary text-on-primary"
+                      : "text-fg/70 hover:text-fg hover:bg-surface"
+                  )}
+                >
+                  {n}
+                </Link>
+              </li>
+            ))}
+            <li>
+              {page < pageCount ? (
+                <Link
+                  to={blogIndexHref({ tag, page: page + 1 })}
+                  className="flex items-center gap-1 rounded-control px-3 py-2 text-sm text-fg/70 hover:text-fg hover:bg-surface"
+                >
+                  Older
+                  <ChevronRight className="h-4 w-4" aria-hidden="true" />
+                </Link>
+              ) : null}
+            </li>
+          </ul>
+        </nav>
+      )}
+    </Container>
+  );
+};
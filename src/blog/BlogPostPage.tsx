@@ -0,0 +1,89 @@
+import React from "react";
+import { ArrowLeft } from "lucide-react";
+import { Container } from "../components/ui";
+import { Link } from "../router/Link";
+import { PostBody } from "./PostBody";
+import {
+  BLOG_PATH,
+  blogIndexHref,
+  formatPostDate,
+  formatTag,
+  type BlogPost,
+} from "./posts";
+
+// ===== Blog Post =====
+export const BlogPostPage: React.FC<{ post: BlogPost }> = ({ post }) => (
+  <Container className="pt-32 pb-16 lg:pb-28">
+    <div className="grid lg:grid-cols-4 gap-12">
+      <aside className="lg:col-span-1 lg:order-last">
+        {post.toc.length > 0 && (
+          <nav aria-label="Table of contents" className="lg:sticky lg:top-28">
+            <p className="text-xs uppercase tracking-wider text-fg/50 mb-4">
+              On this page
+            </p>
+            <ul className="space-y-2 text-sm">
+              {post.toc.map((entry) => (
+                <li key={entry.id} className={entry.level === 3 ? "pl-4" : undefined}>
+                  <Link
+                    to={`#${entry.id}`}
+                    className="text-fg/60 hover:text-fg transition-colors"
+                  >
+                    {entry.text}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </nav>
+        )}
+      </aside>
+
+      <article className="lg:col-span-3 max-w-3xl">
+        <Link
+          to={BLOG_PATH}
+          className="inline-flex items-center gap-2 text-sm text-accent hover:text-accent-hover mb-8"
+        >
+          <ArrowLeft className="h-4 w-4" aria-hidden="true" />
+          All posts
+        </Link>
+
+        <ul className="flex flex-wrap gap-2 mb-4" aria-label="Topics">
+          {post.tags.map((tag) => (
+            <li key={tag}>
+              <Link
+                to={blogIndexHref({ tag, page: 1 })}
+                className="rounded-full bg-accent/10 px-3 py-1 text-xs text-accent-hover hover:bg-accent/20"
+              >
+                {formatTag(tag)}
+              </Link>
+            </li>
+          ))}
+        </ul>
+
+        <h1 className="text-4xl lg:text-5xl font-bold text-fg mb-4">
+          {post.title}
+        </h1>
+        <p className="text-xl text-fg/70">{post.summary}</p>
+        <p className="text-sm text-fg/50 mt-4">
+          {post.author} ·{" "}
+          <time dateTime={post.date}>{formatPostDate(post.date)}</time> ·{" "}
+          {post.readingMinutes} min read
+          {post.updated && (
+            <>
+              {" "}
+              · Updated{" "}
+              <time dateTime={post.updated}>{formatPostDate(post.updated)}</time>
+            </>
+          )}
+        </p>
+
+        <img
+          src={post.hero.src}
+          alt={post.hero.alt}
+          className="mt-10 mb-10 aspect-[1200/630] w-full rounded-card border border-line-subtle object-cover bg-surface"
+        />
+
+        <PostBody blocks={post.blocks} />
+      </article>
+    </div>
+  </Container>
+);
@@ -0,0 +1,128 @@
+import React from "react";
+import { Link } from "../router/Link";
+import { isInternalHref } from "../router/location";
+import type { Block, Inline } from "./markdown";
+
+// ===== Markdown Rendering =====
+const InlineNodes: React.FC<{ nodes: Inline[] }> = ({ nodes }) => (
+  <>
+    {nodes.map((node, index) => {
+      switch (node.type) {
+        case "text":
+          return <React.Fragment key={index}>{node.value}</React.Fragment>;
+        case "code":
+          return (
+            <code
+              key={index}
+              className="rounded bg-surface px-1.5 py-0.5 text-[0.9em] text-highlight-alt"
+            >
+              {node.value}
+            </code>
+          );
+        case "strong":
+          return (
+            <strong key={index} className="font-semibold text-fg">
+              <InlineNodes nodes={node.children} />
+            </strong>
+          );
+        case "em":
+          return (
+            <em key={index}>
+              <InlineNodes nodes={node.children} />
+            </em>
+          );
+        case "link": {
+          const className = "text-accent hover:text-accent-hover underline";
+          return isInternalHref(node.href) || node.href.startsWith("#") ? (
+            <Link key={index} to={node.href} className={className}>
+              <InlineNodes nodes={node.children} />
+            </Link>
+          ) : (
+            <a
+              key={index}
+              href={node.href}
+              rel="noopener noreferrer"
+              className={className}
+            >
+              <InlineNodes nodes={node.children} />
+            </a>
+          );
+        }
+      }
+    })}
+  </>
+);
+
+const HEADING_CLASSES = {
+  2: "text-2xl font-semibold text-fg mt-12 mb-4",
+  3: "text-xl font-semibold text-fg mt-8 mb-3",
+  4: "text-lg font-semibold text-fg mt-6 mb-2",
+} as const;
+
+export const PostBody: React.FC<{ blocks: Block[] }> = ({ blocks }) => (
+  <div className="text-fg/70 leading-relaxed space-y-5">
+    {blocks.map((block, index) => {
+      switch (block.type) {
+        case "heading": {
+          const Tag = `h${block.level}` as const;
+          return (
+            <Tag key={index} id={block.id} className={HEADING_CLASSES[block.level]}>
+              <InlineNodes nodes={block.children} />
+            </Tag>
+          );
+        }
+        case "paragraph":
+          return (
+            <p key={index}>
+              <InlineNodes nodes={block.children} />
+            </p>
+          );
+        case "list": {
+          const Tag = block.ordered ? "ol" : "ul";
+          return (
+            <Tag
+              key={index}
+              className={`${block.ordered ? "list-decimal" : "list-disc"} pl-6 space-y-2 marker:text-accent`}
+            >
+              {block.items.map((item, itemIndex) => (
+                <li key={itemIndex}>
+                  <InlineNodes nodes={item} />
+                </li>
+              ))}
+            </Tag>
+          );
+        }
+        case "quote":
+          return (
+            <blockquote
+              key={index}
+              className="border-l-4 border-accent pl-4 italic text-fg/80"
+            >
+              <InlineNodes nodes={block.children} />
+            </blockquote>
+          );
+        case "code":
+          return (
+            <pre
+              key={index}
+              className="overflow-x-auto rounded-control bg-canvas-sunken border border-line-subtle p-4 text-sm"
+            >
+              <code data-language={block.language || undefined}>{block.value}</code>
+            </pre>
+          );
+        case "image":
+          return (
+            <img
+              key={index}
+              src={block.src}
+              alt={block.alt}
+              loading="lazy"
+              className="w-full rounded-card border border-line-subtle"
+            />
+          );
+        case "rule":
+          return <hr key={index} className="border-line-subtle my-10" />;
+      }
+    })}
+  </div>
+);
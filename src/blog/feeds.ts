@@ -0,0 +1,89 @@
+import { SITE_NAME, SITE_URL, absoluteUrl } from "../seo/site";
+import { BLOG_PATH, postPath, type BlogPostMeta } from "./posts";
+
+// ===== Feeds =====
+// RSS 2.0 and Atom 1.0, written to dist/blog at build time.
+
+export const RSS_PATH = `${BLOG_PATH}/rss.xml`;
+export const ATOM_PATH = `${BLOG_PATH}/atom.xml`;
+
+const FEED_TITLE = `${SITE_NAME} Blog`;
+const FEED_DESCRIPTION =
+  "Fleet compliance, tachograph rules and practical advice for UK fleet managers.";
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+/** Posts are dated in UK time; publish them at 09:00 UTC on the day. */
+const toDate = (isoDate: string) => new Date(`${isoDate}T09:00:00Z`);
+
+const latest = (posts: BlogPostMeta[]) =>
+  posts.reduce(
+    (max, post) => ((post.updated ?? post.date) > max ? (post.updated ?? post.date) : max),
+    posts[0]?.date ?? "1970-01-01"
+  );
+
+export const buildRssFeed = (posts: BlogPostMeta[]) =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    "  <channel>",
+    `    <title>${escapeXml(FEED_TITLE)}</title>`,
+    `    <link>${absoluteUrl(BLOG_PATH)}</link>`,
+    `    <description>${escapeXml(FEED_DESCRIPTION)}</description>`,
+    "    <language>en-GB</language>",
+    `    <lastBuildDate>${toDate(latest(posts)).toUTCString()}</lastBuildDate>`,
+    `    <atom:link href="${absoluteUrl(RSS_PATH)}" rel="self" type="application/rss+xml" />`,
+    ...posts.flatMap((post) => {
+      const url = absoluteUrl(postPath(post.slug));
+      return [
+        "    <item>",
+        `      <title>${escapeXml(post.title)}</title>`,
+        `      <link>${url}</link>`,
+        `      <guid isPermaLink="true">${url}</guid>`,
+        `      <pubDate>${toDate(post.date).toUTCString()}</pubDate>`,
+        `      <dc:creator>${escapeXml(post.author)}</dc:creator>`,
+        `      <description>${escapeXml(post.summary)}</description>`,
+        ...post.tags.map((tag) => `      <category>${escapeXml(tag)}</category>`),
+        "    </item>",
+      ];
+    }),
+    "  </channel>",
+    "</rss>",
+    "",
+  ].join("\n");
+
+export const buildAtomFeed = (posts: BlogPostMeta[]) =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="en-GB">',
+    `  <title>${escapeXml(FEED_TITLE)}</title>`,
+    `  <subtitle>${escapeXml(FEED_DESCRIPTION)}</subtitle>`,
+    `  <id>${absoluteUrl(BLOG_PATH)}</id>`,
+    `  <link href="${absoluteUrl(BLOG_PATH)}" />`,
+    `  <link href="${absoluteUrl(ATOM_PATH)}" rel="self" type="application/atom+xml" />`,
+    `  <updated>${toDate(latest(posts)).toISOString()}</updated>`,
+    `  <author><name>${escapeXml(SITE_NAME)}</name><uri>${SITE_URL}/</uri></author>`,
+    ...posts.flatMap((post) => {
+      const url = absoluteUrl(postPath(post.slug));
+      return [
+        "  <entry>",
+        `    <title>${escapeXml(post.title)}</title>`,
+        `    <link href="${url}" />`,
+        `    <id>${url}</id>`,
+        `    <published>${toDate(post.date).toISOString()}</published>`,
+        `    <updated>${toDate(post.updated ?? post.date).toISOString()}</updated>`,
+        `    <author><name>${escapeXml(post.author)}</name></author>`,
+        `    <summary>${escapeXml(post.summary)}</summary>`,
+        ...post.tags.map((tag) => `    <category term="${escapeXml(tag)}" />`),
+        "  </entry>",
+      ];
+    }),
+    "</feed>",
+    "",
+  ].join("\n");
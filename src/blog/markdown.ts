@@ -0,0 +1,232 @@
+// ===== Markdown =====
+// A small parser for the subset of Markdown our posts use: headings,
+// paragraphs, lists, block quotes, fenced code, images, rules, and inline
+// strong/emphasis/code/links. Output is a tree React renders directly, so no
+// HTML strings ever reach the page.
+
+export type Inline =
+  | { type: "text"; value: string }
+  | { type: "code"; value: string }
+  | { type: "strong"; children: Inline[] }
+  | { type: "em"; children: Inline[] }
+  | { type: "link"; href: string; children: Inline[] };
+
+export type Block =
+  | { type: "heading"; level: 2 | 3 | 4; id: string; children: Inline[] }
+  | { type: "paragraph"; children: Inline[] }
+  | { type: "list"; ordered: boolean; items: Inline[][] }
+  | { type: "quote"; children: Inline[] }
+  | { type: "code"; language: string; value: string }
+  | { type: "image"; src: string; alt: string }
+  | { type: "rule" };
+
+export interface FrontMatter {
+  data: Record<string, string | string[]>;
+  body: string;
+}
+
+export class MarkdownError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MarkdownError";
+  }
+}
+
+// ===== Front Matter =====
+const FRONT_MATTER_RE = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/;
+
+const unquote = (value: string) =>
+  /^(["']).*\1$/.test(value) ? value.slice(1, -1) : value;
+
+/** Reads a `---` block of `key: value` lines; `[a, b]` values become arrays. */
+export const parseFrontMatter = (source: string): FrontMatter => {
+  const match = FRONT_MATTER_RE.exec(source);
+  if (!match) return { data: {}, body: source };
+  const data: FrontMatter["data"] = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    if (!line.trim() || line.trimStart().startsWith("#")) continue;
+    const colon = line.indexOf(":");
+    if (colon < 1) throw new MarkdownError(`Invalid front matter line: "${line}"`);
+    const key = line.slice(0, colon).trim();
+    const value = line.slice(colon + 1).trim();
+    data[key] =
+      value.startsWith("[") && value.endsWith("]")
+        ? value
+            .slice(1, -1)
+            .split(",")
+            .map((item) => unquote(item.trim()))
+            .filter(Boolean)
+        : unquote(value);
+  }
+  return { data, body: source.slice(match[0].length) };
+};
+
+// ===== Inline =====
+const INLINE_RE =
+  /\*\*(.+?)\*\*|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\*([^*\s][^*]*?)\*/g;
+
+export const parseInline = (text: string): Inline[] => {
+  const out: Inline[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE_RE)) {
+    const index = match.index ?? 0;
+    if (index > last) out.push({ type: "text", value: text.slice(last, index) });
+    const [, strong, code, linkText, href, em] = match;
+    if (strong !== undefined)
+      out.push({ type: "strong", children: parseInline(strong) });
+    else if (code !== undefined) out.push({ type: "code", value: code });
+    else if (linkText !== undefined)
+      out.push({ type: "link", href, children: parseInline(linkText) });
+    else out.push({ type: "em", children: parseInline(em) });
+    last = index + match[0].length;
+  }
+  if (last < text.length) out.push({ type: "text", value: text.slice(last) });
+  return out;
+};
+
+export const inlineText = (nodes: Inline[]): string =>
+  nodes
+    .map((node) =>
+      node.type === "text" || node.type === "code"
+        ? node.value
+        : inlineText(node.children)
+    )
+    .join("");
+
+export const slugify = (text: string) =>
+  text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+// ===== Blocks =====
+const HEADING_RE = /^(#{2,4})\s+(.*)$/;
+const LIST_ITEM_RE = /^(\s*)([-*]|\d+\.)\s+(.*)$/;
+const IMAGE_RE = /^!\[([^\]]*)\]\(([^)\s]+)\)$/;
+const RULE_RE = /^(-{3,}|\*{3,})$/;
+
+export const parseMarkdown = (source: string): Block[] => {
+  const lines = source.replace(/\r\n/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  const usedIds = new Map<string, number>();
+  let i = 0;
+
+  const uniqueId = (text: string) => {
+    const base = slugify(text) || "section";
+    const seen = usedIds.get(base) ?? 0;
+    usedIds.set(base, seen + 1);
+    return seen ? `${base}-${seen + 1}` : base;
+  };
+
+  const isBlockStart = (line: string) =>
+    !line.trim() ||
+    HEADING_RE.test(line) ||
+    LIST_ITEM_RE.test(line) ||
+    IMAGE_RE.test(line.trim()) ||
+    RULE_RE.test(line.trim()) ||
+    line.startsWith(">") ||
+    line.startsWith("```");
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      i++;
+      continue;
+    }
+
+    if (line.startsWith("```")) {
+      const language = line.slice(3).trim();
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].startsWith("```")) code.push(lines[i++]);
+      if (i >= lines.length) throw new MarkdownError("Unclosed code fence");
+      i++;
+      blocks.push({ type: "code", language, value: code.join("\n") });
+      continue;
+    }
+
+    const heading = HEADING_RE.exec(line);
+    if (heading) {
+      const children = parseInline(heading[2].trim());
+      blocks.push({
+        type: "heading",
+        level: heading[1].length as 2 | 3 | 4,
+        id: uniqueId(inlineText(children)),
+        children,
+      });
+      i++;
+      continue;
+    }
+
+    if (RULE_RE.test(trimmed)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    const image = IMAGE_RE.exec(trimmed);
+    if (image) {
+      blocks.push({ type: "image", alt: image[1], src: image[2] });
+      i++;
+      continue;
+    }
+
+    if (line.startsWith(">")) {
+      const quote: string[] = [];
+      while (i < lines.length && lines[i].startsWith(">"))
+        quote.push(lines[i++].replace(/^>\s?/, ""));
+      blocks.push({ type: "quote", children: parseInline(quote.join(" ").trim()) });
+      continue;
+    }
+
+    const item = LIST_ITEM_RE.exec(line);
+    if (item) {
+      const ordered = /\d/.test(item[2]);
+      const items: string[] = [];
+      while (i < lines.length) {
+        const next = LIST_ITEM_RE.exec(lines[i]);
+        if (next) {
+          items.push(next[3]);
+        } else if (lines[i].trim() && /^\s+/.test(lines[i])) {
+          // Indented continuation of the previous item.
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      blocks.push({ type: "list", ordered, items: items.map(parseInline) });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && (paragraph.length === 0 || !isBlockStart(lines[i])))
+      paragraph.push(lines[i++].trim());
+    blocks.push({ type: "paragraph", children: parseInline(paragraph.join(" ")) });
+  }
+
+  return blocks;
+};
+
+/** Every word a reader would read, for reading-time estimates. */
+export const blockText = (blocks: Block[]) =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case "heading":
+        case "paragraph":
+        case "quote":
+          return inlineText(block.children);
+        case "list":
+          return block.items.map(inlineText).join(" ");
+        case "code":
+          return block.value;
+        default:
+          return "";
+      }
+    })
+    .join(" ");
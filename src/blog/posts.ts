@@ -0,0 +1,173 @@
+import {
+  MarkdownError,
+  blockText,
+  inlineText,
+  parseFrontMatter,
+  parseMarkdown,
+  type Block,
+} from "./markdown";
+
+// ===== Blog Posts =====
+// Posts are Markdown files in ./posts with front matter:
+//
+//   ---
+//   title: Tachograph rules for UK fleets
+//   date: 2026-09-14
+//   updated: 2026-10-01          (optional)
+//   author: Franstrack Compliance Team
+//   tags: [tachographs, compliance]
+//   heroImage: /blog/tachographs.svg
+//   heroAlt: A tachograph display showing driving and rest periods
+//   summary: One or two sentences for the index, feeds and meta description.
+//   ---
+//
+// The file name is the slug. Bad front matter fails the build. Link previews
+// use a PNG beside an SVG hero (see `npm run images`), as unfurlers don't
+// render SVG.
+
+export interface BlogPostMeta {
+  slug: string;
+  title: string;
+  /** ISO date, YYYY-MM-DD. */
+  date: string;
+  updated?: string;
+  author: string;
+  tags: string[];
+  hero: { src: string; alt: string };
+  /** Raster copy of the hero, 1200×630, for link previews. */
+  shareImage: string;
+  summary: string;
+}
+
+export interface TocEntry {
+  id: string;
+  text: string;
+  level: 2 | 3;
+}
+
+export interface BlogPost extends BlogPostMeta {
+  blocks: Block[];
+  toc: TocEntry[];
+  readingMinutes: number;
+}
+
+export const BLOG_PATH = "/blog";
+export const POSTS_PER_PAGE = 6;
+export const WORDS_PER_MINUTE = 200;
+
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+const sources = import.meta.glob<string>("./posts/*.md", {
+  query: "?raw",
+  import: "default",
+  eager: true,
+});
+
+const readMeta = (file: string, data: Record<string, string | string[]>) => {
+  const fail = (message: string): never => {
+    throw new MarkdownError(`${file}: ${message}`);
+  };
+  const text = (key: string) => {
+    const value = data[key];
+    if (typeof value !== "string" || !value) fail(`missing "${key}"`);
+    return value as string;
+  };
+  const date = (key: string) => {
+    const value = text(key);
+    if (!ISO_DATE_RE.test(value)) fail(`"${key}" must be YYYY-MM-DD`);
+    return value;
+  };
+  const tags = data.tags;
+  if (!Array.isArray(tags) || !tags.length) fail(`"tags" must be a non-empty list`);
+
+  const hero = { src: text("heroImage"), alt: text("heroAlt") };
+  return {
+    title: text("title"),
+    date: date("date"),
+    updated: data.updated ? date("updated") : undefined,
+    author: text("author"),
+    tags: (tags as string[]).map((tag) => tag.toLowerCase()),
+    hero,
+    shareImage: hero.src.replace(/\.svg$/, ".png"),
+    summary: text("summary"),
+  };
+};
+
+const loadPost = (file: string, source: string): BlogPost => {
+  const slug = file.replace(/^.*\/|\.md$/g, "");
+  const { data, body } = parseFrontMatter(source);
+  const blocks = parseMarkdown(body);
+  const words = blockText(blocks).split(/\s+/).filter(Boolean).length;
+  return {
+    slug,
+    ...readMeta(file, data),
+    blocks,
+    toc: blocks.flatMap((block) =>
+      block.type === "heading" && block.level <= 3
+        ? [{ id: block.id, text: inlineText(block.children), level: block.level as 2 | 3 }]
+        : []
+    ),
+    readingMinutes: Math.max(1, Math.round(words / WORDS_PER_MINUTE)),
+  };
+};
+
+/** Newest first. */
+export const POSTS: BlogPost[] = Object.entries(sources)
+  .map(([file, source]) => loadPost(file, source))
+  .sort((a, b) => b.date.localeCompare(a.date) || a.slug.localeCompare(b.slug));
+
+/** Every tag in use, most common first. */
+export const BLOG_TAGS: string[] = [
+  ...POSTS.flatMap((post) => post.tags).reduce(
+    (counts, tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1),
+    new Map<string, number>()
+  ),
+]
+  .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+  .map(([tag]) => tag);
+
+export const postPath = (slug: string) => `${BLOG_PATH}/${slug}`;
+
+export const findPostByPath = (path: string) =>
+  POSTS.find((post) => postPath(post.slug) === path) ?? null;
+
+const dateFormatter = new Intl.DateTimeFormat("en-GB", {
+  day: "numeric",
+  month: "long",
+  year: "numeric",
+  timeZone: "UTC",
+});
+
+export const formatPostDate = (isoDate: string) =>
+  dateFormatter.format(new Date(isoDate));
+
+export const formatTag = (tag: string) =>
+  tag.replace(/-/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+
+export const BLOG_PARAMS = { tag: "tag", page: "page" } as const;
+
+/** Filters by tag and slices one page; out-of-range pages clamp. */
+export const paginatePosts = (
+  posts: BlogPost[],
+  { tag, page }: { tag: string | null; page: number }
+) => {
+  const filtered = tag ? posts.filter((post) => post.tags.includes(tag)) : posts;
+  const pageCount = Math.max(1, Math.ceil(filtered.length / POSTS_PER_PAGE));
+  const current = Math.min(pageCount, Math.max(1, Math.floor(page) || 1));
+  const start = (current - 1) * POSTS_PER_PAGE;
+  return {
+    posts: filtered.slice(start, start + POSTS_PER_PAGE),
+    page: current,
+    pageCount,
+    total: filtered.length,
+  };
+};
+
+/** Index URL for a tag/page combination, omitting defaults. */
+export const blogIndexHref = ({ tag, page }: { tag: string | null; page: number }) => {
+  const params = new URLSearchParams();
+  if (tag) params.set(BLOG_PARAMS.tag, tag);
+  if (page > 1) params.set(BLOG_PARAMS.page, String(page));
+  const query = params.toString();
+  return query ? `${BLOG_PATH}?${query}` : BLOG_PATH;
+};
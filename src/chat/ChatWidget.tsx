@@ -0,0 +1,262 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { MessageCircle, RotateCcw, Send, X } from "lucide-react";
+import { AnimatePresence, m } from "framer-motion";
+import { useAnalytics } from "../analytics/useAnalytics";
+import { CONSENT_BANNER_OFFSET_VAR } from "../consent/consent";
+import { MESSAGE_MAX_LENGTH } from "../contact/form";
+import { NOTES_MAX_LENGTH } from "../demo/booking";
+import { cx } from "../lib/utils";
+import { useMoney } from "../money/useMoney";
+import { ROUTES } from "../router/routes";
+import { useRouter } from "../router/useRouter";
+import {
+  askQuestion,
+  botSays,
+  chooseOption,
+  currentNode,
+  formatTranscript,
+  startChat,
+  validateChatScript,
+  type ChatOption,
+  type ChatScript,
+  type ChatState,
+  type HandoffTarget,
+} from "./script";
+import { readChatSession, writeChatHandoff, writeChatSession } from "./session";
+import { createSupportScript } from "./supportScript";
+
+const PANEL_ID = "support-chat";
+const QUESTION_MAX_LENGTH = 200;
+
+const HANDOFF_REPLIES: Record<HandoffTarget, string> = {
+  contact:
+    "I've copied our chat into the contact form. Add your details and the team will reply within one working day.",
+  demo: "I've copied our chat into the demo booking form. Pick a time that suits you.",
+};
+
+// Room under the panel for the launcher, plus the cookie banner while it's up.
+const offsetBelow = (extra: string) =>
+  `calc(${extra} + var(${CONSENT_BANNER_OFFSET_VAR}, 0px))`;
+
+// ===== Support Chat =====
+// Non-modal: the page stays usable while the chat is open, so there is no
+// focus trap, but Escape closes it and focus returns to the launcher.
+export const ChatWidget: React.FC<{ script?: ChatScript }> = ({ script: custom }) => {
+  const { display } = useMoney();
+  const script = useMemo(() => custom ?? createSupportScript(display), [custom, display]);
+  const [open, setOpen] = useState(false);
+  const [state, setState] = useState<ChatState>(() => startChat(script));
+  const [draft, setDraft] = useState("");
+  const [mounted, setMounted] = useState(false);
+  const launcherRef = useRef<HTMLButtonElement>(null);
+  const logRef = useRef<HTMLDivElement>(null);
+  const repliesRef = useRef<HTMLDivElement>(null);
+  const focusReplies = useRef(false);
+  const { navigate } = useRouter();
+  const { track } = useAnalytics();
+  const node = currentNode(script, state);
+
+  useEffect(() => {
+    if (!import.meta.env.DEV) return;
+    for (const issue of validateChatScript(script)) console.warn(`Chat script: ${issue}`);
+  }, [script]);
+
+  // Restored after mount so the prerendered launcher matches hydration.
+  useEffect(() => {
+    const saved = readChatSession();
+    if (saved) {
+      setState(saved.state);
+      setOpen(saved.open);
+    }
+    setMounted(true);
+  }, []);
+
+  useEffect(() => {
+    if (mounted) writeChatSession({ open, state });
+  }, [mounted, open, state]);
+
+  useEffect(() => {
+    const log = logRef.current;
+    if (log) log.scrollTop = log.scrollHeight;
+    if (!focusReplies.current) return;
+    focusReplies.current = false;
+    repliesRef.current?.querySelector("button")?.focus();
+  }, [open, state]);
+
+  const show = () => {
+    focusReplies.current = true;
+    setOpen(true);
+  };
+
+  const close = () => {
+    setOpen(false);
+    launcherRef.current?.focus();
+  };
+
+  const restart = () => {
+    focusReplies.current = true;
+    setState(startChat(script));
+  };
+
+  const choose = (option: ChatOption) => {
+    const next = chooseOption(script, state, option);
+    const { action } = option;
+    if (action.type === "goto") {
+      focusReplies.current = true;
+      setState(next);
+    } else if (action.type === "link") {
+      setState(next);
+      setOpen(false);
+      navigate(action.href);
+    } else {
+      const maxLength = action.target === "contact" ? MESSAGE_MAX_LENGTH : NOTES_MAX_LENGTH;
+      writeChatHandoff({
+        target: action.target,
+        transcript: formatTranscript(next.messages, maxLength),
+        plan: next.plan,
+      });
+      track("chat_handoff", { target: action.target, node: state.node });
+      setState(botSays(next, HANDOFF_REPLIES[action.target]));
+      setOpen(false);
+      navigate(`${ROUTES.home.path}#${action.target}`);
+    }
+  };
+
+  const ask = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim()) return;
+    setState(askQuestion(script, state, draft));
+    setDraft("");
+  };
+
+  return (
+    <div
+      className="fixed right-4 z-40 flex flex-col items-end gap-3"
+      style={{ bottom: offsetBelow("1rem") }}
+    >
+      <AnimatePresence>
+        {open && (
+          <m.div
+            key="panel"
+            id={PANEL_ID}
+            role="dialog"
+            aria-labelledby={`${PANEL_ID}-title`}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") close();
+            }}
+            initial={{ opacity: 0, y: 16 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 16 }}
+            className="flex w-[calc(100vw-2rem)] sm:w-96 flex-col rounded-card bg-surface text-fg/90 shadow-overlay border border-line"
+            style={{ maxHeight: `calc(100vh - ${offsetBelow("6rem")})` }}
+          >
+            <div className="flex items-center justify-between gap-2 border-b border-line px-4 py-3">
+              <div>
+                <h2 id={`${PANEL_ID}-title`} className="text-sm font-semibold text-fg">
+                  Franstrack assistant
+                </h2>
+                <p className="text-xs text-fg/60">Automated answers, or a hand-off to our team</p>
+              </div>
+              <div className="flex gap-1">
+                <button
+                  type="button"
+                  onClick={restart}
+                  aria-label="Start over"
+                  className="rounded-lg p-1.5 text-fg/60 hover:text-fg hover:bg-surface-muted transition-colors"
+                >
+                  <RotateCcw className="h-4 w-4" aria-hidden="true" />
+                </button>
+                <button
+                  type="button"
+                  onClick={close}
+                  aria-label="Close chat"
+                  className="rounded-lg p-1.5 text-fg/60 hover:text-fg hover:bg-surface-muted transition-colors"
+                >
+                  <X className="h-4 w-4" aria-hidden="true" />
+                </button>
+              </div>
+            </div>
+
+            <div ref={logRef} className="flex-1 overflow-y-auto px-4 py-4">
+              <ol role="log" aria-live="polite" aria-label="Conversation" className="space-y-2">
+                {state.messages.map((message, index) => (
+                  <li
+                    key={index}
+                    className={cx(
+                      "max-w-[85%] rounded-card px-3 py-2 text-sm",
+                      message.from === "bot"
+                        ? "bg-surface-muted text-fg/90"
+                        : "ml-auto bg-primary text-on-primary"
+                    )}
+                  >
+                    <span className="sr-only">
+                      {message.from === "bot" ? "Franstrack said: " : "You said: "}
+                    </span>
+                    {message.text}
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            <div
+              ref={repliesRef}
+              role="group"
+              aria-label="Suggested replies"
+              className="flex flex-wrap gap-2 border-t border-line px-4 py-3"
+            >
+              {node.options.map((option) => (
+                <button
+                  key={`${state.node}-${option.label}`}
+                  type="button"
+                  onClick={() => choose(option)}
+                  className="rounded-full border border-line-strong px-3 py-1.5 text-xs text-fg/90 hover:bg-surface-muted transition-colors"
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+
+            <form onSubmit={ask} className="flex items-center gap-2 border-t border-line px-4 py-3">
+              <label htmlFor={`${PANEL_ID}-question`} className="sr-only">
+                Ask a question
+              </label>
+              <input
+                id={`${PANEL_ID}-question`}
+                type="text"
+                value={draft}
+                maxLength={QUESTION_MAX_LENGTH}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder="Or type a question"
+                autoComplete="off"
+                className="min-w-0 flex-1 rounded-control border border-line-strong bg-canvas px-3 py-2 text-sm text-fg placeholder:text-fg/50 focus:outline-none focus:ring-2 focus:ring-accent"
+              />
+              <button
+                type="submit"
+                aria-label="Send question"
+                className="rounded-control bg-primary p-2 text-on-primary hover:bg-primary-hover transition-colors"
+              >
+                <Send className="h-4 w-4" aria-hidden="true" />
+              </button>
+            </form>
+          </m.div>
+        )}
+      </AnimatePresence>
+
+      <button
+        ref={launcherRef}
+        type="button"
+        aria-expanded={open}
+        aria-controls={open ? PANEL_ID : undefined}
+        onClick={() => (open ? setOpen(false) : show())}
+        className="inline-flex items-center gap-2 rounded-full bg-primary px-4 py-3 text-sm font-medium text-on-primary shadow-overlay hover:bg-primary-hover transition-colors focus:outline-none focus:ring-2 focus:ring-accent focus:ring-offset-2 focus:ring-offset-canvas"
+      >
+        {open ? (
+          <X className="h-5 w-5" aria-hidden="true" />
+        ) : (
+          <MessageCircle className="h-5 w-5" aria-hidden="true" />
+        )}
+        <span className="sr-only sm:not-sr-only">{open ? "Close chat" : "Questions?"}</span>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  askQuestion,
+  chooseOption,
+  matchKeywords,
+  startChat,
+  validateChatScript,
+  type ChatScript,
+} from "./script";
+import { SUPPORT_SCRIPT, createSupportScript } from "./supportScript";
+
+const gotoTargets = (script: ChatScript) =>
+  Object.entries(script.nodes).flatMap(([id, node]) =>
+    node.options.flatMap((option) =>
+      option.action.type === "goto" ? [{ from: id, to: option.action.node }] : []
+    )
+  );
+
+/** Nodes a visitor can reach by clicking from the start, or by typing. */
+const reachable = (script: ChatScript) => {
+  const reached = new Set<string>();
+  const queue = [
+    script.start,
+    script.fallback,
+    ...Object.keys(script.nodes).filter((id) => script.nodes[id].keywords?.length),
+  ];
+  while (queue.length) {
+    const id = queue.shift()!;
+    if (reached.has(id)) continue;
+    reached.add(id);
+    for (const option of script.nodes[id].options)
+      if (option.action.type === "goto") queue.push(option.action.node);
+  }
+  return reached;
+};
+
+describe("support script", () => {
+  it("passes validation", () => {
+    expect(validateChatScript(SUPPORT_SCRIPT)).toEqual([]);
+  });
+
+  it("points every reply at a node that exists", () => {
+    for (const { from, to } of gotoTargets(SUPPORT_SCRIPT))
+      expect(SUPPORT_SCRIPT.nodes, `"${from}" goes to "${to}"`).toHaveProperty([to]);
+    expect(SUPPORT_SCRIPT.nodes).toHaveProperty([SUPPORT_SCRIPT.start]);
+    expect(SUPPORT_SCRIPT.nodes).toHaveProperty([SUPPORT_SCRIPT.fallback]);
+  });
+
+  it("can reach every node", () => {
+    expect([...reachable(SUPPORT_SCRIPT)].sort()).toEqual(
+      Object.keys(SUPPORT_SCRIPT.nodes).sort()
+    );
+  });
+
+  it("gives every node something to say and a way on", () => {
+    for (const node of Object.values(SUPPORT_SCRIPT.nodes)) {
+      expect(node.messages.length).toBeGreaterThan(0);
+      expect(node.options.length).toBeGreaterThan(0);
+    }
+  });
+
+  it("quotes prices in the visitor's currency", () => {
+    const irish = createSupportScript({ region: "IE", vat: "inc" });
+    const pricing = irish.nodes.pricing.messages.join(" ");
+    expect(pricing).toContain("€");
+    expect(pricing).not.toContain("£");
+    expect(pricing).toContain("inc. VAT at 23%");
+    expect(SUPPORT_SCRIPT.nodes.pricing.messages.join(" ")).toContain("ex. VAT");
+  });
+});
+
+describe("validateChatScript", () => {
+  it("reports missing targets and unreachable nodes", () => {
+    const script: ChatScript = {
+      start: "a",
+      fallback: "a",
+      nodes: {
+        a: { messages: ["Hi"], options: [{ label: "On", action: { type: "goto", node: "b" } }] },
+        orphan: {
+          messages: ["Lost"],
+          options: [{ label: "Home", action: { type: "goto", node: "a" } }],
+        },
+      },
+    };
+    expect(validateChatScript(script)).toEqual([
+      '"a" → "On" goes to missing node "b"',
+      '"orphan" can never be reached',
+    ]);
+  });
+});
+
+describe("conversation", () => {
+  it("prefers the node matching more of the question", () => {
+    expect(matchKeywords(SUPPORT_SCRIPT, "How do I cancel my trial?")).toBe("trial-end");
+    expect(matchKeywords(SUPPORT_SCRIPT, "Can I try it first?")).toBe("trial");
+    expect(matchKeywords(SUPPORT_SCRIPT, "What's the weather like?")).toBeNull();
+  });
+
+  it("sends unmatched questions to the fallback", () => {
+    const state = askQuestion(SUPPORT_SCRIPT, startChat(SUPPORT_SCRIPT), "Tell me a joke");
+    expect(state.node).toBe(SUPPORT_SCRIPT.fallback);
+    expect(state.messages.at(-2)).toEqual({ from: "visitor", text: "Tell me a joke" });
+  });
+
+  it("carries the plan being discussed", () => {
+    let state = startChat(SUPPORT_SCRIPT);
+    for (const label of ["Pricing", "Which plan suits my fleet?", "11 to 50"]) {
+      const option = SUPPORT_SCRIPT.nodes[state.node].options.find(
+        (candidate) => candidate.label === label
+      )!;
+      state = chooseOption(SUPPORT_SCRIPT, state, option);
+    }
+    expect(state.node).toBe("plan-professional");
+    expect(state.plan).toBe("professional");
+  });
+});
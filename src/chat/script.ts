@@ -0,0 +1,188 @@
+import type { PlanId } from "../pricing/catalog";
+
+// ===== Chat Scripts =====
+// The support chat is a decision tree that runs entirely in the browser. A
+// script is plain data: nodes of bot messages plus the replies a visitor can
+// pick. Everything here is pure, so a script can be walked without React.
+
+export type HandoffTarget = "contact" | "demo";
+
+export type ChatAction<N extends string = string> =
+  | { type: "goto"; node: NoInfer<N> }
+  /** Leaves the script for a form, prefilled with the transcript. */
+  | { type: "handoff"; target: HandoffTarget }
+  | { type: "link"; href: string };
+
+export interface ChatOption<N extends string = string> {
+  label: string;
+  action: ChatAction<N>;
+}
+
+export interface ChatNode<N extends string = string> {
+  /** One chat bubble each. */
+  messages: string[];
+  options: ChatOption<N>[];
+  /** Typed words that lead here, e.g. `["price", "cost"]`; whole words, any case. */
+  keywords?: string[];
+  /** The plan being discussed, carried into a hand-off. */
+  plan?: PlanId;
+}
+
+export interface ChatScript<N extends string = string> {
+  start: NoInfer<N>;
+  /** Where typed questions that match no keywords end up. */
+  fallback: NoInfer<N>;
+  nodes: Record<N, ChatNode<N>>;
+}
+
+/** Checks `goto` targets against the node names at compile time. */
+export const defineChatScript = <N extends string>(script: ChatScript<N>) =>
+  script as ChatScript;
+
+/** Broken references and dead ends; the prerender step fails on any. */
+export const validateChatScript = (script: ChatScript): string[] => {
+  const issues: string[] = [];
+  const exists = (node: string) => Object.hasOwn(script.nodes, node);
+  if (!exists(script.start)) issues.push(`start node "${script.start}" does not exist`);
+  if (!exists(script.fallback))
+    issues.push(`fallback node "${script.fallback}" does not exist`);
+
+  for (const [id, node] of Object.entries(script.nodes)) {
+    if (!node.messages.length) issues.push(`"${id}" has no messages`);
+    if (!node.options.length) issues.push(`"${id}" has no options`);
+    for (const option of node.options) {
+      if (option.action.type === "goto" && !exists(option.action.node))
+        issues.push(`"${id}" → "${option.label}" goes to missing node "${option.action.node}"`);
+    }
+  }
+
+  // Every node should be reachable from the start or by typing.
+  const reached = new Set<string>();
+  const visit = (id: string) => {
+    if (reached.has(id) || !exists(id)) return;
+    reached.add(id);
+    for (const option of script.nodes[id].options)
+      if (option.action.type === "goto") visit(option.action.node);
+  };
+  visit(script.start);
+  visit(script.fallback);
+  for (const [id, node] of Object.entries(script.nodes))
+    if (node.keywords?.length) visit(id);
+  for (const id of Object.keys(script.nodes))
+    if (!reached.has(id)) issues.push(`"${id}" can never be reached`);
+
+  return issues;
+};
+
+// ===== Conversation =====
+export interface ChatMessage {
+  from: "bot" | "visitor";
+  text: string;
+}
+
+export interface ChatState {
+  node: string;
+  messages: ChatMessage[];
+  plan: PlanId | null;
+}
+
+const enter = (script: ChatScript, state: ChatState, id: string): ChatState => {
+  const node = script.nodes[id];
+  return {
+    node: id,
+    messages: [
+      ...state.messages,
+      ...node.messages.map((text) => ({ from: "bot" as const, text })),
+    ],
+    plan: node.plan ?? state.plan,
+  };
+};
+
+const visitorSays = (state: ChatState, text: string): ChatState => ({
+  ...state,
+  messages: [...state.messages, { from: "visitor", text }],
+});
+
+export const botSays = (state: ChatState, text: string): ChatState => ({
+  ...state,
+  messages: [...state.messages, { from: "bot", text }],
+});
+
+export const startChat = (script: ChatScript): ChatState =>
+  enter(script, { node: script.start, messages: [], plan: null }, script.start);
+
+/** The node the visitor is at; a stale saved state falls back to the start. */
+export const currentNode = (script: ChatScript, state: ChatState) =>
+  script.nodes[state.node] ?? script.nodes[script.start];
+
+/**
+ * The visitor picked `option`. Only `goto` moves the conversation on; the
+ * widget carries out hand-offs and links itself.
+ */
+export const chooseOption = (
+  script: ChatScript,
+  state: ChatState,
+  option: ChatOption
+): ChatState => {
+  const next = visitorSays(state, option.label);
+  return option.action.type === "goto" ? enter(script, next, option.action.node) : next;
+};
+
+const wordsOf = (text: string) =>
+  new Set(
+    text
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .match(/[a-z0-9]+/g) ?? []
+  );
+
+/**
+ * The node whose keywords best match `text`, scored by matched words so
+ * "cancel trial" beats "trial"; ties go to the first declared.
+ */
+export const matchKeywords = (script: ChatScript, text: string): string | null => {
+  const words = wordsOf(text);
+  let best: { id: string; hits: number } | null = null;
+  for (const [id, node] of Object.entries(script.nodes)) {
+    let hits = 0;
+    for (const keyword of node.keywords ?? []) {
+      const needed = [...wordsOf(keyword)];
+      if (needed.every((word) => words.has(word))) hits += needed.length;
+    }
+    if (hits && (!best || hits > best.hits)) best = { id, hits };
+  }
+  return best?.id ?? null;
+};
+
+/** The visitor typed a question instead of picking a reply. */
+export const askQuestion = (script: ChatScript, state: ChatState, text: string) =>
+  enter(
+    script,
+    visitorSays(state, text.trim()),
+    matchKeywords(script, text) ?? script.fallback
+  );
+
+// ===== Transcript =====
+const SPEAKERS: Record<ChatMessage["from"], string> = {
+  bot: "Franstrack",
+  visitor: "Me",
+};
+
+/**
+ * The conversation as plain text for a form field. When it's longer than
+ * `maxLength`, the oldest lines go first: the end is where the question is.
+ */
+export const formatTranscript = (messages: ChatMessage[], maxLength: number) => {
+  const heading = "From the website chat:";
+  const lines = messages.map((message) => `${SPEAKERS[message.from]}: ${message.text}`);
+  const build = (count: number) =>
+    [
+      heading,
+      ...(count < lines.length ? ["…"] : []),
+      ...lines.slice(lines.length - count),
+    ].join("\n");
+  let kept = lines.length;
+  while (kept > 0 && build(kept).length > maxLength) kept--;
+  return kept ? build(kept) : build(1).slice(0, maxLength);
+};
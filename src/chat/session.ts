@@ -0,0 +1,83 @@
+import { isBrowser } from "../lib/utils";
+import { isPlanId, type PlanId } from "../pricing/catalog";
+import type { ChatMessage, ChatState, HandoffTarget } from "./script";
+
+// ===== Chat Session =====
+// Session storage, like trial progress: the conversation follows the visitor
+// around the site and survives a refresh, ends with the tab, and never needs
+// cookie consent.
+export const CHAT_SESSION_KEY = "ft_chat_session";
+export const CHAT_HANDOFF_KEY = "ft_chat_handoff";
+
+export interface ChatSession {
+  open: boolean;
+  state: ChatState;
+}
+
+const isMessage = (value: unknown): value is ChatMessage =>
+  typeof value === "object" &&
+  value !== null &&
+  ((value as ChatMessage).from === "bot" || (value as ChatMessage).from === "visitor") &&
+  typeof (value as ChatMessage).text === "string";
+
+const readJson = (key: string): unknown => {
+  if (!isBrowser) return null;
+  try {
+    const raw = sessionStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeJson = (key: string, value: unknown) => {
+  if (!isBrowser) return;
+  try {
+    if (value === null) sessionStorage.removeItem(key);
+    else sessionStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage unavailable; the chat lasts until the page is left.
+  }
+};
+
+export const readChatSession = (): ChatSession | null => {
+  const parsed = readJson(CHAT_SESSION_KEY) as Partial<ChatSession> | null;
+  const state = parsed?.state;
+  if (
+    !state ||
+    typeof state.node !== "string" ||
+    !Array.isArray(state.messages) ||
+    !state.messages.every(isMessage)
+  )
+    return null;
+  return {
+    open: parsed.open === true,
+    state: { ...state, plan: isPlanId(state.plan) ? state.plan : null },
+  };
+};
+
+export const writeChatSession = (session: ChatSession | null) =>
+  writeJson(CHAT_SESSION_KEY, session);
+
+// ===== Hand-off =====
+// The chat leaves a draft for the contact or demo form, which takes it once.
+export interface ChatHandoff {
+  target: HandoffTarget;
+  transcript: string;
+  plan: PlanId | null;
+}
+
+export const writeChatHandoff = (handoff: ChatHandoff) =>
+  writeJson(CHAT_HANDOFF_KEY, handoff);
+
+/** The waiting draft for `target`, removed so it only prefills once. */
+export const takeChatHandoff = (target: HandoffTarget): ChatHandoff | null => {
+  const parsed = readJson(CHAT_HANDOFF_KEY) as Partial<ChatHandoff> | null;
+  if (parsed?.target !== target || typeof parsed.transcript !== "string") return null;
+  writeJson(CHAT_HANDOFF_KEY, null);
+  return {
+    target,
+    transcript: parsed.transcript,
+    plan: isPlanId(parsed.plan) ? parsed.plan : null,
+  };
+};
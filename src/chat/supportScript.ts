@@ -0,0 +1,265 @@
+import { DEFAULT_AVAILABILITY } from "../demo/availability";
+import { HELP_PATH, faqHref, helpArticlePath } from "../help/content";
+import {
+  DEFAULT_PRICE_DISPLAY,
+  describeVat,
+  formatPrice,
+  type PriceDisplay,
+} from "../money/money";
+import { DEFAULT_CALCULATOR_CONFIG } from "../pricing/calculator";
+import { PLANS, getPlan, type PlanId } from "../pricing/catalog";
+import { HARDWARE_OPTIONS, TRIAL_DAYS, trialHref } from "../trial/trial";
+import { ROUTES } from "../router/routes";
+import { defineChatScript } from "./script";
+
+// ===== Support Chat Script =====
+// Prices and hardware come from the same config as the pricing table, so the
+// chat can't quote a stale number. The script is built for a price display,
+// so prices read in the visitor's currency, with VAT if they've chosen it.
+
+const { hardwarePerVehicle, installation, volumeTiers } = DEFAULT_CALCULATOR_CONFIG;
+
+const annualSaving = Math.round(
+  Math.max(...PLANS.map((plan) => 1 - plan.annualPrice / plan.monthlyPrice)) * 100
+);
+
+// Shared replies stay literals: annotating them `ChatOption` would widen the
+// node names and switch off the typo check in `defineChatScript`.
+const MENU = {
+  label: "Back to the menu",
+  action: { type: "goto", node: "welcome" },
+} as const;
+
+const TEAM = {
+  label: "Ask our team",
+  action: { type: "handoff", target: "contact" },
+} as const;
+
+const planSummary = (id: PlanId, display: PriceDisplay) => {
+  const plan = getPlan(id);
+  const price = (amount: number) => formatPrice(amount, display);
+  return `${plan.name} is ${price(plan.monthlyPrice)} per vehicle per month, or ${price(
+    plan.annualPrice
+  )} billed annually (${describeVat(display)}).`;
+};
+
+const planNode = (id: PlanId, display: PriceDisplay, pitch: string) => ({
+  messages: [pitch, planSummary(id, display)],
+  options: [
+    {
+      label: `Start a free ${getPlan(id).name} trial`,
+      action: { type: "link" as const, href: trialHref(id) },
+    },
+    {
+      label: `Ask about ${getPlan(id).name}`,
+      action: { type: "handoff" as const, target: "contact" as const },
+    },
+    MENU,
+  ],
+  plan: id,
+});
+
+/** The support chat, quoting prices as `display` asks. */
+export const createSupportScript = (display: PriceDisplay) => {
+  const price = (amount: number) => formatPrice(amount, display);
+  return defineChatScript({
+    start: "welcome",
+    fallback: "unsure",
+    nodes: {
+      welcome: {
+        messages: [
+          "Hi! I'm Franstrack's automated assistant. I can help with pricing, trackers and free trials, or pass you to our team.",
+          "What would you like to know?",
+        ],
+        options: [
+          { label: "Pricing", action: { type: "goto", node: "pricing" } },
+          { label: "Trackers & installation", action: { type: "goto", node: "hardware" } },
+          { label: "Free trial", action: { type: "goto", node: "trial" } },
+          { label: "Book a demo", action: { type: "goto", node: "demo" } },
+          { label: "I'm already a customer", action: { type: "goto", node: "support" } },
+        ],
+      },
+
+      pricing: {
+        messages: [
+          `Plans are priced per vehicle per month: Essential ${price(
+            getPlan("essential").monthlyPrice
+          )}, Professional ${price(getPlan("professional").monthlyPrice)} and Enterprise ${price(
+            getPlan("enterprise").monthlyPrice
+          )} (${describeVat(display)}). Paying annually saves up to ${annualSaving}%.`,
+          "Trackers are a one-off cost on top. What would help most?",
+        ],
+        options: [
+          { label: "Which plan suits my fleet?", action: { type: "goto", node: "plan-fit" } },
+          { label: "Discounts for bigger fleets", action: { type: "goto", node: "volume" } },
+          { label: "What do trackers cost?", action: { type: "goto", node: "hardware" } },
+          { label: "Get a tailored quote", action: { type: "handoff", target: "contact" } },
+          MENU,
+        ],
+        keywords: ["price", "prices", "pricing", "cost", "costs", "how much", "plan", "plans", "quote"],
+      },
+
+      "plan-fit": {
+        messages: ["How many vehicles do you run?"],
+        options: [
+          { label: "Up to 10", action: { type: "goto", node: "plan-essential" } },
+          { label: "11 to 50", action: { type: "goto", node: "plan-professional" } },
+          { label: "More than 50", action: { type: "goto", node: "plan-enterprise" } },
+        ],
+      },
+
+      "plan-essential": planNode(
+        "essential",
+        display,
+        "Essential suits small fleets: live tracking, the mobile app, basic reports and 30 days of history."
+      ),
+      "plan-professional": planNode(
+        "professional",
+        display,
+        "Professional is our most popular plan for growing fleets, adding advanced analytics, custom reports, SMS alerts, API access and 90 days of history."
+      ),
+      "plan-enterprise": planNode(
+        "enterprise",
+        display,
+        "Enterprise is built for large operations: unlimited history, custom integrations, a dedicated account manager, 24/7 phone support and an uptime SLA."
+      ),
+
+      volume: {
+        messages: [
+          `Bigger fleets pay less per vehicle: ${volumeTiers
+            .map((tier) => `${Math.round(tier.discount * 100)}% off at ${tier.label}`)
+            .join(", ")}. The discount applies to the subscription, not the trackers.`,
+        ],
+        options: [
+          {
+            label: "Try the cost calculator",
+            action: { type: "link", href: `${ROUTES.home.path}#pricing` },
+          },
+          { label: "Get a tailored quote", action: { type: "handoff", target: "contact" } },
+          MENU,
+        ],
+        keywords: ["discount", "discounts", "volume", "large fleet", "bulk"],
+      },
+
+      hardware: {
+        messages: [
+          `Each vehicle needs one tracker, a one-off ${price(
+            hardwarePerVehicle
+          )}. Plug-in trackers fit in minutes with no tools, or our engineers can hard-wire them for ${price(
+            installation.professional.perVehicle
+          )} per vehicle.`,
+        ],
+        options: [
+          { label: "Which tracker do I need?", action: { type: "goto", node: "hardware-types" } },
+          {
+            label: "How to fit a plug-in tracker",
+            action: { type: "link", href: helpArticlePath("fitting-obd-trackers") },
+          },
+          { label: "Book an installation", action: { type: "handoff", target: "contact" } },
+          MENU,
+        ],
+        keywords: [
+          "tracker",
+          "trackers",
+          "hardware",
+          "device",
+          "install",
+          "installation",
+          "fit",
+          "fitting",
+          "obd",
+        ],
+      },
+
+      "hardware-types": {
+        messages: HARDWARE_OPTIONS.map((option) => `${option.label}: ${option.description}`),
+        options: [
+          {
+            label: "What a professional install involves",
+            action: { type: "link", href: helpArticlePath("professional-installation") },
+          },
+          TEAM,
+          MENU,
+        ],
+        keywords: ["hgv", "hgvs", "trailer", "trailers", "plant", "lorry", "lorries"],
+      },
+
+      trial: {
+        messages: [
+          `Every plan comes with a ${TRIAL_DAYS}-day free trial. We ship the trackers, you watch your fleet live as soon as they're fitted, and no card is needed to start.`,
+        ],
+        options: [
+          { label: "Start my free trial", action: { type: "link", href: trialHref() } },
+          { label: "What happens when it ends?", action: { type: "goto", node: "trial-end" } },
+          MENU,
+        ],
+        keywords: ["trial", "free", "try", "test"],
+      },
+
+      "trial-end": {
+        messages: [
+          "We'll email you three days before the trial ends. Pick a plan to keep going, or let it lapse: nothing is charged unless you choose to continue.",
+        ],
+        options: [
+          { label: "Start my free trial", action: { type: "link", href: trialHref() } },
+          { label: "Compare plans", action: { type: "goto", node: "pricing" } },
+          MENU,
+        ],
+        keywords: ["cancel trial", "trial ends", "after trial"],
+      },
+
+      demo: {
+        messages: [
+          `A product specialist will walk you through Franstrack on a ${DEFAULT_AVAILABILITY.slotMinutes}-minute video call, using examples from fleets like yours.`,
+          "I'll copy our chat into the booking form so you don't have to repeat yourself.",
+        ],
+        options: [
+          { label: "Book a demo", action: { type: "handoff", target: "demo" } },
+          MENU,
+        ],
+        keywords: ["demo", "demonstration", "walkthrough", "call", "meeting", "speak"],
+      },
+
+      support: {
+        messages: [
+          "Customers can reach support from the help menu in the Franstrack app. Enterprise plans include 24/7 phone support.",
+          "If something seems down, our status page shows live service health.",
+        ],
+        options: [
+          { label: "Check system status", action: { type: "link", href: ROUTES.status.path } },
+          { label: "Browse the help centre", action: { type: "link", href: HELP_PATH } },
+          TEAM,
+          MENU,
+        ],
+        keywords: ["support", "problem", "issue", "broken", "down", "login", "outage", "customer"],
+      },
+
+      gdpr: {
+        messages: [
+          "Your data is hosted in the UK, encrypted, and covered by a data processing agreement in every contract. The help centre explains retention per plan and tracking drivers lawfully.",
+        ],
+        options: [
+          { label: "Read about GDPR", action: { type: "link", href: faqHref("gdpr") } },
+          TEAM,
+          MENU,
+        ],
+        keywords: ["gdpr", "privacy", "data", "retention", "consent", "dpa"],
+      },
+
+      unsure: {
+        messages: [
+          "Sorry, I can't answer that one here. I can pass our conversation to the team, who reply within one working day.",
+        ],
+        options: [
+          { label: "Send it to the team", action: { type: "handoff", target: "contact" } },
+          { label: "Book a demo instead", action: { type: "handoff", target: "demo" } },
+          { label: "Search the help centre", action: { type: "link", href: HELP_PATH } },
+          MENU,
+        ],
+      },
+    },
+  });
+};
+
+/** Prices as prerendered pages show them; also what the build validates. */
+export const SUPPORT_SCRIPT = createSupportScript(DEFAULT_PRICE_DISPLAY);
@@ -0,0 +1,55 @@
+import React from "react";
+import { ArrowRight, Check, type LucideIcon } from "lucide-react";
+import { m } from "framer-motion";
+import { Card } from "./ui";
+import { Link } from "../router/Link";
+
+export interface FeatureCardContent {
+  icon: LucideIcon;
+  title: string;
+  description: string;
+  features: string[];
+  /** An interactive demo of the feature, shown under the list. */
+  link?: { label: string; href: string };
+}
+
+// ===== Feature Card =====
+/** The icon, copy and tick-list card used by `Features` and solution pages. */
+export const FeatureCard: React.FC<{
+  feature: FeatureCardContent;
+  index?: number;
+}> = ({ feature, index = 0 }) => (
+  <m.div
+    initial={{ opacity: 0, y: 30 }}
+    whileInView={{ opacity: 1, y: 0 }}
+    transition={{ duration: 0.5, delay: index * 0.1 }}
+  >
+    <Card hover className="h-full border border-line">
+      <div className="rounded-control bg-accent/10 p-3 w-12 h-12 flex items-center justify-center mb-6">
+        <feature.icon className="h-6 w-6 text-accent" />
+      </div>
+
+      <h3 className="text-xl font-bold text-fg mb-3">{feature.title}</h3>
+      <p className="text-fg/70 mb-6">{feature.description}</p>
+
+      <ul className="space-y-3">
+        {feature.features.map((item, idx) => (
+          <li key={idx} className="flex items-center gap-3 text-sm text-fg/80">
+            <Check className="h-4 w-4 text-success flex-shrink-0" />
+            {item}
+          </li>
+        ))}
+      </ul>
+
+      {feature.link && (
+        <Link
+          to={feature.link.href}
+          className="mt-6 inline-flex items-center gap-2 text-sm font-medium text-accent hover:text-accent-hover"
+        >
+          {feature.link.label}
+          <ArrowRight className="h-4 w-4" aria-hidden="true" />
+        </Link>
+      )}
+    </Card>
+  </m.div>
+);
@@ -0,0 +1,149 @@
+import React, { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { Menu, X } from "lucide-react";
+import { AnimatePresence, m } from "framer-motion";
+import { Button } from "./ui";
+import { Link } from "../router/Link";
+import { useRouter } from "../router/useRouter";
+import {
+  LOGIN_LINK,
+  NAV_CTA,
+  NAV_ITEMS,
+  type NavItem,
+} from "../router/navigation";
+import { ThemeSwitcher } from "../theme/ThemeSwitcher";
+import { useBodyScrollLock, useFocusTrap } from "../lib/useFocusTrap";
+
+const DRAWER_ID = "mobile-nav";
+const MENU_ITEMS: NavItem[] = [...NAV_ITEMS, LOGIN_LINK];
+
+// ===== Mobile Navigation =====
+export const MobileNav: React.FC = () => {
+  const [open, setOpen] = useState(false);
+  const [mounted, setMounted] = useState(false);
+  const drawerRef = useRef<HTMLDivElement>(null);
+  const { location } = useRouter();
+  const close = () => setOpen(false);
+
+  useEffect(() => setMounted(true), []);
+
+  // Picking any link navigates, which closes the drawer.
+  useEffect(() => setOpen(false), [location]);
+
+  useFocusTrap(drawerRef, open);
+  useBodyScrollLock(open);
+
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setOpen(false);
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [open]);
+
+  return (
+    <>
+      <button
+        type="button"
+        aria-expanded={open}
+        aria-controls={DRAWER_ID}
+        aria-label={open ? "Close menu" : "Open menu"}
+        onClick={() => setOpen((prev) => !prev)}
+        className="lg:hidden rounded-control p-2 border border-line-strong hover:bg-surface transition-colors"
+      >
+        <Menu className="h-6 w-6" aria-hidden="true" />
+      </button>
+
+      {mounted &&
+        createPortal(
+          <AnimatePresence>
+            {open && (
+              <m.div
+                key="backdrop"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                exit={{ opacity: 0 }}
+                onClick={close}
+                className="lg:hidden fixed inset-0 z-[70] bg-black/60"
+                aria-hidden="true"
+              />
+            )}
+            {open && (
+              <m.div
+                key="drawer"
+                ref={drawerRef}
+                id={DRAWER_ID}
+                role="dialog"
+                aria-modal="true"
+                aria-label="Site menu"
+                tabIndex={-1}
+                initial={{ x: "100%" }}
+                animate={{ x: 0 }}
+                exit={{ x: "100%" }}
+                transition={{ type: "tween", duration: 0.25 }}
+                className="lg:hidden fixed inset-y-0 right-0 z-[80] w-80 max-w-[85%] bg-canvas border-l border-line-subtle shadow-overlay flex flex-col p-6 focus:outline-none"
+              >
+                <div className="flex items-center justify-between mb-8">
+                  <span className="text-lg font-bold text-fg">Menu</span>
+                  <button
+                    type="button"
+                    onClick={close}
+                    aria-label="Close menu"
+                    className="rounded-control p-2 border border-line-strong hover:bg-surface transition-colors"
+                  >
+                    <X className="h-6 w-6" aria-hidden="true" />
+                  </button>
+                </div>
+
+                <nav aria-label="Mobile" className="flex-1 overflow-y-auto -mx-2 px-2 mb-6">
+                  <ul className="space-y-1">
+                    {MENU_ITEMS.map((item) => (
+                      <li key={item.label}>
+                        <Link
+                          to={item.href}
+                          className="block rounded-control px-4 py-3 text-lg text-fg/80 hover:text-fg hover:bg-surface transition-colors"
+                        >
+                          {item.label}
+                        </Link>
+                        {item.groups?.map((group) => (
+                          <div key={group.title} className="mb-2 pl-4">
+                            <p className="px-4 py-1 text-xs uppercase tracking-wider text-fg/50">
+                              {group.title}
+                            </p>
+                            <ul>
+                              {group.links.map((link) => (
+                                <li key={link.href}>
+                                  <Link
+                                    to={link.href}
+                                    className="block rounded-control px-4 py-2 text-fg/70 hover:text-fg hover:bg-surface transition-colors"
+                                  >
+                                    {link.label}
+                                  </Link>
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        ))}
+                      </li>
+                    ))}
+                  </ul>
+                </nav>
+
+                <ThemeSwitcher className="self-start mb-4" />
+                <Button
+                  as="a"
+                  href={NAV_CTA.href}
+                  trackingId="mobile-nav-get-started"
+                  className="w-full"
+                >
+                  {NAV_CTA.label}
+                </Button>
+              </m.div>
+            )}
+          </AnimatePresence>,
+          document.body
+        )}
+    </>
+  );
+};
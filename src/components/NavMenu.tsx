@@ -0,0 +1,103 @@
+import React, { useEffect, useId, useRef, useState } from "react";
+import { ChevronDown } from "lucide-react";
+import { AnimatePresence, m } from "framer-motion";
+import { cx } from "../lib/utils";
+import { Link } from "../router/Link";
+import { useRouter } from "../router/useRouter";
+import type { NavGroup } from "../router/navigation";
+
+// ===== Navigation Menu =====
+/** Disclosure menu for a top-level nav item that has link groups. */
+export const NavMenu: React.FC<{ label: string; groups: NavGroup[] }> = ({
+  label,
+  groups,
+}) => {
+  const [open, setOpen] = useState(false);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const panelId = useId();
+  const { location } = useRouter();
+
+  useEffect(() => setOpen(false), [location]);
+
+  useEffect(() => {
+    if (!open) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return;
+      setOpen(false);
+      buttonRef.current?.focus();
+    };
+    const onPointer = (e: PointerEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    window.addEventListener("keydown", onKey);
+    document.addEventListener("pointerdown", onPointer);
+    return () => {
+      window.removeEventListener("keydown", onKey);
+      document.removeEventListener("pointerdown", onPointer);
+    };
+  }, [open]);
+
+  return (
+    <div
+      ref={rootRef}
+      className="relative"
+      onBlur={(e) => {
+        if (!rootRef.current?.contains(e.relatedTarget as Node | null)) {
+          setOpen(false);
+        }
+      }}
+    >
+      <button
+        ref={buttonRef}
+        type="button"
+        aria-expanded={open}
+        aria-controls={panelId}
+        onClick={() => setOpen((prev) => !prev)}
+        className="inline-flex items-center gap-1 text-fg/80 hover:text-fg transition-colors"
+      >
+        {label}
+        <ChevronDown
+          aria-hidden="true"
+          className={cx("h-4 w-4 transition-transform", open && "rotate-180")}
+        />
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <m.div
+            id={panelId}
+            initial={{ opacity: 0, y: -8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -8 }}
+            transition={{ duration: 0.15 }}
+            className="absolute left-1/2 top-full mt-4 -translate-x-1/2 w-[32rem] rounded-card bg-canvas border border-line shadow-overlay p-6 grid grid-cols-2 gap-6"
+          >
+            {groups.map((group) => (
+              <div key={group.title}>
+                <p className="text-xs uppercase tracking-wider text-fg/50 mb-3">
+                  {group.title}
+                </p>
+                <ul className="space-y-1">
+                  {group.links.map((link) => (
+                    <li key={link.href}>
+                      <Link
+                        to={link.href}
+                        aria-current={
+                          location.path === link.href ? "page" : undefined
+                        }
+                        className="block rounded-lg px-3 py-2 text-fg/80 hover:text-fg hover:bg-surface transition-colors"
+                      >
+                        {link.label}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </m.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React from "react";
+import { cx } from "../lib/utils";
+
+// ===== Form Fields =====
+const inputStyles =
+  "w-full rounded-control bg-canvas border px-4 py-3 text-fg placeholder:text-fg/40 transition-colors focus:outline-none focus:ring-2 focus:ring-accent";
+
+type FieldProps = {
+  id: string;
+  label: string;
+  error?: string;
+  hint?: string;
+  required?: boolean;
+  className?: string;
+};
+
+const FieldShell: React.FC<FieldProps & { children: React.ReactNode }> = ({
+  id,
+  label,
+  error,
+  hint,
+  required,
+  className,
+  children,
+}) => (
+  <div className={cx("text-left", className)}>
+    <label htmlFor={id} className="block text-sm font-medium text-fg/80 mb-2">
+      {label}
+      {required && (
+        <span className="text-accent ml-1" aria-hidden="true">
+          *
+        </span>
+      )}
+    </label>
+    {children}
+    {hint && !error && (
+      <p id={`${id}-hint`} className="mt-1 text-xs text-fg/50">
+        {hint}
+      </p>
+    )}
+    {error && (
+      <p id={`${id}-error`} role="alert" className="mt-1 text-xs text-danger">
+        {error}
+      </p>
+    )}
+  </div>
+);
+
+const describedBy = (id: string, error?: string, hint?: string) =>
+  error ? `${id}-error` : hint ? `${id}-hint` : undefined;
+
+export const TextField: React.FC<
+  FieldProps & Omit<React.InputHTMLAttributes<HTMLInputElement>, "id">
+> = ({ id, label, error, hint, required, className, ...props }) => (
+  <FieldShell {...{ id, label, error, hint, required, className }}>
+    <input
+      id={id}
+      name={id}
+      required={required}
+      aria-invalid={!!error}
+      aria-describedby={describedBy(id, error, hint)}
+      className={cx(inputStyles, error ? "border-danger" : "border-line")}
+      {...props}
+    />
+  </FieldShell>
+);
+
+export const SelectField: React.FC<
+  FieldProps &
+    Omit<React.SelectHTMLAttributes<HTMLSelectElement>, "id"> & {
+      options: Array<{ value: string; label: string }>;
+    }
+> = ({ id, label, error, hint, required, className, options, ...props }) => (
+  <FieldShell {...{ id, label, error, hint, required, className }}>
+    <select
+      id={id}
+      name={id}
+      required={required}
+      aria-invalid={!!error}
+      aria-describedby={describedBy(id, error, hint)}
+      className={cx(inputStyles, error ? "border-danger" : "border-line")}
+      {...props}
+    >
+      {options.map((option) => (
+        <option key={option.value} value={option.value}>
+          {option.label}
+        </option>
+      ))}
+    </select>
+  </FieldShell>
+);
+
+export const TextAreaField: React.FC<
+  FieldProps & Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, "id">
+> = ({ id, label, error, hint, required, className, ...props }) => (
+  <FieldShell {...{ id, label, error, hint, required, className }}>
+    <textarea
+      id={id}
+      name={id}
+      required={required}
+      aria-invalid={!!error}
+      aria-describedby={describedBy(id, error, hint)}
+      className={cx(
+        inputStyles,
+        "min-h-32",
+        error ? "border-danger" : "border-line"
+      )}
+      {...props}
+    />
+  </FieldShell>
+);
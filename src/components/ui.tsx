@@ -0,0 +1,98 @@
+import React from "react";
+import { cx } from "../lib/utils";
+import { Link } from "../router/Link";
+import { useAnalytics, useSectionViewed } from "../analytics/useAnalytics";
+
+// ===== UI Primitives =====
+/** Sections with an `id` report `section_viewed` the first time they're seen. */
+export const Container: React.FC<{
+  id?: string;
+  className?: string;
+  children: React.ReactNode;
+}> = ({ id, className, children }) => {
+  const ref = useSectionViewed<HTMLElement>(id);
+  return (
+    <section
+      ref={ref}
+      id={id}
+      className={cx("mx-auto max-w-7xl px-6 lg:px-8", className)}
+    >
+      {children}
+    </section>
+  );
+};
+
+export const Button: React.FC<
+  React.ButtonHTMLAttributes<HTMLButtonElement> & {
+    /** The inverse variants sit on primary-coloured panels such as CTA banners. */
+    variant?: "primary" | "secondary" | "inverse" | "outline-inverse";
+    as?: "a";
+    href?: string;
+    /** Reports a `cta_click` with this ID whenever the button is used. */
+    trackingId?: string;
+  }
+> = ({
+  variant = "primary",
+  as,
+  href,
+  trackingId,
+  className,
+  children,
+  onClick,
+  ...props
+}) => {
+  const { track } = useAnalytics();
+  const baseStyles =
+    "inline-flex items-center justify-center rounded-control px-6 py-3 font-medium transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-canvas";
+  const variants = {
+    primary:
+      "bg-primary hover:bg-primary-hover text-on-primary focus:ring-accent shadow-raised hover:shadow-raised-hover",
+    secondary:
+      "bg-surface-muted hover:bg-surface-strong text-fg focus:ring-line-strong border border-line-strong",
+    inverse:
+      "bg-on-primary hover:bg-on-primary/90 text-primary focus:ring-on-primary shadow-raised",
+    "outline-inverse":
+      "border border-on-primary text-on-primary hover:bg-on-primary/10 focus:ring-on-primary",
+  };
+  const handleClick = (e: React.MouseEvent<HTMLElement>) => {
+    if (trackingId) track("cta_click", { id: trackingId, href });
+    onClick?.(e as React.MouseEvent<HTMLButtonElement>);
+  };
+
+  if (as === "a" && href) {
+    return (
+      <Link
+        to={href}
+        onClick={handleClick}
+        className={cx(baseStyles, variants[variant], className)}
+      >
+        {children}
+      </Link>
+    );
+  }
+  return (
+    <button
+      className={cx(baseStyles, variants[variant], className)}
+      onClick={handleClick}
+      {...props}
+    >
+      {children}
+    </button>
+  );
+};
+
+export const Card: React.FC<{
+  className?: string;
+  children: React.ReactNode;
+  hover?: boolean;
+}> = ({ className, children, hover = false }) => (
+  <div
+    className={cx(
+      "rounded-card bg-surface p-6 shadow-raised",
+      hover && "hover:shadow-raised-hover transition-shadow duration-300",
+      className
+    )}
+  >
+    {children}
+  </div>
+);
@@ -0,0 +1,55 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+  buildChoices,
+  readConsent,
+  writeConsent,
+  type ConsentCategory,
+  type ConsentChoices,
+  type ConsentRecord,
+} from "./consent";
+import { ConsentContext, type ConsentContextValue } from "./context";
+
+// ===== Consent Provider =====
+export const ConsentProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  const [record, setRecord] = useState<ConsentRecord | null>(null);
+  const [ready, setReady] = useState(false);
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+
+  useEffect(() => {
+    setRecord(readConsent());
+    setReady(true);
+  }, []);
+
+  const save = useCallback((choices: ConsentChoices) => {
+    setRecord(writeConsent(choices));
+    setPreferencesOpen(false);
+  }, []);
+
+  const isAllowed = useCallback(
+    (category: ConsentCategory) =>
+      category === "essential" || !!record?.categories[category],
+    [record]
+  );
+
+  const value = useMemo<ConsentContextValue>(
+    () => ({
+      record,
+      ready,
+      decided: record !== null,
+      isAllowed,
+      acceptAll: () => save(buildChoices(true)),
+      rejectAll: () => save(buildChoices(false)),
+      save,
+      preferencesOpen,
+      openPreferences: () => setPreferencesOpen(true),
+      closePreferences: () => setPreferencesOpen(false),
+    }),
+    [record, ready, isAllowed, save, preferencesOpen]
+  );
+
+  return (
+    <ConsentContext.Provider value={value}>{children}</ConsentContext.Provider>
+  );
+};
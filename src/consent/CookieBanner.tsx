@@ -0,0 +1,210 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Cookie as CookieIcon, X } from "lucide-react";
+import { AnimatePresence, m } from "framer-motion";
+import { Button } from "../components/ui";
+import { cx } from "../lib/utils";
+import { useFocusTrap } from "../lib/useFocusTrap";
+import { Link } from "../router/Link";
+import {
+  CONSENT_BANNER_OFFSET_VAR,
+  CONSENT_CATEGORIES,
+  CONSENT_POLICY_VERSION,
+  buildChoices,
+  type ConsentChoices,
+} from "./consent";
+import { useConsent } from "./useConsent";
+
+// ===== Preferences Dialog =====
+const ConsentPreferences: React.FC = () => {
+  const { record, save, acceptAll, rejectAll, closePreferences } = useConsent();
+  const [choices, setChoices] = useState<ConsentChoices>(
+    () => record?.categories ?? buildChoices(false)
+  );
+  const dialogRef = useRef<HTMLDivElement>(null);
+
+  // Mounted only while open, so the trap runs for the dialog's whole life and
+  // hands focus back to whatever opened it.
+  useFocusTrap(dialogRef, true);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") closePreferences();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [closePreferences]);
+
+  return (
+    <div className="fixed inset-0 z-[60] grid place-items-center bg-black/60 p-4">
+      <m.div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="consent-title"
+        tabIndex={-1}
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="w-full max-w-lg rounded-card bg-surface text-fg/90 p-6 shadow-overlay border border-line focus:outline-none"
+      >
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h2 id="consent-title" className="text-lg font-semibold text-fg">
+              Cookie Preferences
+            </h2>
+            <p className="text-xs text-fg/50 mt-1">
+              Policy version {CONSENT_POLICY_VERSION}
+            </p>
+          </div>
+          <button
+            onClick={closePreferences}
+            aria-label="Close cookie preferences"
+            className="rounded-lg p-1 text-fg/60 hover:text-fg hover:bg-surface-muted transition-colors"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <ul className="space-y-4">
+          {CONSENT_CATEGORIES.map((category) => (
+            <li
+              key={category.id}
+              className="flex items-start justify-between gap-4 rounded-control bg-canvas/60 p-4 border border-line"
+            >
+              <div>
+                <label
+                  htmlFor={`consent-${category.id}`}
+                  className="text-sm font-medium text-fg"
+                >
+                  {category.label}
+                  {category.required && (
+                    <span className="ml-2 text-xs text-fg/50">
+                      Always on
+                    </span>
+                  )}
+                </label>
+                <p className="text-xs text-fg/60 mt-1">
+                  {category.description}
+                </p>
+              </div>
+              <input
+                id={`consent-${category.id}`}
+                type="checkbox"
+                role="switch"
+                className="mt-1 h-5 w-5 accent-primary"
+                checked={category.required || choices[category.id]}
+                disabled={category.required}
+                onChange={(e) =>
+                  setChoices((prev) => ({
+                    ...prev,
+                    [category.id]: e.target.checked,
+                  }))
+                }
+              />
+            </li>
+          ))}
+        </ul>
+
+        <div className="mt-6 flex flex-col sm:flex-row gap-2 sm:justify-end">
+          <Button variant="secondary" onClick={rejectAll} className="text-sm">
+            Reject all
+          </Button>
+          <Button variant="secondary" onClick={() => save(choices)} className="text-sm">
+            Save preferences
+          </Button>
+          <Button onClick={acceptAll} className="text-sm">
+            Accept all
+          </Button>
+        </div>
+      </m.div>
+    </div>
+  );
+};
+
+// ===== Cookie Consent =====
+export const CookieBanner: React.FC = () => {
+  const { ready, decided, acceptAll, rejectAll, preferencesOpen, openPreferences } =
+    useConsent();
+  const visible = ready && !decided && !preferencesOpen;
+  const bannerRef = useRef<HTMLDivElement>(null);
+
+  // Publish the banner's height (plus its bottom-4 gap) while it's up.
+  useEffect(() => {
+    const banner = bannerRef.current;
+    if (!visible || !banner) return;
+    const root = document.documentElement;
+    const update = () =>
+      root.style.setProperty(CONSENT_BANNER_OFFSET_VAR, `${banner.offsetHeight + 16}px`);
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(banner);
+    return () => {
+      observer.disconnect();
+      root.style.removeProperty(CONSENT_BANNER_OFFSET_VAR);
+    };
+  }, [visible]);
+
+  return (
+    <>
+      <AnimatePresence>
+        {visible && (
+          <m.div
+            key="banner"
+            ref={bannerRef}
+            role="region"
+            aria-label="Cookie consent"
+            initial={{ opacity: 0, y: 100 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 100 }}
+            className="fixed bottom-4 left-1/2 z-50 -translate-x-1/2 w-[95%] md:w-[720px] rounded-card bg-surface text-fg/90 p-6 shadow-overlay border border-line"
+          >
+            <div className="flex flex-col md:flex-row md:items-start gap-4">
+              <div className="flex flex-1 items-start gap-4">
+                <CookieIcon className="mt-0.5 h-5 w-5 text-accent flex-shrink-0" />
+                <div>
+                  <p className="text-sm font-medium">We Value Your Privacy</p>
+                  <p className="text-sm text-fg/70 mt-1">
+                    We use essential cookies to operate our platform and, with
+                    your permission, analytics and marketing cookies to improve
+                    our service. See our{" "}
+                    <Link
+                      className="text-accent hover:text-accent-hover underline"
+                      to="/cookies"
+                    >
+                      Cookie Policy
+                    </Link>
+                    .
+                  </p>
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={acceptAll} className="text-sm px-4 py-2">
+                  Accept all
+                </Button>
+                <Button
+                  variant="secondary"
+                  onClick={rejectAll}
+                  className="text-sm px-4 py-2"
+                >
+                  Reject all
+                </Button>
+                <button
+                  onClick={openPreferences}
+                  className={cx(
+                    "rounded-control px-4 py-2 text-sm border border-line-strong",
+                    "hover:bg-surface-muted transition-colors"
+                  )}
+                >
+                  Manage
+                </button>
+              </div>
+            </div>
+          </m.div>
+        )}
+      </AnimatePresence>
+      <AnimatePresence>
+        {preferencesOpen && <ConsentPreferences key="preferences" />}
+      </AnimatePresence>
+    </>
+  );
+};
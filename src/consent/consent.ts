@@ -0,0 +1,115 @@
+import { isBrowser } from "../lib/utils";
+
+// ===== Consent Model =====
+// Bump CONSENT_POLICY_VERSION whenever the cookie policy changes: stored
+// records with an older version are ignored and the banner is shown again.
+export const CONSENT_POLICY_VERSION = "2025-11";
+export const CONSENT_STORAGE_KEY = "ft_consent";
+const LEGACY_STORAGE_KEY = "ft_cookie_ok";
+
+/**
+ * CSS custom property holding the space the banner takes at the bottom of
+ * the viewport while it's shown, so other bottom-fixed UI can sit above it.
+ */
+export const CONSENT_BANNER_OFFSET_VAR = "--consent-banner-offset";
+
+export type ConsentCategory =
+  | "essential"
+  | "functional"
+  | "analytics"
+  | "marketing";
+
+export type ConsentChoices = Record<ConsentCategory, boolean>;
+
+export interface ConsentRecord {
+  version: string;
+  timestamp: string;
+  categories: ConsentChoices;
+}
+
+export const CONSENT_CATEGORIES: Array<{
+  id: ConsentCategory;
+  label: string;
+  description: string;
+  required: boolean;
+}> = [
+  {
+    id: "essential",
+    label: "Essential",
+    description:
+      "Required for the site to work, such as remembering your cookie choices. These cannot be switched off.",
+    required: true,
+  },
+  {
+    id: "functional",
+    label: "Functional",
+    description:
+      "Remember choices that make return visits easier, such as your colour theme, how prices are shown or your email address on the customer login.",
+    required: false,
+  },
+  {
+    id: "analytics",
+    label: "Analytics",
+    description:
+      "Help us understand how visitors use the site so we can improve it. Data is aggregated and hosted in the UK.",
+    required: false,
+  },
+  {
+    id: "marketing",
+    label: "Marketing",
+    description:
+      "Used to measure our campaigns and show relevant Franstrack content on other sites.",
+    required: false,
+  },
+];
+
+export const buildChoices = (allowOptional: boolean): ConsentChoices => ({
+  essential: true,
+  functional: allowOptional,
+  analytics: allowOptional,
+  marketing: allowOptional,
+});
+
+const isConsentRecord = (value: unknown): value is ConsentRecord => {
+  if (!value || typeof value !== "object") return false;
+  const record = value as Partial<ConsentRecord>;
+  return (
+    typeof record.version === "string" &&
+    typeof record.timestamp === "string" &&
+    !!record.categories &&
+    CONSENT_CATEGORIES.every(
+      (category) => typeof record.categories?.[category.id] === "boolean"
+    )
+  );
+};
+
+export const readConsent = (): ConsentRecord | null => {
+  if (!isBrowser) return null;
+  try {
+    const raw = localStorage.getItem(CONSENT_STORAGE_KEY);
+    if (!raw) return null;
+    const parsed: unknown = JSON.parse(raw);
+    if (!isConsentRecord(parsed)) return null;
+    if (parsed.version !== CONSENT_POLICY_VERSION) return null;
+    return parsed;
+  } catch {
+    return null;
+  }
+};
+
+export const writeConsent = (choices: ConsentChoices): ConsentRecord => {
+  const record: ConsentRecord = {
+    version: CONSENT_POLICY_VERSION,
+    timestamp: new Date().toISOString(),
+    categories: { ...choices, essential: true },
+  };
+  if (isBrowser) {
+    try {
+      localStorage.setItem(CONSENT_STORAGE_KEY, JSON.stringify(record));
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    } catch {
+      // Storage can be unavailable (private mode, quota); keep the in-memory record.
+    }
+  }
+  return record;
+};
@@ -0,0 +1,23 @@
+import { createContext } from "react";
+import type {
+  ConsentCategory,
+  ConsentChoices,
+  ConsentRecord,
+} from "./consent";
+
+export interface ConsentContextValue {
+  record: ConsentRecord | null;
+  /** False until the stored record has been read on the client. */
+  ready: boolean;
+  /** True once the visitor has made a choice for the current policy version. */
+  decided: boolean;
+  isAllowed: (category: ConsentCategory) => boolean;
+  acceptAll: () => void;
+  rejectAll: () => void;
+  save: (choices: ConsentChoices) => void;
+  preferencesOpen: boolean;
+  openPreferences: () => void;
+  closePreferences: () => void;
+}
+
+export const ConsentContext = createContext<ConsentContextValue | null>(null);
@@ -0,0 +1,8 @@
+import { useContext } from "react";
+import { ConsentContext } from "./context";
+
+export const useConsent = () => {
+  const ctx = useContext(ConsentContext);
+  if (!ctx) throw new Error("useConsent must be used inside <ConsentProvider>");
+  return ctx;
+};
@@ -0,0 +1,313 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { CheckCircle2, AlertTriangle, Mail, Phone, MapPin } from "lucide-react";
+import { m } from "framer-motion";
+import { Button, Card, Container } from "../components/ui";
+import { SelectField, TextAreaField, TextField } from "../components/form";
+import { isBrowser } from "../lib/utils";
+import {
+  FLEET_SIZE_OPTIONS,
+  HONEYPOT_FIELD,
+  MESSAGE_MAX_LENGTH,
+  PLAN_OPTIONS,
+  emptyContactForm,
+  looksLikeSpam,
+  readPlanFromSearch,
+  validateContactForm,
+  type ContactFormErrors,
+  type ContactFormValues,
+} from "./form";
+import { useRouter } from "../router/useRouter";
+import { useAnalytics } from "../analytics/useAnalytics";
+import { COMPANY, describeOpeningHours } from "../seo/company";
+import { getDefaultContactAdapter, type ContactAdapter } from "./adapters";
+import { takeChatHandoff } from "../chat/session";
+
+type Status = "idle" | "submitting" | "success" | "error";
+
+const fieldId = (key: string) => `contact-${key}`;
+
+const officeHours = describeOpeningHours(COMPANY.openingHours[0]);
+
+// ===== Contact =====
+export const ContactSection: React.FC<{ adapter?: ContactAdapter }> = ({
+  adapter,
+}) => {
+  const submitter = useMemo(
+    () => adapter ?? getDefaultContactAdapter(),
+    [adapter]
+  );
+  const { track } = useAnalytics();
+  const [values, setValues] = useState<ContactFormValues>(() =>
+    emptyContactForm()
+  );
+  const [errors, setErrors] = useState<ContactFormErrors>({});
+  const [status, setStatus] = useState<Status>("idle");
+  const [failure, setFailure] = useState<string>("");
+  const [honeypot, setHoneypot] = useState("");
+  const [fromChat, setFromChat] = useState(false);
+  const startedAt = useRef<number>(0);
+
+  const { location } = useRouter();
+
+  useEffect(() => {
+    startedAt.current = Date.now();
+  }, []);
+
+  useEffect(() => {
+    const plan = readPlanFromSearch(location.search);
+    if (plan) setValues((prev) => ({ ...prev, plan }));
+  }, [location.search]);
+
+  // The support chat hands over its transcript and any plan it discussed.
+  useEffect(() => {
+    const handoff = takeChatHandoff("contact");
+    if (!handoff) return;
+    setValues((prev) => ({
+      ...prev,
+      message: handoff.transcript,
+      plan: handoff.plan ?? prev.plan,
+    }));
+    setFromChat(true);
+  }, [location]);
+
+  const update =
+    <K extends keyof ContactFormValues>(key: K) =>
+    (
+      e: React.ChangeEvent<
+        HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
+      >
+    ) => {
+      const value = e.target.value as ContactFormValues[K];
+      setValues((prev) => ({ ...prev, [key]: value }));
+      if (errors[key]) setErrors((prev) => ({ ...prev, [key]: undefined }));
+    };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const nextErrors = validateContactForm(values);
+    setErrors(nextErrors);
+    const firstInvalid = Object.keys(nextErrors)[0];
+    if (firstInvalid) {
+      document.getElementById(fieldId(firstInvalid))?.focus();
+      return;
+    }
+
+    // Pretend spam went through so bots get no signal to adapt to.
+    if (looksLikeSpam(honeypot, startedAt.current)) {
+      setStatus("success");
+      return;
+    }
+
+    setStatus("submitting");
+    try {
+      await submitter.submit({
+        ...values,
+        submittedAt: new Date().toISOString(),
+        source: isBrowser ? window.location.href : "",
+      });
+      track("form_submitted", {
+        form: "contact",
+        plan: values.plan === "undecided" ? undefined : values.plan,
+      });
+      setStatus("success");
+    } catch (err) {
+      setFailure(
+        err instanceof Error
+          ? err.message
+          : "Something went wrong sending your message."
+      );
+      setStatus("error");
+    }
+  };
+
+  const reset = () => {
+    setValues((prev) => emptyContactForm(prev.plan));
+    setErrors({});
+    setStatus("idle");
+    startedAt.current = Date.now();
+  };
+
+  return (
+    <Container id="contact" className="py-16 lg:py-28">
+      <m.div
+        initial={{ opacity: 0, y: 30 }}
+        whileInView={{ opacity: 1, y: 0 }}
+        className="text-center mb-16"
+      >
+        <h2 className="text-3xl lg:text-5xl font-bold text-fg mb-6">
+          Talk to Our
+          <span className="bg-gradient-to-r from-highlight to-highlight-alt bg-clip-text text-transparent">
+            {" "}
+            Fleet Experts
+          </span>
+        </h2>
+        <p className="text-xl text-fg/70 max-w-2xl mx-auto">
+          Tell us about your fleet and we'll get back to you within one
+          working day with a tailored quote.
+        </p>
+      </m.div>
+
+      <div className="grid lg:grid-cols-3 gap-8 max-w-6xl mx-auto">
+        <div className="space-y-6 text-left">
+          {[
+            { icon: Mail, label: "Email", value: COMPANY.email },
+            {
+              icon: Phone,
+              label: "Phone",
+              value: COMPANY.telephone
+                ? `${COMPANY.telephone}, ${officeHours}`
+                : officeHours,
+            },
+            {
+              icon: MapPin,
+              label: "Office",
+              value: `${COMPANY.address.addressLocality}, UK`,
+            },
+          ].map((item) => (
+            <div key={item.label} className="flex items-center gap-4">
+              <div className="rounded-lg bg-accent/10 p-3">
+                <item.icon className="h-5 w-5 text-accent" />
+              </div>
+              <div>
+                <div className="font-semibold text-fg">{item.label}</div>
+                <div className="text-fg/60 text-sm">{item.value}</div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Card className="lg:col-span-2 border border-line">
+          {status === "success" ? (
+            <div className="text-center py-12" role="status">
+              <CheckCircle2 className="h-12 w-12 text-success mx-auto mb-4" />
+              <h3 className="text-2xl font-bold text-fg mb-2">
+                Thanks, we've got your message
+              </h3>
+              <p className="text-fg/70 mb-8">
+                A member of our team will be in touch within one working day.
+              </p>
+              <Button variant="secondary" onClick={() => reset()}>
+                Send another message
+              </Button>
+            </div>
+          ) : (
+            <form noValidate onSubmit={handleSubmit} className="space-y-6">
+              {status === "error" && (
+                <div
+                  role="alert"
+                  className="flex items-start gap-3 rounded-control border border-danger/50 bg-danger/10 p-4 text-sm text-danger"
+                >
+                  <AlertTriangle className="h-5 w-5 flex-shrink-0 text-danger" />
+                  <div>
+                    {failure} You can try again, or email us at{" "}
+                    {COMPANY.email}.
+                  </div>
+                </div>
+              )}
+
+              <div className="grid sm:grid-cols-2 gap-6">
+                <TextField
+                  id={fieldId("name")}
+                  label="Full name"
+                  autoComplete="name"
+                  required
+                  value={values.name}
+                  onChange={update("name")}
+                  error={errors.name}
+                />
+                <TextField
+                  id={fieldId("company")}
+                  label="Company"
+                  autoComplete="organization"
+                  required
+                  value={values.company}
+                  onChange={update("company")}
+                  error={errors.company}
+                />
+                <TextField
+                  id={fieldId("email")}
+                  label="Work email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  value={values.email}
+                  onChange={update("email")}
+                  error={errors.email}
+                />
+                <TextField
+                  id={fieldId("phone")}
+                  label="Phone"
+                  type="tel"
+                  autoComplete="tel"
+                  hint="Optional"
+                  value={values.phone}
+                  onChange={update("phone")}
+                  error={errors.phone}
+                />
+                <SelectField
+                  id={fieldId("fleetSize")}
+                  label="Fleet size"
+                  required
+                  options={FLEET_SIZE_OPTIONS}
+                  value={values.fleetSize}
+                  onChange={update("fleetSize")}
+                  error={errors.fleetSize}
+                />
+                <SelectField
+                  id={fieldId("plan")}
+                  label="Plan of interest"
+                  options={PLAN_OPTIONS}
+                  value={values.plan}
+                  onChange={update("plan")}
+                  error={errors.plan}
+                />
+              </div>
+
+              <TextAreaField
+                id={fieldId("message")}
+                label="How can we help?"
+                maxLength={MESSAGE_MAX_LENGTH}
+                hint={`${fromChat ? "Includes your chat with our assistant · " : ""}${
+                  values.message.length
+                }/${MESSAGE_MAX_LENGTH}`}
+                value={values.message}
+                onChange={update("message")}
+                error={errors.message}
+              />
+
+              {/* Honeypot: hidden from people and assistive tech, tempting to bots. */}
+              <div
+                aria-hidden="true"
+                className="absolute -left-[9999px] h-0 w-0 overflow-hidden"
+              >
+                <label htmlFor={HONEYPOT_FIELD}>Website</label>
+                <input
+                  id={HONEYPOT_FIELD}
+                  name={HONEYPOT_FIELD}
+                  type="text"
+                  tabIndex={-1}
+                  autoComplete="off"
+                  value={honeypot}
+                  onChange={(e) => setHoneypot(e.target.value)}
+                />
+              </div>
+
+              <div className="flex flex-col sm:flex-row items-center justify-between gap-4">
+                <p className="text-xs text-fg/50 text-left">
+                  We'll only use your details to respond to this enquiry.
+                </p>
+                <Button
+                  type="submit"
+                  disabled={status === "submitting"}
+                  className="w-full sm:w-auto disabled:opacity-60"
+                >
+                  {status === "submitting" ? "Sending…" : "Send message"}
+                </Button>
+              </div>
+            </form>
+          )}
+        </Card>
+      </div>
+    </Container>
+  );
+};
@@ -0,0 +1,94 @@
+import { isBrowser } from "../lib/utils";
+import type { ContactSubmission } from "./form";
+
+// ===== Submission Adapters =====
+export interface ContactAdapter {
+  submit: (submission: ContactSubmission) => Promise<void>;
+}
+
+export class ContactSubmissionError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "ContactSubmissionError";
+    this.status = status;
+  }
+}
+
+export const createFetchAdapter = (
+  endpoint: string,
+  init: RequestInit = {}
+): ContactAdapter => ({
+  async submit(submission) {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: "POST",
+        ...init,
+        headers: { "Content-Type": "application/json", ...init.headers },
+        body: JSON.stringify(submission),
+      });
+    } catch {
+      throw new ContactSubmissionError(
+        "We couldn't reach our servers. Please check your connection."
+      );
+    }
+    if (!response.ok) {
+      throw new ContactSubmissionError(
+        "Something went wrong sending your message.",
+        response.status
+      );
+    }
+  },
+});
+
+export const LOCAL_SUBMISSIONS_KEY = "ft_contact_submissions";
+
+/** Keeps submissions in localStorage (or memory) for local development. */
+export const createLocalAdapter = (
+  storageKey: string = LOCAL_SUBMISSIONS_KEY
+): ContactAdapter & { list: () => ContactSubmission[] } => {
+  const memory: ContactSubmission[] = [];
+
+  const readStored = (): ContactSubmission[] => {
+    if (!isBrowser) return [];
+    try {
+      const raw = localStorage.getItem(storageKey);
+      return raw ? (JSON.parse(raw) as ContactSubmission[]) : [];
+    } catch {
+      return [];
+    }
+  };
+
+  return {
+    list: () => [...readStored(), ...memory],
+    async submit(submission) {
+      if (isBrowser) {
+        try {
+          localStorage.setItem(
+            storageKey,
+            JSON.stringify([...readStored(), submission])
+          );
+          return;
+        } catch {
+          // Storage unavailable; fall back to the in-memory list.
+        }
+      }
+      memory.push(submission);
+    },
+  };
+};
+
+/** Used when no endpoint is configured, so a lead is never silently dropped. */
+export const createUnavailableAdapter = (): ContactAdapter => ({
+  submit: async () => {
+    throw new ContactSubmissionError("Our contact form isn't taking messages right now.");
+  },
+});
+
+export const getDefaultContactAdapter = (): ContactAdapter => {
+  const endpoint = import.meta.env.VITE_CONTACT_ENDPOINT;
+  if (endpoint) return createFetchAdapter(endpoint);
+  return import.meta.env.DEV ? createLocalAdapter() : createUnavailableAdapter();
+};
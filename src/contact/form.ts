@@ -0,0 +1,94 @@
+import { isEmail, isPhone } from "../lib/validation";
+import { PLANS, type PlanId } from "../pricing/catalog";
+
+// ===== Contact Form Model =====
+export type PlanInterest = PlanId | "undecided";
+
+export interface ContactFormValues {
+  name: string;
+  company: string;
+  email: string;
+  phone: string;
+  fleetSize: string;
+  plan: PlanInterest;
+  message: string;
+}
+
+export type ContactFormErrors = Partial<Record<keyof ContactFormValues, string>>;
+
+export interface ContactSubmission extends ContactFormValues {
+  submittedAt: string;
+  source: string;
+}
+
+export const PLAN_OPTIONS: Array<{ value: PlanInterest; label: string }> = [
+  { value: "undecided", label: "Not sure yet" },
+  ...PLANS.map((plan) => ({ value: plan.id, label: plan.name })),
+];
+
+export const FLEET_SIZE_OPTIONS = [
+  { value: "", label: "Select fleet size" },
+  { value: "1-5", label: "1–5 vehicles" },
+  { value: "6-20", label: "6–20 vehicles" },
+  { value: "21-50", label: "21–50 vehicles" },
+  { value: "51-200", label: "51–200 vehicles" },
+  { value: "200+", label: "200+ vehicles" },
+];
+
+export const emptyContactForm = (
+  plan: PlanInterest = "undecided"
+): ContactFormValues => ({
+  name: "",
+  company: "",
+  email: "",
+  phone: "",
+  fleetSize: "",
+  plan,
+  message: "",
+});
+
+export const isPlanInterest = (value: unknown): value is PlanInterest =>
+  PLAN_OPTIONS.some((option) => option.value === value);
+
+export const MESSAGE_MAX_LENGTH = 2000;
+
+export const validateContactForm = (
+  values: ContactFormValues
+): ContactFormErrors => {
+  const errors: ContactFormErrors = {};
+
+  if (values.name.trim().length < 2) errors.name = "Please enter your name.";
+  if (!values.company.trim()) errors.company = "Please enter your company.";
+  if (!isEmail(values.email))
+    errors.email = "Please enter a valid email address.";
+
+  if (values.phone.trim() && !isPhone(values.phone))
+    errors.phone = "Please enter a valid phone number.";
+
+  if (!FLEET_SIZE_OPTIONS.some((o) => o.value && o.value === values.fleetSize))
+    errors.fleetSize = "Please select your fleet size.";
+  if (!isPlanInterest(values.plan)) errors.plan = "Please choose a plan.";
+  if (values.message.length > MESSAGE_MAX_LENGTH)
+    errors.message = `Please keep your message under ${MESSAGE_MAX_LENGTH} characters.`;
+
+  return errors;
+};
+
+// ===== Spam Protection =====
+// Bots tend to fill every field and submit instantly; humans leave the hidden
+// honeypot empty and take at least a few seconds to complete the form.
+export const HONEYPOT_FIELD = "website";
+export const MIN_FILL_TIME_MS = 3000;
+
+export const looksLikeSpam = (
+  honeypot: string,
+  startedAt: number,
+  now: number = Date.now()
+) => honeypot.trim() !== "" || now - startedAt < MIN_FILL_TIME_MS;
+
+// ===== Plan Pre-fill =====
+// Pricing cards link to `/?plan=<id>#contact` so the chosen plan survives the jump.
+export const readPlanFromSearch = (search: string): PlanInterest | null => {
+  const plan = new URLSearchParams(search).get("plan");
+  return isPlanInterest(plan) ? plan : null;
+};
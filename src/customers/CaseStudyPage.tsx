@@ -0,0 +1,148 @@
+import React from "react";
+import { ArrowLeft, ArrowRight, Star } from "lucide-react";
+import { Button, Card, Container } from "../components/ui";
+import { cx } from "../lib/utils";
+import { Link } from "../router/Link";
+import { getPlan } from "../pricing/catalog";
+import { industryLabel, type CaseStudy } from "./caseStudies";
+
+const StorySection: React.FC<{ id: string; heading: string; body: string[] }> = ({
+  id,
+  heading,
+  body,
+}) => (
+  <section id={id} className="mt-12">
+    <h2 className="text-2xl font-semibold text-fg mb-4">{heading}</h2>
+    <div className="space-y-4 text-fg/70 leading-relaxed">
+      {body.map((paragraph, index) => (
+        <p key={index}>{paragraph}</p>
+      ))}
+    </div>
+  </section>
+);
+
+// ===== Case Study =====
+export const CaseStudyPage: React.FC<{ study: CaseStudy }> = ({ study }) => {
+  const plan = getPlan(study.plan);
+
+  return (
+    <Container className="pt-32 pb-16 lg:pb-28">
+      <div className="max-w-4xl mx-auto">
+        <Link
+          to="/#customers"
+          className="inline-flex items-center gap-2 text-sm text-accent hover:text-accent-hover mb-8"
+        >
+          <ArrowLeft className="h-4 w-4" aria-hidden="true" />
+          All customer stories
+        </Link>
+
+        <img
+          src={study.logo.src}
+          alt={study.logo.alt}
+          width={240}
+          height={64}
+          className="h-16 w-auto mb-8"
+        />
+        <p className="text-accent font-semibold mb-2">
+          {industryLabel(study.industry)} case study
+        </p>
+        <h1 className="text-4xl lg:text-5xl font-bold text-fg mb-6">
+          {study.headline}
+        </h1>
+        <p className="text-xl text-fg/70">{study.summary}</p>
+
+        <dl className="mt-8 flex flex-wrap gap-x-8 gap-y-2 text-sm">
+          {[
+            ["Company", study.company],
+            ["Fleet size", `${study.fleetSize} vehicles`],
+            ["Region", study.region],
+            ["Plan", plan.name],
+          ].map(([term, detail]) => (
+            <div key={term} className="flex gap-2">
+              <dt className="text-fg/50">{term}</dt>
+              <dd className="text-fg font-medium">{detail}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <dl className="mt-12 grid sm:grid-cols-3 gap-6">
+          {study.metrics.map((metric) => (
+            <Card
+              key={metric.label}
+              className="flex flex-col-reverse border border-line text-center"
+            >
+              <dt className="text-fg/60">{metric.label}</dt>
+              <dd className="text-4xl font-bold bg-gradient-to-r from-highlight to-highlight-alt bg-clip-text text-transparent mb-2">
+                {metric.value}
+              </dd>
+            </Card>
+          ))}
+        </dl>
+
+        <StorySection id="challenge" heading="The challenge" body={study.challenge} />
+        <StorySection id="solution" heading="The solution" body={study.solution} />
+
+        <figure className="mt-12 rounded-panel bg-surface border border-line p-8">
+          <div
+            className="flex gap-1 mb-4"
+            role="img"
+            aria-label={`Rated ${study.quote.rating} out of 5`}
+          >
+            {Array.from({ length: 5 }, (_, i) => (
+              <Star
+                key={i}
+                aria-hidden="true"
+                className={cx(
+                  "h-5 w-5",
+                  i < study.quote.rating
+                    ? "fill-warning text-warning"
+                    : "text-line-strong"
+                )}
+              />
+            ))}
+          </div>
+          <blockquote className="text-xl text-fg leading-relaxed">
+            “{study.quote.text}”
+          </blockquote>
+          <figcaption className="mt-6 text-sm">
+            <span className="font-semibold text-fg">{study.quote.author}</span>
+            <span className="text-fg/60">
+              , {study.quote.role}, {study.company}
+            </span>
+          </figcaption>
+        </figure>
+
+        <StorySection id="results" heading="The results" body={study.results} />
+
+        <div className="mt-16 rounded-panel bg-gradient-to-r from-primary to-primary-alt p-8 lg:p-10 text-center">
+          <h2 className="text-2xl lg:text-3xl font-bold text-on-primary mb-4">
+            See what Franstrack could do for your fleet
+          </h2>
+          <p className="text-on-primary/80 mb-8">
+            {study.company} runs on the {plan.name} plan. Book a demo and we'll
+            show you the same tools with your own vehicles in mind.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-4 justify-center">
+            <Button
+              variant="inverse"
+              as="a"
+              href="/#demo"
+              trackingId={`case-study-${study.slug}-demo`}
+            >
+              Schedule Demo
+              <ArrowRight className="ml-2 h-5 w-5" />
+            </Button>
+            <Button
+              variant="outline-inverse"
+              as="a"
+              href={`/?plan=${plan.id}#pricing`}
+              trackingId={`case-study-${study.slug}-pricing`}
+            >
+              View {plan.name} pricing
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Container>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useState } from "react";
+import { ArrowRight, MapPin, Truck } from "lucide-react";
+import { m } from "framer-motion";
+import { Card, Container } from "../components/ui";
+import { cx } from "../lib/utils";
+import { Link } from "../router/Link";
+import { TestimonialCarousel } from "./TestimonialCarousel";
+import {
+  CASE_STUDIES,
+  FLEET_SIZE_BANDS,
+  INDUSTRIES,
+  caseStudyPath,
+  filterCaseStudies,
+  industryLabel,
+  type CaseStudy,
+  type FleetSizeBand,
+  type Industry,
+} from "./caseStudies";
+
+const FilterGroup = <T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+}: {
+  label: string;
+  options: Array<{ id: T; label: string }>;
+  value: T | null;
+  onChange: (value: T | null) => void;
+}) => (
+  <div role="group" aria-label={label} className="flex flex-wrap justify-center gap-2">
+    {[{ id: null, label: "All" }, ...options].map((option) => (
+      <button
+        key={option.id ?? "all"}
+        type="button"
+        aria-pressed={value === option.id}
+        onClick={() => onChange(option.id)}
+        className={cx(
+          "rounded-full px-4 py-2 text-sm border transition-colors",
+          value === option.id
+            ? "border-accent bg-primary text-on-primary"
+            : "border-line text-fg/70 hover:text-fg hover:border-line-strong"
+        )}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+export const CaseStudyCard: React.FC<{ study: CaseStudy }> = ({ study }) => (
+  <Card hover className="h-full border border-line flex flex-col">
+    <img
+      src={study.logo.src}
+      alt={study.logo.alt}
+      width={180}
+      height={48}
+      loading="lazy"
+      className="h-12 w-auto self-start mb-6"
+    />
+    <p className="text-xs uppercase tracking-wider text-accent mb-2">
+      {industryLabel(study.industry)}
+    </p>
+    <h3 className="text-xl font-bold text-fg mb-3">{study.headline}</h3>
+    <p className="text-fg/70 mb-6">{study.summary}</p>
+    <dl className="grid grid-cols-3 gap-2 mb-6">
+      {study.metrics.map((metric) => (
+        <div
+          key={metric.label}
+          className="flex flex-col-reverse rounded-control bg-canvas/60 p-3 text-center"
+        >
+          <dt className="text-xs text-fg/60 leading-tight">{metric.label}</dt>
+          <dd className="text-lg font-bold text-fg">{metric.value}</dd>
+        </div>
+      ))}
+    </dl>
+    <div className="mt-auto flex flex-wrap items-center gap-4 text-sm text-fg/60">
+      <span className="inline-flex items-center gap-1">
+        <Truck className="h-4 w-4" aria-hidden="true" />
+        {study.fleetSize} vehicles
+      </span>
+      <span className="inline-flex items-center gap-1">
+        <MapPin className="h-4 w-4" aria-hidden="true" />
+        {study.region}
+      </span>
+      <Link
+        to={caseStudyPath(study.slug)}
+        className="ml-auto inline-flex items-center gap-1 text-accent hover:text-accent-hover"
+      >
+        Read story
+        <span className="sr-only">: {study.company}</span>
+        <ArrowRight className="h-4 w-4" aria-hidden="true" />
+      </Link>
+    </div>
+  </Card>
+);
+
+// ===== Customers =====
+export const CustomersSection: React.FC<{ studies?: CaseStudy[] }> = ({
+  studies = CASE_STUDIES,
+}) => {
+  const [industry, setIndustry] = useState<Industry | null>(null);
+  const [size, setSize] = useState<FleetSizeBand | null>(null);
+  const visible = filterCaseStudies(studies, { industry, size });
+
+  return (
+    <Container id="customers" className="py-16 lg:py-28">
+      <m.div
+        initial={{ opacity: 0, y: 30 }}
+        whileInView={{ opacity: 1, y: 0 }}
+        className="text-center mb-12"
+      >
+        <h2 className="text-3xl lg:text-5xl font-bold text-fg mb-6">
+          Trusted by
+          <span className="bg-gradient-to-r from-highlight to-highlight-alt bg-clip-text text-transparent">
+            {" "}
+            UK Fleets
+          </span>
+        </h2>
+        <p className="text-xl text-fg/70 max-w-2xl mx-auto">
+          From nine-van couriers to hire companies running hundreds of
+          vehicles, here's what Franstrack changed for them.
+        </p>
+      </m.div>
+
+      <TestimonialCarousel studies={studies} />
+
+      <div className="mt-16 mb-10 space-y-4">
+        <FilterGroup
+          label="Filter by industry"
+          options={INDUSTRIES}
+          value={industry}
+          onChange={setIndustry}
+        />
+        <FilterGroup
+          label="Filter by fleet size"
+          options={FLEET_SIZE_BANDS}
+          value={size}
+          onChange={setSize}
+        />
+      </div>
+
+      <p className="sr-only" role="status">
+        Showing {visible.length} of {studies.length} customer stories
+      </p>
+
+      {visible.length ? (
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+          {visible.map((study) => (
+            <CaseStudyCard key={study.slug} study={study} />
+          ))}
+        </div>
+      ) : (
+        <p className="text-center text-fg/60">
+          No stories match those filters yet.{" "}
+          <button
+            type="button"
+            onClick={() => {
+              setIndustry(null);
+              setSize(null);
+            }}
+            className="text-accent hover:text-accent-hover underline"
+          >
+            Show all customers
+          </button>
+        </p>
+      )}
+    </Container>
+  );
+};
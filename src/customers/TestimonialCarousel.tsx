@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from "react";
+import { ChevronLeft, ChevronRight, Pause, Play, Quote, Star } from "lucide-react";
+import { AnimatePresence, m, useReducedMotion } from "framer-motion";
+import { cx } from "../lib/utils";
+import { Link } from "../router/Link";
+import { caseStudyPath, type CaseStudy } from "./caseStudies";
+
+const ROTATE_MS = 8000;
+
+// ===== Testimonial Carousel =====
+// Rotates on its own only when the visitor hasn't asked for reduced motion,
+// and stops while it has hover or focus so nobody loses their place.
+export const TestimonialCarousel: React.FC<{ studies: CaseStudy[] }> = ({
+  studies,
+}) => {
+  const reduceMotion = useReducedMotion();
+  const [index, setIndex] = useState(0);
+  const [playing, setPlaying] = useState(true);
+  const [held, setHeld] = useState(false);
+  const count = studies.length;
+  const rotating = !reduceMotion && playing && !held && count > 1;
+
+  useEffect(() => {
+    if (!rotating) return;
+    const timer = window.setInterval(
+      () => setIndex((prev) => (prev + 1) % count),
+      ROTATE_MS
+    );
+    return () => window.clearInterval(timer);
+  }, [rotating, count]);
+
+  if (!count) return null;
+  const current = Math.min(index, count - 1);
+  const study = studies[current];
+  const go = (next: number) => setIndex((next + count) % count);
+
+  return (
+    <section
+      aria-roledescription="carousel"
+      aria-label="Customer testimonials"
+      onMouseEnter={() => setHeld(true)}
+      onMouseLeave={() => setHeld(false)}
+      onFocus={() => setHeld(true)}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setHeld(false);
+      }}
+      className="relative max-w-4xl mx-auto rounded-panel bg-surface border border-line p-8 lg:p-12"
+    >
+      <Quote className="absolute top-8 right-8 h-12 w-12 text-accent/20" aria-hidden="true" />
+
+      <div aria-live={rotating ? "off" : "polite"} className="min-h-[14rem]">
+        <AnimatePresence mode="wait" initial={false}>
+          <m.figure
+            key={study.slug}
+            role="group"
+            aria-roledescription="slide"
+            aria-label={`${current + 1} of ${count}`}
+            initial={reduceMotion ? false : { opacity: 0, x: 24 }}
+            animate={{ opacity: 1, x: 0 }}
+            exit={reduceMotion ? { opacity: 1 } : { opacity: 0, x: -24 }}
+            transition={{ duration: reduceMotion ? 0 : 0.3 }}
+          >
+            <div
+              className="flex gap-1 mb-6"
+              role="img"
+              aria-label={`Rated ${study.quote.rating} out of 5`}
+            >
+              {Array.from({ length: 5 }, (_, i) => (
+                <Star
+                  key={i}
+                  aria-hidden="true"
+                  className={cx(
+                    "h-5 w-5",
+                    i < study.quote.rating
+                      ? "fill-warning text-warning"
+                      : "text-line-strong"
+                  )}
+                />
+              ))}
+            </div>
+            <blockquote className="text-xl lg:text-2xl text-fg leading-relaxed mb-8">
+              “{study.quote.text}”
+            </blockquote>
+            <figcaption className="flex flex-wrap items-center gap-4">
+              <img
+                src={study.logo.src}
+                alt={study.logo.alt}
+                width={180}
+                height={48}
+                loading="lazy"
+                className="h-12 w-auto"
+              />
+              <div className="text-sm">
+                <div className="font-semibold text-fg">{study.quote.author}</div>
+                <div className="text-fg/60">
+                  {study.quote.role}, {study.company}
+                </div>
+              </div>
+              <Link
+                to={caseStudyPath(study.slug)}
+                className="ml-auto text-sm text-accent hover:text-accent-hover underline"
+              >
+                Read the case study
+              </Link>
+            </figcaption>
+          </m.figure>
+        </AnimatePresence>
+      </div>
+
+      {count > 1 && (
+        <div className="mt-8 flex items-center gap-4">
+          <button
+            type="button"
+            onClick={() => go(current - 1)}
+            aria-label="Previous testimonial"
+            className="rounded-control p-2 border border-line-strong hover:bg-surface-muted transition-colors"
+          >
+            <ChevronLeft className="h-5 w-5" aria-hidden="true" />
+          </button>
+          <button
+            type="button"
+            onClick={() => go(current + 1)}
+            aria-label="Next testimonial"
+            className="rounded-control p-2 border border-line-strong hover:bg-surface-muted transition-colors"
+          >
+            <ChevronRight className="h-5 w-5" aria-hidden="true" />
+          </button>
+          {!reduceMotion && (
+            <button
+              type="button"
+              onClick={() => setPlaying((prev) => !prev)}
+              aria-label={playing ? "Pause rotation" : "Resume rotation"}
+              className="rounded-control p-2 border border-line-strong hover:bg-surface-muted transition-colors"
+            >
+              {playing ? (
+                <Pause className="h-5 w-5" aria-hidden="true" />
+              ) : (
+                <Play className="h-5 w-5" aria-hidden="true" />
+              )}
+            </button>
+          )}
+          <div className="ml-auto flex gap-2">
+            {studies.map((s, i) => (
+              <button
+                key={s.slug}
+                type="button"
+                onClick={() => go(i)}
+                aria-label={`Show testimonial ${i + 1}: ${s.company}`}
+                aria-current={i === current ? "true" : undefined}
+                className={cx(
+                  "h-2.5 rounded-full transition-all",
+                  i === current ? "w-8 bg-primary" : "w-2.5 bg-surface-strong hover:bg-fg/40"
+                )}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,274 @@
+import type { PlanId } from "../pricing/catalog";
+
+// ===== Case Studies =====
+// Customer stories shown in the Customers section, on /customers/<slug> and
+// as Review structured data. Quotes are published verbatim with the
+// customer's sign-off; don't edit them without checking back.
+
+export type Industry = "courier" | "construction" | "field-service" | "car-hire";
+
+export const INDUSTRIES: Array<{ id: Industry; label: string }> = [
+  { id: "courier", label: "Courier & Delivery" },
+  { id: "construction", label: "Construction" },
+  { id: "field-service", label: "Field Service" },
+  { id: "car-hire", label: "Car & Van Hire" },
+];
+
+export type FleetSizeBand = "small" | "medium" | "large";
+
+/** Bands line up with the calculator's volume discount tiers. */
+export const FLEET_SIZE_BANDS: Array<{
+  id: FleetSizeBand;
+  label: string;
+  min: number;
+}> = [
+  { id: "small", label: "1–24 vehicles", min: 1 },
+  { id: "medium", label: "25–99 vehicles", min: 25 },
+  { id: "large", label: "100+ vehicles", min: 100 },
+];
+
+export interface CaseStudyMetric {
+  /** Shown large, e.g. "−18%". */
+  value: string;
+  /** What moved, e.g. "fuel cost". */
+  label: string;
+}
+
+export interface CaseStudy {
+  slug: string;
+  company: string;
+  industry: Industry;
+  fleetSize: number;
+  region: string;
+  plan: PlanId;
+  logo: { src: string; alt: string };
+  headline: string;
+  summary: string;
+  metrics: CaseStudyMetric[];
+  quote: {
+    text: string;
+    author: string;
+    role: string;
+    /** Out of 5, as given by the customer. */
+    rating: number;
+  };
+  /** ISO date the story was published. */
+  published: string;
+  challenge: string[];
+  solution: string[];
+  results: string[];
+}
+
+export const CASE_STUDIES: CaseStudy[] = [
+  {
+    slug: "mersey-parcel-co",
+    company: "Mersey Parcel Co",
+    industry: "courier",
+    fleetSize: 42,
+    region: "North West",
+    plan: "professional",
+    logo: { src: "/customers/mersey-parcel-co.svg", alt: "Mersey Parcel Co logo" },
+    headline: "Same-day couriers cut fuel spend and missed slots",
+    summary:
+      "A Liverpool same-day courier used live tracking and idle alerts to take 18% off its fuel bill in six months.",
+    metrics: [
+      { value: "−18%", label: "fuel cost" },
+      { value: "+12 pts", label: "on-time deliveries" },
+      { value: "−40%", label: "\"where's my parcel?\" calls" },
+    ],
+    quote: {
+      text: "We used to ring drivers to find out where they were. Now the office just looks at the map, and customers get an accurate ETA without us lifting the phone.",
+      author: "Sam Whitfield",
+      role: "Operations Manager",
+      rating: 5,
+    },
+    published: "2026-06-12",
+    challenge: [
+      "Mersey Parcel Co runs 42 vans across Merseyside and Greater Manchester, most of them on tight same-day delivery windows.",
+      "Dispatchers had no live view of the fleet, so every new job meant phoning drivers, and customer ETAs were best guesses.",
+    ],
+    solution: [
+      "Every van was fitted with a plug-in Franstrack tracker over a single weekend, with no vehicles off the road.",
+      "Dispatchers now allocate jobs to the nearest free van from the live map, and idle alerts flag engines left running at drops for more than ten minutes.",
+    ],
+    results: [
+      "Fuel spend fell 18% within six months, driven mostly by shorter routes and less idling.",
+      "On-time deliveries rose by 12 percentage points, and calls asking where a parcel is dropped by 40%.",
+    ],
+  },
+  {
+    slug: "calder-build-group",
+    company: "Calder Build Group",
+    industry: "construction",
+    fleetSize: 65,
+    region: "Yorkshire",
+    plan: "enterprise",
+    logo: { src: "/customers/calder-build-group.svg", alt: "Calder Build Group logo" },
+    headline: "Tracking vans and plant across 30 live sites",
+    summary:
+      "A regional contractor combined vehicle and plant tracking to recover stolen equipment and end timesheet disputes.",
+    metrics: [
+      { value: "£86k", label: "stolen plant recovered" },
+      { value: "−27%", label: "idle time" },
+      { value: "6 hrs", label: "admin saved weekly" },
+    ],
+    quote: {
+      text: "Within a month of going live we recovered a stolen excavator the same morning it went missing. The system paid for itself right there.",
+      author: "Priya Shah",
+      role: "Fleet & Plant Director",
+      rating: 5,
+    },
+    published: "2026-04-28",
+    challenge: [
+      "Calder Build Group moves 65 vans, tippers and pieces of plant between around thirty sites across West Yorkshire.",
+      "Equipment theft was rising, and reconciling site hours against timesheets took the office a day every week.",
+    ],
+    solution: [
+      "Hard-wired trackers with tamper alerts went into vans and tippers, and battery units onto high-value plant.",
+      "Geofences around each site log arrivals and departures automatically and feed straight into payroll reports.",
+    ],
+    results: [
+      "Stolen plant worth £86,000 has been recovered since launch, most of it within hours.",
+      "Idle time is down 27%, and automatic site logs save six hours of admin a week.",
+    ],
+  },
+  {
+    slug: "severn-heating-services",
+    company: "Severn Heating Services",
+    industry: "field-service",
+    fleetSize: 18,
+    region: "South West",
+    plan: "professional",
+    logo: {
+      src: "/customers/severn-heating-services.svg",
+      alt: "Severn Heating Services logo",
+    },
+    headline: "More jobs a day for a growing engineer team",
+    summary:
+      "A heating and plumbing firm fitted more emergency call-outs into each day by sending the nearest engineer first.",
+    metrics: [
+      { value: "+1.4", label: "jobs per engineer per day" },
+      { value: "−11%", label: "business mileage" },
+      { value: "4.9★", label: "customer rating" },
+    ],
+    quote: {
+      text: "Emergency call-outs used to mean someone driving across Bristol at rush hour. Now we send whoever is closest, and customers notice.",
+      author: "Tom Ellery",
+      role: "Managing Director",
+      rating: 5,
+    },
+    published: "2026-03-09",
+    challenge: [
+      "Severn Heating Services has 18 engineers covering Bristol, Bath and north Somerset, with a growing share of emergency work.",
+      "Jobs were planned on a whiteboard, so urgent calls often went to whoever answered the phone rather than whoever was nearest.",
+    ],
+    solution: [
+      "Live tracking in the office and the mobile app lets the scheduler see every engineer and their next job at a glance.",
+      "Private-use mode lets engineers who take vans home switch tracking off in the evening, which made the rollout easy to agree.",
+    ],
+    results: [
+      "Engineers complete 1.4 more jobs a day on average, and business mileage is down 11%.",
+      "Faster emergency response helped lift the firm's customer rating to 4.9 stars.",
+    ],
+  },
+  {
+    slug: "harbourside-vehicle-hire",
+    company: "Harbourside Vehicle Hire",
+    industry: "car-hire",
+    fleetSize: 140,
+    region: "North West",
+    plan: "enterprise",
+    logo: {
+      src: "/customers/harbourside-vehicle-hire.svg",
+      alt: "Harbourside Vehicle Hire logo",
+    },
+    headline: "Fewer mileage disputes and faster recoveries",
+    summary:
+      "A car and van hire company used accurate trip data to settle mileage disputes and recover overdue vehicles.",
+    metrics: [
+      { value: "−65%", label: "mileage disputes" },
+      { value: "3×", label: "faster overdue recoveries" },
+      { value: "+9%", label: "fleet utilisation" },
+    ],
+    quote: {
+      text: "When a customer disputes a mileage charge we can show them the trip history in seconds. Arguments that used to take a week are over in one call.",
+      author: "Jo Mercer",
+      role: "Head of Operations",
+      rating: 4,
+    },
+    published: "2026-02-16",
+    challenge: [
+      "Harbourside rents 140 cars and vans from three branches around Liverpool and the Wirral.",
+      "Mileage disputes and overdue returns tied up branch staff, and some vehicles sat idle while others were overbooked.",
+    ],
+    solution: [
+      "Trackers report odometer readings and trips for every rental, and the API feeds them straight into Harbourside's booking system.",
+      "Overdue alerts show the vehicle's last position, so branches can contact the customer with facts rather than guesses.",
+    ],
+    results: [
+      "Mileage disputes are down 65% and overdue vehicles are recovered three times faster.",
+      "Better visibility of where vehicles are has raised utilisation by 9%.",
+    ],
+  },
+  {
+    slug: "pennine-express-couriers",
+    company: "Pennine Express Couriers",
+    industry: "courier",
+    fleetSize: 9,
+    region: "Yorkshire",
+    plan: "essential",
+    logo: {
+      src: "/customers/pennine-express-couriers.svg",
+      alt: "Pennine Express Couriers logo",
+    },
+    headline: "Big-fleet visibility on a small-fleet budget",
+    summary:
+      "A nine-van courier got live tracking running in an afternoon and won a contract by sharing proof of delivery times.",
+    metrics: [
+      { value: "1 day", label: "to go live" },
+      { value: "+1", label: "major contract won" },
+      { value: "−9%", label: "fuel cost" },
+    ],
+    quote: {
+      text: "We fitted the trackers ourselves in an afternoon. Being able to show a prospect our actual delivery times helped us win our biggest contract.",
+      author: "Alex Brennan",
+      role: "Owner",
+      rating: 5,
+    },
+    published: "2025-11-20",
+    challenge: [
+      "Pennine Express runs nine vans out of Huddersfield and needed to prove reliability to win work from larger shippers.",
+    ],
+    solution: [
+      "Self-install OBD trackers went into every van in an afternoon, on the Essential plan.",
+      "Monthly delivery-time reports give prospects hard numbers rather than promises.",
+    ],
+    results: [
+      "The delivery reports helped win a regional contract that doubled weekday volume.",
+      "Route history also highlighted avoidable detours, trimming fuel costs by 9%.",
+    ],
+  },
+];
+
+export const CUSTOMERS_PATH = "/customers";
+
+export const caseStudyPath = (slug: string) => `${CUSTOMERS_PATH}/${slug}`;
+
+export const findCaseStudyByPath = (path: string) =>
+  CASE_STUDIES.find((study) => caseStudyPath(study.slug) === path) ?? null;
+
+export const fleetSizeBandOf = (fleetSize: number): FleetSizeBand =>
+  [...FLEET_SIZE_BANDS].reverse().find((band) => fleetSize >= band.min)!.id;
+
+export const industryLabel = (id: Industry) =>
+  INDUSTRIES.find((industry) => industry.id === id)!.label;
+
+export const filterCaseStudies = (
+  studies: CaseStudy[],
+  { industry, size }: { industry: Industry | null; size: FleetSizeBand | null }
+) =>
+  studies.filter(
+    (study) =>
+      (!industry || study.industry === industry) &&
+      (!size || fleetSizeBandOf(study.fleetSize) === size)
+  );
@@ -0,0 +1,421 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  CalendarCheck,
+  CalendarDays,
+  Clock,
+  Download,
+  Globe,
+} from "lucide-react";
+import { m } from "framer-motion";
+import { Button, Card, Container } from "../components/ui";
+import { TextAreaField, TextField } from "../components/form";
+import { cx } from "../lib/utils";
+import { Link } from "../router/Link";
+import { useAnalytics } from "../analytics/useAnalytics";
+import { takeChatHandoff } from "../chat/session";
+import { useRouter } from "../router/useRouter";
+import { addDays, detectTimeZone, isoDateInZone, weekdayOf } from "../lib/time";
+import {
+  DEFAULT_AVAILABILITY,
+  getAvailableDays,
+  type AvailabilityConfig,
+  type TimeSlot,
+} from "./availability";
+import {
+  emptyAttendee,
+  getDefaultBookingAdapter,
+  validateAttendee,
+  type AttendeeDetails,
+  type AttendeeErrors,
+  type DemoBooking,
+  type DemoBookingAdapter,
+} from "./booking";
+import { buildIcs, downloadIcs } from "./ics";
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+const dayFormatter = new Intl.DateTimeFormat("en-GB", {
+  weekday: "long",
+  day: "numeric",
+  month: "long",
+  timeZone: "UTC",
+});
+
+const isoToUtcDate = (isoDate: string) => new Date(`${isoDate}T12:00:00Z`);
+
+const formatTime = (date: Date, timeZone: string) =>
+  new Intl.DateTimeFormat("en-GB", {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone,
+  }).format(date);
+
+const formatDateTime = (date: Date, timeZone: string) =>
+  new Intl.DateTimeFormat("en-GB", {
+    dateStyle: "full",
+    timeStyle: "short",
+    timeZone,
+  }).format(date);
+
+const fieldId = (key: string) => `demo-${key}`;
+
+// ===== Demo Booking =====
+export const DemoSection: React.FC<{
+  availability?: AvailabilityConfig;
+  adapter?: DemoBookingAdapter;
+}> = ({ availability = DEFAULT_AVAILABILITY, adapter }) => {
+  const booker = useMemo(
+    () => adapter ?? getDefaultBookingAdapter(),
+    [adapter]
+  );
+  const { track } = useAnalytics();
+  const [visitorZone, setVisitorZone] = useState(availability.timeZone);
+  const [busy, setBusy] = useState<TimeSlot[]>([]);
+  // Null until mounted: slots depend on the current time, which the
+  // prerendered markup can't know, so both render none until then.
+  const [now, setNow] = useState<Date | null>(null);
+  const [selectedDate, setSelectedDate] = useState<string | null>(null);
+  const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
+  const [details, setDetails] = useState<AttendeeDetails>(emptyAttendee);
+  const [errors, setErrors] = useState<AttendeeErrors>({});
+  const [submitting, setSubmitting] = useState(false);
+  const [failure, setFailure] = useState("");
+  const [booking, setBooking] = useState<DemoBooking | null>(null);
+  const [fromChat, setFromChat] = useState(false);
+  const { location } = useRouter();
+
+  // The support chat hands over its transcript as notes for the call.
+  useEffect(() => {
+    const handoff = takeChatHandoff("demo");
+    if (!handoff) return;
+    setDetails((prev) => ({ ...prev, notes: handoff.transcript }));
+    setFromChat(true);
+  }, [location]);
+
+  useEffect(() => {
+    setNow(new Date());
+    setVisitorZone(detectTimeZone(availability.timeZone));
+    let cancelled = false;
+    booker.getBusy().then((slots) => {
+      if (!cancelled) setBusy(slots);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [booker, availability.timeZone]);
+
+  const days = useMemo(
+    () => (now ? getAvailableDays(availability, now, busy) : []),
+    [availability, now, busy]
+  );
+  const byDate = useMemo(
+    () => new Map(days.map((day) => [day.date, day.slots])),
+    [days]
+  );
+
+  // Lay the booking horizon out as whole Monday-first weeks.
+  const calendar = useMemo(() => {
+    if (!now) return [];
+    const today = isoDateInZone(now, availability.timeZone);
+    const lead = (weekdayOf(today) + 6) % 7;
+    const first = addDays(today, -lead);
+    const total = Math.ceil((lead + availability.horizonDays) / 7) * 7;
+    return Array.from({ length: total }, (_, i) => addDays(first, i));
+  }, [now, availability.timeZone, availability.horizonDays]);
+
+  const activeDate = selectedDate ?? days[0]?.date ?? null;
+  const slots = activeDate ? (byDate.get(activeDate) ?? []) : [];
+  const showsLondon = visitorZone !== availability.timeZone;
+
+  const update =
+    (key: keyof AttendeeDetails) =>
+    (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+      const value = e.target.value;
+      setDetails((prev) => ({ ...prev, [key]: value }));
+      if (errors[key]) setErrors((prev) => ({ ...prev, [key]: undefined }));
+    };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!selectedSlot) return;
+    const nextErrors = validateAttendee(details);
+    setErrors(nextErrors);
+    const firstInvalid = Object.keys(nextErrors)[0];
+    if (firstInvalid) {
+      document.getElementById(fieldId(firstInvalid))?.focus();
+      return;
+    }
+
+    setSubmitting(true);
+    setFailure("");
+    try {
+      setBooking(
+        await booker.book({
+          ...details,
+          start: selectedSlot.start.toISOString(),
+          end: selectedSlot.end.toISOString(),
+          timeZone: visitorZone,
+        })
+      );
+      track("form_submitted", { form: "demo" });
+    } catch (err) {
+      setFailure(
+        err instanceof Error ? err.message : "Something went wrong booking your demo."
+      );
+      setSelectedSlot(null);
+      setBusy(await booker.getBusy());
+      setNow(new Date());
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const downloadInvite = () => {
+    if (!booking) return;
+    downloadIcs(
+      "franstrack-demo.ics",
+      buildIcs({
+        uid: `${booking.id}@franstrack.co.uk`,
+        start: new Date(booking.start),
+        end: new Date(booking.end),
+        summary: "Franstrack product demo",
+        description: `Live walkthrough of the Franstrack fleet platform for ${booking.company}. We'll send a video link before the call.`,
+        location: "Online (video call)",
+        organizer: { name: "Franstrack Sales", email: "sales@franstrack.co.uk" },
+        attendee: { name: booking.name, email: booking.email },
+      })
+    );
+  };
+
+  const restart = () => {
+    setBooking(null);
+    setSelectedSlot(null);
+    setDetails(emptyAttendee());
+    setNow(new Date());
+    booker.getBusy().then(setBusy);
+  };
+
+  return (
+    <Container id="demo" className="py-16 lg:py-28">
+      <m.div
+        initial={{ opacity: 0, y: 30 }}
+        whileInView={{ opacity: 1, y: 0 }}
+        className="text-center mb-16"
+      >
+        <h2 className="text-3xl lg:text-5xl font-bold text-fg mb-6">
+          Book a
+          <span className="bg-gradient-to-r from-highlight to-highlight-alt bg-clip-text text-transparent">
+            {" "}
+            Live Demo
+          </span>
+        </h2>
+        <p className="text-xl text-fg/70 max-w-2xl mx-auto">
+          Pick a time that suits you for a 30-minute walkthrough with one of
+          our fleet specialists.
+        </p>
+      </m.div>
+
+      <Card className="max-w-5xl mx-auto border border-line">
+        {booking ? (
+          <div className="text-center py-12" role="status">
+            <CalendarCheck className="h-12 w-12 text-success mx-auto mb-4" />
+            <h3 className="text-2xl font-bold text-fg mb-2">
+              Your demo is booked
+            </h3>
+            <p className="text-fg/70">
+              {formatDateTime(new Date(booking.start), visitorZone)}
+            </p>
+            {showsLondon && (
+              <p className="text-fg/50 text-sm mt-1">
+                {formatTime(new Date(booking.start), availability.timeZone)} UK
+                time
+              </p>
+            )}
+            <p className="text-fg/70 mt-4 mb-8">
+              We'll email a confirmation to {booking.email}.
+            </p>
+            <div className="flex flex-col sm:flex-row gap-4 justify-center">
+              <Button onClick={downloadInvite}>
+                <Download className="mr-2 h-5 w-5" />
+                Add to calendar (.ics)
+              </Button>
+              <Button variant="secondary" onClick={restart}>
+                Book another time
+              </Button>
+            </div>
+          </div>
+        ) : selectedSlot ? (
+          <form noValidate onSubmit={handleSubmit} className="space-y-6">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+              <button
+                type="button"
+                onClick={() => setSelectedSlot(null)}
+                className="inline-flex items-center gap-2 text-sm text-accent hover:text-accent-hover"
+              >
+                <ArrowLeft className="h-4 w-4" />
+                Change time
+              </button>
+              <div className="flex items-center gap-2 text-sm text-fg/80">
+                <Clock className="h-4 w-4 text-accent" />
+                {formatDateTime(selectedSlot.start, visitorZone)}
+              </div>
+            </div>
+
+            <div className="grid sm:grid-cols-2 gap-6">
+              <TextField
+                id={fieldId("name")}
+                label="Full name"
+                autoComplete="name"
+                required
+                value={details.name}
+                onChange={update("name")}
+                error={errors.name}
+              />
+              <TextField
+                id={fieldId("email")}
+                label="Work email"
+                type="email"
+                autoComplete="email"
+                required
+                value={details.email}
+                onChange={update("email")}
+                error={errors.email}
+              />
+              <TextField
+                id={fieldId("company")}
+                label="Company"
+                autoComplete="organization"
+                required
+                value={details.company}
+                onChange={update("company")}
+                error={errors.company}
+                className="sm:col-span-2"
+              />
+            </div>
+            <TextAreaField
+              id={fieldId("notes")}
+              label="Anything we should prepare?"
+              hint={
+                fromChat
+                  ? "Includes your chat with our assistant; edit as you like"
+                  : "Optional — fleet size, current system, must-have features"
+              }
+              value={details.notes}
+              onChange={update("notes")}
+              error={errors.notes}
+            />
+
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                disabled={submitting}
+                className="w-full sm:w-auto disabled:opacity-60"
+              >
+                {submitting ? "Booking…" : "Confirm booking"}
+              </Button>
+            </div>
+          </form>
+        ) : (
+          <div className="grid lg:grid-cols-5 gap-8">
+            <div className="lg:col-span-3">
+              <div className="flex items-center gap-2 mb-4 text-fg font-semibold">
+                <CalendarDays className="h-5 w-5 text-accent" />
+                Choose a day
+              </div>
+              <div className="grid grid-cols-7 gap-2 text-center">
+                {WEEKDAYS.map((day) => (
+                  <div key={day} className="text-xs text-fg/50 pb-2">
+                    {day}
+                  </div>
+                ))}
+                {calendar.map((date) => {
+                  const available = byDate.has(date);
+                  const active = date === activeDate;
+                  return (
+                    <button
+                      key={date}
+                      type="button"
+                      disabled={!available}
+                      aria-pressed={active}
+                      aria-label={`${dayFormatter.format(isoToUtcDate(date))}${
+                        available ? "" : ", unavailable"
+                      }`}
+                      onClick={() => setSelectedDate(date)}
+                      className={cx(
+                        "aspect-square rounded-lg text-sm transition-colors",
+                        active && "bg-primary text-on-primary shadow-raised",
+                        !active &&
+                          available &&
+                          "bg-canvas text-fg hover:bg-surface-muted border border-line",
+                        !available && "text-fg/20 cursor-not-allowed"
+                      )}
+                    >
+                      {Number(date.slice(8))}
+                    </button>
+                  );
+                })}
+              </div>
+              <p className="mt-4 flex items-center gap-2 text-xs text-fg/50">
+                <Globe className="h-4 w-4" />
+                Times shown in {visitorZone}
+                {showsLondon && ` (we're based in ${availability.timeZone})`}
+              </p>
+            </div>
+
+            <div className="lg:col-span-2">
+              <div className="text-fg font-semibold mb-4">
+                {activeDate
+                  ? dayFormatter.format(isoToUtcDate(activeDate))
+                  : now
+                    ? "No availability"
+                    : "Loading available times…"}
+              </div>
+              {failure && (
+                <div
+                  role="alert"
+                  className="mb-4 flex items-start gap-3 rounded-control border border-danger/50 bg-danger/10 p-3 text-sm text-danger"
+                >
+                  <AlertTriangle className="h-5 w-5 flex-shrink-0 text-danger" />
+                  {failure}
+                </div>
+              )}
+              {slots.length ? (
+                <ul className="grid grid-cols-2 gap-2 max-h-80 overflow-y-auto pr-1">
+                  {slots.map((slot) => (
+                    <li key={slot.start.toISOString()}>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedSlot(slot)}
+                        className="w-full rounded-lg border border-line bg-canvas px-3 py-2 text-sm text-fg hover:border-accent hover:bg-surface-muted transition-colors"
+                      >
+                        {formatTime(slot.start, visitorZone)}
+                        {showsLondon && (
+                          <span className="block text-xs text-fg/50">
+                            {formatTime(slot.start, availability.timeZone)} UK
+                          </span>
+                        )}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              ) : now ? (
+                <p className="text-fg/60 text-sm">
+                  We're fully booked for the next few weeks. Please{" "}
+                  <Link
+                    to="/#contact"
+                    className="text-accent hover:text-accent-hover underline"
+                  >
+                    get in touch
+                  </Link>{" "}
+                  and we'll find a time.
+                </p>
+              ) : null}
+            </div>
+          </div>
+        )}
+      </Card>
+    </Container>
+  );
+};
@@ -0,0 +1,110 @@
+import {
+  addDays,
+  isoDateInZone,
+  parseClock,
+  weekdayOf,
+  zonedTimeToDate,
+} from "../lib/time";
+
+// ===== Availability =====
+export interface WorkingHours {
+  start: string;
+  end: string;
+}
+
+export interface AvailabilityConfig {
+  timeZone: string;
+  /** Indexed by weekday, 0 = Sunday. `null` means closed. */
+  workingHours: Array<WorkingHours | null>;
+  slotMinutes: number;
+  bufferMinutes: number;
+  /** Earliest bookable slot, measured from now. */
+  minNoticeHours: number;
+  horizonDays: number;
+  /** `YYYY-MM-DD` dates in `timeZone` with no availability. */
+  bankHolidays: string[];
+}
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+export interface AvailableDay {
+  date: string;
+  slots: TimeSlot[];
+}
+
+const weekday: WorkingHours = { start: "09:00", end: "17:00" };
+
+// England & Wales bank holidays, from gov.uk.
+const ENGLAND_BANK_HOLIDAYS = [
+  "2026-01-01",
+  "2026-04-03",
+  "2026-04-06",
+  "2026-05-04",
+  "2026-05-25",
+  "2026-08-31",
+  "2026-12-25",
+  "2026-12-28",
+  "2027-01-01",
+  "2027-03-26",
+  "2027-03-29",
+  "2027-05-03",
+  "2027-05-31",
+  "2027-08-30",
+  "2027-12-27",
+  "2027-12-28",
+];
+
+export const DEFAULT_AVAILABILITY: AvailabilityConfig = {
+  timeZone: "Europe/London",
+  workingHours: [null, weekday, weekday, weekday, weekday, weekday, null],
+  slotMinutes: 30,
+  bufferMinutes: 15,
+  minNoticeHours: 24,
+  horizonDays: 21,
+  bankHolidays: ENGLAND_BANK_HOLIDAYS,
+};
+
+const overlaps = (a: TimeSlot, b: TimeSlot, bufferMs: number) =>
+  a.start.getTime() < b.end.getTime() + bufferMs &&
+  b.start.getTime() < a.end.getTime() + bufferMs;
+
+export const getAvailableDays = (
+  config: AvailabilityConfig,
+  now: Date = new Date(),
+  busy: TimeSlot[] = []
+): AvailableDay[] => {
+  const today = isoDateInZone(now, config.timeZone);
+  const earliest = now.getTime() + config.minNoticeHours * 3600000;
+  const bufferMs = config.bufferMinutes * 60000;
+  const step = config.slotMinutes + config.bufferMinutes;
+  const days: AvailableDay[] = [];
+
+  for (let i = 0; i < config.horizonDays; i++) {
+    const date = addDays(today, i);
+    const hours = config.workingHours[weekdayOf(date)];
+    if (!hours || config.bankHolidays.includes(date)) continue;
+
+    const slots: TimeSlot[] = [];
+    const close = parseClock(hours.end);
+    for (
+      let minute = parseClock(hours.start);
+      minute + config.slotMinutes <= close;
+      minute += step
+    ) {
+      const start = zonedTimeToDate(date, minute, config.timeZone);
+      const slot = {
+        start,
+        end: new Date(start.getTime() + config.slotMinutes * 60000),
+      };
+      if (start.getTime() < earliest) continue;
+      if (busy.some((b) => overlaps(slot, b, bufferMs))) continue;
+      slots.push(slot);
+    }
+    if (slots.length) days.push({ date, slots });
+  }
+
+  return days;
+};
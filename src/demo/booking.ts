@@ -0,0 +1,179 @@
+import { isBrowser } from "../lib/utils";
+import { isEmail } from "../lib/validation";
+import { COMPANY } from "../seo/company";
+import type { TimeSlot } from "./availability";
+
+// ===== Demo Booking Model =====
+export interface AttendeeDetails {
+  name: string;
+  email: string;
+  company: string;
+  notes: string;
+}
+
+export type AttendeeErrors = Partial<Record<keyof AttendeeDetails, string>>;
+
+export interface DemoBookingRequest extends AttendeeDetails {
+  start: string;
+  end: string;
+  /** The visitor's detected time zone, so sales can confirm in local time. */
+  timeZone: string;
+}
+
+export interface DemoBooking extends DemoBookingRequest {
+  id: string;
+  createdAt: string;
+}
+
+export const NOTES_MAX_LENGTH = 1000;
+
+export const emptyAttendee = (): AttendeeDetails => ({
+  name: "",
+  email: "",
+  company: "",
+  notes: "",
+});
+
+
+export const validateAttendee = (values: AttendeeDetails): AttendeeErrors => {
+  const errors: AttendeeErrors = {};
+  if (values.name.trim().length < 2) errors.name = "Please enter your name.";
+  if (!isEmail(values.email))
+    errors.email = "Please enter a valid email address.";
+  if (!values.company.trim()) errors.company = "Please enter your company.";
+  if (values.notes.length > NOTES_MAX_LENGTH)
+    errors.notes = `Please keep notes under ${NOTES_MAX_LENGTH} characters.`;
+  return errors;
+};
+
+const createId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// ===== Booking Adapters =====
+export interface DemoBookingAdapter {
+  /** Slots that are already taken and must not be offered. */
+  getBusy: () => Promise<TimeSlot[]>;
+  book: (request: DemoBookingRequest) => Promise<DemoBooking>;
+}
+
+export class DemoBookingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DemoBookingError";
+  }
+}
+
+type WireSlot = { start: string; end: string };
+
+const toSlot = (slot: WireSlot): TimeSlot => ({
+  start: new Date(slot.start),
+  end: new Date(slot.end),
+});
+
+export const createFetchBookingAdapter = (endpoint: string): DemoBookingAdapter => ({
+  async getBusy() {
+    try {
+      const response = await fetch(`${endpoint}/busy`);
+      if (!response.ok) return [];
+      return ((await response.json()) as WireSlot[]).map(toSlot);
+    } catch {
+      return [];
+    }
+  },
+  async book(request) {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      });
+    } catch {
+      throw new DemoBookingError(
+        "We couldn't reach our servers. Please check your connection."
+      );
+    }
+    if (response.status === 409) {
+      throw new DemoBookingError(
+        "Sorry, that slot has just been taken. Please pick another time."
+      );
+    }
+    if (!response.ok) {
+      throw new DemoBookingError("Something went wrong booking your demo.");
+    }
+    return (await response.json()) as DemoBooking;
+  },
+});
+
+export const LOCAL_BOOKINGS_KEY = "ft_demo_bookings";
+
+/** Keeps bookings in localStorage (or memory) for local development. */
+export const createLocalBookingAdapter = (
+  storageKey: string = LOCAL_BOOKINGS_KEY
+): DemoBookingAdapter => {
+  const memory: DemoBooking[] = [];
+
+  const readStored = (): DemoBooking[] => {
+    if (!isBrowser) return [];
+    try {
+      const raw = localStorage.getItem(storageKey);
+      return raw ? (JSON.parse(raw) as DemoBooking[]) : [];
+    } catch {
+      return [];
+    }
+  };
+
+  const all = () => [...readStored(), ...memory];
+
+  return {
+    async getBusy() {
+      return all().map(toSlot);
+    },
+    async book(request) {
+      const start = new Date(request.start).getTime();
+      if (all().some((b) => new Date(b.start).getTime() === start)) {
+        throw new DemoBookingError(
+          "Sorry, that slot has just been taken. Please pick another time."
+        );
+      }
+      const booking: DemoBooking = {
+        ...request,
+        id: createId(),
+        createdAt: new Date().toISOString(),
+      };
+      if (isBrowser) {
+        try {
+          localStorage.setItem(
+            storageKey,
+            JSON.stringify([...readStored(), booking])
+          );
+          return booking;
+        } catch {
+          // Storage unavailable; fall back to the in-memory list.
+        }
+      }
+      memory.push(booking);
+      return booking;
+    },
+  };
+};
+
+/** Used when no endpoint is configured, so no one is shown a booking that doesn't exist. */
+export const createUnavailableBookingAdapter = (): DemoBookingAdapter => ({
+  getBusy: async () => [],
+  async book() {
+    throw new DemoBookingError(
+      `Online booking isn't available right now. Please email ${COMPANY.email} and we'll arrange a time.`
+    );
+  },
+});
+
+export const getDefaultBookingAdapter = (): DemoBookingAdapter => {
+  const endpoint = import.meta.env.VITE_DEMO_ENDPOINT;
+  if (endpoint) return createFetchBookingAdapter(endpoint);
+  return import.meta.env.DEV
+    ? createLocalBookingAdapter()
+    : createUnavailableBookingAdapter();
+};
@@ -0,0 +1,83 @@
+import { isBrowser } from "../lib/utils";
+
+// ===== iCalendar (RFC 5545) =====
+export interface CalendarEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  organizer?: { name: string; email: string };
+  attendee?: { name: string; email: string };
+}
+
+const quoteParam = (value: string) => `"${value.replace(/"/g, "")}"`;
+
+const formatUtc = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, "\\\\")
+    .replace(/\r?\n/g, "\\n")
+    .replace(/([,;])/g, "\\$1");
+
+// Lines longer than 75 octets must be folded with CRLF + a single space.
+const fold = (line: string) => {
+  const encoder = new TextEncoder();
+  const out: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = out.length ? 74 : 75;
+    if (encoder.encode(current + char).length > limit) {
+      out.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  out.push(current);
+  return out.join("\r\n ");
+};
+
+export const buildIcs = (event: CalendarEvent, now: Date = new Date()) => {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Franstrack//Demo Booking//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    event.description && `DESCRIPTION:${escapeText(event.description)}`,
+    event.location && `LOCATION:${escapeText(event.location)}`,
+    event.organizer &&
+      `ORGANIZER;CN=${quoteParam(event.organizer.name)}:mailto:${event.organizer.email}`,
+    event.attendee &&
+      `ATTENDEE;CN=${quoteParam(event.attendee.name)};RSVP=TRUE:mailto:${event.attendee.email}`,
+    "STATUS:CONFIRMED",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].filter((line): line is string => !!line);
+
+  return lines.map(fold).join("\r\n") + "\r\n";
+};
+
+export const downloadIcs = (filename: string, content: string) => {
+  if (!isBrowser) return;
+  const url = URL.createObjectURL(
+    new Blob([content], { type: "text/calendar;charset=utf-8" })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
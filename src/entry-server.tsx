@@ -0,0 +1,38 @@
+import { StrictMode } from "react";
+import { renderToString } from "react-dom/server";
+import App from "./App.tsx";
+import { ATOM_PATH, RSS_PATH, buildAtomFeed, buildRssFeed } from "./blog/feeds";
+import { POSTS } from "./blog/posts";
+import { validateChatScript } from "./chat/script";
+import { SUPPORT_SCRIPT } from "./chat/supportScript";
+import { HELP_INDEX_PATH } from "./help/search";
+import { helpSearchIndex } from "./help/searchIndex";
+import { renderHead } from "./seo/head";
+import { headForPath, staticPages } from "./seo/pages";
+import { SITE_URL } from "./seo/site";
+import { validateStructuredData } from "./seo/validate";
+
+// ===== Prerender Entry =====
+// Built with `vite build --ssr` and driven by scripts/prerender.js.
+export const render = (path: string) => ({
+  html: renderToString(
+    <StrictMode>
+      <App initialPath={path} />
+    </StrictMode>
+  ),
+  head: renderHead(headForPath(path)),
+});
+
+export const feeds = () => [
+  { path: RSS_PATH, body: buildRssFeed(POSTS) },
+  { path: ATOM_PATH, body: buildAtomFeed(POSTS) },
+];
+
+export const helpIndex = () => ({
+  path: HELP_INDEX_PATH,
+  body: JSON.stringify(helpSearchIndex()),
+});
+
+export const chatScriptIssues = () => validateChatScript(SUPPORT_SCRIPT);
+
+export { staticPages, validateStructuredData, SITE_URL };
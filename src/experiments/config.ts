@@ -0,0 +1,54 @@
+import type { BillingCycle } from "../pricing/calculator";
+import { defineExperiment } from "./experiments";
+
+// ===== Experiment Config =====
+// Set a weight to 0 to stop sending traffic to a variant without deleting it.
+export const HERO_HEADLINE = defineExperiment<{ title: string; highlight: string }>({
+  id: "hero-headline",
+  description: "Does an outcome-led headline beat the product description?",
+  variants: [
+    {
+      id: "control",
+      weight: 50,
+      value: { title: "Smarter Fleet", highlight: "Management" },
+    },
+    {
+      id: "outcome",
+      weight: 50,
+      value: { title: "Know Where Every Vehicle", highlight: "Is, Right Now" },
+    },
+  ],
+});
+
+export const CTA_WORDING = defineExperiment<{ trial: string; demo: string }>({
+  id: "cta-wording",
+  description: "Which wording gets more visitors to start a trial or book a demo?",
+  variants: [
+    {
+      id: "control",
+      weight: 34,
+      value: { trial: "Start Free Trial", demo: "Schedule Demo" },
+    },
+    {
+      id: "no-card",
+      weight: 33,
+      value: { trial: "Try It Free — No Card Needed", demo: "Schedule Demo" },
+    },
+    {
+      id: "personal",
+      weight: 33,
+      value: { trial: "Start My 14-Day Trial", demo: "Book My Demo" },
+    },
+  ],
+});
+
+export const PRICING_DEFAULT_CYCLE = defineExperiment<BillingCycle>({
+  id: "pricing-default-cycle",
+  description: "Does showing annual prices first lift plan selections?",
+  variants: [
+    { id: "monthly", weight: 50, value: "monthly" },
+    { id: "annual", weight: 50, value: "annual" },
+  ],
+});
+
+export const EXPERIMENTS = [HERO_HEADLINE, CTA_WORDING, PRICING_DEFAULT_CYCLE];
@@ -0,0 +1,69 @@
+// ===== Experiments =====
+// An experiment is a list of variants with traffic weights; the first variant
+// is the control, which is also what prerendered pages show. Definitions live
+// in ./config so copy and defaults change without touching component JSX.
+export interface Variant<T> {
+  id: string;
+  /** Relative share of traffic; weights needn't add up to 100. */
+  weight: number;
+  value: T;
+}
+
+export interface Experiment<T> {
+  id: string;
+  description: string;
+  variants: [Variant<T>, ...Variant<T>[]];
+}
+
+export const defineExperiment = <T>(experiment: Experiment<T>) => experiment;
+
+export const controlOf = <T>(experiment: Experiment<T>) => experiment.variants[0];
+
+/** QA override, e.g. `?exp=hero-headline:outcome,pricing-default-cycle:annual`. */
+export const EXPERIMENT_PARAM = "exp";
+
+export const parseOverrides = (value: string | null): Record<string, string> => {
+  const overrides: Record<string, string> = {};
+  for (const pair of value?.split(",") ?? []) {
+    const [experiment, variant] = pair.split(":").map((part) => part.trim());
+    if (experiment && variant) overrides[experiment] = variant;
+  }
+  return overrides;
+};
+
+/** FNV-1a, scaled to [0, 1): the same input always lands in the same place. */
+export const hashToUnit = (input: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 4294967296;
+};
+
+/**
+ * Picks the visitor's variant. Hashing the experiment ID with the visitor ID
+ * keeps buckets stable across visits but independent between experiments.
+ * An override naming an unknown variant is ignored.
+ */
+export const assignVariant = <T>(
+  experiment: Experiment<T>,
+  visitorId: string,
+  override?: string
+): Variant<T> => {
+  const forced = experiment.variants.find((variant) => variant.id === override);
+  if (forced) return forced;
+
+  const total = experiment.variants.reduce(
+    (sum, variant) => sum + Math.max(0, variant.weight),
+    0
+  );
+  if (total <= 0) return controlOf(experiment);
+
+  let point = hashToUnit(`${experiment.id}:${visitorId}`) * total;
+  for (const variant of experiment.variants) {
+    point -= Math.max(0, variant.weight);
+    if (point < 0) return variant;
+  }
+  return controlOf(experiment);
+};
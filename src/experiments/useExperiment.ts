@@ -0,0 +1,40 @@
+import { useEffect, useState } from "react";
+import { useAnalytics } from "../analytics/useAnalytics";
+import { useConsent } from "../consent/useConsent";
+import { readQuery } from "../lib/url";
+import {
+  EXPERIMENT_PARAM,
+  assignVariant,
+  controlOf,
+  parseOverrides,
+  type Experiment,
+} from "./experiments";
+import { getVisitorId } from "./visitor";
+
+/**
+ * The visitor's variant of `experiment`. Renders the control until mounted so
+ * prerendered markup hydrates cleanly, then reports an exposure for the
+ * variant actually shown.
+ */
+export const useExperiment = <T>(experiment: Experiment<T>) => {
+  const { ready, isAllowed } = useConsent();
+  const { expose } = useAnalytics();
+  const persist = isAllowed("analytics");
+  const [variant, setVariant] = useState(() => controlOf(experiment));
+  const [assigned, setAssigned] = useState(false);
+
+  useEffect(() => {
+    if (!ready) return;
+    const overrides = parseOverrides(readQuery().get(EXPERIMENT_PARAM));
+    const next = assignVariant(
+      experiment,
+      getVisitorId(persist),
+      overrides[experiment.id]
+    );
+    setVariant(next);
+    setAssigned(true);
+    expose(experiment.id, next.id);
+  }, [experiment, ready, persist, expose]);
+
+  return { variant: variant.id, value: variant.value, assigned };
+};
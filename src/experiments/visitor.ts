@@ -0,0 +1,36 @@
+import { isBrowser } from "../lib/utils";
+
+// ===== Visitor ID =====
+// Buckets hang off a random visitor ID. It is only written to storage with
+// analytics consent; without it the ID lasts for the page view, so variants
+// can change between visits but never mid-page.
+export const VISITOR_STORAGE_KEY = "ft_visitor";
+
+let sessionId: string | null = null;
+
+const randomId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2) + Date.now().toString(36);
+
+export const getVisitorId = (persist: boolean): string => {
+  if (!isBrowser) return "";
+  try {
+    if (!persist) {
+      localStorage.removeItem(VISITOR_STORAGE_KEY);
+    } else {
+      sessionId = localStorage.getItem(VISITOR_STORAGE_KEY) ?? sessionId;
+    }
+  } catch {
+    // Storage unavailable; fall back to the in-memory ID.
+  }
+  sessionId ??= randomId();
+  if (persist) {
+    try {
+      localStorage.setItem(VISITOR_STORAGE_KEY, sessionId);
+    } catch {
+      // As above.
+    }
+  }
+  return sessionId;
+};
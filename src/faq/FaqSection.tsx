@@ -0,0 +1,60 @@
+import React from "react";
+import { ArrowRight, ChevronDown } from "lucide-react";
+import { m } from "framer-motion";
+import { Container } from "../components/ui";
+import { Link } from "../router/Link";
+import { ROUTES } from "../router/routes";
+import { FEATURED_FAQ_ITEMS, type FaqItem } from "./faq";
+
+// ===== FAQ =====
+export const FaqSection: React.FC<{ items?: FaqItem[] }> = ({
+  items = FEATURED_FAQ_ITEMS,
+}) => (
+  <Container id="faq" className="py-16 lg:py-24">
+    <m.div
+      initial={{ opacity: 0, y: 30 }}
+      whileInView={{ opacity: 1, y: 0 }}
+      className="text-center mb-12"
+    >
+      <h2 className="text-3xl lg:text-5xl font-bold text-fg mb-6">
+        Frequently Asked
+        <span className="bg-gradient-to-r from-highlight to-highlight-alt bg-clip-text text-transparent">
+          {" "}
+          Questions
+        </span>
+      </h2>
+      <p className="text-xl text-fg/70 max-w-2xl mx-auto">
+        The things fleet managers ask us most before getting started.
+      </p>
+    </m.div>
+
+    <div className="max-w-3xl mx-auto space-y-4">
+      {items.map((item) => (
+        <details
+          key={item.id}
+          id={`faq-${item.id}`}
+          className="group rounded-card bg-surface border border-line open:border-accent/50"
+        >
+          <summary className="flex cursor-pointer list-none items-center justify-between gap-4 p-6 text-left font-semibold text-fg [&::-webkit-details-marker]:hidden">
+            {item.question}
+            <ChevronDown
+              className="h-5 w-5 flex-shrink-0 text-accent transition-transform group-open:rotate-180"
+              aria-hidden="true"
+            />
+          </summary>
+          <p className="px-6 pb-6 -mt-2 text-fg/70">{item.answer}</p>
+        </details>
+      ))}
+    </div>
+
+    <p className="mt-10 text-center">
+      <Link
+        to={ROUTES.help.path}
+        className="inline-flex items-center gap-2 font-medium text-accent hover:text-accent-hover"
+      >
+        Search all answers in the help centre
+        <ArrowRight className="h-4 w-4" aria-hidden="true" />
+      </Link>
+    </p>
+  </Container>
+);
@@ -0,0 +1,169 @@
+import { DEFAULT_PRICE_DISPLAY, describeVat, formatPrice } from "../money/money";
+import { PLANS } from "../pricing/catalog";
+import { DEFAULT_CALCULATOR_CONFIG } from "../pricing/calculator";
+import { SLA_TARGET, formatUptime } from "../status/status";
+import type { HelpCategoryId } from "../help/content";
+
+// ===== FAQ Content =====
+// Rendered by the FAQ section and the help centre, and published as FAQPage
+// structured data, so answers are plain text: no markup, no links.
+
+export interface FaqItem {
+  id: string;
+  category: HelpCategoryId;
+  question: string;
+  answer: string;
+  /** Shown in the home page FAQ section as well as the help centre. */
+  featured?: boolean;
+}
+
+const { hardwarePerVehicle, installation } = DEFAULT_CALCULATOR_CONFIG;
+
+// Plain text has no region switcher, so prices read as the pricing table
+// first renders them: UK, ex VAT.
+const price = (amount: number) =>
+  `${formatPrice(amount, DEFAULT_PRICE_DISPLAY)} ${describeVat(DEFAULT_PRICE_DISPLAY)}`;
+
+// Read from the catalog so the answer can't drift from the pricing table.
+const historyByPlan = PLANS.map((plan) => {
+  const history = plan.features.history;
+  const detail = history.status === "excluded" ? "no" : history.detail ?? "full";
+  return `${plan.name} keeps ${detail.toLowerCase().replace(/-day$/, " days of")} history`;
+}).join(", ");
+
+export const FAQ_ITEMS: FaqItem[] = [
+  {
+    id: "contract",
+    category: "plans-billing",
+    question: "Do I have to sign a long-term contract?",
+    answer:
+      "No. Monthly plans renew each month and can be cancelled with 30 days' notice. Annual plans are billed up-front for twelve months at a lower per-vehicle price.",
+    featured: true,
+  },
+  {
+    id: "hardware",
+    category: "installation",
+    question: "What hardware do I need?",
+    answer: `Each vehicle needs one Franstrack tracker, a one-off ${price(hardwarePerVehicle)} per vehicle. Most vans and cars take the plug-in OBD unit, which you can fit yourself in minutes, or we can install a hard-wired unit for ${price(installation.professional.perVehicle)} per vehicle.`,
+    featured: true,
+  },
+  {
+    id: "trial",
+    category: "getting-started",
+    question: "How does the free trial work?",
+    answer:
+      "Every plan comes with a 14-day free trial. We ship the trackers, you see your fleet live as soon as they're fitted, and you only pay if you decide to keep going. There's nothing to cancel: we email you three days before the trial ends, and if you don't pick a plan it simply lapses without charge.",
+    featured: true,
+  },
+  {
+    id: "data",
+    category: "data-privacy",
+    question: "Where is our tracking data stored?",
+    answer:
+      "All telemetry is hosted in UK data centres and encrypted in transit and at rest. We act as your data processor under a data processing agreement included in every contract.",
+    featured: true,
+  },
+  {
+    id: "drivers",
+    category: "data-privacy",
+    question: "Can drivers switch tracking off outside working hours?",
+    answer:
+      "Yes. Private-use modes let drivers hide their location outside agreed hours, which helps keep tracking proportionate when vehicles are also used privately.",
+    featured: true,
+  },
+  {
+    id: "update-rate",
+    category: "getting-started",
+    question: "How often do vehicle positions update?",
+    answer:
+      "Moving vehicles report every five seconds. Idle and parked vehicles report less often to save battery, and update instantly when the ignition turns on.",
+    featured: true,
+  },
+  {
+    id: "first-login",
+    category: "getting-started",
+    question: "How quickly can we see our vehicles?",
+    answer:
+      "Trackers ship within two working days of signing up. A vehicle appears on the live map within a minute of its tracker being fitted and the ignition turned on.",
+  },
+  {
+    id: "install-time",
+    category: "installation",
+    question: "How long does installation take?",
+    answer:
+      "A plug-in OBD tracker takes under five minutes per vehicle. A hard-wired installation takes our engineers about 45 minutes per vehicle, at your depot or on site, usually outside your operating hours.",
+  },
+  {
+    id: "vehicle-types",
+    category: "installation",
+    question: "Do the trackers work on HGVs, trailers and plant?",
+    answer:
+      "Yes. HGVs and high-value vehicles are best served by a hard-wired tracker, which runs on 12V or 24V systems. Trailers and plant without a power supply take a battery asset tracker that lasts up to three years per battery.",
+  },
+  {
+    id: "tachographs",
+    category: "installation",
+    question: "Do we still need a tachograph with Franstrack?",
+    answer:
+      "Yes. A GPS tracker doesn't replace a tachograph: vehicles over 3.5 tonnes still need one to record drivers' hours, and you still need to download it on time. Franstrack trackers fit alongside the tachograph, and journey history helps you check routes and stops against the drivers' hours records. Our blog has a guide to the tachograph rules for UK fleets.",
+  },
+  {
+    id: "hardware-ownership",
+    category: "installation",
+    question: "Do we own the trackers?",
+    answer:
+      "Yes. Trackers are a one-off purchase, not a rental, and stay with your vehicles. If a tracker develops a fault within two years we replace it free of charge.",
+  },
+  {
+    id: "retention",
+    category: "data-privacy",
+    question: "How long do you keep our tracking history?",
+    answer: `Retention depends on your plan: ${historyByPlan}. Older history is deleted automatically, and all of your data is deleted at the end of your contract.`,
+  },
+  {
+    id: "gdpr",
+    category: "data-privacy",
+    question: "Is Franstrack GDPR compliant?",
+    answer:
+      "Yes. We are the data processor and you are the controller. Every contract includes a UK GDPR data processing agreement, data never leaves the UK, and administrators can export or delete a driver's data at any time.",
+  },
+  {
+    id: "driver-consent",
+    category: "data-privacy",
+    question: "Do we need drivers' consent to track company vehicles?",
+    answer:
+      "Usually not. Most fleets rely on legitimate interests rather than consent, but you must tell drivers what is tracked and why, and keep tracking proportionate. We can help you prepare a data protection impact assessment.",
+  },
+  {
+    id: "cancel",
+    category: "plans-billing",
+    question: "What happens to our data if we cancel?",
+    answer:
+      "You can export your trip history and reports at any time before your notice period ends. Thirty days after the contract ends we permanently delete your account data, and the trackers remain yours.",
+  },
+  {
+    id: "change-plan",
+    category: "plans-billing",
+    question: "Can we change plan later?",
+    answer:
+      "Yes. Upgrades take effect immediately and are charged pro rata for the rest of the billing period. Downgrades take effect at your next renewal.",
+  },
+  {
+    id: "vat",
+    category: "plans-billing",
+    question: "Do your prices include VAT?",
+    answer:
+      "Prices are shown excluding VAT by default, as most of our customers are VAT registered. You can switch the pricing table to show prices including VAT, and customers in Ireland can see prices in euro.",
+  },
+  {
+    id: "sla",
+    category: "plans-billing",
+    question: "What uptime do you guarantee?",
+    answer: `We back the platform with a ${formatUptime(SLA_TARGET, 0)} uptime SLA. Live status, uptime history and planned maintenance for every plan are published on our system status page.`,
+  },
+];
+
+export const FEATURED_FAQ_ITEMS = FAQ_ITEMS.filter((item) => item.featured);
+
+export const faqsInCategory = (category: HelpCategoryId) =>
+  FAQ_ITEMS.filter((item) => item.category === category);
@@ -0,0 +1,618 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Circle, Pause, Pentagon, Play, Siren, Trash2 } from "lucide-react";
+import { useAnalytics } from "../analytics/useAnalytics";
+import { boundsOf, createProjection, haversine, type LatLng } from "../lib/geo";
+import { cx } from "../lib/utils";
+import { DashboardFrame } from "../telemetry/DashboardFrame";
+import { DEMO_ROUTES } from "../telemetry/routes";
+import {
+  TELEMETRY_INTERVAL_MS,
+  createTelemetrySimulator,
+  type VehicleStatus,
+} from "../telemetry/simulator";
+import {
+  MAX_FENCES,
+  MIN_FENCE_RADIUS_M,
+  SAMPLE_FENCES,
+  fenceAnchor,
+  fenceContains,
+  type Fence,
+  type FenceShape,
+} from "./fences";
+import { createFenceMonitor, type GeofenceAlert } from "./monitor";
+import {
+  FENCE_KINDS,
+  FENCE_KIND_IDS,
+  SEVERITY_LABELS,
+  describeRule,
+  type FenceKind,
+  type Severity,
+} from "./rules";
+
+const MAP_WIDTH = 640;
+const MAP_HEIGHT = 420;
+const MAP_PADDING = 24;
+/** Snap distance, in map units, for closing a polygon on its first corner. */
+const CLOSE_DISTANCE = 12;
+
+// Six simulator steps every half second: a simulated minute per second, so
+// dwell timers run out while someone is watching.
+const TICK_MS = 500;
+const STEP_SECONDS = TELEMETRY_INTERVAL_MS / 1000;
+const STEPS_PER_TICK = 6;
+const SANDBOX_SEED = 7;
+const SIM_START = Date.parse("2025-10-14T07:00:00Z");
+const MAX_ALERTS = 50;
+
+const PROJECTION = createProjection(
+  boundsOf(DEMO_ROUTES.flatMap((route) => route.waypoints)),
+  MAP_WIDTH,
+  MAP_HEIGHT,
+  MAP_PADDING
+);
+
+const toPoints = (points: LatLng[]) =>
+  points
+    .map((point) => {
+      const { x, y } = PROJECTION.project(point);
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+const ROUTE_LINES = DEMO_ROUTES.map((route) => ({
+  id: route.id,
+  points: toPoints(route.waypoints),
+}));
+
+const clockFormatter = new Intl.DateTimeFormat("en-GB", {
+  timeZone: "Europe/London",
+  hour: "2-digit",
+  minute: "2-digit",
+});
+
+const SEVERITY_DOT: Record<Severity, string> = {
+  info: "bg-accent",
+  warning: "bg-warning",
+  critical: "bg-danger",
+};
+
+const SEVERITY_TEXT: Record<Severity, string> = {
+  info: "text-accent",
+  warning: "text-warning",
+  critical: "text-danger",
+};
+
+const KIND_SHAPE: Record<FenceKind, string> = {
+  depot: "fill-accent/15 stroke-accent",
+  customer: "fill-success/15 stroke-success",
+  restricted: "fill-danger/15 stroke-danger",
+};
+
+const VEHICLE_FILL: Record<VehicleStatus, string> = {
+  moving: "fill-success",
+  idle: "fill-accent",
+  offline: "fill-fg/40",
+};
+
+type Tool = FenceShape["type"];
+
+const TOOL_HINTS: Record<Tool, string> = {
+  circle: "Click the map to place the centre, then click again to set the radius.",
+  polygon: "Click to add corners, then click the first corner or Finish to close the shape.",
+};
+
+// ===== Fence Shapes =====
+const FenceOutline: React.FC<{ shape: FenceShape; className: string }> = ({ shape, className }) => {
+  if (shape.type === "polygon")
+    return <polygon points={toPoints(shape.points)} className={className} strokeWidth="2" />;
+  const { x, y } = PROJECTION.project(shape.center);
+  return (
+    <circle
+      cx={x}
+      cy={y}
+      r={shape.radiusM * PROJECTION.pixelsPerMetre}
+      className={className}
+      strokeWidth="2"
+    />
+  );
+};
+
+// ===== Geofence Sandbox =====
+export const GeofenceSandbox: React.FC = () => {
+  const [simulator] = useState(() => createTelemetrySimulator({ seed: SANDBOX_SEED }));
+  const [monitor] = useState(createFenceMonitor);
+  const [snapshot, setSnapshot] = useState(() => simulator.snapshot());
+  const [simTime, setSimTime] = useState(SIM_START);
+  const [running, setRunning] = useState(false);
+  const [fences, setFences] = useState<Fence[]>(SAMPLE_FENCES);
+  const [alerts, setAlerts] = useState<GeofenceAlert[]>([]);
+  const [tool, setTool] = useState<Tool>("circle");
+  const [kind, setKind] = useState<FenceKind>("customer");
+  const [draft, setDraft] = useState<LatLng[]>([]);
+  const [pointer, setPointer] = useState<LatLng | null>(null);
+  const [notice, setNotice] = useState("");
+  const clock = useRef(SIM_START);
+  const fencesRef = useRef(fences);
+  const drawn = useRef(0);
+  const sosCount = useRef(0);
+  const { track } = useAnalytics();
+
+  useEffect(() => {
+    fencesRef.current = fences;
+  }, [fences]);
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = window.setInterval(() => {
+      let latest = simulator.snapshot();
+      const raised: GeofenceAlert[] = [];
+      for (let i = 0; i < STEPS_PER_TICK; i++) {
+        latest = simulator.advance(STEP_SECONDS);
+        clock.current += STEP_SECONDS * 1000;
+        raised.push(...monitor.update(latest.vehicles, fencesRef.current, clock.current));
+      }
+      setSnapshot(latest);
+      setSimTime(clock.current);
+      if (raised.length) setAlerts((prev) => [...raised.reverse(), ...prev].slice(0, MAX_ALERTS));
+    }, TICK_MS);
+    return () => window.clearInterval(timer);
+  }, [running, simulator, monitor]);
+
+  useEffect(() => {
+    if (!draft.length) return;
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") setDraft([]);
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [draft.length]);
+
+  const addFence = (shape: FenceShape) => {
+    setDraft([]);
+    if (fences.length >= MAX_FENCES) {
+      setNotice(`The sandbox holds up to ${MAX_FENCES} fences. Remove one to draw another.`);
+      return;
+    }
+    drawn.current += 1;
+    const fence: Fence = {
+      id: `fence-${drawn.current}`,
+      name: `${FENCE_KINDS[kind].label} ${drawn.current}`,
+      kind,
+      shape,
+    };
+    setFences((prev) => [...prev, fence]);
+    setNotice(`Added ${fence.name}.`);
+    track("geofence_drawn", { shape: shape.type, kind });
+  };
+
+  const finishPolygon = () => {
+    if (draft.length >= 3) addFence({ type: "polygon", points: draft });
+  };
+
+  const mapPoint = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) * MAP_WIDTH) / rect.width,
+      y: ((e.clientY - rect.top) * MAP_HEIGHT) / rect.height,
+    };
+  };
+
+  const onMapClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const point = mapPoint(e);
+    const position = PROJECTION.unproject(point);
+    if (tool === "circle") {
+      if (!draft.length) {
+        setDraft([position]);
+        return;
+      }
+      addFence({
+        type: "circle",
+        center: draft[0],
+        radiusM: Math.max(MIN_FENCE_RADIUS_M, haversine(draft[0], position)),
+      });
+      return;
+    }
+    if (draft.length >= 3) {
+      const first = PROJECTION.project(draft[0]);
+      if (Math.hypot(first.x - point.x, first.y - point.y) <= CLOSE_DISTANCE) {
+        finishPolygon();
+        return;
+      }
+    }
+    setDraft((prev) => [...prev, position]);
+  };
+
+  const chooseTool = (next: Tool) => {
+    setTool(next);
+    setDraft([]);
+  };
+
+  const changeKind = (id: string, next: FenceKind) =>
+    setFences((prev) => prev.map((fence) => (fence.id === id ? { ...fence, kind: next } : fence)));
+
+  const removeFence = (fence: Fence) => {
+    setFences((prev) => prev.filter((other) => other.id !== fence.id));
+    setNotice(`Removed ${fence.name}.`);
+  };
+
+  const raiseSos = () => {
+    const reporting = snapshot.vehicles.filter((vehicle) => vehicle.status !== "offline");
+    if (!reporting.length) return;
+    const vehicle = reporting[sosCount.current++ % reporting.length];
+    setAlerts((prev) => [monitor.sos(vehicle, clock.current), ...prev].slice(0, MAX_ALERTS));
+  };
+
+  const preview: FenceShape | null =
+    tool === "circle" && draft.length && pointer
+      ? {
+          type: "circle",
+          center: draft[0],
+          radiusM: Math.max(MIN_FENCE_RADIUS_M, haversine(draft[0], pointer)),
+        }
+      : null;
+
+  const counts = alerts.reduce(
+    (acc, alert) => ({ ...acc, [alert.severity]: acc[alert.severity] + 1 }),
+    { info: 0, warning: 0, critical: 0 } as Record<Severity, number>
+  );
+
+  return (
+    <div className="grid lg:grid-cols-5 gap-8">
+      <div className="lg:col-span-3 space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            type="button"
+            onClick={() => setRunning((prev) => !prev)}
+            className="inline-flex items-center gap-2 rounded-control bg-primary px-5 py-2.5 font-medium text-on-primary hover:bg-primary-hover transition-colors focus:outline-none focus:ring-2 focus:ring-accent focus:ring-offset-2 focus:ring-offset-canvas"
+          >
+            {running ? (
+              <Pause className="h-4 w-4" aria-hidden="true" />
+            ) : (
+              <Play className="h-4 w-4" aria-hidden="true" />
+            )}
+            {running ? "Pause simulation" : "Start simulation"}
+          </button>
+          <div className="text-sm text-fg/60 tabular-nums">
+            Simulated time{" "}
+            <time className="font-semibold text-fg" dateTime={new Date(simTime).toISOString()}>
+              {clockFormatter.format(simTime)}
+            </time>
+          </div>
+          <button
+            type="button"
+            onClick={raiseSos}
+            className="ml-auto inline-flex items-center gap-2 rounded-control border border-line-strong px-3 py-2 text-sm hover:bg-surface-muted transition-colors"
+          >
+            <Siren className="h-4 w-4 text-danger" aria-hidden="true" />
+            Simulate SOS
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div role="group" aria-label="Drawing tool" className="flex gap-1">
+            {(
+              [
+                { id: "circle", label: "Circle", icon: Circle },
+                { id: "polygon", label: "Polygon", icon: Pentagon },
+              ] as const
+            ).map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                aria-pressed={tool === option.id}
+                onClick={() => chooseTool(option.id)}
+                className={cx(
+                  "inline-flex items-center gap-2 rounded-control px-3 py-2 text-sm font-medium transition-colors",
+                  tool === option.id
+                    ? "bg-accent/15 text-accent-hover"
+                    : "text-fg/70 hover:bg-surface-muted"
+                )}
+              >
+                <option.icon className="h-4 w-4" aria-hidden="true" />
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div>
+            <label htmlFor="geofence-kind" className="block text-xs text-fg/60 mb-1">
+              New fences are
+            </label>
+            <select
+              id="geofence-kind"
+              value={kind}
+              onChange={(e) => setKind(e.target.value as FenceKind)}
+              className="rounded-control bg-canvas border border-line px-3 py-2 text-sm text-fg focus:outline-none focus:ring-2 focus:ring-accent"
+            >
+              {FENCE_KIND_IDS.map((id) => (
+                <option key={id} value={id}>
+                  {FENCE_KINDS[id].label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {tool === "polygon" && draft.length > 0 && (
+            <button
+              type="button"
+              onClick={finishPolygon}
+              disabled={draft.length < 3}
+              className="rounded-control border border-line-strong px-3 py-2 text-sm hover:bg-surface-muted transition-colors disabled:opacity-50"
+            >
+              Finish shape
+            </button>
+          )}
+          {draft.length > 0 && (
+            <button
+              type="button"
+              onClick={() => setDraft([])}
+              className="rounded-control px-3 py-2 text-sm text-fg/70 hover:bg-surface-muted transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+
+        <svg
+          viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+          role="img"
+          aria-label={`Demo map of Merseyside with ${fences.length} geofences and ${snapshot.vehicles.length} simulated vehicles.`}
+          onClick={onMapClick}
+          onMouseMove={(e) => setPointer(PROJECTION.unproject(mapPoint(e)))}
+          onMouseLeave={() => setPointer(null)}
+          className="block w-full h-auto cursor-crosshair rounded-control bg-canvas border border-line"
+        >
+          <defs>
+            <pattern id="geofence-grid" width="32" height="32" patternUnits="userSpaceOnUse">
+              <path d="M32 0H0V32" fill="none" className="stroke-line" strokeWidth="1" />
+            </pattern>
+          </defs>
+          <rect width={MAP_WIDTH} height={MAP_HEIGHT} fill="url(#geofence-grid)" />
+
+          {ROUTE_LINES.map((route) => (
+            <polygon
+              key={route.id}
+              points={route.points}
+              fill="none"
+              className="stroke-fg/20"
+              strokeWidth="3"
+              strokeLinejoin="round"
+            />
+          ))}
+
+          {fences.map((fence) => {
+            const anchor = PROJECTION.project(fenceAnchor(fence.shape));
+            return (
+              <g key={fence.id}>
+                <FenceOutline shape={fence.shape} className={KIND_SHAPE[fence.kind]} />
+                <text
+                  x={anchor.x}
+                  y={anchor.y}
+                  textAnchor="middle"
+                  dominantBaseline="central"
+                  className="fill-fg stroke-canvas text-[11px] font-semibold"
+                  strokeWidth="3"
+                  style={{ paintOrder: "stroke" }}
+                >
+                  {fence.name}
+                </text>
+              </g>
+            );
+          })}
+
+          {preview && (
+            <FenceOutline
+              shape={preview}
+              className="fill-fg/5 stroke-fg/60 [stroke-dasharray:6_4]"
+            />
+          )}
+          {tool === "polygon" && draft.length > 0 && (
+            <>
+              <polyline
+                points={toPoints(pointer ? [...draft, pointer] : draft)}
+                fill="none"
+                className="stroke-fg/60 [stroke-dasharray:6_4]"
+                strokeWidth="2"
+              />
+              {draft.map((point, i) => {
+                const { x, y } = PROJECTION.project(point);
+                return (
+                  <circle
+                    key={i}
+                    cx={x}
+                    cy={y}
+                    r={i === 0 ? 6 : 4}
+                    className="fill-canvas stroke-fg"
+                    strokeWidth="2"
+                  />
+                );
+              })}
+            </>
+          )}
+          {tool === "circle" && draft.length > 0 && (
+            <circle
+              cx={PROJECTION.project(draft[0]).x}
+              cy={PROJECTION.project(draft[0]).y}
+              r="4"
+              className="fill-fg"
+            />
+          )}
+
+          {snapshot.vehicles.map((vehicle) => {
+            const { x, y } = PROJECTION.project(vehicle.position);
+            return (
+              <circle
+                key={vehicle.id}
+                cx={x}
+                cy={y}
+                r="5"
+                className={cx(VEHICLE_FILL[vehicle.status], "stroke-canvas")}
+                strokeWidth="1.5"
+              >
+                <title>{vehicle.name}</title>
+              </circle>
+            );
+          })}
+        </svg>
+        <p className="text-xs text-fg/60">
+          {TOOL_HINTS[tool]} Press Escape to cancel. Drawing needs a mouse or touch screen; the
+          fence list and alerts work from the keyboard.
+        </p>
+        <p role="status" className="sr-only">
+          {notice}
+        </p>
+
+        <section aria-labelledby="geofence-list">
+          <h2 id="geofence-list" className="text-lg font-semibold text-fg mb-3">
+            Your fences ({fences.length}/{MAX_FENCES})
+          </h2>
+          {fences.length ? (
+            <ul className="space-y-3">
+              {fences.map((fence) => {
+                const inside = snapshot.vehicles.filter(
+                  (vehicle) =>
+                    vehicle.status !== "offline" && fenceContains(fence.shape, vehicle.position)
+                ).length;
+                return (
+                  <li key={fence.id} className="rounded-control border border-line bg-surface p-4">
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <div>
+                        <div className="font-medium text-fg">{fence.name}</div>
+                        <div className="text-xs text-fg/60">
+                          {fence.shape.type === "circle"
+                            ? `Circle, ${Math.round(fence.shape.radiusM)} m radius`
+                            : `Polygon, ${fence.shape.points.length} corners`}
+                          {" · "}
+                          {inside === 1 ? "1 vehicle inside" : `${inside} vehicles inside`}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <label htmlFor={`${fence.id}-kind`} className="sr-only">
+                          Alert rules for {fence.name}
+                        </label>
+                        <select
+                          id={`${fence.id}-kind`}
+                          value={fence.kind}
+                          onChange={(e) => changeKind(fence.id, e.target.value as FenceKind)}
+                          className="rounded-control bg-canvas border border-line px-3 py-1.5 text-sm text-fg focus:outline-none focus:ring-2 focus:ring-accent"
+                        >
+                          {FENCE_KIND_IDS.map((id) => (
+                            <option key={id} value={id}>
+                              {FENCE_KINDS[id].label}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          onClick={() => removeFence(fence)}
+                          aria-label={`Remove ${fence.name}`}
+                          className="rounded-lg p-2 text-fg/60 hover:text-danger hover:bg-surface-muted transition-colors"
+                        >
+                          <Trash2 className="h-4 w-4" aria-hidden="true" />
+                        </button>
+                      </div>
+                    </div>
+                    <ul
+                      className="mt-3 flex flex-wrap gap-2"
+                      aria-label={`Alerts for ${fence.name}`}
+                    >
+                      {FENCE_KINDS[fence.kind].rules.map((rule) => (
+                        <li
+                          key={rule.event}
+                          className="flex items-center gap-1.5 rounded-full bg-surface-muted px-2.5 py-1 text-xs text-fg/80"
+                        >
+                          <span
+                            className={cx("h-2 w-2 rounded-full", SEVERITY_DOT[rule.severity])}
+                            aria-hidden="true"
+                          />
+                          {describeRule(rule)}
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-sm text-fg/60">
+              No fences yet. Draw one on the map, or{" "}
+              <button
+                type="button"
+                onClick={() => setFences(SAMPLE_FENCES)}
+                className="text-accent hover:text-accent-hover underline"
+              >
+                restore the examples
+              </button>
+              .
+            </p>
+          )}
+        </section>
+      </div>
+
+      <div className="lg:col-span-2">
+        <div className="lg:sticky lg:top-28">
+          <DashboardFrame title="Geofence Alerts">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-fg font-semibold">Alert Feed</h2>
+              <div className="flex gap-3 text-xs tabular-nums">
+                {(Object.keys(counts) as Severity[]).map((severity) => (
+                  <span key={severity} className={SEVERITY_TEXT[severity]}>
+                    {counts[severity]} {SEVERITY_LABELS[severity].toLowerCase()}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            {/* Always rendered, so screen readers are listening before the first alert. */}
+            <ol
+              role="log"
+              aria-live="polite"
+              aria-label="Alerts, newest first"
+              tabIndex={alerts.length ? 0 : undefined}
+              className="space-y-3 max-h-[28rem] overflow-y-auto focus:outline-none focus:ring-2 focus:ring-accent rounded-lg"
+            >
+              {alerts.map((alert) => (
+                <li
+                  key={alert.id}
+                  className="flex items-start justify-between gap-3 p-3 rounded-lg bg-surface/50"
+                >
+                  <div className="flex items-start gap-3">
+                    <div
+                      className={cx("mt-1.5 w-2 h-2 rounded-full", SEVERITY_DOT[alert.severity])}
+                    ></div>
+                    <div>
+                      <div className="text-fg text-sm">{alert.message}</div>
+                      <div className={cx("text-xs font-medium", SEVERITY_TEXT[alert.severity])}>
+                        {SEVERITY_LABELS[alert.severity]}
+                      </div>
+                    </div>
+                  </div>
+                  <div className="text-fg/60 text-sm tabular-nums">
+                    {clockFormatter.format(alert.time)}
+                  </div>
+                </li>
+              ))}
+            </ol>
+            {!alerts.length && (
+              <p className="text-sm text-fg/60">
+                Start the simulation and alerts appear here as vehicles cross your fences.
+              </p>
+            )}
+
+            <div className="mt-6 pt-4 border-t border-line flex justify-between items-center text-sm">
+              <div className="text-fg/60">
+                {snapshot.online}/{snapshot.vehicles.length} vehicles reporting
+              </div>
+              <button
+                type="button"
+                onClick={() => setAlerts([])}
+                disabled={!alerts.length}
+                className="text-accent hover:text-accent-hover disabled:text-fg/40"
+              >
+                Clear
+              </button>
+            </div>
+          </DashboardFrame>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React from "react";
+import { Button, Container } from "../components/ui";
+import { trialHref } from "../trial/trial";
+import { GeofenceSandbox } from "./GeofenceSandbox";
+
+// ===== Geofencing Sandbox =====
+export const GeofenceSandboxPage: React.FC = () => (
+  <Container className="pt-28 pb-16 lg:pb-24">
+    <div className="max-w-3xl mx-auto text-center mb-10">
+      <h1 className="text-3xl lg:text-5xl font-bold text-fg mb-4">
+        Geofencing
+        <span className="bg-gradient-to-r from-highlight to-highlight-alt bg-clip-text text-transparent">
+          {" "}
+          Sandbox
+        </span>
+      </h1>
+      <p className="text-xl text-fg/70">
+        Draw a depot, a customer site or a no-go zone, then watch simulated
+        vans and trucks drive past. Arrivals, departures, long stays, SOS
+        presses and silent trackers land in the alert feed as they would in
+        Franstrack.
+      </p>
+    </div>
+
+    <GeofenceSandbox />
+
+    <div className="mt-12 flex flex-col sm:flex-row gap-4 justify-center">
+      <Button as="a" href={trialHref()} trackingId="geofencing-trial">
+        Start Free Trial
+      </Button>
+      <Button variant="secondary" as="a" href="/#demo" trackingId="geofencing-demo">
+        Book a Demo
+      </Button>
+    </div>
+  </Container>
+);
@@ -0,0 +1,69 @@
+import { haversine, pointInPolygon, type LatLng } from "../lib/geo";
+import type { FenceKind } from "./rules";
+
+// ===== Geofences =====
+export type FenceShape =
+  | { type: "circle"; center: LatLng; radiusM: number }
+  | { type: "polygon"; points: LatLng[] };
+
+export interface Fence {
+  id: string;
+  name: string;
+  kind: FenceKind;
+  shape: FenceShape;
+}
+
+/** Drawn circles smaller than this are taken as a mis-click. */
+export const MIN_FENCE_RADIUS_M = 100;
+export const MAX_FENCES = 8;
+
+export const fenceContains = (shape: FenceShape, point: LatLng) =>
+  shape.type === "circle"
+    ? haversine(shape.center, point) <= shape.radiusM
+    : pointInPolygon(point, shape.points);
+
+/** Where a fence's label goes: the centre, or the average of the corners. */
+export const fenceAnchor = (shape: FenceShape): LatLng =>
+  shape.type === "circle"
+    ? shape.center
+    : {
+        lat: shape.points.reduce((sum, p) => sum + p.lat, 0) / shape.points.length,
+        lng: shape.points.reduce((sum, p) => sum + p.lng, 0) / shape.points.length,
+      };
+
+/** Sites along the demo routes, so vehicles cross them within a minute or two. */
+export const SAMPLE_FENCES: Fence[] = [
+  {
+    id: "sample-depot",
+    name: "City depot",
+    kind: "depot",
+    shape: { type: "circle", center: { lat: 53.4005, lng: -2.986 }, radiusM: 650 },
+  },
+  {
+    id: "sample-customer",
+    name: "Warrington customer",
+    kind: "customer",
+    shape: {
+      type: "polygon",
+      points: [
+        { lat: 53.401, lng: -2.628 },
+        { lat: 53.401, lng: -2.584 },
+        { lat: 53.385, lng: -2.584 },
+        { lat: 53.385, lng: -2.628 },
+      ],
+    },
+  },
+  {
+    id: "sample-restricted",
+    name: "Wirral low bridge",
+    kind: "restricted",
+    shape: {
+      type: "polygon",
+      points: [
+        { lat: 53.361, lng: -3.106 },
+        { lat: 53.353, lng: -3.069 },
+        { lat: 53.337, lng: -3.099 },
+      ],
+    },
+  },
+];
@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Fence } from "./fences";
+import { createFenceMonitor, type FenceMonitor, type MonitoredVehicle } from "./monitor";
+
+const MINUTE = 60_000;
+
+const CENTER = { lat: 53.4, lng: -2.98 };
+const INSIDE = CENTER;
+const OUTSIDE = { lat: 53.45, lng: -2.98 };
+
+const fence = (kind: Fence["kind"]): Fence => ({
+  id: `test-${kind}`,
+  name: `Test ${kind}`,
+  kind,
+  shape: { type: "circle", center: CENTER, radiusM: 500 },
+});
+
+const van = (
+  position = OUTSIDE,
+  status: MonitoredVehicle["status"] = "moving"
+): MonitoredVehicle => ({ id: "van-1", name: "Van 1", status, position });
+
+describe("createFenceMonitor", () => {
+  let monitor: FenceMonitor;
+  beforeEach(() => {
+    monitor = createFenceMonitor();
+  });
+
+  describe("fences", () => {
+    it("reports an arrival and a departure with the kind's severities", () => {
+      const fences = [fence("restricted")];
+      expect(monitor.update([van(OUTSIDE)], fences, 0)).toEqual([]);
+
+      const [enter] = monitor.update([van(INSIDE)], fences, MINUTE);
+      expect(enter).toMatchObject({
+        type: "enter",
+        severity: "critical",
+        vehicleId: "van-1",
+        fenceId: "test-restricted",
+        time: MINUTE,
+      });
+
+      const [exit] = monitor.update([van(OUTSIDE)], fences, 2 * MINUTE);
+      expect(exit).toMatchObject({ type: "exit", severity: "warning" });
+    });
+
+    it("doesn't report vehicles already inside a new fence as arrivals", () => {
+      const fences = [fence("depot")];
+      expect(monitor.update([van(INSIDE)], fences, 0)).toEqual([]);
+      expect(monitor.update([van(INSIDE)], fences, MINUTE)).toEqual([]);
+      expect(monitor.update([van(OUTSIDE)], fences, 2 * MINUTE)).toMatchObject([
+        { type: "exit", severity: "info" },
+      ]);
+    });
+
+    it("reports a long stay once, when the dwell time is reached", () => {
+      // Customer sites warn after five minutes inside.
+      const fences = [fence("customer")];
+      monitor.update([van(OUTSIDE)], fences, 0);
+      monitor.update([van(INSIDE)], fences, MINUTE);
+
+      expect(monitor.update([van(INSIDE)], fences, 5 * MINUTE)).toEqual([]);
+      expect(monitor.update([van(INSIDE)], fences, 6 * MINUTE)).toMatchObject([
+        { type: "dwell", severity: "warning", time: 6 * MINUTE },
+      ]);
+      expect(monitor.update([van(INSIDE)], fences, 20 * MINUTE)).toEqual([]);
+    });
+
+    it("starts the dwell timer again on the next visit", () => {
+      const fences = [fence("restricted")];
+      monitor.update([van(OUTSIDE)], fences, 0);
+      monitor.update([van(INSIDE)], fences, MINUTE);
+      monitor.update([van(INSIDE)], fences, 3 * MINUTE);
+      monitor.update([van(OUTSIDE)], fences, 4 * MINUTE);
+      monitor.update([van(INSIDE)], fences, 5 * MINUTE);
+
+      expect(monitor.update([van(INSIDE)], fences, 6 * MINUTE)).toEqual([]);
+      expect(monitor.update([van(INSIDE)], fences, 7 * MINUTE)).toMatchObject([
+        { type: "dwell", severity: "critical" },
+      ]);
+    });
+
+    it("forgets a removed fence without reporting an exit", () => {
+      const fences = [fence("depot")];
+      monitor.update([van(OUTSIDE)], fences, 0);
+      monitor.update([van(INSIDE)], fences, MINUTE);
+      expect(monitor.update([van(OUTSIDE)], [], 2 * MINUTE)).toEqual([]);
+    });
+  });
+
+  describe("vehicle events", () => {
+    it("reports a tracker silent for a minute as tampering, once", () => {
+      monitor.update([van()], [], 0);
+      expect(monitor.update([van(OUTSIDE, "offline")], [], 10_000)).toEqual([]);
+      expect(monitor.update([van(OUTSIDE, "offline")], [], 50_000)).toEqual([]);
+      expect(monitor.update([van(OUTSIDE, "offline")], [], 70_000)).toMatchObject([
+        { type: "tamper", severity: "warning", vehicleId: "van-1", time: 70_000 },
+      ]);
+      expect(monitor.update([van(OUTSIDE, "offline")], [], 5 * MINUTE)).toEqual([]);
+    });
+
+    it("ignores brief gaps in reporting", () => {
+      monitor.update([van(OUTSIDE, "offline")], [], 0);
+      monitor.update([van(OUTSIDE, "offline")], [], 30_000);
+      monitor.update([van()], [], 40_000);
+      expect(monitor.update([van(OUTSIDE, "offline")], [], 80_000)).toEqual([]);
+      expect(monitor.update([van(OUTSIDE, "offline")], [], 130_000)).toEqual([]);
+      expect(monitor.update([van(OUTSIDE, "offline")], [], 140_000)).toMatchObject([
+        { type: "tamper" },
+      ]);
+    });
+
+    it("doesn't report fence crossings while the tracker is silent", () => {
+      const fences = [fence("depot")];
+      monitor.update([van(OUTSIDE)], fences, 0);
+      expect(monitor.update([van(INSIDE, "offline")], fences, 5_000)).toEqual([]);
+      expect(monitor.update([van(INSIDE)], fences, 10_000)).toMatchObject([{ type: "enter" }]);
+    });
+
+    it("raises SOS as critical", () => {
+      expect(monitor.sos(van(), 0)).toMatchObject({
+        type: "sos",
+        severity: "critical",
+        vehicleId: "van-1",
+      });
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import type { VehicleState } from "../telemetry/simulator";
+import { fenceContains, type Fence } from "./fences";
+import {
+  FENCE_KINDS,
+  VEHICLE_RULES,
+  type AlertRule,
+  type AlertType,
+  type Severity,
+  type VehicleEvent,
+} from "./rules";
+
+// ===== Fence Monitor =====
+// Turns a stream of vehicle positions into alerts. It keeps which fences each
+// vehicle is inside and since when, so dwell timers survive between updates.
+export type MonitoredVehicle = Pick<VehicleState, "id" | "name" | "status" | "position">;
+
+export interface GeofenceAlert {
+  id: number;
+  type: AlertType;
+  severity: Severity;
+  vehicleId: string;
+  message: string;
+  fenceId?: string;
+  /** Simulation time, in milliseconds since the epoch. */
+  time: number;
+}
+
+interface Visit {
+  since: number;
+  /** Dwell rules (by index) already reported for this visit. */
+  reported: Set<number>;
+}
+
+const visitKey = (vehicleId: string, fenceId: string) => `${vehicleId}|${fenceId}`;
+
+const tamperRule = VEHICLE_RULES.find((rule) => rule.event === "tamper")!;
+
+export const createFenceMonitor = () => {
+  const visits = new Map<string, Visit>();
+  const watched = new Set<string>();
+  /** When each silent tracker went offline, or null once reported. */
+  const silentSince = new Map<string, number | null>();
+  let nextId = 1;
+
+  const alert = (
+    rule: AlertRule,
+    vehicle: MonitoredVehicle,
+    time: number,
+    message: string,
+    fence?: Fence
+  ): GeofenceAlert => ({
+    id: nextId++,
+    type: rule.event,
+    severity: rule.severity,
+    vehicleId: vehicle.id,
+    fenceId: fence?.id,
+    message,
+    time,
+  });
+
+  const vehicleAlert = (event: VehicleEvent, vehicle: MonitoredVehicle, time: number) => {
+    const rule = VEHICLE_RULES.find((r) => r.event === event)!;
+    const message =
+      event === "sos"
+        ? `${vehicle.name}: driver pressed SOS`
+        : `${vehicle.name}: tracker silent for ${rule.afterMinutes} min`;
+    return alert(rule, vehicle, time, message);
+  };
+
+  return {
+    /** Alerts raised by this round of positions, oldest first. */
+    update(vehicles: MonitoredVehicle[], fences: Fence[], time: number): GeofenceAlert[] {
+      const alerts: GeofenceAlert[] = [];
+
+      // Forget removed fences without reporting exits from them.
+      const ids = new Set(fences.map((fence) => fence.id));
+      for (const key of visits.keys())
+        if (!ids.has(key.split("|")[1])) visits.delete(key);
+      for (const id of watched) if (!ids.has(id)) watched.delete(id);
+
+      for (const vehicle of vehicles) {
+        if (vehicle.status === "offline") {
+          if (!silentSince.has(vehicle.id)) silentSince.set(vehicle.id, time);
+          const since = silentSince.get(vehicle.id);
+          if (since != null && time - since >= tamperRule.afterMinutes! * 60000) {
+            silentSince.set(vehicle.id, null);
+            alerts.push(vehicleAlert("tamper", vehicle, time));
+          }
+          continue;
+        }
+        silentSince.delete(vehicle.id);
+
+        for (const fence of fences) {
+          const key = visitKey(vehicle.id, fence.id);
+          const inside = fenceContains(fence.shape, vehicle.position);
+          const visit = visits.get(key);
+          const { rules } = FENCE_KINDS[fence.kind];
+          const ruleFor = (event: AlertType) => rules.find((r) => r.event === event);
+
+          // A new fence starts from where vehicles are, rather than reporting
+          // everything already inside it as an arrival.
+          if (!watched.has(fence.id)) {
+            if (inside) visits.set(key, { since: time, reported: new Set() });
+            continue;
+          }
+
+          if (inside && !visit) {
+            visits.set(key, { since: time, reported: new Set() });
+            const rule = ruleFor("enter");
+            if (rule)
+              alerts.push(
+                alert(rule, vehicle, time, `${vehicle.name} arrived at ${fence.name}`, fence)
+              );
+          } else if (!inside && visit) {
+            visits.delete(key);
+            const rule = ruleFor("exit");
+            if (rule)
+              alerts.push(alert(rule, vehicle, time, `${vehicle.name} left ${fence.name}`, fence));
+          } else if (inside && visit) {
+            rules.forEach((rule, index) => {
+              if (rule.event !== "dwell" || visit.reported.has(index)) return;
+              const minutes = rule.afterMinutes ?? 0;
+              if (time - visit.since < minutes * 60000) return;
+              visit.reported.add(index);
+              const message = `${vehicle.name} has been at ${fence.name} for ${minutes} min`;
+              alerts.push(alert(rule, vehicle, time, message, fence));
+            });
+          }
+        }
+      }
+
+      for (const fence of fences) watched.add(fence.id);
+      return alerts;
+    },
+
+    sos: (vehicle: MonitoredVehicle, time: number) => vehicleAlert("sos", vehicle, time),
+
+    reset() {
+      visits.clear();
+      watched.clear();
+      silentSince.clear();
+    },
+  };
+};
+
+export type FenceMonitor = ReturnType<typeof createFenceMonitor>;
@@ -0,0 +1,84 @@
+// ===== Alert Rules =====
+// What each kind of fence reports, and how loudly. Customers set these per
+// fence in the app; the sandbox offers the three setups most fleets start with.
+export type Severity = "info" | "warning" | "critical";
+
+export type FenceEvent = "enter" | "exit" | "dwell";
+/** Raised by the vehicle itself, wherever it is. */
+export type VehicleEvent = "sos" | "tamper";
+export type AlertType = FenceEvent | VehicleEvent;
+
+export interface AlertRule<E extends AlertType = AlertType> {
+  event: E;
+  severity: Severity;
+  /**
+   * For `dwell`, how long a vehicle may stay inside before it's reported; for
+   * `tamper`, how long a tracker may be silent. Brief gaps are normal.
+   */
+  afterMinutes?: number;
+}
+
+export type FenceKind = "depot" | "customer" | "restricted";
+
+export interface FenceKindMeta {
+  label: string;
+  description: string;
+  rules: AlertRule<FenceEvent>[];
+}
+
+export const FENCE_KINDS: Record<FenceKind, FenceKindMeta> = {
+  depot: {
+    label: "Depot",
+    description: "Know when vehicles head out and when they're back.",
+    rules: [
+      { event: "exit", severity: "info" },
+      { event: "enter", severity: "info" },
+    ],
+  },
+  customer: {
+    label: "Customer site",
+    description: "Confirm arrivals and flag visits that run long.",
+    rules: [
+      { event: "enter", severity: "info" },
+      { event: "exit", severity: "info" },
+      { event: "dwell", severity: "warning", afterMinutes: 5 },
+    ],
+  },
+  restricted: {
+    label: "No-go zone",
+    description: "Somewhere vehicles shouldn't be, such as a low bridge or a driver's home.",
+    rules: [
+      { event: "enter", severity: "critical" },
+      { event: "dwell", severity: "critical", afterMinutes: 2 },
+      { event: "exit", severity: "warning" },
+    ],
+  },
+};
+
+export const FENCE_KIND_IDS = Object.keys(FENCE_KINDS) as FenceKind[];
+
+export const VEHICLE_RULES: AlertRule<VehicleEvent>[] = [
+  { event: "sos", severity: "critical" },
+  /** A tracker that stops reporting may have been unplugged. */
+  { event: "tamper", severity: "warning", afterMinutes: 1 },
+];
+
+export const SEVERITY_LABELS: Record<Severity, string> = {
+  info: "Info",
+  warning: "Warning",
+  critical: "Critical",
+};
+
+export const describeRule = (rule: AlertRule) => {
+  const event =
+    rule.event === "dwell"
+      ? `Inside ${rule.afterMinutes} min`
+      : rule.event === "enter"
+        ? "Arrives"
+        : rule.event === "exit"
+          ? "Leaves"
+          : rule.event === "sos"
+            ? "SOS pressed"
+            : `Silent ${rule.afterMinutes} min`;
+  return `${event}: ${SEVERITY_LABELS[rule.severity].toLowerCase()}`;
+};
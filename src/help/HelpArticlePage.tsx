@@ -0,0 +1,105 @@
+import React from "react";
+import { ArrowLeft } from "lucide-react";
+import { Container } from "../components/ui";
+import { PostBody } from "../blog/PostBody";
+import { formatPostDate } from "../blog/posts";
+import { faqsInCategory } from "../faq/faq";
+import { Link } from "../router/Link";
+import { HelpFeedback } from "./HelpFeedback";
+import {
+  HELP_PATH,
+  articlesInCategory,
+  faqHref,
+  getHelpCategory,
+  helpArticlePath,
+  type HelpArticle,
+} from "./content";
+
+// ===== Help Article =====
+export const HelpArticlePage: React.FC<{ article: HelpArticle }> = ({ article }) => {
+  const category = getHelpCategory(article.category);
+  const questions = faqsInCategory(article.category);
+  const related = articlesInCategory(article.category).filter(
+    (other) => other.slug !== article.slug
+  );
+
+  return (
+    <Container className="pt-32 pb-16 lg:pb-28">
+      <div className="grid lg:grid-cols-4 gap-12">
+        <aside className="lg:col-span-1 lg:order-last">
+          <div className="lg:sticky lg:top-28 space-y-8">
+            {questions.length > 0 && (
+              <nav aria-label={`Questions about ${category.name.toLowerCase()}`}>
+                <p className="text-xs uppercase tracking-wider text-fg/50 mb-4">
+                  Common questions
+                </p>
+                <ul className="space-y-2 text-sm">
+                  {questions.map((item) => (
+                    <li key={item.id}>
+                      <Link
+                        to={faqHref(item.id)}
+                        className="text-fg/60 hover:text-fg transition-colors"
+                      >
+                        {item.question}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </nav>
+            )}
+            {related.length > 0 && (
+              <nav aria-label="Related articles">
+                <p className="text-xs uppercase tracking-wider text-fg/50 mb-4">
+                  More in {category.name}
+                </p>
+                <ul className="space-y-2 text-sm">
+                  {related.map((other) => (
+                    <li key={other.slug}>
+                      <Link
+                        to={helpArticlePath(other.slug)}
+                        className="text-fg/60 hover:text-fg transition-colors"
+                      >
+                        {other.title}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              </nav>
+            )}
+          </div>
+        </aside>
+
+        <article className="lg:col-span-3 max-w-3xl">
+          <Link
+            to={HELP_PATH}
+            className="inline-flex items-center gap-2 text-sm text-accent hover:text-accent-hover mb-8"
+          >
+            <ArrowLeft className="h-4 w-4" aria-hidden="true" />
+            Help Centre
+          </Link>
+
+          <p className="mb-4">
+            <Link
+              to={`${HELP_PATH}#${category.id}`}
+              className="rounded-full bg-accent/10 px-3 py-1 text-xs text-accent-hover hover:bg-accent/20"
+            >
+              {category.name}
+            </Link>
+          </p>
+
+          <h1 className="text-4xl lg:text-5xl font-bold text-fg mb-4">{article.title}</h1>
+          <p className="text-xl text-fg/70">{article.summary}</p>
+          <p className="text-sm text-fg/50 mt-4 mb-10">
+            Updated <time dateTime={article.updated}>{formatPostDate(article.updated)}</time>
+          </p>
+
+          <PostBody blocks={article.blocks} />
+
+          <div className="mt-12 border-t border-line pt-6">
+            <HelpFeedback kind="article" id={article.slug} />
+          </div>
+        </article>
+      </div>
+    </Container>
+  );
+};
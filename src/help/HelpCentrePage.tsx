@@ -0,0 +1,355 @@
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { ChevronDown, FileText, Link2, Search } from "lucide-react";
+import { m } from "framer-motion";
+import { Container } from "../components/ui";
+import { FAQ_ITEMS, faqsInCategory, type FaqItem } from "../faq/faq";
+import { updateQuery } from "../lib/url";
+import { Link } from "../router/Link";
+import { scrollToHash, type RouteLocation } from "../router/location";
+import { useRouter } from "../router/useRouter";
+import { HelpFeedback } from "./HelpFeedback";
+import {
+  HELP_CATEGORIES,
+  articlesInCategory,
+  faqAnchor,
+  faqHref,
+  getHelpCategory,
+  helpArticlePath,
+} from "./content";
+import {
+  HELP_PARAMS,
+  excerpt,
+  highlight,
+  loadHelpIndex,
+  searchHelp,
+  type HelpSearchIndex,
+  type HelpSearchResult,
+} from "./search";
+
+const Highlighted: React.FC<{ text: string; matches: ReadonlySet<string> }> = ({
+  text,
+  matches,
+}) => (
+  <>
+    {highlight(text, matches).map((segment, index) =>
+      segment.match ? (
+        <mark key={index} className="rounded-sm bg-accent/20 px-0.5 text-fg">
+          {segment.text}
+        </mark>
+      ) : (
+        <React.Fragment key={index}>{segment.text}</React.Fragment>
+      )
+    )}
+  </>
+);
+
+const AnswerLink: React.FC<{ item: FaqItem }> = ({ item }) => (
+  <Link
+    to={faqHref(item.id)}
+    className="inline-flex items-center gap-1.5 text-sm text-accent hover:text-accent-hover"
+  >
+    <Link2 className="h-4 w-4" aria-hidden="true" />
+    Link to this answer
+    <span className="sr-only">: {item.question}</span>
+  </Link>
+);
+
+// ===== FAQ Entry =====
+const FaqEntry: React.FC<{ item: FaqItem }> = ({ item }) => (
+  <details
+    id={faqAnchor(item.id)}
+    className="group rounded-card bg-surface border border-line open:border-accent/50"
+  >
+    <summary className="flex cursor-pointer list-none items-center justify-between gap-4 p-6 text-left font-semibold text-fg [&::-webkit-details-marker]:hidden">
+      {item.question}
+      <ChevronDown
+        className="h-5 w-5 flex-shrink-0 text-accent transition-transform group-open:rotate-180"
+        aria-hidden="true"
+      />
+    </summary>
+    <div className="px-6 pb-6 -mt-2">
+      <p className="text-fg/70">{item.answer}</p>
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-4">
+        <HelpFeedback kind="faq" id={item.id} />
+        <AnswerLink item={item} />
+      </div>
+    </div>
+  </details>
+);
+
+// ===== Search Results =====
+const SearchResult: React.FC<{ result: HelpSearchResult }> = ({ result }) => {
+  const { document, matches } = result;
+  const category = getHelpCategory(document.category);
+  const faq =
+    document.kind === "faq" ? FAQ_ITEMS.find((item) => item.id === document.id) : null;
+
+  return (
+    <li className="rounded-card bg-surface border border-line p-6">
+      <p className="text-xs uppercase tracking-wider text-fg/50 mb-2">
+        {faq ? "Answer" : "Article"} · {category.name}
+      </p>
+      {faq ? (
+        <>
+          <h3 className="font-semibold text-fg">
+            <Highlighted text={document.title} matches={matches} />
+          </h3>
+          <p className="text-fg/70 mt-2">
+            <Highlighted text={document.text} matches={matches} />
+          </p>
+          <div className="mt-4 flex flex-wrap items-center justify-between gap-4">
+            <HelpFeedback kind="faq" id={faq.id} />
+            <AnswerLink item={faq} />
+          </div>
+        </>
+      ) : (
+        <>
+          <h3 className="font-semibold text-fg">
+            <Link to={document.href} className="hover:text-accent-hover">
+              <Highlighted text={document.title} matches={matches} />
+            </Link>
+          </h3>
+          <p className="text-fg/70 mt-2">
+            <Highlighted text={excerpt(document.text, matches)} matches={matches} />
+          </p>
+        </>
+      )}
+    </li>
+  );
+};
+
+// ===== Help Centre =====
+export const HelpCentrePage: React.FC = () => {
+  const { location } = useRouter();
+  // The prerendered page has no query; read it once mounted so hydration
+  // sees the same markup.
+  const [mounted, setMounted] = useState(false);
+  const [query, setQuery] = useState("");
+
+  useEffect(() => {
+    setQuery(new URLSearchParams(location.search).get(HELP_PARAMS.query) ?? "");
+    setMounted(true);
+  }, [location.search]);
+
+  const searching = query.trim() !== "";
+  const [index, setIndex] = useState<HelpSearchIndex | null>(null);
+  const [indexError, setIndexError] = useState("");
+  const [attempt, setAttempt] = useState(0);
+
+  // The index is only fetched once someone actually searches.
+  useEffect(() => {
+    if (!searching || index) return;
+    let cancelled = false;
+    setIndexError("");
+    loadHelpIndex().then(
+      (loaded) => !cancelled && setIndex(loaded),
+      (err: unknown) =>
+        !cancelled &&
+        setIndexError(err instanceof Error ? err.message : "Search isn't available.")
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [searching, index, attempt]);
+
+  const results = useMemo(() => (index ? searchHelp(query, index) : []), [query, index]);
+
+  const changeQuery = (value: string) => {
+    setQuery(value);
+    updateQuery({ [HELP_PARAMS.query]: value.trim() || null });
+  };
+
+  // A link to one answer leaves search, opens the answer and scrolls to it.
+  // Keyed on the location object so following the same link twice still works.
+  const handled = useRef<RouteLocation | null>(null);
+  useEffect(() => {
+    if (!mounted || handled.current === location) return;
+    const id = decodeURIComponent(location.hash.replace(/^#/, ""));
+    if (!FAQ_ITEMS.some((item) => faqAnchor(item.id) === id)) {
+      handled.current = location;
+      return;
+    }
+    if (searching) {
+      setQuery("");
+      updateQuery({ [HELP_PARAMS.query]: null });
+      return;
+    }
+    handled.current = location;
+    const target = document.getElementById(id);
+    if (target instanceof HTMLDetailsElement) {
+      target.open = true;
+      scrollToHash(location.hash);
+    }
+  }, [mounted, location, searching]);
+
+  return (
+    <Container className="pt-32 pb-16 lg:pb-28">
+      <m.div
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="text-center mb-10"
+      >
+        <h1 className="text-4xl lg:text-5xl font-bold text-fg mb-6">
+          Help
+          <span className="bg-gradient-to-r from-highlight to-highlight-alt bg-clip-text text-transparent">
+            {" "}
+            Centre
+          </span>
+        </h1>
+        <p className="text-xl text-fg/70 max-w-2xl mx-auto">
+          Answers on installation, plans and contracts, data retention and GDPR,
+          before you get started and after.
+        </p>
+      </m.div>
+
+      <form
+        role="search"
+        onSubmit={(e) => e.preventDefault()}
+        className="max-w-2xl mx-auto mb-12"
+      >
+        <label htmlFor="help-search" className="sr-only">
+          Search the help centre
+        </label>
+        <div className="relative">
+          <Search
+            className="pointer-events-none absolute left-4 top-1/2 h-5 w-5 -translate-y-1/2 text-fg/50"
+            aria-hidden="true"
+          />
+          <input
+            id="help-search"
+            type="search"
+            value={query}
+            onChange={(e) => changeQuery(e.target.value)}
+            placeholder="Search, e.g. “install trackers” or “data retention”"
+            autoComplete="off"
+            aria-describedby="help-search-status"
+            className="w-full rounded-control border border-line bg-surface py-4 pl-12 pr-4 text-fg placeholder:text-fg/40 focus:border-accent focus:outline-none focus:ring-2 focus:ring-accent/40"
+          />
+        </div>
+      </form>
+
+      <p id="help-search-status" role="status" className="sr-only">
+        {searching &&
+          (index
+            ? `${results.length} ${results.length === 1 ? "result" : "results"} for ${query.trim()}`
+            : indexError)}
+      </p>
+
+      {searching ? (
+        <section aria-labelledby="help-results" className="max-w-3xl mx-auto">
+          <h2 id="help-results" className="text-2xl font-bold text-fg mb-6">
+            {!index
+              ? indexError
+                ? "Search unavailable"
+                : "Searching…"
+              : results.length
+                ? `${results.length} ${results.length === 1 ? "result" : "results"}`
+                : "No results"}
+          </h2>
+          {!index ? (
+            indexError && (
+              <p className="text-fg/70">
+                {indexError}{" "}
+                <button
+                  type="button"
+                  onClick={() => setAttempt((n) => n + 1)}
+                  className="text-accent hover:text-accent-hover underline"
+                >
+                  Try again
+                </button>
+              </p>
+            )
+          ) : results.length ? (
+            <ul className="space-y-4">
+              {results.map((result) => (
+                <SearchResult
+                  key={`${result.document.kind}-${result.document.id}`}
+                  result={result}
+                />
+              ))}
+            </ul>
+          ) : (
+            <p className="text-fg/70">
+              We couldn't find anything for “{query.trim()}”. Try fewer words, or{" "}
+              <Link to="/#contact" className="text-accent hover:text-accent-hover underline">
+                ask our team
+              </Link>
+              .
+            </p>
+          )}
+        </section>
+      ) : (
+        <>
+          <nav aria-label="Help topics" className="mb-16">
+            <ul className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+              {HELP_CATEGORIES.map((category) => (
+                <li key={category.id}>
+                  <Link
+                    to={`#${category.id}`}
+                    className="flex h-full flex-col rounded-card bg-surface border border-line p-6 hover:border-accent/50 transition-colors"
+                  >
+                    <category.icon className="h-6 w-6 text-accent mb-4" aria-hidden="true" />
+                    <span className="font-semibold text-fg">{category.name}</span>
+                    <span className="text-sm text-fg/60 mt-2">{category.description}</span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </nav>
+
+          <div className="max-w-3xl mx-auto space-y-16">
+            {HELP_CATEGORIES.map((category) => {
+              const articles = articlesInCategory(category.id);
+              return (
+                <section
+                  key={category.id}
+                  id={category.id}
+                  aria-labelledby={`${category.id}-heading`}
+                >
+                  <h2
+                    id={`${category.id}-heading`}
+                    className="flex items-center gap-3 text-2xl font-bold text-fg mb-6"
+                  >
+                    <category.icon className="h-6 w-6 text-accent" aria-hidden="true" />
+                    {category.name}
+                  </h2>
+                  {articles.length > 0 && (
+                    <ul className="mb-6 space-y-3">
+                      {articles.map((article) => (
+                        <li key={article.slug}>
+                          <Link
+                            to={helpArticlePath(article.slug)}
+                            className="flex gap-4 rounded-card border border-line p-5 hover:border-accent/50 transition-colors"
+                          >
+                            <FileText
+                              className="h-5 w-5 flex-shrink-0 text-accent mt-0.5"
+                              aria-hidden="true"
+                            />
+                            <span>
+                              <span className="block font-semibold text-fg">
+                                {article.title}
+                              </span>
+                              <span className="block text-sm text-fg/60 mt-1">
+                                {article.summary}
+                              </span>
+                            </span>
+                          </Link>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  <div className="space-y-4">
+                    {faqsInCategory(category.id).map((item) => (
+                      <FaqEntry key={item.id} item={item} />
+                    ))}
+                  </div>
+                </section>
+              );
+            })}
+          </div>
+
+        </>
+      )}
+    </Container>
+  );
+};
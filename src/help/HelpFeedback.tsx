@@ -0,0 +1,64 @@
+import React, { useEffect, useRef, useState } from "react";
+import { ThumbsDown, ThumbsUp } from "lucide-react";
+import { useAnalytics } from "../analytics/useAnalytics";
+import { Link } from "../router/Link";
+import type { HelpDocumentKind } from "./search";
+
+// ===== Was This Helpful? =====
+// Votes go to the analytics layer only, so they respect the visitor's
+// consent like every other event. One vote per answer per visit to the page.
+export const HelpFeedback: React.FC<{ kind: HelpDocumentKind; id: string }> = ({
+  kind,
+  id,
+}) => {
+  const { track } = useAnalytics();
+  const [vote, setVote] = useState<boolean | null>(null);
+  const statusRef = useRef<HTMLParagraphElement>(null);
+
+  // The buttons go once used; keep focus from falling back to the page.
+  useEffect(() => {
+    if (vote !== null) statusRef.current?.focus();
+  }, [vote]);
+
+  const answer = (helpful: boolean) => {
+    setVote(helpful);
+    track("help_feedback", { kind, id, helpful });
+  };
+
+  const button =
+    "inline-flex items-center gap-1.5 rounded-control border border-line px-3 py-1.5 text-sm text-fg/70 hover:text-fg hover:border-line-strong transition-colors";
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      {vote === null && (
+        <>
+          <span className="text-fg/60" id={`${kind}-${id}-helpful`}>
+            Was this helpful?
+          </span>
+          <div role="group" aria-labelledby={`${kind}-${id}-helpful`} className="flex gap-2">
+            <button type="button" className={button} onClick={() => answer(true)}>
+              <ThumbsUp className="h-4 w-4" aria-hidden="true" />
+              Yes
+            </button>
+            <button type="button" className={button} onClick={() => answer(false)}>
+              <ThumbsDown className="h-4 w-4" aria-hidden="true" />
+              No
+            </button>
+          </div>
+        </>
+      )}
+      <p ref={statusRef} tabIndex={-1} role="status" className="text-fg/60 focus:outline-none">
+        {vote === true && "Thanks for letting us know."}
+        {vote === false && (
+          <>
+            Thanks, we'll use that to improve this answer. Still stuck?{" "}
+            <Link to="/#contact" className="text-accent hover:text-accent-hover underline">
+              Ask our team
+            </Link>
+            .
+          </>
+        )}
+      </p>
+    </div>
+  );
+};
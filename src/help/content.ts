@@ -0,0 +1,264 @@
+import {
+  CreditCard,
+  Rocket,
+  ShieldCheck,
+  Wrench,
+  type LucideIcon,
+} from "lucide-react";
+import { parseMarkdown, type Block } from "../blog/markdown";
+import { DEFAULT_PRICE_DISPLAY, describeVat, formatPrice } from "../money/money";
+import { PLANS } from "../pricing/catalog";
+import { DEFAULT_CALCULATOR_CONFIG } from "../pricing/calculator";
+
+// ===== Help Centre Content =====
+// Categories and long-form articles. Short answers live in `FAQ_ITEMS` and
+// are grouped under the same categories. Article bodies are Markdown in the
+// subset `parseMarkdown` reads, parsed once here.
+
+export type HelpCategoryId =
+  | "getting-started"
+  | "installation"
+  | "plans-billing"
+  | "data-privacy";
+
+export interface HelpCategory {
+  id: HelpCategoryId;
+  name: string;
+  description: string;
+  icon: LucideIcon;
+}
+
+export const HELP_CATEGORIES: HelpCategory[] = [
+  {
+    id: "getting-started",
+    name: "Getting started",
+    description: "Free trials, first logins and what to expect in week one.",
+    icon: Rocket,
+  },
+  {
+    id: "installation",
+    name: "Trackers & installation",
+    description: "Choosing hardware, fitting it yourself or booking an engineer.",
+    icon: Wrench,
+  },
+  {
+    id: "plans-billing",
+    name: "Plans, billing & contracts",
+    description: "Notice periods, changing plan, VAT and our uptime SLA.",
+    icon: CreditCard,
+  },
+  {
+    id: "data-privacy",
+    name: "Data, privacy & GDPR",
+    description: "Where data is held, how long we keep it and tracking drivers lawfully.",
+    icon: ShieldCheck,
+  },
+];
+
+export const getHelpCategory = (id: HelpCategoryId) =>
+  HELP_CATEGORIES.find((category) => category.id === id)!;
+
+export interface HelpArticle {
+  slug: string;
+  category: HelpCategoryId;
+  title: string;
+  summary: string;
+  /** ISO date, YYYY-MM-DD. */
+  updated: string;
+  blocks: Block[];
+}
+
+export const HELP_PATH = "/help";
+
+const { hardwarePerVehicle, installation } = DEFAULT_CALCULATOR_CONFIG;
+
+// Articles are prerendered and indexed once, so prices read as the pricing
+// table first renders them: UK, ex VAT.
+const price = (amount: number) =>
+  `${formatPrice(amount, DEFAULT_PRICE_DISPLAY)} ${describeVat(DEFAULT_PRICE_DISPLAY)}`;
+
+const historyList = PLANS.map((plan) => {
+  const history = plan.features.history;
+  return `- **${plan.name}:** ${
+    history.status === "excluded" ? "no" : history.detail ?? "full"
+  } history`;
+}).join("\n");
+
+const SOURCES: Array<Omit<HelpArticle, "blocks"> & { body: string }> = [
+  {
+    slug: "your-first-week",
+    category: "getting-started",
+    title: "Your first week on Franstrack",
+    summary:
+      "From signing up to your first weekly report: what happens, and when, during a free trial.",
+    updated: "2026-10-12",
+    body: `
+## Day one: sign up
+
+Start a [free trial](/trial) and pick the plan you want to try. We ask how many vehicles you run and which trackers you need, so we can pick and ship the right hardware.
+
+## Days two and three: trackers arrive
+
+Trackers ship within two working days by tracked courier. Each box is labelled with the vehicle it's for if you gave us registrations, so fitting is a matter of matching boxes to vans.
+
+## Fitting and first positions
+
+Plug-in trackers go live within a minute of the ignition turning on. If you booked a professional installation, the engineer checks every vehicle on the live map before leaving.
+
+## The rest of the week
+
+- Invite your team and set who can see which vehicles.
+- Draw geofences around depots and customer sites.
+- Schedule the weekly mileage report to arrive every Monday.
+
+Your trial ends after 14 days. We'll email three days before, and nothing is charged unless you choose to continue.
+`,
+  },
+  {
+    slug: "fitting-obd-trackers",
+    category: "installation",
+    title: "Fitting a plug-in OBD tracker",
+    summary:
+      "Most cars and vans take a plug-in tracker you can fit yourself in under five minutes, with no tools.",
+    updated: "2026-09-28",
+    body: `
+## Find the diagnostic port
+
+Every car and light commercial vehicle built since 2004 has an OBD-II port, usually under the dashboard on the driver's side, within a hand's reach of the steering column. Some vans hide it behind a small cover in the footwell.
+
+## Plug it in
+
+1. Turn the ignition off.
+2. Push the tracker firmly into the port until it seats.
+3. Turn the ignition on and wait for the light on the tracker to turn solid green.
+
+The vehicle appears on your live map within a minute. If it doesn't, check the tracker is fully seated and the vehicle is somewhere with a mobile signal.
+
+## When to choose something else
+
+Plug-in trackers are easy to remove, which suits most fleets but not all. If vehicles are at risk of theft, or drivers might unplug the tracker, choose a hard-wired tracker instead. Each tracker is a one-off ${price(hardwarePerVehicle)}, whichever type you choose.
+`,
+  },
+  {
+    slug: "professional-installation",
+    category: "installation",
+    title: "What to expect from a professional installation",
+    summary:
+      "Hard-wired trackers are fitted by our engineers at your depot, typically in 45 minutes per vehicle.",
+    updated: "2026-09-28",
+    body: `
+## Booking
+
+Choose professional installation when you sign up and give us the postcode where the vehicles will be. We'll call within one working day to book a slot that fits around your operating hours, including evenings and weekends.
+
+## On the day
+
+An engineer fits the tracker behind the dashboard, wires it to a permanent 12V or 24V supply and tests it against the live map. Allow about 45 minutes per vehicle. The engineer doesn't need the driver, only the keys and access to the cab.
+
+## Cost
+
+Professional installation is ${price(installation.professional.perVehicle)} per vehicle on top of the tracker itself. There's no call-out charge for five vehicles or more at one site.
+`,
+  },
+  {
+    slug: "data-retention",
+    category: "data-privacy",
+    title: "How long we keep your data",
+    summary:
+      "Tracking history is kept for a period set by your plan, then deleted automatically.",
+    updated: "2026-10-05",
+    body: `
+## Tracking history by plan
+
+Trip history, positions and driving events are kept for:
+
+${historyList}
+
+Anything older is deleted automatically every night. Reports you have already downloaded are yours to keep.
+
+## Account data
+
+Users, vehicles, geofences and settings are kept for as long as your contract runs. When a contract ends you have 30 days to export anything you need, after which we permanently delete the account.
+
+## Shorter retention
+
+Some fleets choose to keep less than their plan allows, for example to match a data protection impact assessment. Administrators can shorten retention under **Settings → Data**.
+`,
+  },
+  {
+    slug: "tracking-drivers-under-gdpr",
+    category: "data-privacy",
+    title: "Tracking drivers lawfully under UK GDPR",
+    summary:
+      "Vehicle tracking is personal data when a driver can be identified. Here's how to stay on the right side of the rules.",
+    updated: "2026-10-05",
+    body: `
+## Pick a lawful basis
+
+Most fleets rely on **legitimate interests**: running the business safely and efficiently. Consent is rarely the right basis for employees, because it must be freely given and can be withdrawn at any time.
+
+## Tell drivers
+
+Drivers must know what is tracked, when and why. Put it in writing, ideally in a vehicle use policy they sign, and tell them before the trackers go live.
+
+## Keep it proportionate
+
+- Use private-use mode where vehicles are also driven privately.
+- Limit who can see live positions to the people who need them.
+- Keep history no longer than you need it.
+
+## Document it
+
+A data protection impact assessment records why tracking is necessary and how you limit it. We can share a template and help you complete it; see our [GDPR page](/gdpr) for more on how we act as your processor.
+`,
+  },
+  {
+    slug: "contracts-and-cancelling",
+    category: "plans-billing",
+    title: "Contracts, notice periods and cancelling",
+    summary:
+      "Monthly plans need 30 days' notice, annual plans run for twelve months, and you can upgrade at any time.",
+    updated: "2026-10-12",
+    body: `
+## Monthly and annual billing
+
+Monthly plans are billed each month and renew automatically. Annual plans are billed up-front for twelve months and cost less per vehicle. Both are priced per vehicle, so adding vehicles mid-term is charged pro rata.
+
+## Changing plan
+
+Upgrades take effect straight away. Downgrades take effect at your next renewal, so you keep the features you've paid for until then.
+
+## Cancelling
+
+Give 30 days' notice by email or from **Settings → Billing**. Annual plans can be cancelled at any time to stop them renewing. When the contract ends:
+
+1. Your trackers stop reporting and stay in your vehicles, as they're yours.
+2. You have 30 days to export your data.
+3. We then delete your account permanently.
+
+Read the full [terms of service](/terms) for the details.
+`,
+  },
+];
+
+/** In category order, then as written. */
+export const HELP_ARTICLES: HelpArticle[] = SOURCES.map(({ body, ...meta }) => ({
+  ...meta,
+  blocks: parseMarkdown(body.trim()),
+})).sort(
+  (a, b) =>
+    HELP_CATEGORIES.findIndex((category) => category.id === a.category) -
+    HELP_CATEGORIES.findIndex((category) => category.id === b.category)
+);
+
+export const helpArticlePath = (slug: string) => `${HELP_PATH}/${slug}`;
+
+export const findHelpArticleByPath = (path: string) =>
+  HELP_ARTICLES.find((article) => helpArticlePath(article.slug) === path) ?? null;
+
+export const articlesInCategory = (category: HelpCategoryId) =>
+  HELP_ARTICLES.filter((article) => article.category === category);
+
+/** Deep link to one FAQ answer on the help centre page. */
+export const faqAnchor = (id: string) => `faq-${id}`;
+export const faqHref = (id: string) => `${HELP_PATH}#${faqAnchor(id)}`;
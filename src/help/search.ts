@@ -0,0 +1,253 @@
+import { HELP_PATH, type HelpCategoryId } from "./content";
+
+// ===== Help Search =====
+// Typo-tolerant search over every FAQ and article. The index is built at
+// build time (see ./searchIndex) and fetched the first time someone searches;
+// a keystroke only walks the vocabulary, never the documents themselves.
+
+export type HelpDocumentKind = "faq" | "article";
+
+export interface HelpDocument {
+  kind: HelpDocumentKind;
+  /** FAQ id or article slug. */
+  id: string;
+  category: HelpCategoryId;
+  title: string;
+  /** Plain text: the FAQ answer, or the article summary and body. */
+  text: string;
+  href: string;
+}
+
+export interface HelpSearchIndex {
+  documents: HelpDocument[];
+  /** Term → document position → weight. */
+  postings: Map<string, Map<number, number>>;
+  /** Every indexed term, for fuzzy matching. */
+  terms: string[];
+}
+
+/** The index as JSON: maps become arrays of entries. */
+export interface SerializedHelpIndex {
+  documents: HelpDocument[];
+  postings: Array<[term: string, docs: Array<[position: number, weight: number]>]>;
+}
+
+export interface HelpSearchResult {
+  document: HelpDocument;
+  score: number;
+  /** Indexed terms this document matched, for highlighting. */
+  matches: Set<string>;
+}
+
+export const HELP_PARAMS = { query: "q" } as const;
+
+/** Written by the prerender step, and served by the dev server. */
+export const HELP_INDEX_PATH = `${HELP_PATH}/search-index.json`;
+
+export const helpSearchHref = (query: string) =>
+  query.trim()
+    ? `${HELP_PATH}?${new URLSearchParams({ [HELP_PARAMS.query]: query.trim() })}`
+    : HELP_PATH;
+
+const TITLE_WEIGHT = 3;
+const TEXT_WEIGHT = 1;
+
+const STOP_WORDS = new Set(
+  "a an and are as at be but by can do does for from how i if in is it its me my no not of on or our so that the their them then there they this to us was we what when where which who why will with you your".split(
+    " "
+  )
+);
+
+const WORD_RE = /[\p{L}\p{N}]+/gu;
+
+const normalizeWord = (word: string) =>
+  word
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "");
+
+export const tokenize = (text: string) =>
+  (text.match(WORD_RE) ?? [])
+    .map(normalizeWord)
+    .filter((word) => (word.length > 1 || /\d/.test(word)) && !STOP_WORDS.has(word));
+
+export const buildHelpIndex = (documents: HelpDocument[]): HelpSearchIndex => {
+  const postings: HelpSearchIndex["postings"] = new Map();
+  const add = (term: string, position: number, weight: number) => {
+    const docs = postings.get(term) ?? new Map<number, number>();
+    docs.set(position, (docs.get(position) ?? 0) + weight);
+    postings.set(term, docs);
+  };
+  documents.forEach((document, position) => {
+    for (const term of tokenize(document.title)) add(term, position, TITLE_WEIGHT);
+    for (const term of tokenize(document.text)) add(term, position, TEXT_WEIGHT);
+  });
+  return { documents, postings, terms: [...postings.keys()] };
+};
+
+export const serializeHelpIndex = (index: HelpSearchIndex): SerializedHelpIndex => ({
+  documents: index.documents,
+  postings: [...index.postings].map(([term, docs]) => [term, [...docs]]),
+});
+
+export const deserializeHelpIndex = (data: SerializedHelpIndex): HelpSearchIndex => {
+  const postings: HelpSearchIndex["postings"] = new Map(
+    data.postings.map(([term, docs]) => [term, new Map(docs)])
+  );
+  return { documents: data.documents, postings, terms: [...postings.keys()] };
+};
+
+export class HelpIndexError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HelpIndexError";
+  }
+}
+
+let indexRequest: Promise<HelpSearchIndex> | null = null;
+
+/** Fetches the prebuilt index once per page load; a failed fetch can be retried. */
+export const loadHelpIndex = (): Promise<HelpSearchIndex> => {
+  indexRequest ??= fetch(HELP_INDEX_PATH, { headers: { Accept: "application/json" } })
+    .then(async (response) => {
+      if (!response.ok) throw new HelpIndexError("The search index couldn't be loaded.");
+      return deserializeHelpIndex((await response.json()) as SerializedHelpIndex);
+    })
+    .catch((err: unknown) => {
+      indexRequest = null;
+      throw err instanceof HelpIndexError
+        ? err
+        : new HelpIndexError("The search index couldn't be loaded.");
+    });
+  return indexRequest;
+};
+
+// ===== Matching =====
+/** Typos tolerated for a query word of this length. */
+const maxEdits = (length: number) => (length < 4 ? 0 : length < 8 ? 1 : 2);
+
+/** Optimal string alignment distance; gives up once it exceeds `max`. */
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let before: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      let cost = Math.min(
+        previous[j] + 1,
+        row[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1])
+        cost = Math.min(cost, before[j - 2] + 1);
+      row[j] = cost;
+      rowMin = Math.min(rowMin, cost);
+    }
+    if (rowMin > max) return max + 1;
+    before = previous;
+    previous = row;
+  }
+  return previous[b.length];
+};
+
+/**
+ * How well query word `word` matches indexed `term`, from 0 (not at all) to
+ * 1 (exactly). Prefixes count so results appear while someone is typing.
+ */
+const matchQuality = (word: string, term: string) => {
+  if (term === word) return 1;
+  if (word.length >= 2 && term.startsWith(word)) return 0.8;
+  const allowed = maxEdits(word.length);
+  if (!allowed) return 0;
+  const distance = editDistance(word, term, allowed);
+  if (distance <= allowed) return 1 - 0.25 * distance;
+  // A typo in a half-typed word: compare against the term's opening letters.
+  if (term.length > word.length) {
+    const prefixDistance = editDistance(word, term.slice(0, word.length), allowed);
+    if (prefixDistance <= allowed) return 0.6 - 0.2 * (prefixDistance - 1);
+  }
+  return 0;
+};
+
+/** Documents matching every word of `query`, best first. */
+export const searchHelp = (query: string, index: HelpSearchIndex): HelpSearchResult[] => {
+  const words = [...new Set(tokenize(query))];
+  if (!words.length) return [];
+
+  const matches = new Map<number, Set<string>>();
+  // Best score per document for one query word, remembering what matched.
+  const scoreWord = (word: string) => {
+    const best = new Map<number, number>();
+    for (const term of index.terms) {
+      const quality = matchQuality(word, term);
+      if (!quality) continue;
+      for (const [position, weight] of index.postings.get(term)!) {
+        best.set(position, Math.max(best.get(position) ?? 0, quality * weight));
+        const terms = matches.get(position) ?? new Set<string>();
+        matches.set(position, terms.add(term));
+      }
+    }
+    return best;
+  };
+
+  const [scores, ...others] = words.map(scoreWord);
+  for (const best of others) {
+    for (const [position, sofar] of scores) {
+      const score = best.get(position);
+      if (score === undefined) scores.delete(position);
+      else scores.set(position, sofar + score);
+    }
+  }
+
+  return [...scores]
+    .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+    .map(([position, score]) => ({
+      document: index.documents[position],
+      score,
+      matches: matches.get(position)!,
+    }));
+};
+
+// ===== Highlighting =====
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+/** Splits `text` so every word that matched the search can be marked. */
+export const highlight = (text: string, matches: ReadonlySet<string>): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  let last = 0;
+  for (const found of text.matchAll(WORD_RE)) {
+    if (!matches.has(normalizeWord(found[0]))) continue;
+    if (found.index > last) segments.push({ text: text.slice(last, found.index), match: false });
+    segments.push({ text: found[0], match: true });
+    last = found.index + found[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+};
+
+/** About `length` characters of `text`, starting just before the first match. */
+export const excerpt = (text: string, matches: ReadonlySet<string>, length = 200) => {
+  if (text.length <= length) return text;
+  let first = 0;
+  for (const found of text.matchAll(WORD_RE)) {
+    if (matches.has(normalizeWord(found[0]))) {
+      first = found.index;
+      break;
+    }
+  }
+  let start = Math.max(0, first - Math.floor(length / 4));
+  if (start > 0) start = text.lastIndexOf(" ", start) + 1;
+  let end = Math.min(text.length, start + length);
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > start) end = space;
+  }
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${
+    end < text.length ? "…" : ""
+  }`;
+};
@@ -0,0 +1,29 @@
+import { blockText } from "../blog/markdown";
+import { FAQ_ITEMS } from "../faq/faq";
+import { HELP_ARTICLES, faqHref, helpArticlePath } from "./content";
+import { buildHelpIndex, serializeHelpIndex, type HelpDocument } from "./search";
+
+// ===== Help Search Index =====
+// Build-time only: the prerender step writes this to HELP_INDEX_PATH, and the
+// dev server answers that path from here. Browsers never import this module.
+
+export const HELP_DOCUMENTS: HelpDocument[] = [
+  ...FAQ_ITEMS.map((item) => ({
+    kind: "faq" as const,
+    id: item.id,
+    category: item.category,
+    title: item.question,
+    text: item.answer,
+    href: faqHref(item.id),
+  })),
+  ...HELP_ARTICLES.map((article) => ({
+    kind: "article" as const,
+    id: article.slug,
+    category: article.category,
+    title: article.title,
+    text: `${article.summary} ${blockText(article.blocks)}`,
+    href: helpArticlePath(article.slug),
+  })),
+];
+
+export const helpSearchIndex = () => serializeHelpIndex(buildHelpIndex(HELP_DOCUMENTS));
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { haversine, pointInPolygon, type LatLng } from "./geo";
+
+describe("haversine", () => {
+  it("measures London to Paris as about 343.6 km", () => {
+    const london = { lat: 51.5074, lng: -0.1278 };
+    const paris = { lat: 48.8566, lng: 2.3522 };
+    expect(haversine(london, paris) / 1000).toBeCloseTo(343.6, 0);
+  });
+
+  it("measures one degree of latitude as about 111.2 km", () => {
+    expect(haversine({ lat: 53, lng: -3 }, { lat: 54, lng: -3 }) / 1000).toBeCloseTo(111.2, 1);
+  });
+
+  it("is zero for the same point and symmetric", () => {
+    const a = { lat: 53.4, lng: -2.98 };
+    const b = { lat: 53.39, lng: -2.6 };
+    expect(haversine(a, a)).toBe(0);
+    expect(haversine(a, b)).toBe(haversine(b, a));
+  });
+});
+
+describe("pointInPolygon", () => {
+  const square: LatLng[] = [
+    { lat: 53.4, lng: -2.6 },
+    { lat: 53.4, lng: -2.5 },
+    { lat: 53.3, lng: -2.5 },
+    { lat: 53.3, lng: -2.6 },
+  ];
+
+  it("finds points inside", () => {
+    expect(pointInPolygon({ lat: 53.35, lng: -2.55 }, square)).toBe(true);
+    expect(pointInPolygon({ lat: 53.399, lng: -2.501 }, square)).toBe(true);
+  });
+
+  it("rejects points outside", () => {
+    expect(pointInPolygon({ lat: 53.45, lng: -2.55 }, square)).toBe(false);
+    expect(pointInPolygon({ lat: 53.35, lng: -2.45 }, square)).toBe(false);
+    expect(pointInPolygon({ lat: 53.25, lng: -2.65 }, square)).toBe(false);
+  });
+
+  it("counts points on an edge or corner as inside", () => {
+    expect(pointInPolygon({ lat: 53.4, lng: -2.55 }, square)).toBe(true);
+    expect(pointInPolygon({ lat: 53.35, lng: -2.5 }, square)).toBe(true);
+    expect(pointInPolygon({ lat: 53.3, lng: -2.55 }, square)).toBe(true);
+    expect(pointInPolygon({ lat: 53.35, lng: -2.6 }, square)).toBe(true);
+    expect(pointInPolygon({ lat: 53.3, lng: -2.5 }, square)).toBe(true);
+  });
+
+  it("handles concave shapes", () => {
+    // A "U": the notch between the arms is outside.
+    const u: LatLng[] = [
+      { lat: 0, lng: 0 },
+      { lat: 0, lng: 3 },
+      { lat: 3, lng: 3 },
+      { lat: 3, lng: 2 },
+      { lat: 1, lng: 2 },
+      { lat: 1, lng: 1 },
+      { lat: 3, lng: 1 },
+      { lat: 3, lng: 0 },
+    ];
+    expect(pointInPolygon({ lat: 2, lng: 1.5 }, u)).toBe(false);
+    expect(pointInPolygon({ lat: 2, lng: 0.5 }, u)).toBe(true);
+    expect(pointInPolygon({ lat: 0.5, lng: 1.5 }, u)).toBe(true);
+  });
+});
@@ -0,0 +1,116 @@
+// ===== Geometry =====
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_M = 6371008.8;
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+export const METRES_PER_MILE = 1609.344;
+
+/** Great-circle distance between two points, in metres. */
+export const haversine = (a: LatLng, b: LatLng) => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+export const interpolate = (a: LatLng, b: LatLng, t: number): LatLng => ({
+  lat: a.lat + (b.lat - a.lat) * t,
+  lng: a.lng + (b.lng - a.lng) * t,
+});
+
+/** Initial compass bearing from `a` towards `b`, in degrees clockwise from north. */
+export const bearing = (a: LatLng, b: LatLng) => {
+  const dLng = toRad(b.lng - a.lng);
+  const y = Math.sin(dLng) * Math.cos(toRad(b.lat));
+  const x =
+    Math.cos(toRad(a.lat)) * Math.sin(toRad(b.lat)) -
+    Math.sin(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+};
+
+/** Whether `point` lies on the segment from `a` to `b`, to within `epsilon` degrees. */
+const onSegment = (point: LatLng, a: LatLng, b: LatLng, epsilon = 1e-9) => {
+  const cross =
+    (b.lng - a.lng) * (point.lat - a.lat) - (b.lat - a.lat) * (point.lng - a.lng);
+  if (Math.abs(cross) > epsilon * Math.hypot(b.lat - a.lat, b.lng - a.lng)) return false;
+  return (
+    point.lat >= Math.min(a.lat, b.lat) - epsilon &&
+    point.lat <= Math.max(a.lat, b.lat) + epsilon &&
+    point.lng >= Math.min(a.lng, b.lng) - epsilon &&
+    point.lng <= Math.max(a.lng, b.lng) + epsilon
+  );
+};
+
+/**
+ * Ray casting on raw coordinates. Edges are treated as straight in lat/lng,
+ * which is indistinguishable from great circles for fences a few miles across.
+ * A point on an edge counts as inside, as one on a circle's rim does.
+ */
+export const pointInPolygon = (point: LatLng, polygon: LatLng[]) => {
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++)
+    if (onSegment(point, polygon[j], polygon[i])) return true;
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng
+    )
+      inside = !inside;
+  }
+  return inside;
+};
+
+// ===== Flat Maps =====
+export interface Bounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export const boundsOf = (points: LatLng[]): Bounds => ({
+  north: Math.max(...points.map((p) => p.lat)),
+  south: Math.min(...points.map((p) => p.lat)),
+  east: Math.max(...points.map((p) => p.lng)),
+  west: Math.min(...points.map((p) => p.lng)),
+});
+
+/**
+ * Fits `bounds` into a `width` × `height` box for drawing without map tiles.
+ * Equirectangular, squashed by the cosine of the middle latitude: close
+ * enough at city or county scale.
+ */
+export const createProjection = (
+  bounds: Bounds,
+  width: number,
+  height: number,
+  padding = 0
+) => {
+  const squash = Math.cos(toRad((bounds.north + bounds.south) / 2));
+  const spanX = Math.max((bounds.east - bounds.west) * squash, 1e-6);
+  const spanY = Math.max(bounds.north - bounds.south, 1e-6);
+  const scale = Math.min((width - 2 * padding) / spanX, (height - 2 * padding) / spanY);
+  const left = (width - spanX * scale) / 2;
+  const top = (height - spanY * scale) / 2;
+  return {
+    project: (p: LatLng) => ({
+      x: left + (p.lng - bounds.west) * squash * scale,
+      y: top + (bounds.north - p.lat) * scale,
+    }),
+    unproject: ({ x, y }: { x: number; y: number }): LatLng => ({
+      lat: bounds.north - (y - top) / scale,
+      lng: bounds.west + (x - left) / (squash * scale),
+    }),
+    pixelsPerMetre: scale / ((EARTH_RADIUS_M * Math.PI) / 180),
+  };
+};
+
+export type Projection = ReturnType<typeof createProjection>;
@@ -0,0 +1,19 @@
+// ===== Seeded Randomness =====
+/** mulberry32: a tiny, fast PRNG so simulations replay identically for a seed. */
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    between: (min: number, max: number) => min + next() * (max - min),
+    chance: (probability: number) => next() < probability,
+  };
+};
+
+export type Random = ReturnType<typeof createRandom>;
@@ -0,0 +1,82 @@
+// ===== Time Zone Helpers =====
+// Small Intl-based helpers so we can reason about wall-clock times in a
+// named zone (e.g. Europe/London) without pulling in a date library.
+
+const partsFormatter = (timeZone: string) =>
+  new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const zonedParts = (date: Date, timeZone: string) => {
+  const parts = Object.fromEntries(
+    partsFormatter(timeZone)
+      .formatToParts(date)
+      .map((p) => [p.type, p.value])
+  );
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+  };
+};
+
+/** Offset of `timeZone` from UTC at `date`, in minutes. */
+export const zoneOffsetMinutes = (date: Date, timeZone: string) => {
+  const p = zonedParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000);
+};
+
+/** Converts a wall-clock `YYYY-MM-DD` + minutes-after-midnight in `timeZone` to an instant. */
+export const zonedTimeToDate = (
+  isoDate: string,
+  minutes: number,
+  timeZone: string
+) => {
+  const [y, m, d] = isoDate.split("-").map(Number);
+  const naive = Date.UTC(y, m - 1, d, 0, minutes);
+  let guess = naive - zoneOffsetMinutes(new Date(naive), timeZone) * 60000;
+  // A second pass settles instants that sit next to a DST transition.
+  guess = naive - zoneOffsetMinutes(new Date(guess), timeZone) * 60000;
+  return new Date(guess);
+};
+
+/** The calendar date (`YYYY-MM-DD`) of `date` as seen in `timeZone`. */
+export const isoDateInZone = (date: Date, timeZone: string) => {
+  const p = zonedParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`;
+};
+
+export const addDays = (isoDate: string, days: number) => {
+  const [y, m, d] = isoDate.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+};
+
+/** 0 = Sunday … 6 = Saturday, matching `Date#getDay`. */
+export const weekdayOf = (isoDate: string) => {
+  const [y, m, d] = isoDate.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d)).getUTCDay();
+};
+
+export const parseClock = (clock: string) => {
+  const [h, m] = clock.split(":").map(Number);
+  return h * 60 + m;
+};
+
+export const detectTimeZone = (fallback = "Europe/London") => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || fallback;
+  } catch {
+    return fallback;
+  }
+};
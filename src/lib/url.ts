@@ -0,0 +1,16 @@
+import { isBrowser } from "./utils";
+
+// ===== Query String Helpers =====
+export const readQuery = (): URLSearchParams =>
+  new URLSearchParams(isBrowser ? window.location.search : "");
+
+/** Merges `updates` into the current query string without adding history entries. */
+export const updateQuery = (updates: Record<string, string | null>) => {
+  if (!isBrowser) return;
+  const url = new URL(window.location.href);
+  for (const [key, value] of Object.entries(updates)) {
+    if (value === null) url.searchParams.delete(key);
+    else url.searchParams.set(key, value);
+  }
+  window.history.replaceState(window.history.state, "", url);
+};
@@ -0,0 +1,5 @@
+// ===== Utilities =====
+export const cx = (...cls: Array<string | false | null | undefined>) =>
+  cls.filter(Boolean).join(" ");
+export const isBrowser =
+  typeof window !== "undefined" && typeof document !== "undefined";
@@ -0,0 +1,17 @@
+// ===== Validation =====
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/;
+
+export const isEmail = (value: string) => EMAIL_RE.test(value.trim());
+
+const PHONE_RE = /^\+?[\d\s()-]+$/;
+
+/** Loose UK/international check: digits, spaces, brackets and dashes, 10–15 digits. */
+export const isPhone = (value: string) => {
+  const phone = value.trim();
+  const digits = phone.replace(/\D/g, "");
+  return PHONE_RE.test(phone) && digits.length >= 10 && digits.length <= 15;
+};
+
+const UK_POSTCODE_RE = /^[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}$/i;
+
+export const isUkPostcode = (value: string) => UK_POSTCODE_RE.test(value.trim());
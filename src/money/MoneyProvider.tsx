@@ -0,0 +1,60 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { useConsent } from "../consent/useConsent";
+import { MoneyContext, type MoneyContextValue } from "./context";
+import {
+  DEFAULT_PRICE_DISPLAY,
+  REGIONS,
+  describeVat,
+  displayPrice,
+  formatPrice,
+  guessRegion,
+  readPriceDisplay,
+  writePriceDisplay,
+  type PriceDisplay,
+  type RegionId,
+  type VatMode,
+} from "./money";
+
+// ===== Money Provider =====
+export const MoneyProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  // Prerendered pages show UK prices ex VAT; a saved choice or an Irish
+  // browser switches them once mounted.
+  const [display, setDisplay] = useState<PriceDisplay>(DEFAULT_PRICE_DISPLAY);
+  // Only a choice the visitor made is worth remembering, not our guess.
+  const [chosen, setChosen] = useState(false);
+  const { ready, decided, isAllowed } = useConsent();
+  const remember = isAllowed("functional");
+
+  useEffect(() => {
+    const stored = readPriceDisplay();
+    setDisplay(stored ?? { ...DEFAULT_PRICE_DISPLAY, region: guessRegion() });
+    setChosen(!!stored);
+  }, []);
+
+  useEffect(() => {
+    if (!ready || !decided) return;
+    writePriceDisplay(remember && chosen ? display : null);
+  }, [display, chosen, ready, decided, remember]);
+
+  const update = useCallback((next: Partial<PriceDisplay>) => {
+    setDisplay((prev) => ({ ...prev, ...next }));
+    setChosen(true);
+  }, []);
+
+  const value = useMemo<MoneyContextValue>(() => {
+    const region = REGIONS[display.region];
+    return {
+      display,
+      region,
+      setRegion: (id: RegionId) => update({ region: id }),
+      setVat: (vat: VatMode) => update({ vat }),
+      price: (amount) => displayPrice(amount, display),
+      format: (amount, options) => formatPrice(amount, display, options),
+      vatNote: describeVat(display),
+    };
+  }, [display, update]);
+
+  return <MoneyContext.Provider value={value}>{children}</MoneyContext.Provider>;
+};
@@ -0,0 +1,61 @@
+import React from "react";
+import { cx } from "../lib/utils";
+import { useMoney } from "./useMoney";
+import { REGIONS, VAT_OPTIONS, type RegionId } from "./money";
+
+const segment = (active: boolean) =>
+  cx(
+    "px-3 py-1.5 rounded-lg text-sm font-medium transition-colors",
+    active ? "bg-surface-muted text-fg" : "text-fg/60 hover:text-fg"
+  );
+
+// ===== Price Display Controls =====
+/** Lets the visitor pick their region's currency and whether prices include VAT. */
+export const PriceDisplayControls: React.FC<{ className?: string }> = ({
+  className,
+}) => {
+  const { display, setRegion, setVat, vatNote } = useMoney();
+
+  return (
+    <div className={cx("flex flex-wrap items-center justify-center gap-3", className)}>
+      <div
+        role="group"
+        aria-label="Currency"
+        className="inline-flex rounded-control border border-line bg-surface p-1"
+      >
+        {(Object.keys(REGIONS) as RegionId[]).map((id) => (
+          <button
+            key={id}
+            type="button"
+            aria-pressed={display.region === id}
+            onClick={() => setRegion(id)}
+            className={segment(display.region === id)}
+          >
+            {REGIONS[id].currency}
+            <span className="sr-only"> ({REGIONS[id].label})</span>
+          </button>
+        ))}
+      </div>
+      <div
+        role="group"
+        aria-label="VAT"
+        className="inline-flex rounded-control border border-line bg-surface p-1"
+      >
+        {VAT_OPTIONS.map((option) => (
+          <button
+            key={option.id}
+            type="button"
+            aria-pressed={display.vat === option.id}
+            onClick={() => setVat(option.id)}
+            className={segment(display.vat === option.id)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="sr-only" role="status">
+        Showing prices in {REGIONS[display.region].currency}, {vatNote}
+      </p>
+    </div>
+  );
+};
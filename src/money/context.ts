@@ -0,0 +1,23 @@
+import { createContext } from "react";
+import type {
+  MoneyFormatOptions,
+  PriceDisplay,
+  Region,
+  RegionId,
+  VatMode,
+} from "./money";
+
+export interface MoneyContextValue {
+  display: PriceDisplay;
+  region: Region;
+  setRegion: (region: RegionId) => void;
+  setVat: (vat: VatMode) => void;
+  /** A GBP ex-VAT amount in the visitor's currency, with VAT if chosen. */
+  price: (amount: number) => number;
+  /** `price`, formatted for the visitor's region. */
+  format: (amount: number, options?: MoneyFormatOptions) => string;
+  /** "ex. VAT" or "inc. VAT at 20%", to sit beside prices. */
+  vatNote: string;
+}
+
+export const MoneyContext = createContext<MoneyContextValue | null>(null);
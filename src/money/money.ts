@@ -0,0 +1,156 @@
+import { isBrowser } from "../lib/utils";
+import { RATE_TABLE } from "./rates";
+
+// ===== Money =====
+// Catalogue and calculator prices are GBP, ex VAT. Everything shown to a
+// visitor goes through `displayPrice`, which converts to their region's
+// currency and adds VAT when they've asked for inc-VAT prices.
+export type Currency = keyof typeof RATE_TABLE.rates;
+export type RegionId = "GB" | "IE";
+export type VatMode = "ex" | "inc";
+
+export interface Region {
+  id: RegionId;
+  label: string;
+  currency: Currency;
+  locale: string;
+  /** Standard rate as a fraction, e.g. 0.2 for 20%. */
+  vatRate: number;
+}
+
+export const REGIONS: Record<RegionId, Region> = {
+  GB: {
+    id: "GB",
+    label: "United Kingdom",
+    currency: "GBP",
+    locale: "en-GB",
+    vatRate: 0.2,
+  },
+  IE: {
+    id: "IE",
+    label: "Ireland",
+    currency: "EUR",
+    locale: "en-IE",
+    vatRate: 0.23,
+  },
+};
+
+export const VAT_OPTIONS: Array<{ id: VatMode; label: string }> = [
+  { id: "ex", label: "Ex VAT" },
+  { id: "inc", label: "Inc VAT" },
+];
+
+export interface PriceDisplay {
+  region: RegionId;
+  vat: VatMode;
+}
+
+export const DEFAULT_PRICE_DISPLAY: PriceDisplay = { region: "GB", vat: "ex" };
+
+export const isRegionId = (value: unknown): value is RegionId =>
+  typeof value === "string" && value in REGIONS;
+
+export const isVatMode = (value: unknown): value is VatMode =>
+  VAT_OPTIONS.some((option) => option.id === value);
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const convert = (
+  amount: number,
+  to: Currency,
+  rates: Record<Currency, number> = RATE_TABLE.rates
+) => round2(amount * rates[to]);
+
+export const withVat = (amount: number, region: Region) =>
+  round2(amount * (1 + region.vatRate));
+
+/** Converts a GBP ex-VAT amount into what this visitor should see. */
+export const displayPrice = (amount: number, display: PriceDisplay) => {
+  const region = REGIONS[display.region];
+  const converted = convert(amount, region.currency);
+  return display.vat === "inc" ? withVat(converted, region) : converted;
+};
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+export interface MoneyFormatOptions {
+  /** Defaults to 0 for whole amounts, so headline prices read "£29", not "£29.00". */
+  fractionDigits?: number;
+}
+
+export const formatMoney = (
+  amount: number,
+  currency: Currency,
+  locale: string,
+  { fractionDigits }: MoneyFormatOptions = {}
+) => {
+  const digits = fractionDigits ?? (Number.isInteger(amount) ? 0 : 2);
+  const key = `${locale}:${currency}:${digits}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, {
+      style: "currency",
+      currency,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter.format(amount);
+};
+
+/** `displayPrice`, formatted for the display's region. */
+export const formatPrice = (
+  amount: number,
+  display: PriceDisplay,
+  options?: MoneyFormatOptions
+) => {
+  const region = REGIONS[display.region];
+  return formatMoney(displayPrice(amount, display), region.currency, region.locale, options);
+};
+
+export const describeVat = (display: PriceDisplay) => {
+  const region = REGIONS[display.region];
+  return display.vat === "inc"
+    ? `inc. VAT at ${Math.round(region.vatRate * 100)}%`
+    : "ex. VAT";
+};
+
+// ===== Saved Preference =====
+export const PRICE_DISPLAY_STORAGE_KEY = "ft_price_display";
+
+/** Irish browsers start on euro prices until the visitor picks otherwise. */
+export const guessRegion = (): RegionId => {
+  if (!isBrowser) return DEFAULT_PRICE_DISPLAY.region;
+  return navigator.languages.some((lang) => /^(en|ga)-IE$/i.test(lang))
+    ? "IE"
+    : DEFAULT_PRICE_DISPLAY.region;
+};
+
+export const readPriceDisplay = (): PriceDisplay | null => {
+  if (!isBrowser) return null;
+  try {
+    const raw = localStorage.getItem(PRICE_DISPLAY_STORAGE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<PriceDisplay>;
+    return isRegionId(parsed.region) && isVatMode(parsed.vat)
+      ? { region: parsed.region, vat: parsed.vat }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/** Only called when the visitor has allowed functional storage. */
+export const writePriceDisplay = (display: PriceDisplay | null) => {
+  if (!isBrowser) return;
+  try {
+    if (display) {
+      localStorage.setItem(PRICE_DISPLAY_STORAGE_KEY, JSON.stringify(display));
+    } else {
+      localStorage.removeItem(PRICE_DISPLAY_STORAGE_KEY);
+    }
+  } catch {
+    // Storage unavailable; the choice lasts for this page view.
+  }
+};
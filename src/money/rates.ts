@@ -0,0 +1,11 @@
+// ===== Exchange Rates =====
+// Written by scripts/refresh-rates.js when the build runs with RATES_REFRESH=1.
+// Edit by hand only to pin a rate; the next refresh overwrites it.
+export const RATE_TABLE = {
+  base: "GBP",
+  date: "2026-10-16",
+  rates: {
+    GBP: 1,
+    EUR: 1.1482,
+  },
+};
@@ -0,0 +1,8 @@
+import { useContext } from "react";
+import { MoneyContext } from "./context";
+
+export const useMoney = () => {
+  const ctx = useContext(MoneyContext);
+  if (!ctx) throw new Error("useMoney must be used inside <MoneyProvider>");
+  return ctx;
+};
@@ -0,0 +1,17 @@
+import React from "react";
+import { LazyMotion, MotionConfig, domAnimation } from "framer-motion";
+
+// ===== Motion Policy =====
+/**
+ * Every animation on the site renders through here. With "prefers reduced
+ * motion" set, framer-motion skips transforms and keeps opacity, so slides
+ * and lifts become plain fades. `strict` makes a stray `motion.*` component
+ * throw: use `m.*` so the policy and the lazy feature bundle both apply.
+ */
+export const MotionPolicy: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => (
+  <LazyMotion features={domAnimation} strict>
+    <MotionConfig reducedMotion="user">{children}</MotionConfig>
+  </LazyMotion>
+);
@@ -0,0 +1,68 @@
+import React from "react";
+import { Container } from "../components/ui";
+import { Link } from "../router/Link";
+import { LEGAL_DOCS, type LegalDocId } from "./legal";
+
+const dateFormatter = new Intl.DateTimeFormat("en-GB", {
+  day: "numeric",
+  month: "long",
+  year: "numeric",
+  timeZone: "UTC",
+});
+
+// ===== Legal Page =====
+export const LegalPage: React.FC<{ doc: LegalDocId }> = ({ doc }) => {
+  const { title, summary, updated, sections } = LEGAL_DOCS[doc];
+
+  return (
+    <Container className="pt-32 pb-16 lg:pb-28">
+      <div className="grid lg:grid-cols-4 gap-12">
+        <aside className="lg:col-span-1">
+          <nav aria-label="On this page" className="lg:sticky lg:top-28">
+            <p className="text-xs uppercase tracking-wider text-fg/50 mb-4">
+              On this page
+            </p>
+            <ul className="space-y-2 text-sm">
+              {sections.map((section) => (
+                <li key={section.id}>
+                  <Link
+                    to={`#${section.id}`}
+                    className="text-fg/60 hover:text-fg transition-colors"
+                  >
+                    {section.heading}
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          </nav>
+        </aside>
+
+        <article className="lg:col-span-3 max-w-3xl">
+          <h1 className="text-4xl lg:text-5xl font-bold text-fg mb-4">
+            {title}
+          </h1>
+          <p className="text-xl text-fg/70">{summary}</p>
+          <p className="text-sm text-fg/50 mt-4">
+            Last updated{" "}
+            <time dateTime={updated}>
+              {dateFormatter.format(new Date(updated))}
+            </time>
+          </p>
+
+          {sections.map((section) => (
+            <section key={section.id} id={section.id} className="mt-12">
+              <h2 className="text-2xl font-semibold text-fg mb-4">
+                {section.heading}
+              </h2>
+              <div className="space-y-4 text-fg/70 leading-relaxed">
+                {section.body.map((paragraph, index) => (
+                  <p key={index}>{paragraph}</p>
+                ))}
+              </div>
+            </section>
+          ))}
+        </article>
+      </div>
+    </Container>
+  );
+};
@@ -0,0 +1,411 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  KeyRound,
+  Loader2,
+  LogIn,
+  MailCheck,
+} from "lucide-react";
+import { Button, Card, Container } from "../components/ui";
+import { TextField } from "../components/form";
+import { cx, isBrowser } from "../lib/utils";
+import { isEmail } from "../lib/validation";
+import { useConsent } from "../consent/useConsent";
+import { PORTAL_URL, getDefaultAuthProvider } from "../auth/config";
+import { AuthError, type AuthProvider, type AuthResult } from "../auth/provider";
+import { readRememberedEmail, writeRememberedEmail } from "../auth/rememberMe";
+
+type Mode = "password" | "magic";
+type Step =
+  | "credentials"
+  | "mfa"
+  | "forgot"
+  | "magic-sent"
+  | "reset-sent"
+  | "redirecting";
+
+const MFA_CODE_RE = /^\d{6}$/;
+
+// ===== Login =====
+export const LoginPage: React.FC<{
+  provider?: AuthProvider;
+  portalUrl?: string;
+}> = ({ provider, portalUrl = PORTAL_URL }) => {
+  const auth = useMemo(() => provider ?? getDefaultAuthProvider(), [provider]);
+  const { ready, isAllowed, openPreferences } = useConsent();
+  const canRemember = isAllowed("functional");
+
+  const [mode, setMode] = useState<Mode>("password");
+  const [step, setStep] = useState<Step>("credentials");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [remember, setRemember] = useState(false);
+  const [code, setCode] = useState("");
+  const [challengeId, setChallengeId] = useState("");
+  const [errors, setErrors] = useState<{
+    email?: string;
+    password?: string;
+    code?: string;
+  }>({});
+  const [failure, setFailure] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [lockedUntil, setLockedUntil] = useState(0);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Only touch remembered state once consent is known, and forget it if
+  // functional storage is withdrawn.
+  useEffect(() => {
+    if (!ready) return;
+    if (!canRemember) {
+      writeRememberedEmail(null);
+      setRemember(false);
+      return;
+    }
+    const stored = readRememberedEmail();
+    if (stored) {
+      setEmail((prev) => prev || stored);
+      setRemember(true);
+    }
+  }, [ready, canRemember]);
+
+  useEffect(() => {
+    if (lockedUntil <= Date.now()) return;
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [lockedUntil]);
+
+  const lockedFor = Math.max(0, Math.ceil((lockedUntil - now) / 1000));
+  const locked = lockedFor > 0;
+
+  const handleError = (err: unknown) => {
+    if (err instanceof AuthError) {
+      if (err.code === "rate_limited") {
+        setLockedUntil(Date.now() + (err.retryAfterSeconds ?? 30) * 1000);
+        setNow(Date.now());
+      }
+      if (err.code === "invalid_code") setErrors({ code: err.message });
+      else setFailure(err.message);
+    } else {
+      setFailure("We couldn't reach the sign-in service. Please try again.");
+    }
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setFailure("");
+    try {
+      await action();
+    } catch (err) {
+      handleError(err);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const finish = (result: AuthResult) => {
+    if (result.status === "mfa_required") {
+      setChallengeId(result.challengeId);
+      setCode("");
+      setStep("mfa");
+      return;
+    }
+    writeRememberedEmail(canRemember && remember ? result.session.email : null);
+    setStep("redirecting");
+    if (isBrowser) window.location.assign(portalUrl);
+  };
+
+  const validateEmail = () => {
+    if (isEmail(email)) return true;
+    setErrors({ email: "Please enter a valid email address." });
+    document.getElementById("login-email")?.focus();
+    return false;
+  };
+
+  const submitCredentials = (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+    if (!validateEmail()) return;
+    if (mode === "magic") {
+      run(async () => {
+        await auth.sendMagicLink(email.trim());
+        setStep("magic-sent");
+      });
+      return;
+    }
+    if (!password) {
+      setErrors({ password: "Please enter your password." });
+      document.getElementById("login-password")?.focus();
+      return;
+    }
+    run(async () =>
+      finish(await auth.signInWithPassword({ email: email.trim(), password }))
+    );
+  };
+
+  const submitMfa = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!MFA_CODE_RE.test(code)) {
+      setErrors({ code: "Enter the 6-digit code from your authenticator app." });
+      return;
+    }
+    setErrors({});
+    run(async () => finish(await auth.verifyMfa(challengeId, code)));
+  };
+
+  const submitForgot = (e: React.FormEvent) => {
+    e.preventDefault();
+    setErrors({});
+    if (!validateEmail()) return;
+    run(async () => {
+      await auth.requestPasswordReset(email.trim());
+      setStep("reset-sent");
+    });
+  };
+
+  const backToSignIn = () => {
+    setStep("credentials");
+    setFailure("");
+    setErrors({});
+    setPassword("");
+  };
+
+  const alert = (failure || locked) && (
+    <div
+      role="alert"
+      className="flex items-start gap-3 rounded-control border border-danger/50 bg-danger/10 p-4 text-sm text-danger text-left"
+    >
+      <AlertTriangle className="h-5 w-5 flex-shrink-0 text-danger" />
+      <div>
+        {locked
+          ? `Too many attempts. You can try again in ${lockedFor}s.`
+          : failure}
+      </div>
+    </div>
+  );
+
+  const submitLabel = (idle: string) =>
+    busy ? (
+      <>
+        <Loader2 className="mr-2 h-5 w-5 animate-spin" aria-hidden="true" />
+        Please wait…
+      </>
+    ) : (
+      idle
+    );
+
+  return (
+    <Container className="min-h-screen flex items-center justify-center pt-28 pb-16">
+      <Card className="w-full max-w-md border border-line">
+        <div className="text-center mb-8">
+          <div className="mx-auto mb-6 w-12 h-12 rounded-control bg-accent/10 grid place-items-center">
+            {step === "mfa" ? (
+              <KeyRound className="h-6 w-6 text-accent" />
+            ) : step === "magic-sent" || step === "reset-sent" ? (
+              <MailCheck className="h-6 w-6 text-accent" />
+            ) : (
+              <LogIn className="h-6 w-6 text-accent" />
+            )}
+          </div>
+          <h1 className="text-2xl font-bold text-fg mb-2">
+            {step === "mfa"
+              ? "Two-step verification"
+              : step === "forgot"
+                ? "Reset your password"
+                : step === "magic-sent" || step === "reset-sent"
+                  ? "Check your inbox"
+                  : "Customer Login"}
+          </h1>
+          <p className="text-fg/70">
+            {step === "mfa"
+              ? "Enter the 6-digit code from your authenticator app."
+              : step === "forgot"
+                ? "We'll email you a link to choose a new password."
+                : step === "magic-sent"
+                  ? `We've sent a sign-in link to ${email.trim()}.`
+                  : step === "reset-sent"
+                    ? `If ${email.trim()} has an account, a reset link is on its way.`
+                    : "Sign in to the Franstrack portal to see your fleet live."}
+          </p>
+        </div>
+
+        {step === "credentials" && (
+          <form noValidate onSubmit={submitCredentials} className="space-y-6">
+            <div
+              role="group"
+              aria-label="Sign-in method"
+              className="grid grid-cols-2 bg-canvas rounded-control p-1"
+            >
+              {(
+                [
+                  ["password", "Password"],
+                  ["magic", "Email me a link"],
+                ] as const
+              ).map(([value, label]) => (
+                <button
+                  key={value}
+                  type="button"
+                  aria-pressed={mode === value}
+                  onClick={() => {
+                    setMode(value);
+                    setErrors({});
+                    setFailure("");
+                  }}
+                  className={cx(
+                    "px-4 py-2 rounded-lg text-sm font-medium transition-all",
+                    mode === value
+                      ? "bg-primary text-on-primary shadow-raised"
+                      : "text-fg/70 hover:text-fg"
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {alert}
+
+            <TextField
+              id="login-email"
+              label="Email"
+              type="email"
+              autoComplete="username"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              error={errors.email}
+            />
+
+            {mode === "password" && (
+              <>
+                <TextField
+                  id="login-password"
+                  label="Password"
+                  type="password"
+                  autoComplete="current-password"
+                  required
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  error={errors.password}
+                />
+                <div className="flex items-center justify-between gap-4 text-sm">
+                  <label className="flex items-center gap-2 text-fg/80">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 accent-primary"
+                      checked={remember}
+                      disabled={!canRemember}
+                      onChange={(e) => setRemember(e.target.checked)}
+                    />
+                    Remember me
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setStep("forgot");
+                      setFailure("");
+                      setErrors({});
+                    }}
+                    className="text-accent hover:text-accent-hover"
+                  >
+                    Forgot password?
+                  </button>
+                </div>
+                {!canRemember && (
+                  <p className="text-xs text-fg/50 -mt-3">
+                    To remember your email,{" "}
+                    <button
+                      type="button"
+                      onClick={openPreferences}
+                      className="text-accent hover:text-accent-hover underline"
+                    >
+                      allow functional cookies
+                    </button>
+                    .
+                  </p>
+                )}
+              </>
+            )}
+
+            <Button
+              type="submit"
+              disabled={busy || locked}
+              className="w-full disabled:opacity-60"
+            >
+              {submitLabel(mode === "password" ? "Sign in" : "Send sign-in link")}
+            </Button>
+          </form>
+        )}
+
+        {step === "mfa" && (
+          <form noValidate onSubmit={submitMfa} className="space-y-6">
+            {alert}
+            <TextField
+              id="login-code"
+              label="Verification code"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              maxLength={6}
+              required
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+              error={errors.code}
+              className="[&_input]:text-center [&_input]:tracking-[0.5em] [&_input]:text-xl"
+            />
+            <Button
+              type="submit"
+              disabled={busy || locked}
+              className="w-full disabled:opacity-60"
+            >
+              {submitLabel("Verify")}
+            </Button>
+          </form>
+        )}
+
+        {step === "forgot" && (
+          <form noValidate onSubmit={submitForgot} className="space-y-6">
+            {alert}
+            <TextField
+              id="login-email"
+              label="Email"
+              type="email"
+              autoComplete="username"
+              required
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              error={errors.email}
+            />
+            <Button
+              type="submit"
+              disabled={busy || locked}
+              className="w-full disabled:opacity-60"
+            >
+              {submitLabel("Send reset link")}
+            </Button>
+          </form>
+        )}
+
+        {step === "redirecting" && (
+          <div
+            role="status"
+            className="flex items-center justify-center gap-3 text-fg/80"
+          >
+            <Loader2 className="h-5 w-5 animate-spin" aria-hidden="true" />
+            Signing you in…
+          </div>
+        )}
+
+        {step !== "credentials" && step !== "redirecting" && (
+          <button
+            type="button"
+            onClick={backToSignIn}
+            className="mt-6 inline-flex items-center gap-2 text-sm text-accent hover:text-accent-hover"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back to sign in
+          </button>
+        )}
+      </Card>
+    </Container>
+  );
+};
@@ -0,0 +1,31 @@
+import React from "react";
+import { ArrowRight, MapPinOff } from "lucide-react";
+import { Button, Container } from "../components/ui";
+
+// ===== 404 =====
+export const NotFoundPage: React.FC = () => (
+  <Container className="min-h-screen flex items-center justify-center pt-20">
+    <div className="text-center max-w-xl">
+      <div className="mx-auto mb-8 w-16 h-16 rounded-card bg-accent/10 grid place-items-center">
+        <MapPinOff className="h-8 w-8 text-accent" />
+      </div>
+      <p className="text-accent font-semibold mb-2">404</p>
+      <h1 className="text-4xl lg:text-5xl font-bold text-fg mb-6">
+        This route is off the map
+      </h1>
+      <p className="text-xl text-fg/70 mb-10">
+        We couldn't find the page you were looking for. It may have moved,
+        or the link may be out of date.
+      </p>
+      <div className="flex flex-col sm:flex-row gap-4 justify-center">
+        <Button as="a" href="/">
+          Back to home
+          <ArrowRight className="ml-2 h-5 w-5" />
+        </Button>
+        <Button as="a" href="/#contact" variant="secondary">
+          Contact us
+        </Button>
+      </div>
+    </div>
+  </Container>
+);
@@ -0,0 +1,219 @@
+// ===== Legal Documents =====
+export type LegalDocId = "privacy" | "terms" | "cookies" | "gdpr" | "security";
+
+export interface LegalDoc {
+  id: LegalDocId;
+  title: string;
+  summary: string;
+  updated: string;
+  sections: Array<{ id: string; heading: string; body: string[] }>;
+}
+
+const CONTACT_LINE =
+  "Questions? Email privacy@franstrack.co.uk or write to Franstrack, Liverpool, United Kingdom.";
+
+export const LEGAL_DOCS: Record<LegalDocId, LegalDoc> = {
+  privacy: {
+    id: "privacy",
+    title: "Privacy Policy",
+    summary:
+      "How Franstrack collects, uses and protects personal data on this website and in our fleet platform.",
+    updated: "2025-10-01",
+    sections: [
+      {
+        id: "who-we-are",
+        heading: "Who we are",
+        body: [
+          "Franstrack provides GPS tracking and fleet management services to businesses in the United Kingdom. For data collected through this website we are the data controller. For telematics data processed on behalf of our customers we act as a data processor under a written data processing agreement.",
+        ],
+      },
+      {
+        id: "what-we-collect",
+        heading: "What we collect",
+        body: [
+          "Enquiry and demo details you give us: your name, company, work email, phone number, fleet size and message.",
+          "Website usage data, only where you have allowed analytics cookies.",
+          "Vehicle telemetry (location, speed, ignition state) for customers using the platform.",
+        ],
+      },
+      {
+        id: "how-we-use-it",
+        heading: "How we use it",
+        body: [
+          "We use enquiry details to respond to you and, where you are a customer, to provide and support the service. Our lawful bases are legitimate interests for sales enquiries and contract for customer accounts.",
+        ],
+      },
+      {
+        id: "retention",
+        heading: "How long we keep it",
+        body: [
+          "Enquiries that do not become customers are deleted after 24 months. Telemetry history is retained according to your plan (30 days, 90 days or as agreed for Enterprise) and deleted at the end of the contract.",
+        ],
+      },
+      {
+        id: "your-rights",
+        heading: "Your rights",
+        body: [
+          "You can ask for access to, correction or deletion of your personal data, object to processing or ask us to restrict it. You can also complain to the Information Commissioner's Office (ico.org.uk).",
+          CONTACT_LINE,
+        ],
+      },
+    ],
+  },
+  terms: {
+    id: "terms",
+    title: "Terms of Service",
+    summary: "The terms that apply when you use the Franstrack platform.",
+    updated: "2025-10-01",
+    sections: [
+      {
+        id: "the-service",
+        heading: "The service",
+        body: [
+          "Franstrack provides vehicle tracking hardware, software and support as described in your order form and the plan you choose.",
+        ],
+      },
+      {
+        id: "billing",
+        heading: "Billing and term",
+        body: [
+          "Monthly plans renew each month and can be cancelled with 30 days' notice. Annual plans are billed up-front for twelve months. Tracker hardware and installation are one-off charges.",
+        ],
+      },
+      {
+        id: "acceptable-use",
+        heading: "Acceptable use",
+        body: [
+          "You must only track vehicles you own or are authorised to track, and you are responsible for informing drivers that tracking is in place in line with UK employment and data protection law.",
+        ],
+      },
+      {
+        id: "liability",
+        heading: "Liability",
+        body: [
+          "Nothing in these terms limits liability that cannot be limited by law. Otherwise our total liability in any year is limited to the fees you paid in that year.",
+        ],
+      },
+    ],
+  },
+  cookies: {
+    id: "cookies",
+    title: "Cookie Policy",
+    summary:
+      "Which cookies and similar storage this website uses, and how to change your choices.",
+    updated: "2025-11-01",
+    sections: [
+      {
+        id: "essential",
+        heading: "Essential",
+        body: [
+          "Used to remember your cookie choices and keep the site secure. These are always on.",
+          "The support chat keeps your conversation in session storage so it follows you around the site. It is cleared when you close the tab and is only sent to us if you pass it to our team.",
+        ],
+      },
+      {
+        id: "functional",
+        heading: "Functional",
+        body: [
+          "Only set if you allow them. They remember conveniences such as your colour theme, your currency and VAT display choice, and your email address on the customer login page.",
+        ],
+      },
+      {
+        id: "analytics",
+        heading: "Analytics",
+        body: [
+          "Only set if you allow them. They tell us which pages are useful, including your answers to \"Was this helpful?\" in the help centre, so we can improve the site.",
+        ],
+      },
+      {
+        id: "marketing",
+        heading: "Marketing",
+        body: [
+          "Only set if you allow them. They help us measure our campaigns.",
+        ],
+      },
+      {
+        id: "changing-choices",
+        heading: "Changing your choices",
+        body: [
+          "You can change your choices at any time using the Cookies link in the footer of every page.",
+        ],
+      },
+    ],
+  },
+  gdpr: {
+    id: "gdpr",
+    title: "GDPR",
+    summary:
+      "How Franstrack supports customers in meeting their UK GDPR obligations when tracking vehicles.",
+    updated: "2025-10-01",
+    sections: [
+      {
+        id: "uk-hosting",
+        heading: "UK data hosting",
+        body: [
+          "All customer telemetry is stored in UK data centres. We do not transfer it outside the UK without your written agreement.",
+        ],
+      },
+      {
+        id: "processor-terms",
+        heading: "Data processing agreement",
+        body: [
+          "Every customer contract includes a data processing agreement covering the subject matter, duration, security measures and sub-processors of the processing we carry out for you.",
+        ],
+      },
+      {
+        id: "driver-privacy",
+        heading: "Driver privacy",
+        body: [
+          "Private-use modes, configurable retention and role-based access help you keep tracking proportionate. We can help you prepare a data protection impact assessment.",
+        ],
+      },
+      {
+        id: "requests",
+        heading: "Subject access requests",
+        body: [
+          "Account administrators can export or delete a driver's data from the platform. We will assist with any request within the statutory time limits.",
+          CONTACT_LINE,
+        ],
+      },
+    ],
+  },
+  security: {
+    id: "security",
+    title: "Security & Compliance",
+    summary:
+      "The technical and organisational measures protecting your fleet data.",
+    updated: "2025-10-01",
+    sections: [
+      {
+        id: "encryption",
+        heading: "Encryption",
+        body: [
+          "Data is encrypted in transit with TLS 1.2+ and at rest with AES-256. Tracker devices authenticate with per-device credentials.",
+        ],
+      },
+      {
+        id: "access",
+        heading: "Access control",
+        body: [
+          "Staff access to production systems is limited, logged and protected by multi-factor authentication. Customers can enforce MFA and role-based permissions for their own users.",
+        ],
+      },
+      {
+        id: "compliance",
+        heading: "Compliance",
+        body: [
+          "We follow UK GDPR and PECR, and align our controls with Cyber Essentials Plus and ISO 27001.",
+        ],
+      },
+      {
+        id: "disclosure",
+        heading: "Reporting a vulnerability",
+        body: [
+          "Please report suspected vulnerabilities to security@franstrack.co.uk. We will acknowledge reports within two working days.",
+        ],
+      },
+    ],
+  },
+};
@@ -0,0 +1,590 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { AlertTriangle, Pause, Play, Upload } from "lucide-react";
+import { useAnalytics } from "../analytics/useAnalytics";
+import { Card } from "../components/ui";
+import { SelectField } from "../components/form";
+import {
+  METRES_PER_MILE,
+  boundsOf,
+  createProjection,
+  type LatLng,
+  type Projection,
+} from "../lib/geo";
+import { cx } from "../lib/utils";
+import { SAMPLE_TRIPS } from "./samples";
+import {
+  MAX_TRIP_FILE_BYTES,
+  TripImportError,
+  analyseTrip,
+  momentAt,
+  parseTripFile,
+  speedingStretches,
+  type SpeedingStretch,
+  type Trip,
+  type TripAnalysis,
+  type TripStop,
+} from "./trip";
+
+const MAP_WIDTH = 640;
+const MAP_HEIGHT = 400;
+const MAP_PADDING = 24;
+
+/** Trip seconds played per real second at 1×: a minute of driving in two seconds. */
+const BASE_RATE = 30;
+const RATES = [1, 4, 16] as const;
+type Rate = (typeof RATES)[number];
+
+const LIMITS_MPH = [20, 30, 40, 50, 60, 70];
+const DEFAULT_LIMIT_MPH = 30;
+const FILE_OPTION = "file";
+const SCALE_STEPS_M = [100, 200, 500, 1000, 2000, 5000, 10000, 20000, 50000];
+
+// Recorded times are shown as UK wall-clock time, like the live dashboard.
+const clockFormatter = new Intl.DateTimeFormat("en-GB", {
+  timeZone: "Europe/London",
+  hour: "2-digit",
+  minute: "2-digit",
+  second: "2-digit",
+});
+const dateFormatter = new Intl.DateTimeFormat("en-GB", {
+  timeZone: "Europe/London",
+  weekday: "short",
+  day: "numeric",
+  month: "short",
+  year: "numeric",
+});
+
+const formatClock = (time: number) => clockFormatter.format(time);
+const formatMiles = (metres: number) => `${(metres / METRES_PER_MILE).toFixed(1)} mi`;
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return `${Math.max(1, Math.round(ms / 1000))} sec`;
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+const toPath = (points: LatLng[], { project }: Projection) =>
+  points
+    .map((point, i) => {
+      const { x, y } = project(point);
+      return `${i ? "L" : "M"}${x.toFixed(1)} ${y.toFixed(1)}`;
+    })
+    .join("");
+
+const scaleBar = ({ pixelsPerMetre }: Projection) => {
+  const metres =
+    [...SCALE_STEPS_M].reverse().find((step) => step * pixelsPerMetre <= 120) ??
+    SCALE_STEPS_M[0];
+  return {
+    width: metres * pixelsPerMetre,
+    label: metres >= 1000 ? `${metres / 1000} km` : `${metres} m`,
+  };
+};
+
+// ===== Map =====
+const TripMap: React.FC<{
+  analysis: TripAnalysis;
+  projection: Projection;
+  speeding: SpeedingStretch[];
+  elapsed: number;
+}> = ({ analysis, projection, speeding, elapsed }) => {
+  const { samples, stops, trip } = analysis;
+  const moment = momentAt(analysis, elapsed);
+  const vehicle = projection.project(moment.position);
+  const scale = scaleBar(projection);
+
+  const routePath = useMemo(() => toPath(samples, projection), [samples, projection]);
+  const speedingPaths = useMemo(
+    () =>
+      speeding.map((stretch) =>
+        toPath(samples.slice(stretch.startIndex, stretch.endIndex + 1), projection)
+      ),
+    [samples, speeding, projection]
+  );
+  const travelledPath = useMemo(
+    () => toPath(samples.slice(0, moment.index + 1), projection),
+    [samples, moment.index, projection]
+  );
+  const start = projection.project(samples[0]);
+  const finish = projection.project(samples[samples.length - 1]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${MAP_WIDTH} ${MAP_HEIGHT}`}
+      role="img"
+      aria-label={`Map of ${trip.name}: ${formatMiles(analysis.distance)} with ${
+        stops.length
+      } ${stops.length === 1 ? "stop" : "stops"} and ${speeding.length} speeding ${
+        speeding.length === 1 ? "stretch" : "stretches"
+      }.`}
+      className="block w-full h-auto rounded-control bg-canvas border border-line"
+    >
+      <defs>
+        <pattern id="playback-grid" width="32" height="32" patternUnits="userSpaceOnUse">
+          <path d="M32 0H0V32" fill="none" className="stroke-line" strokeWidth="1" />
+        </pattern>
+      </defs>
+      <rect width={MAP_WIDTH} height={MAP_HEIGHT} fill="url(#playback-grid)" />
+
+      <path
+        d={routePath}
+        fill="none"
+        className="stroke-fg/25"
+        strokeWidth="4"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+      <path
+        d={`${travelledPath}L${vehicle.x.toFixed(1)} ${vehicle.y.toFixed(1)}`}
+        fill="none"
+        className="stroke-accent"
+        strokeWidth="4"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+      {speedingPaths.map((d, i) => (
+        <path
+          key={i}
+          d={d}
+          fill="none"
+          className="stroke-danger"
+          strokeWidth="6"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      ))}
+
+      <circle cx={start.x} cy={start.y} r="6" className="fill-success stroke-canvas" strokeWidth="2" />
+      <rect
+        x={finish.x - 5}
+        y={finish.y - 5}
+        width="10"
+        height="10"
+        className="fill-fg stroke-canvas"
+        strokeWidth="2"
+      />
+      {stops.map((stop, i) => {
+        const { x, y } = projection.project(stop.position);
+        return (
+          <g key={stop.from} transform={`translate(${x.toFixed(1)} ${y.toFixed(1)})`}>
+            <circle r="9" className="fill-warning stroke-canvas" strokeWidth="2" />
+            <text
+              textAnchor="middle"
+              dominantBaseline="central"
+              className="fill-canvas text-[10px] font-bold"
+            >
+              {i + 1}
+            </text>
+          </g>
+        );
+      })}
+
+      <g transform={`translate(${vehicle.x.toFixed(1)} ${vehicle.y.toFixed(1)})`}>
+        <circle r="10" className="fill-primary stroke-canvas" strokeWidth="2" />
+        {moment.heading !== null && (
+          <path
+            d="M0 -6L4.5 4L0 1.5L-4.5 4Z"
+            transform={`rotate(${moment.heading.toFixed(0)})`}
+            className="fill-on-primary"
+          />
+        )}
+      </g>
+
+      <g transform={`translate(${MAP_PADDING} ${MAP_HEIGHT - MAP_PADDING})`}>
+        <path
+          d={`M0 -4V0H${scale.width.toFixed(1)}V-4`}
+          fill="none"
+          className="stroke-fg/60"
+          strokeWidth="1.5"
+        />
+        <text x="0" y="-8" className="fill-fg/60 text-[11px]">
+          {scale.label}
+        </text>
+      </g>
+    </svg>
+  );
+};
+
+// ===== Route Playback =====
+export const RoutePlayback: React.FC = () => {
+  const [sampleId, setSampleId] = useState(SAMPLE_TRIPS[0].id);
+  const [uploaded, setUploaded] = useState<Trip | null>(null);
+  const [limitMph, setLimitMph] = useState(SAMPLE_TRIPS[0].limitMph ?? DEFAULT_LIMIT_MPH);
+  const [elapsed, setElapsed] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [rate, setRate] = useState<Rate>(1);
+  const [dragging, setDragging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const { track } = useAnalytics();
+
+  const sample = SAMPLE_TRIPS.find((trip) => trip.id === sampleId) ?? SAMPLE_TRIPS[0];
+  const trip = sampleId === FILE_OPTION && uploaded ? uploaded : sample;
+  const analysis = useMemo(() => analyseTrip(trip), [trip]);
+  const projection = useMemo(
+    () => createProjection(boundsOf(analysis.samples), MAP_WIDTH, MAP_HEIGHT, MAP_PADDING),
+    [analysis]
+  );
+  const speeding = useMemo(() => speedingStretches(analysis, limitMph), [analysis, limitMph]);
+  const { duration } = analysis;
+  const moment = momentAt(analysis, elapsed);
+  const over = moment.speedMph > limitMph;
+  const stop = analysis.stops.find((s) => elapsed >= s.from && elapsed < s.to);
+  const stretch = speeding.find((s) => elapsed >= s.from && elapsed < s.to);
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      // A long gap (a backgrounded tab) resumes rather than jumping ahead.
+      const delta = Math.min(now - last, 250);
+      last = now;
+      setElapsed((prev) => Math.min(duration, prev + delta * BASE_RATE * rate));
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, rate, duration]);
+
+  useEffect(() => {
+    if (elapsed >= duration) setPlaying(false);
+  }, [elapsed, duration]);
+
+  // Only the start of a stop or speeding stretch is announced while playing;
+  // the speed itself changes far too often for a live region.
+  useEffect(() => {
+    if (!playing || !stop) return;
+    setAnnouncement(
+      `Stopped at ${formatClock(analysis.samples[stop.startIndex].time)} for ${formatDuration(
+        stop.to - stop.from
+      )}.`
+    );
+  }, [playing, stop, analysis]);
+
+  useEffect(() => {
+    if (!playing || !stretch) return;
+    setAnnouncement(
+      `Speeding at ${formatClock(analysis.samples[stretch.startIndex].time)}: up to ${Math.round(
+        stretch.peakMph
+      )} mph in a ${limitMph} limit.`
+    );
+  }, [playing, stretch, analysis, limitMph]);
+
+  const show = (next: { sampleId: string; limitMph?: number }) => {
+    setSampleId(next.sampleId);
+    setLimitMph(next.limitMph ?? DEFAULT_LIMIT_MPH);
+    setElapsed(0);
+    setPlaying(false);
+    setAnnouncement("");
+  };
+
+  const chooseSample = (id: string) => {
+    if (id === FILE_OPTION) {
+      show({ sampleId: id, limitMph });
+      return;
+    }
+    const chosen = SAMPLE_TRIPS.find((trip) => trip.id === id);
+    if (!chosen) return;
+    setError(null);
+    show({ sampleId: chosen.id, limitMph: chosen.limitMph });
+    track("playback_loaded", { source: "sample" });
+  };
+
+  const loadFile = async (file: File) => {
+    setError(null);
+    if (file.size > MAX_TRIP_FILE_BYTES) {
+      setError(
+        `That file is larger than ${MAX_TRIP_FILE_BYTES / 1024 / 1024} MB. Try exporting a single trip.`
+      );
+      return;
+    }
+    try {
+      const { format, trip: imported } = parseTripFile(file.name, await file.text());
+      setUploaded(imported);
+      show({ sampleId: FILE_OPTION, limitMph });
+      track("playback_loaded", { source: format });
+    } catch (err) {
+      setError(
+        err instanceof TripImportError ? err.message : "We couldn't read that file. Please try another."
+      );
+    }
+  };
+
+  const togglePlaying = () => {
+    if (!playing && elapsed >= duration) setElapsed(0);
+    setPlaying((prev) => !prev);
+  };
+
+  const seek = (span: TripStop | SpeedingStretch) => setElapsed(span.from);
+
+  const tripOptions = [
+    ...SAMPLE_TRIPS.map((sample) => ({ value: sample.id, label: sample.name })),
+    ...(uploaded ? [{ value: FILE_OPTION, label: `Your file: ${uploaded.name}` }] : []),
+  ];
+
+  return (
+    <Card className="border border-line">
+      <div className="grid md:grid-cols-2 gap-4 mb-6">
+        <div>
+          <SelectField
+            id="playback-trip"
+            label="Trip"
+            value={sampleId}
+            options={tripOptions}
+            onChange={(e) => chooseSample(e.target.value)}
+            hint={sampleId === FILE_OPTION ? "Loaded from your file" : sample.description}
+          />
+        </div>
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            const file = e.dataTransfer.files[0];
+            if (file) void loadFile(file);
+          }}
+          className={cx(
+            "flex flex-col justify-center rounded-control border-2 border-dashed px-4 py-3 text-sm transition-colors",
+            dragging ? "border-accent bg-accent/10" : "border-line"
+          )}
+        >
+          <div className="flex flex-wrap items-center gap-2 text-fg/70">
+            <input
+              id="playback-file"
+              type="file"
+              accept=".gpx,.geojson,.json,application/gpx+xml,application/geo+json"
+              className="peer sr-only"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void loadFile(file);
+              }}
+            />
+            <label
+              htmlFor="playback-file"
+              className="inline-flex cursor-pointer items-center gap-2 rounded-control border border-line-strong px-3 py-1.5 text-fg hover:bg-surface-muted transition-colors peer-focus-visible:ring-2 peer-focus-visible:ring-accent"
+            >
+              <Upload className="h-4 w-4" aria-hidden="true" />
+              Choose a file
+            </label>
+            <span>or drop a GPX or GeoJSON track here.</span>
+          </div>
+          <p className="mt-1 text-xs text-fg/50">Your file is read in your browser and never uploaded.</p>
+          {error && (
+            <p role="alert" className="mt-2 text-xs text-danger">
+              {error}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <TripMap
+            analysis={analysis}
+            projection={projection}
+            speeding={speeding}
+            elapsed={elapsed}
+          />
+          <ul className="mt-3 flex flex-wrap gap-x-5 gap-y-1 text-xs text-fg/60" aria-label="Map key">
+            <li className="flex items-center gap-2">
+              <span className="h-1 w-5 rounded-full bg-accent" aria-hidden="true" /> Driven so far
+            </li>
+            <li className="flex items-center gap-2">
+              <span className="h-1.5 w-5 rounded-full bg-danger" aria-hidden="true" /> Over {limitMph} mph
+            </li>
+            <li className="flex items-center gap-2">
+              <span className="h-3 w-3 rounded-full bg-warning" aria-hidden="true" /> Stop
+            </li>
+            <li className="flex items-center gap-2">
+              <span className="h-3 w-3 rounded-full bg-success" aria-hidden="true" /> Start
+            </li>
+            <li className="flex items-center gap-2">
+              <span className="h-2.5 w-2.5 bg-fg" aria-hidden="true" /> Finish
+            </li>
+          </ul>
+        </div>
+
+        <div className="space-y-4">
+          <div className="rounded-control bg-canvas p-5 border border-line">
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                <div className="text-2xl font-semibold text-fg tabular-nums">
+                  {formatClock(moment.time)}
+                </div>
+                <div className="text-xs text-fg/60">{dateFormatter.format(moment.time)}</div>
+              </div>
+              <span
+                className={cx(
+                  "rounded-full px-2.5 py-1 text-xs font-medium",
+                  stop
+                    ? "bg-warning/15 text-warning"
+                    : over
+                      ? "bg-danger/15 text-danger"
+                      : "bg-success/15 text-success"
+                )}
+              >
+                {stop ? "Stopped" : over ? "Speeding" : "Moving"}
+              </span>
+            </div>
+            <dl className="mt-4 grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <dt className="text-fg/60">Speed</dt>
+                <dd
+                  className={cx(
+                    "text-3xl font-bold tabular-nums",
+                    over ? "text-danger" : "text-fg"
+                  )}
+                >
+                  {Math.round(moment.speedMph)}
+                  <span className="ml-1 text-sm font-medium">mph</span>
+                </dd>
+              </div>
+              <div>
+                <dt className="text-fg/60">Distance</dt>
+                <dd className="text-fg font-semibold tabular-nums mt-2">
+                  {formatMiles(moment.distance)}
+                  <span className="text-fg/50 font-normal"> of {formatMiles(analysis.distance)}</span>
+                </dd>
+              </div>
+            </dl>
+          </div>
+
+          <SelectField
+            id="playback-limit"
+            label="Speed limit"
+            value={String(limitMph)}
+            options={LIMITS_MPH.map((limit) => ({ value: String(limit), label: `${limit} mph` }))}
+            onChange={(e) => setLimitMph(Number(e.target.value))}
+          />
+        </div>
+      </div>
+
+      <div className="mt-6 flex flex-col sm:flex-row sm:items-center gap-4">
+        <button
+          type="button"
+          onClick={togglePlaying}
+          className="inline-flex items-center justify-center gap-2 rounded-control bg-primary px-5 py-2.5 font-medium text-on-primary hover:bg-primary-hover transition-colors focus:outline-none focus:ring-2 focus:ring-accent focus:ring-offset-2 focus:ring-offset-surface"
+        >
+          {playing ? (
+            <Pause className="h-4 w-4" aria-hidden="true" />
+          ) : (
+            <Play className="h-4 w-4" aria-hidden="true" />
+          )}
+          {playing ? "Pause" : elapsed >= duration ? "Replay" : "Play"}
+        </button>
+
+        <div role="group" aria-label="Playback speed" className="flex gap-1">
+          {RATES.map((option) => (
+            <button
+              key={option}
+              type="button"
+              aria-pressed={rate === option}
+              onClick={() => setRate(option)}
+              className={cx(
+                "rounded-control px-3 py-2 text-sm font-medium tabular-nums transition-colors",
+                rate === option
+                  ? "bg-accent/15 text-accent-hover"
+                  : "text-fg/70 hover:bg-surface-muted"
+              )}
+            >
+              {option}×
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1">
+          <label htmlFor="playback-timeline" className="sr-only">
+            Timeline
+          </label>
+          <input
+            id="playback-timeline"
+            type="range"
+            min={0}
+            max={duration}
+            step={1000}
+            value={Math.round(elapsed)}
+            onChange={(e) => setElapsed(Number(e.target.value))}
+            aria-valuetext={`${formatClock(moment.time)}, ${formatMiles(moment.distance)} driven`}
+            className="w-full accent-primary"
+          />
+          <div className="flex justify-between text-xs text-fg/50 tabular-nums">
+            <span>{formatClock(analysis.samples[0].time)}</span>
+            <span>{formatDuration(duration)}</span>
+            <span>{formatClock(analysis.samples[analysis.samples.length - 1].time)}</span>
+          </div>
+        </div>
+      </div>
+      <p className="mt-2 text-xs text-fg/50">At 1×, a minute of driving plays in two seconds.</p>
+      <p role="status" className="sr-only">
+        {announcement}
+      </p>
+
+      <div className="mt-8 grid md:grid-cols-2 gap-6">
+        <section aria-labelledby="playback-stops">
+          <h3 id="playback-stops" className="text-sm font-semibold text-fg mb-3">
+            Stops ({analysis.stops.length})
+          </h3>
+          {analysis.stops.length ? (
+            <ol className="space-y-2">
+              {analysis.stops.map((s, i) => (
+                <li key={s.from}>
+                  <button
+                    type="button"
+                    onClick={() => seek(s)}
+                    className="w-full flex items-center gap-3 rounded-lg bg-surface-muted/60 px-3 py-2 text-left text-sm hover:bg-surface-muted transition-colors"
+                  >
+                    <span className="grid h-5 w-5 place-items-center rounded-full bg-warning text-[10px] font-bold text-canvas">
+                      {i + 1}
+                    </span>
+                    <span className="text-fg tabular-nums">
+                      {formatClock(analysis.samples[s.startIndex].time)}
+                    </span>
+                    <span className="text-fg/60">parked for {formatDuration(s.to - s.from)}</span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-sm text-fg/60">No stops longer than two minutes.</p>
+          )}
+        </section>
+
+        <section aria-labelledby="playback-speeding">
+          <h3 id="playback-speeding" className="text-sm font-semibold text-fg mb-3">
+            Speeding over {limitMph} mph ({speeding.length})
+          </h3>
+          {speeding.length ? (
+            <ol className="space-y-2">
+              {speeding.map((s) => (
+                <li key={s.from}>
+                  <button
+                    type="button"
+                    onClick={() => seek(s)}
+                    className="w-full flex items-center gap-3 rounded-lg bg-surface-muted/60 px-3 py-2 text-left text-sm hover:bg-surface-muted transition-colors"
+                  >
+                    <AlertTriangle className="h-4 w-4 text-danger flex-shrink-0" aria-hidden="true" />
+                    <span className="text-fg tabular-nums">
+                      {formatClock(analysis.samples[s.startIndex].time)}
+                    </span>
+                    <span className="text-fg/60">
+                      up to {Math.round(s.peakMph)} mph for {formatDuration(s.to - s.from)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <p className="text-sm text-fg/60">No speeding at this limit.</p>
+          )}
+        </section>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,35 @@
+import React from "react";
+import { Button, Container } from "../components/ui";
+import { trialHref } from "../trial/trial";
+import { RoutePlayback } from "./RoutePlayback";
+
+// ===== Route Playback Demo =====
+export const RoutePlaybackPage: React.FC = () => (
+  <Container className="pt-28 pb-16 lg:pb-24">
+    <div className="max-w-3xl mx-auto text-center mb-10">
+      <h1 className="text-3xl lg:text-5xl font-bold text-fg mb-4">
+        Route
+        <span className="bg-gradient-to-r from-highlight to-highlight-alt bg-clip-text text-transparent">
+          {" "}
+          Playback
+        </span>
+      </h1>
+      <p className="text-xl text-fg/70">
+        Replay a day's driving the way fleet managers do in Franstrack: every
+        stop, every stretch over the limit, and the speed at any moment. Try a
+        sample trip or drop in your own GPX or GeoJSON track.
+      </p>
+    </div>
+
+    <RoutePlayback />
+
+    <div className="mt-12 flex flex-col sm:flex-row gap-4 justify-center">
+      <Button as="a" href={trialHref()} trackingId="playback-trial">
+        Start Free Trial
+      </Button>
+      <Button variant="secondary" as="a" href="/#demo" trackingId="playback-demo">
+        Book a Demo
+      </Button>
+    </div>
+  </Container>
+);
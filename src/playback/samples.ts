@@ -0,0 +1,124 @@
+import { METRES_PER_MILE, haversine, interpolate, type LatLng } from "../lib/geo";
+import { createRandom } from "../lib/random";
+import type { Trip, TripPoint } from "./trip";
+
+// ===== Sample Trips =====
+// Generated from a seed rather than stored, so the bundle only carries the
+// turning points. Positions are reported every five seconds on the move and
+// once a minute while parked, like our trackers.
+const MOVING_INTERVAL_S = 5;
+const PARKED_INTERVAL_S = 60;
+const ACCELERATION = 1.5; // m/s²
+const BRAKING = 2; // m/s²
+
+interface SampleLeg extends LatLng {
+  /** Typical speed on the way to this point. */
+  cruiseMph: number;
+  /** Parked here for this long on arrival. */
+  stopMinutes?: number;
+}
+
+interface SampleRoute {
+  id: string;
+  name: string;
+  description: string;
+  startsAt: string;
+  limitMph: number;
+  start: LatLng;
+  legs: SampleLeg[];
+  seed: number;
+}
+
+export interface SampleTrip extends Trip {
+  id: string;
+  description: string;
+}
+
+const SAMPLE_ROUTES: SampleRoute[] = [
+  {
+    id: "city-deliveries",
+    name: "City centre delivery round",
+    description: "Three drops around Liverpool city centre, with a quick stretch on Scotland Road.",
+    startsAt: "2025-10-14T07:30:00Z",
+    limitMph: 30,
+    start: { lat: 53.3931, lng: -2.9772 },
+    legs: [
+      { lat: 53.3968, lng: -2.9789, cruiseMph: 24 },
+      { lat: 53.4012, lng: -2.9801, cruiseMph: 26 },
+      { lat: 53.4043, lng: -2.9812, cruiseMph: 22, stopMinutes: 6 },
+      { lat: 53.4071, lng: -2.9846, cruiseMph: 20 },
+      { lat: 53.4099, lng: -2.9861, cruiseMph: 24 },
+      { lat: 53.4118, lng: -2.9798, cruiseMph: 24, stopMinutes: 4 },
+      { lat: 53.4146, lng: -2.9731, cruiseMph: 33 },
+      { lat: 53.4187, lng: -2.969, cruiseMph: 37 },
+      { lat: 53.4229, lng: -2.9712, cruiseMph: 26, stopMinutes: 8 },
+      { lat: 53.4196, lng: -2.979, cruiseMph: 28 },
+      { lat: 53.4127, lng: -2.9899, cruiseMph: 27 },
+      { lat: 53.4061, lng: -2.9934, cruiseMph: 24 },
+      { lat: 53.399, lng: -2.988, cruiseMph: 26 },
+      { lat: 53.3931, lng: -2.9772, cruiseMph: 22 },
+    ],
+    seed: 14,
+  },
+  {
+    id: "m62-service-call",
+    name: "M62 service call to Warrington",
+    description: "A motorway run out to a customer site, a two-hour job, and back.",
+    startsAt: "2025-10-14T08:15:00Z",
+    limitMph: 70,
+    start: { lat: 53.4106, lng: -2.9312 },
+    legs: [
+      { lat: 53.4089, lng: -2.89, cruiseMph: 38 },
+      { lat: 53.4031, lng: -2.8524, cruiseMph: 64 },
+      { lat: 53.406, lng: -2.76, cruiseMph: 66 },
+      { lat: 53.4089, lng: -2.6802, cruiseMph: 78 },
+      { lat: 53.3925, lng: -2.5968, cruiseMph: 32, stopMinutes: 120 },
+      { lat: 53.4001, lng: -2.7411, cruiseMph: 66 },
+      { lat: 53.4098, lng: -2.8899, cruiseMph: 67 },
+      { lat: 53.4106, lng: -2.9312, cruiseMph: 34 },
+    ],
+    seed: 62,
+  },
+];
+
+const generateTrip = (route: SampleRoute): SampleTrip => {
+  const random = createRandom(route.seed);
+  let time = Date.parse(route.startsAt);
+  let from = route.start;
+  let speed = 0; // m/s
+  const points: TripPoint[] = [{ ...from, time }];
+
+  route.legs.forEach((leg, i) => {
+    const length = haversine(from, leg);
+    const stopsAtEnd = !!leg.stopMinutes || i === route.legs.length - 1;
+    let travelled = 0;
+    while (travelled < length) {
+      const target = ((leg.cruiseMph * METRES_PER_MILE) / 3600) * random.between(0.92, 1.03);
+      const braking = stopsAtEnd
+        ? Math.sqrt(2 * BRAKING * (length - travelled))
+        : Infinity;
+      speed = Math.max(2, Math.min(speed + ACCELERATION * MOVING_INTERVAL_S, target, braking));
+      travelled = Math.min(length, travelled + speed * MOVING_INTERVAL_S);
+      time += MOVING_INTERVAL_S * 1000;
+      points.push({ ...interpolate(from, leg, travelled / length), time });
+    }
+    from = leg;
+
+    if (!leg.stopMinutes) return;
+    speed = 0;
+    for (let s = PARKED_INTERVAL_S; s <= leg.stopMinutes * 60; s += PARKED_INTERVAL_S) {
+      points.push({ lat: leg.lat, lng: leg.lng, time: time + s * 1000 });
+    }
+    time += leg.stopMinutes * 60 * 1000;
+  });
+
+  return {
+    id: route.id,
+    name: route.name,
+    description: route.description,
+    limitMph: route.limitMph,
+    points,
+  };
+};
+
+export const SAMPLE_TRIPS: SampleTrip[] = SAMPLE_ROUTES.map(generateTrip);
@@ -0,0 +1,320 @@
+import {
+  METRES_PER_MILE,
+  bearing,
+  haversine,
+  interpolate,
+  type LatLng,
+} from "../lib/geo";
+
+// ===== Trips =====
+// A trip is a trail of timestamped positions, the same shape our trackers
+// report. Importing and analysis are pure, apart from GPX needing DOMParser.
+export interface TripPoint extends LatLng {
+  /** Milliseconds since the epoch. */
+  time: number;
+}
+
+export interface Trip {
+  name: string;
+  points: TripPoint[];
+  /** The speed limit to judge the trip against until the visitor picks one. */
+  limitMph?: number;
+}
+
+export type TripFormat = "gpx" | "geojson";
+
+export class TripImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TripImportError";
+  }
+}
+
+export const MAX_TRIP_FILE_BYTES = 10 * 1024 * 1024;
+/** Longer tracks are thinned evenly so playback stays smooth. */
+const MAX_TRIP_POINTS = 20000;
+
+const toTime = (value: unknown): number => {
+  // Numbers below 1e11 are taken as Unix seconds rather than milliseconds.
+  if (typeof value === "number") return value < 1e11 ? value * 1000 : value;
+  if (typeof value === "string" && value.trim()) return Date.parse(value);
+  return NaN;
+};
+
+const buildTrip = (name: string, raw: TripPoint[]): Trip => {
+  const located = raw.filter(
+    (p) =>
+      Number.isFinite(p.lat) &&
+      Number.isFinite(p.lng) &&
+      Math.abs(p.lat) <= 90 &&
+      Math.abs(p.lng) <= 180
+  );
+  if (located.length < 2)
+    throw new TripImportError("We couldn't find a track with at least two points in this file.");
+
+  const timed = located.filter((p) => Number.isFinite(p.time)).sort((a, b) => a.time - b.time);
+  if (timed.length < 2)
+    throw new TripImportError(
+      "This track has no timestamps, so there's nothing to play back. Export it again with times included."
+    );
+
+  const points = timed.filter((p, i) => i === 0 || p.time > timed[i - 1].time);
+  const step = Math.ceil(points.length / MAX_TRIP_POINTS);
+  return {
+    name,
+    points:
+      step > 1
+        ? points.filter((_, i) => i % step === 0 || i === points.length - 1)
+        : points,
+  };
+};
+
+// ===== GPX =====
+const childText = (parent: Element, tag: string) =>
+  parent.getElementsByTagNameNS("*", tag)[0]?.textContent?.trim() ?? "";
+
+/** Track points (`trkpt`) from every track and segment, in time order. */
+export const parseGpx = (xml: string, fallbackName: string): Trip => {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length)
+    throw new TripImportError("This doesn't look like a valid GPX file.");
+
+  const trackPoints = [...doc.getElementsByTagNameNS("*", "trkpt")];
+  if (!trackPoints.length)
+    throw new TripImportError(
+      "This GPX file has no recorded track. Planned routes and waypoints can't be played back."
+    );
+
+  const track = doc.getElementsByTagNameNS("*", "trk")[0];
+  return buildTrip(
+    (track && childText(track, "name")) || fallbackName,
+    trackPoints.map((el) => ({
+      lat: Number(el.getAttribute("lat")),
+      lng: Number(el.getAttribute("lon")),
+      time: toTime(childText(el, "time")),
+    }))
+  );
+};
+
+// ===== GeoJSON =====
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const featuresOf = (data: unknown): JsonObject[] => {
+  if (!isObject(data)) return [];
+  if (data.type === "FeatureCollection" && Array.isArray(data.features))
+    return data.features.filter(isObject);
+  if (data.type === "Feature") return [data];
+  // A bare geometry.
+  return [{ type: "Feature", geometry: data, properties: {} }];
+};
+
+const toPoint = (coords: unknown, time: unknown): TripPoint => {
+  const [lng, lat, , embedded] = Array.isArray(coords) ? coords : [];
+  return { lat: Number(lat), lng: Number(lng), time: toTime(time ?? embedded) };
+};
+
+/**
+ * Times may sit in `properties.coordTimes` (as written by most GPX
+ * converters), `properties.times`, or a fourth coordinate.
+ */
+const featurePoints = (feature: JsonObject): TripPoint[] => {
+  const geometry = isObject(feature.geometry) ? feature.geometry : {};
+  const props = isObject(feature.properties) ? feature.properties : {};
+  const times = props.coordTimes ?? props.times;
+  const coords = geometry.coordinates;
+  if (!Array.isArray(coords)) return [];
+
+  switch (geometry.type) {
+    case "Point":
+      return [toPoint(coords, props.time ?? props.timestamp)];
+    case "LineString":
+      return coords.map((c, i) => toPoint(c, Array.isArray(times) ? times[i] : undefined));
+    case "MultiLineString":
+      return coords.flatMap((line, l) =>
+        Array.isArray(line)
+          ? line.map((c, i) => {
+              const lineTimes = Array.isArray(times) ? times[l] : undefined;
+              return toPoint(c, Array.isArray(lineTimes) ? lineTimes[i] : undefined);
+            })
+          : []
+      );
+    default:
+      return [];
+  }
+};
+
+/** A timed LineString, MultiLineString or a run of timed Point features. */
+export const parseGeoJson = (text: string, fallbackName: string): Trip => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new TripImportError("This doesn't look like a valid GeoJSON file.");
+  }
+  const features = featuresOf(data);
+  const named = features
+    .map((feature) => (isObject(feature.properties) ? feature.properties.name : undefined))
+    .find((name): name is string => typeof name === "string" && !!name.trim());
+  return buildTrip(named ?? fallbackName, features.flatMap(featurePoints));
+};
+
+export const detectTripFormat = (fileName: string, text: string): TripFormat | null => {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "gpx") return "gpx";
+  if (extension === "geojson" || extension === "json") return "geojson";
+  const start = text.trimStart()[0];
+  return start === "<" ? "gpx" : start === "{" ? "geojson" : null;
+};
+
+export const parseTripFile = (fileName: string, text: string) => {
+  const format = detectTripFormat(fileName, text);
+  if (!format) throw new TripImportError("Please choose a GPX or GeoJSON file.");
+  const name = fileName.replace(/\.[^.]+$/, "") || "Your trip";
+  const trip = format === "gpx" ? parseGpx(text, name) : parseGeoJson(text, name);
+  return { format, trip };
+};
+
+// ===== Analysis =====
+/** Slower than this counts as standing still, allowing for GPS drift. */
+export const STOP_SPEED_MPH = 3;
+export const MIN_STOP_MS = 2 * 60 * 1000;
+/** Shorter blips over the limit are usually GPS noise, not driving. */
+export const MIN_SPEEDING_MS = 10 * 1000;
+
+export interface TripSample extends TripPoint {
+  /** Milliseconds since the first point. */
+  elapsed: number;
+  /** Metres from the first point. */
+  distance: number;
+  /** Average speed over the stretch ending here; the first point copies the second. */
+  speedMph: number;
+}
+
+/** A stretch of the trip between two samples, in elapsed milliseconds. */
+export interface TripSpan {
+  from: number;
+  to: number;
+  startIndex: number;
+  endIndex: number;
+}
+
+export interface TripStop extends TripSpan {
+  position: LatLng;
+}
+
+export interface SpeedingStretch extends TripSpan {
+  peakMph: number;
+}
+
+export interface TripAnalysis {
+  trip: Trip;
+  samples: TripSample[];
+  duration: number;
+  distance: number;
+  maxSpeedMph: number;
+  stops: TripStop[];
+}
+
+const mph = (metres: number, ms: number) =>
+  ms > 0 ? metres / METRES_PER_MILE / (ms / 3600000) : 0;
+
+/** Runs of consecutive stretches (sample `i - 1` to `i`) that pass `test`. */
+const spansWhere = (samples: TripSample[], test: (sample: TripSample) => boolean) => {
+  const spans: TripSpan[] = [];
+  let start = -1;
+  for (let i = 1; i <= samples.length; i++) {
+    const inside = i < samples.length && test(samples[i]);
+    if (inside && start < 0) start = i - 1;
+    if (!inside && start >= 0) {
+      spans.push({
+        from: samples[start].elapsed,
+        to: samples[i - 1].elapsed,
+        startIndex: start,
+        endIndex: i - 1,
+      });
+      start = -1;
+    }
+  }
+  return spans;
+};
+
+export const analyseTrip = (trip: Trip): TripAnalysis => {
+  const [first] = trip.points;
+  const samples: TripSample[] = [];
+  trip.points.forEach((point, i) => {
+    const prev = samples[i - 1];
+    const step = prev ? haversine(prev, point) : 0;
+    samples.push({
+      ...point,
+      elapsed: point.time - first.time,
+      distance: (prev?.distance ?? 0) + step,
+      speedMph: prev ? mph(step, point.time - prev.time) : 0,
+    });
+  });
+  if (samples.length > 1) samples[0].speedMph = samples[1].speedMph;
+
+  const last = samples[samples.length - 1];
+  return {
+    trip,
+    samples,
+    duration: last.elapsed,
+    distance: last.distance,
+    maxSpeedMph: Math.max(...samples.map((s) => s.speedMph)),
+    stops: spansWhere(samples, (s) => s.speedMph < STOP_SPEED_MPH)
+      .filter((span) => span.to - span.from >= MIN_STOP_MS)
+      .map((span) => ({ ...span, position: samples[span.startIndex] })),
+  };
+};
+
+export const speedingStretches = (
+  analysis: TripAnalysis,
+  limitMph: number
+): SpeedingStretch[] =>
+  spansWhere(analysis.samples, (s) => s.speedMph > limitMph)
+    .filter((span) => span.to - span.from >= MIN_SPEEDING_MS)
+    .map((span) => ({
+      ...span,
+      peakMph: Math.max(
+        ...analysis.samples
+          .slice(span.startIndex + 1, span.endIndex + 1)
+          .map((s) => s.speedMph)
+      ),
+    }));
+
+export interface TripMoment {
+  /** The last sample at or before this moment. */
+  index: number;
+  time: number;
+  position: LatLng;
+  distance: number;
+  speedMph: number;
+  /** Compass heading, or null while standing still. */
+  heading: number | null;
+}
+
+/** Where the vehicle was `elapsed` milliseconds into the trip. */
+export const momentAt = ({ samples }: TripAnalysis, elapsed: number): TripMoment => {
+  let lo = 0;
+  let hi = samples.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (samples[mid].elapsed <= elapsed) lo = mid;
+    else hi = mid - 1;
+  }
+  const a = samples[lo];
+  const b = samples[Math.min(lo + 1, samples.length - 1)];
+  const span = b.elapsed - a.elapsed;
+  const t = span ? Math.min(1, Math.max(0, (elapsed - a.elapsed) / span)) : 0;
+  const moving = b.speedMph >= STOP_SPEED_MPH && b !== a;
+  return {
+    index: lo,
+    time: a.time + t * span,
+    position: interpolate(a, b, t),
+    distance: a.distance + (b.distance - a.distance) * t,
+    speedMph: b.speedMph,
+    heading: moving ? bearing(a, b) : null,
+  };
+};
@@ -0,0 +1,251 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { Calculator, Check, Link2 } from "lucide-react";
+import { Card } from "../components/ui";
+import { cx, isBrowser } from "../lib/utils";
+import { readQuery, updateQuery } from "../lib/url";
+import { useMoney } from "../money/useMoney";
+import {
+  CALCULATOR_PARAMS,
+  DEFAULT_CALCULATOR_CONFIG,
+  clampVehicles,
+  parseInstallOption,
+  parseVehicles,
+  quotePlan,
+  type BillingCycle,
+  type CalculatorConfig,
+  type InstallOption,
+  type PricedPlan,
+} from "./calculator";
+
+const DEFAULT_VEHICLES = 10;
+
+// ===== Fleet Cost Calculator =====
+export const FleetCalculator: React.FC<{
+  plans: PricedPlan[];
+  billingCycle: BillingCycle;
+  onBillingCycleChange: (cycle: BillingCycle) => void;
+  config?: CalculatorConfig;
+}> = ({
+  plans,
+  billingCycle,
+  onBillingCycleChange,
+  config = DEFAULT_CALCULATOR_CONFIG,
+}) => {
+  const [vehicles, setVehicles] = useState(DEFAULT_VEHICLES);
+  const [draft, setDraft] = useState(String(DEFAULT_VEHICLES));
+  const [install, setInstall] = useState<InstallOption>("self");
+  const [copied, setCopied] = useState(false);
+  const { format, vatNote } = useMoney();
+  // Totals keep their pence so the columns line up.
+  const money = (amount: number) => format(amount, { fractionDigits: 2 });
+
+  useEffect(() => {
+    const query = readQuery();
+    const fromUrl = parseVehicles(query.get(CALCULATOR_PARAMS.vehicles), config);
+    if (fromUrl) {
+      setVehicles(fromUrl);
+      setDraft(String(fromUrl));
+    }
+    const installFromUrl = parseInstallOption(
+      query.get(CALCULATOR_PARAMS.install)
+    );
+    if (installFromUrl) setInstall(installFromUrl);
+  }, [config]);
+
+  useEffect(() => {
+    updateQuery({
+      [CALCULATOR_PARAMS.vehicles]:
+        vehicles === DEFAULT_VEHICLES ? null : String(vehicles),
+      [CALCULATOR_PARAMS.install]: install === "self" ? null : install,
+    });
+  }, [vehicles, install]);
+
+  const quotes = useMemo(
+    () =>
+      plans.map((plan) => quotePlan(plan, vehicles, billingCycle, install, config)),
+    [plans, vehicles, billingCycle, install, config]
+  );
+  const tier = quotes[0]?.tier ?? null;
+
+  const commitDraft = (value: string) => {
+    setDraft(value);
+    const parsed = Number(value);
+    if (value.trim() && Number.isFinite(parsed))
+      setVehicles(clampVehicles(parsed, config));
+  };
+
+  const share = async () => {
+    if (!isBrowser) return;
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 2000);
+    } catch {
+      window.prompt("Copy this link to share your quote:", window.location.href);
+    }
+  };
+
+  return (
+    <Card className="max-w-6xl mx-auto mt-16 border border-line text-left">
+      <div className="flex flex-col lg:flex-row lg:items-end gap-6 mb-8">
+        <div className="flex items-center gap-3 lg:mr-auto">
+          <div className="rounded-control bg-accent/10 p-3">
+            <Calculator className="h-6 w-6 text-accent" />
+          </div>
+          <div>
+            <h3 className="text-xl font-bold text-fg">Fleet Cost Calculator</h3>
+            <p className="text-fg/60 text-sm">
+              See exactly what your fleet will cost on each plan.
+            </p>
+          </div>
+        </div>
+
+        <div>
+          <label
+            htmlFor="calc-vehicles"
+            className="block text-sm font-medium text-fg/80 mb-2"
+          >
+            Vehicles
+          </label>
+          <div className="flex items-center gap-3">
+            <input
+              type="range"
+              aria-label="Vehicles slider"
+              min={config.minVehicles}
+              max={Math.min(config.maxVehicles, 250)}
+              value={Math.min(vehicles, 250)}
+              onChange={(e) => commitDraft(e.target.value)}
+              className="w-40 accent-primary"
+            />
+            <input
+              id="calc-vehicles"
+              type="number"
+              inputMode="numeric"
+              min={config.minVehicles}
+              max={config.maxVehicles}
+              value={draft}
+              onChange={(e) => commitDraft(e.target.value)}
+              onBlur={() => setDraft(String(vehicles))}
+              className="w-24 rounded-control bg-canvas border border-line px-3 py-2 text-fg focus:outline-none focus:ring-2 focus:ring-accent"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label
+            htmlFor="calc-install"
+            className="block text-sm font-medium text-fg/80 mb-2"
+          >
+            Installation
+          </label>
+          <select
+            id="calc-install"
+            value={install}
+            onChange={(e) => setInstall(e.target.value as InstallOption)}
+            className="rounded-control bg-canvas border border-line px-3 py-2 text-fg focus:outline-none focus:ring-2 focus:ring-accent"
+          >
+            {(Object.keys(config.installation) as InstallOption[]).map((key) => (
+              <option key={key} value={key}>
+                {config.installation[key].label}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <button
+          type="button"
+          onClick={share}
+          className="inline-flex items-center gap-2 rounded-control px-4 py-2 text-sm border border-line-strong hover:bg-surface-muted transition-colors"
+        >
+          {copied ? (
+            <Check className="h-4 w-4 text-success" />
+          ) : (
+            <Link2 className="h-4 w-4" />
+          )}
+          {copied ? "Link copied" : "Share quote"}
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <caption className="sr-only">
+            Estimated costs for {vehicles} vehicles, billed {billingCycle},{" "}
+            {vatNote}
+          </caption>
+          <thead>
+            <tr className="text-fg/60 border-b border-line">
+              <th scope="col" className="text-left font-medium py-3 pr-4">Plan</th>
+              <th scope="col" className="text-right font-medium py-3 px-4">Per vehicle</th>
+              <th scope="col" className="text-right font-medium py-3 px-4">Monthly total</th>
+              <th scope="col" className="text-right font-medium py-3 px-4">Annual total</th>
+              <th scope="col" className="text-right font-medium py-3 px-4">One-off hardware</th>
+              <th scope="col" className="text-right font-medium py-3 pl-4">First year</th>
+            </tr>
+          </thead>
+          <tbody>
+            {quotes.map((quote) => (
+              <tr key={quote.plan} className="border-b border-line/60 last:border-0">
+                <th scope="row" className="text-left font-semibold text-fg py-4 pr-4">
+                  {quote.plan}
+                  {billingCycle === "annual" && quote.annualSavings > 0 && (
+                    <span className="block text-xs font-normal text-success">
+                      Saving {money(quote.annualSavings)}/yr
+                    </span>
+                  )}
+                </th>
+                <td className="text-right text-fg/80 py-4 px-4">
+                  {money(quote.perVehicle)}/mo
+                </td>
+                <td className="text-right text-fg/80 py-4 px-4">
+                  {money(quote.monthlyTotal)}
+                </td>
+                <td className="text-right text-fg/80 py-4 px-4">
+                  {money(quote.annualTotal)}
+                </td>
+                <td className="text-right text-fg/80 py-4 px-4">
+                  {money(quote.oneOff)}
+                </td>
+                <td className="text-right font-semibold text-fg py-4 pl-4">
+                  {money(quote.firstYearTotal)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="mt-6 flex flex-col md:flex-row md:items-center gap-4 text-sm">
+        <div className="flex flex-wrap gap-2 md:mr-auto">
+          {config.volumeTiers.map((t) => (
+            <span
+              key={t.minVehicles}
+              className={cx(
+                "rounded-full px-3 py-1 border",
+                tier === t
+                  ? "border-success bg-success/10 text-success"
+                  : "border-line text-fg/50"
+              )}
+            >
+              {t.label}: {Math.round(t.discount * 100)}% off
+            </span>
+          ))}
+        </div>
+        {billingCycle === "monthly" ? (
+          <button
+            type="button"
+            onClick={() => onBillingCycleChange("annual")}
+            className="text-accent hover:text-accent-hover underline text-left"
+          >
+            Switch to annual billing to save up to{" "}
+            {money(Math.max(0, ...quotes.map((q) => q.annualSavings)))}/yr
+          </button>
+        ) : (
+          <span className="text-fg/60">
+            Prices shown with annual billing, {vatNote}. Hardware is a one-off
+            cost.
+          </span>
+        )}
+      </div>
+    </Card>
+  );
+};
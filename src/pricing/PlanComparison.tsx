@@ -0,0 +1,107 @@
+import React from "react";
+import { Check, Minus } from "lucide-react";
+import { cx } from "../lib/utils";
+import { useMoney } from "../money/useMoney";
+import {
+  FEATURES,
+  FEATURE_GROUPS,
+  PLANS,
+  type FeatureAvailability,
+  type Plan,
+} from "./catalog";
+
+const Availability: React.FC<{ value: FeatureAvailability }> = ({ value }) => {
+  if (value.status === "excluded") {
+    return (
+      <>
+        <Minus className="h-5 w-5 text-fg/30 mx-auto" aria-hidden="true" />
+        <span className="sr-only">Not included</span>
+      </>
+    );
+  }
+  if (value.status === "limited") {
+    return <span className="text-fg/70">{value.detail}</span>;
+  }
+  return value.detail ? (
+    <span className="font-medium text-fg">{value.detail}</span>
+  ) : (
+    <>
+      <Check className="h-5 w-5 text-success mx-auto" aria-hidden="true" />
+      <span className="sr-only">Included</span>
+    </>
+  );
+};
+
+// ===== Plan Comparison =====
+export const PlanComparison: React.FC<{
+  plans?: Plan[];
+  billingCycle: "monthly" | "annual";
+}> = ({ plans = PLANS, billingCycle }) => {
+  const { format } = useMoney();
+
+  return (
+    <div className="max-w-6xl mx-auto mt-16">
+      <h3 className="text-2xl font-bold text-fg text-center mb-8">
+        Compare Plans
+      </h3>
+      <table className="w-full text-sm">
+        <caption className="sr-only">Feature comparison across plans</caption>
+        <thead className="sticky top-[72px] z-20">
+          <tr className="bg-canvas/95 backdrop-blur-md">
+            <th scope="col" className="text-left font-medium text-fg/60 py-4 pr-4">
+              Feature
+            </th>
+            {plans.map((plan) => (
+              <th
+                key={plan.id}
+                scope="col"
+                className={cx(
+                  "py-4 px-2 text-center font-semibold",
+                  plan.featured ? "text-accent" : "text-fg"
+                )}
+              >
+                {plan.name}
+                <span className="block text-xs font-normal text-fg/60">
+                  {format(
+                    billingCycle === "monthly" ? plan.monthlyPrice : plan.annualPrice
+                  )}
+                  /vehicle/mo
+                </span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        {FEATURE_GROUPS.map((group) => (
+          <tbody key={group}>
+            <tr>
+              <th
+                scope="colgroup"
+                colSpan={plans.length + 1}
+                className="text-left text-xs uppercase tracking-wider text-accent pt-8 pb-2"
+              >
+                {group}
+              </th>
+            </tr>
+            {FEATURES.filter((feature) => feature.group === group).map(
+              (feature) => (
+                <tr key={feature.id} className="border-b border-line-subtle">
+                  <th
+                    scope="row"
+                    className="text-left font-normal text-fg/80 py-3 pr-4"
+                  >
+                    {feature.label}
+                  </th>
+                  {plans.map((plan) => (
+                    <td key={plan.id} className="py-3 px-2 text-center">
+                      <Availability value={plan.features[feature.id]} />
+                    </td>
+                  ))}
+                </tr>
+              )
+            )}
+          </tbody>
+        ))}
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+// ===== Fleet Cost Calculator =====
+export type BillingCycle = "monthly" | "annual";
+
+export interface PricedPlan {
+  name: string;
+  monthlyPrice: number;
+  annualPrice: number;
+}
+
+export interface VolumeTier {
+  minVehicles: number;
+  /** Fraction off the per-vehicle subscription, e.g. 0.1 for 10%. */
+  discount: number;
+  label: string;
+}
+
+export type InstallOption = "self" | "professional";
+
+export interface CalculatorConfig {
+  volumeTiers: VolumeTier[];
+  /** One-off tracker hardware cost per vehicle. */
+  hardwarePerVehicle: number;
+  installation: Record<InstallOption, { label: string; perVehicle: number }>;
+  minVehicles: number;
+  maxVehicles: number;
+}
+
+export const DEFAULT_CALCULATOR_CONFIG: CalculatorConfig = {
+  volumeTiers: [
+    { minVehicles: 25, discount: 0.05, label: "25+ vehicles" },
+    { minVehicles: 50, discount: 0.1, label: "50+ vehicles" },
+    { minVehicles: 100, discount: 0.15, label: "100+ vehicles" },
+  ],
+  hardwarePerVehicle: 49,
+  installation: {
+    self: { label: "Self-install (plug-in OBD)", perVehicle: 0 },
+    professional: { label: "Professional installation", perVehicle: 35 },
+  },
+  minVehicles: 1,
+  maxVehicles: 1000,
+};
+
+export interface PlanQuote {
+  plan: string;
+  tier: VolumeTier | null;
+  perVehicle: number;
+  monthlyTotal: number;
+  annualTotal: number;
+  /** What the annual cycle saves over twelve monthly payments. */
+  annualSavings: number;
+  oneOff: number;
+  firstYearTotal: number;
+}
+
+export const clampVehicles = (value: number, config: CalculatorConfig) =>
+  Number.isFinite(value)
+    ? Math.min(config.maxVehicles, Math.max(config.minVehicles, Math.round(value)))
+    : config.minVehicles;
+
+export const volumeTierFor = (vehicles: number, tiers: VolumeTier[]) =>
+  [...tiers]
+    .sort((a, b) => b.minVehicles - a.minVehicles)
+    .find((tier) => vehicles >= tier.minVehicles) ?? null;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export const quotePlan = (
+  plan: PricedPlan,
+  vehicles: number,
+  cycle: BillingCycle,
+  install: InstallOption,
+  config: CalculatorConfig = DEFAULT_CALCULATOR_CONFIG
+): PlanQuote => {
+  const tier = volumeTierFor(vehicles, config.volumeTiers);
+  const multiplier = 1 - (tier?.discount ?? 0);
+  const listPrice = cycle === "monthly" ? plan.monthlyPrice : plan.annualPrice;
+  const perVehicle = round2(listPrice * multiplier);
+  const monthlyTotal = round2(perVehicle * vehicles);
+  const annualTotal = round2(monthlyTotal * 12);
+  const annualSavings = round2(
+    (plan.monthlyPrice - plan.annualPrice) * multiplier * vehicles * 12
+  );
+  const oneOff = round2(
+    (config.hardwarePerVehicle + config.installation[install].perVehicle) *
+      vehicles
+  );
+
+  return {
+    plan: plan.name,
+    tier,
+    perVehicle,
+    monthlyTotal,
+    annualTotal,
+    annualSavings,
+    oneOff,
+    firstYearTotal: round2(annualTotal + oneOff),
+  };
+};
+
+// ===== Shareable Configuration =====
+export const CALCULATOR_PARAMS = {
+  vehicles: "vehicles",
+  billing: "billing",
+  install: "install",
+} as const;
+
+export const parseBillingCycle = (value: string | null): BillingCycle | null =>
+  value === "monthly" || value === "annual" ? value : null;
+
+export const parseInstallOption = (value: string | null): InstallOption | null =>
+  value === "self" || value === "professional" ? value : null;
+
+export const parseVehicles = (
+  value: string | null,
+  config: CalculatorConfig = DEFAULT_CALCULATOR_CONFIG
+): number | null => {
+  if (!value) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? clampVehicles(parsed, config) : null;
+};
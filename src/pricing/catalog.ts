@@ -0,0 +1,184 @@
+// ===== Pricing Catalog =====
+// The single source of truth for plans: pricing cards, the comparison table,
+// the cost calculator and JSON-LD offers all read from here.
+
+export type PlanId = "essential" | "professional" | "enterprise";
+
+export type FeatureAvailability =
+  | { status: "included"; detail?: string }
+  | { status: "limited"; detail: string }
+  | { status: "excluded" };
+
+const included = (detail?: string): FeatureAvailability => ({
+  status: "included",
+  detail,
+});
+const limited = (detail: string): FeatureAvailability => ({
+  status: "limited",
+  detail,
+});
+const excluded: FeatureAvailability = { status: "excluded" };
+
+export type FeatureGroup = "Tracking" | "Insights" | "Alerts & Integrations" | "Support";
+
+export const FEATURES = [
+  { id: "live-tracking", label: "Live GPS Tracking", group: "Tracking" },
+  { id: "mobile-app", label: "Mobile App Access", group: "Tracking" },
+  { id: "history", label: "History", group: "Tracking" },
+  { id: "uk-hosting", label: "UK Data Hosting", group: "Tracking" },
+  { id: "reports", label: "Reports", group: "Insights" },
+  { id: "advanced-analytics", label: "Advanced Analytics", group: "Insights" },
+  { id: "custom-reports", label: "Custom Reports", group: "Insights" },
+  { id: "sms-alerts", label: "SMS Alerts", group: "Alerts & Integrations" },
+  { id: "api-access", label: "API Access", group: "Alerts & Integrations" },
+  {
+    id: "custom-integrations",
+    label: "Custom Integrations",
+    group: "Alerts & Integrations",
+  },
+  { id: "white-label", label: "White-label Options", group: "Alerts & Integrations" },
+  { id: "support", label: "Support", group: "Support" },
+  { id: "account-manager", label: "Dedicated Account Manager", group: "Support" },
+  { id: "sla", label: "SLA Guarantee", group: "Support" },
+] as const satisfies ReadonlyArray<{
+  id: string;
+  label: string;
+  group: FeatureGroup;
+}>;
+
+export type FeatureId = (typeof FEATURES)[number]["id"];
+export type Feature = (typeof FEATURES)[number];
+
+export const FEATURE_GROUPS: FeatureGroup[] = [
+  "Tracking",
+  "Insights",
+  "Alerts & Integrations",
+  "Support",
+];
+
+export interface Plan {
+  id: PlanId;
+  name: string;
+  description: string;
+  /** Per vehicle per month, GBP, billed monthly. */
+  monthlyPrice: number;
+  /** Per vehicle per month, GBP, billed annually. */
+  annualPrice: number;
+  featured: boolean;
+  /** Card copy starts with "All <plan> features" when set. */
+  extends?: PlanId;
+  /** Features called out on the pricing card, in display order. */
+  highlights: FeatureId[];
+  features: Record<FeatureId, FeatureAvailability>;
+}
+
+export const PLANS: Plan[] = [
+  {
+    id: "essential",
+    name: "Essential",
+    description: "Perfect for small fleets",
+    monthlyPrice: 12,
+    annualPrice: 10,
+    featured: false,
+    highlights: ["live-tracking", "reports", "support", "history", "mobile-app"],
+    features: {
+      "live-tracking": included(),
+      "mobile-app": included(),
+      history: limited("30-day"),
+      "uk-hosting": included(),
+      reports: limited("Basic"),
+      "advanced-analytics": excluded,
+      "custom-reports": excluded,
+      "sms-alerts": excluded,
+      "api-access": excluded,
+      "custom-integrations": excluded,
+      "white-label": excluded,
+      support: limited("Email"),
+      "account-manager": excluded,
+      sla: excluded,
+    },
+  },
+  {
+    id: "professional",
+    name: "Professional",
+    description: "For growing businesses",
+    monthlyPrice: 18,
+    annualPrice: 15,
+    featured: true,
+    extends: "essential",
+    highlights: [
+      "advanced-analytics",
+      "support",
+      "history",
+      "api-access",
+      "custom-reports",
+      "sms-alerts",
+    ],
+    features: {
+      "live-tracking": included(),
+      "mobile-app": included(),
+      history: limited("90-day"),
+      "uk-hosting": included(),
+      reports: included("Basic + Advanced"),
+      "advanced-analytics": included(),
+      "custom-reports": included(),
+      "sms-alerts": included(),
+      "api-access": included(),
+      "custom-integrations": excluded,
+      "white-label": excluded,
+      support: limited("Priority"),
+      "account-manager": excluded,
+      sla: excluded,
+    },
+  },
+  {
+    id: "enterprise",
+    name: "Enterprise",
+    description: "For large operations",
+    monthlyPrice: 25,
+    annualPrice: 20,
+    featured: false,
+    extends: "professional",
+    highlights: [
+      "history",
+      "support",
+      "account-manager",
+      "custom-integrations",
+      "sla",
+      "white-label",
+    ],
+    features: {
+      "live-tracking": included(),
+      "mobile-app": included(),
+      history: included("Unlimited"),
+      "uk-hosting": included(),
+      reports: included("Basic + Advanced"),
+      "advanced-analytics": included(),
+      "custom-reports": included(),
+      "sms-alerts": included(),
+      "api-access": included(),
+      "custom-integrations": included(),
+      "white-label": included(),
+      support: included("24/7 Phone"),
+      "account-manager": included(),
+      sla: included(),
+    },
+  },
+];
+
+export const getPlan = (id: PlanId) => PLANS.find((plan) => plan.id === id)!;
+
+export const isPlanId = (value: unknown): value is PlanId =>
+  PLANS.some((plan) => plan.id === value);
+
+export const getFeature = (id: FeatureId) =>
+  FEATURES.find((feature) => feature.id === id)!;
+
+/** Card copy for a feature, e.g. "90-day History" or "24/7 Phone Support". */
+export const describeFeature = (plan: Plan, id: FeatureId) => {
+  const availability = plan.features[id];
+  const { label } = getFeature(id);
+  return availability.status !== "excluded" && availability.detail
+    ? `${availability.detail} ${label}`
+    : label;
+};
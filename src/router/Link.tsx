@@ -0,0 +1,36 @@
+import React from "react";
+import { isInternalHref } from "./location";
+import { useRouter } from "./useRouter";
+
+// ===== Link =====
+/** An `<a>` that routes internal paths client-side and leaves everything else to the browser. */
+export const Link: React.FC<
+  React.AnchorHTMLAttributes<HTMLAnchorElement> & { to: string }
+> = ({ to, onClick, target, children, ...props }) => {
+  const { location, navigate } = useRouter();
+  const href = to.startsWith("#") ? `${location.path}${location.search}${to}` : to;
+
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(e);
+    if (
+      e.defaultPrevented ||
+      e.button !== 0 ||
+      e.metaKey ||
+      e.ctrlKey ||
+      e.shiftKey ||
+      e.altKey ||
+      (target && target !== "_self") ||
+      !isInternalHref(href)
+    ) {
+      return;
+    }
+    e.preventDefault();
+    navigate(href);
+  };
+
+  return (
+    <a href={href} target={target} onClick={handleClick} {...props}>
+      {children}
+    </a>
+  );
+};
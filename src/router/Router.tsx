@@ -0,0 +1,72 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { RouterContext, type RouterContextValue } from "./context";
+import {
+  currentLocation,
+  parseLocation,
+  scrollToHash,
+  toHref,
+  type RouteLocation,
+} from "./location";
+
+// ===== Router =====
+// A deliberately small history router: the site has a handful of static
+// paths, and keeping it dependency-free makes build-time prerendering trivial.
+export const Router: React.FC<{
+  /** Used when rendering outside the browser, e.g. during prerendering. */
+  initialPath?: string;
+  children: React.ReactNode;
+}> = ({ initialPath, children }) => {
+  const [location, setLocation] = useState<RouteLocation>(() =>
+    initialPath ? parseLocation(initialPath) : currentLocation()
+  );
+  const locationRef = useRef(location);
+  const pendingScroll = useRef<"hash" | "top" | null>(
+    location.hash ? "hash" : null
+  );
+
+  useEffect(() => {
+    const onPopState = () => {
+      pendingScroll.current = "hash";
+      setLocation(currentLocation());
+    };
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, []);
+
+  // Scroll once the new route has rendered, so anchors on another page exist.
+  useEffect(() => {
+    locationRef.current = location;
+    const pending = pendingScroll.current;
+    pendingScroll.current = null;
+    if (!pending) return;
+    const frame = window.requestAnimationFrame(() => {
+      if (!scrollToHash(location.hash) && pending === "top") {
+        window.scrollTo({ top: 0 });
+      }
+    });
+    return () => window.cancelAnimationFrame(frame);
+  }, [location]);
+
+  const navigate = useCallback(
+    (to: string, { replace = false }: { replace?: boolean } = {}) => {
+      const next = parseLocation(to);
+      const href = toHref(next);
+      if (replace) window.history.replaceState(null, "", href);
+      else window.history.pushState(null, "", href);
+
+      const prev = locationRef.current;
+      const samePage = prev.path === next.path && prev.search === next.search;
+      if (samePage && next.hash) scrollToHash(next.hash);
+      else pendingScroll.current = samePage ? null : "top";
+      setLocation(next);
+    },
+    []
+  );
+
+  const value = useMemo<RouterContextValue>(
+    () => ({ location, navigate }),
+    [location, navigate]
+  );
+
+  return <RouterContext.Provider value={value}>{children}</RouterContext.Provider>;
+};
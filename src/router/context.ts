@@ -0,0 +1,9 @@
+import { createContext } from "react";
+import type { RouteLocation } from "./location";
+
+export interface RouterContextValue {
+  location: RouteLocation;
+  navigate: (to: string, options?: { replace?: boolean }) => void;
+}
+
+export const RouterContext = createContext<RouterContextValue | null>(null);
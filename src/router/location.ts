@@ -0,0 +1,43 @@
+import { isBrowser } from "../lib/utils";
+
+// ===== Locations =====
+export interface RouteLocation {
+  path: string;
+  search: string;
+  hash: string;
+}
+
+/** Height of the fixed `Nav`, so in-page anchors don't land underneath it. */
+export const NAV_OFFSET = 80;
+
+export const parseLocation = (href: string): RouteLocation => {
+  const url = new URL(href, "https://www.franstrack.co.uk");
+  return {
+    path: url.pathname.replace(/\/+$/, "") || "/",
+    search: url.search,
+    hash: url.hash,
+  };
+};
+
+export const currentLocation = (): RouteLocation =>
+  isBrowser ? parseLocation(window.location.href) : parseLocation("/");
+
+export const toHref = ({ path, search, hash }: RouteLocation) =>
+  `${path}${search}${hash}`;
+
+/** True for links the router should handle rather than the browser. */
+export const isInternalHref = (href: string) =>
+  href.startsWith("/") && !href.startsWith("//");
+
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+export const scrollToHash = (hash: string, behavior?: ScrollBehavior) => {
+  if (!isBrowser) return false;
+  behavior ??= window.matchMedia(REDUCED_MOTION_QUERY).matches ? "auto" : "smooth";
+  const id = decodeURIComponent(hash.replace(/^#/, ""));
+  const target = id ? document.getElementById(id) : null;
+  if (!target) return false;
+  const top = target.getBoundingClientRect().top + window.scrollY - NAV_OFFSET;
+  window.scrollTo({ top, behavior });
+  return true;
+};
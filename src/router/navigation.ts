@@ -0,0 +1,63 @@
+import { ROUTES } from "./routes";
+import {
+  solutionPath,
+  solutionsOfKind,
+  type SolutionKind,
+} from "../solutions/registry";
+
+// ===== Navigation =====
+export type NavLink = { label: string; href: string };
+export type NavGroup = { title: string; links: NavLink[] };
+/** A top-level item; with `groups` it opens a menu instead of navigating. */
+export type NavItem = NavLink & { groups?: NavGroup[] };
+
+const solutionLinks = (kind: SolutionKind): NavLink[] =>
+  solutionsOfKind(kind).map((solution) => ({
+    label: solution.name,
+    href: solutionPath(solution.slug),
+  }));
+
+export const NAV_ITEMS: NavItem[] = [
+  {
+    label: "Solutions",
+    href: "/#features",
+    groups: [
+      { title: "Capabilities", links: solutionLinks("capability") },
+      { title: "Industries", links: solutionLinks("industry") },
+    ],
+  },
+  { label: "Pricing", href: "/#pricing" },
+  { label: "Features", href: "/#features" },
+  { label: "Customers", href: "/#customers" },
+  { label: "Contact", href: "/#contact" },
+];
+
+export const LOGIN_LINK: NavLink = { label: "Login", href: ROUTES.login.path };
+export const NAV_CTA: NavLink = { label: "Get Started", href: "/#demo" };
+
+export const FOOTER_COLUMNS: NavGroup[] = [
+  { title: "Solutions", links: solutionLinks("capability") },
+  { title: "Industries", links: solutionLinks("industry") },
+  {
+    title: "Company",
+    links: [
+      { label: "About Us", href: "/#home" },
+      { label: "Customers", href: "/#customers" },
+      { label: "Blog", href: "/blog" },
+      { label: "Help Centre", href: ROUTES.help.path },
+      { label: "Careers", href: "mailto:careers@franstrack.co.uk" },
+      { label: "System Status", href: "/status" },
+      { label: "Contact", href: "/#contact" },
+    ],
+  },
+  {
+    title: "Legal",
+    links: [
+      { label: "Privacy Policy", href: ROUTES.privacy.path },
+      { label: "Terms of Service", href: ROUTES.terms.path },
+      { label: "GDPR", href: ROUTES.gdpr.path },
+      { label: "Security", href: ROUTES.security.path },
+      { label: "Compliance", href: `${ROUTES.security.path}#compliance` },
+    ],
+  },
+];
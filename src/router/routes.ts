@@ -0,0 +1,129 @@
+// ===== Route Table =====
+export interface RouteMeta {
+  path: string;
+  /** Short name for breadcrumbs. */
+  label: string;
+  title: string;
+  description: string;
+  /** Excluded from the sitemap and marked `noindex` when false. */
+  indexable: boolean;
+}
+
+export const ROUTES = {
+  home: {
+    path: "/",
+    label: "Home",
+    title: "Franstrack — GPS Fleet Tracking for UK Businesses",
+    description:
+      "Real-time GPS tracking, advanced analytics and fleet management for UK businesses. UK data hosting, GDPR compliant, 14-day free trial.",
+    indexable: true,
+  },
+  privacy: {
+    path: "/privacy",
+    label: "Privacy Policy",
+    title: "Privacy Policy — Franstrack",
+    description:
+      "How Franstrack collects, uses and protects personal data on our website and fleet tracking platform.",
+    indexable: true,
+  },
+  terms: {
+    path: "/terms",
+    label: "Terms of Service",
+    title: "Terms of Service — Franstrack",
+    description: "The terms that apply when you use the Franstrack platform.",
+    indexable: true,
+  },
+  cookies: {
+    path: "/cookies",
+    label: "Cookie Policy",
+    title: "Cookie Policy — Franstrack",
+    description:
+      "Which cookies the Franstrack website uses and how to change your choices.",
+    indexable: true,
+  },
+  gdpr: {
+    path: "/gdpr",
+    label: "GDPR",
+    title: "GDPR — Franstrack",
+    description:
+      "How Franstrack helps UK fleets meet their GDPR obligations: UK hosting, processor terms and driver privacy.",
+    indexable: true,
+  },
+  security: {
+    path: "/security",
+    label: "Security & Compliance",
+    title: "Security & Compliance — Franstrack",
+    description:
+      "Encryption, access control and compliance measures protecting your Franstrack fleet data.",
+    indexable: true,
+  },
+  blog: {
+    path: "/blog",
+    label: "Blog",
+    title: "Fleet Insights Blog — Franstrack",
+    description:
+      "Fleet compliance guides, tachograph rules and practical advice for UK fleet managers from the Franstrack team.",
+    indexable: true,
+  },
+  trial: {
+    path: "/trial",
+    label: "Free Trial",
+    title: "Start Your 14-Day Free Trial — Franstrack",
+    description:
+      "Set up a 14-day Franstrack free trial in a few minutes: pick a plan, tell us about your fleet and choose your trackers. No card required.",
+    indexable: true,
+  },
+  help: {
+    path: "/help",
+    label: "Help Centre",
+    title: "Help Centre & FAQ — Franstrack",
+    description:
+      "Answers to common questions about Franstrack: tracker installation, data retention by plan, GDPR, contracts and billing.",
+    indexable: true,
+  },
+  status: {
+    path: "/status",
+    label: "System Status",
+    title: "System Status — Franstrack",
+    description:
+      "Live status of Franstrack tracking ingest, web app, mobile API and SMS alerts, with 90-day uptime, incident history and scheduled maintenance.",
+    indexable: true,
+  },
+  playback: {
+    path: "/tour/route-playback",
+    label: "Route Playback Demo",
+    title: "Route Playback Demo — Franstrack",
+    description:
+      "Replay a delivery round or motorway trip, or your own GPX or GeoJSON track: timeline scrubbing, speeding against a limit you choose, and automatic stop detection.",
+    indexable: true,
+  },
+  geofencing: {
+    path: "/tour/geofencing",
+    label: "Geofencing Sandbox",
+    title: "Geofencing Sandbox — Franstrack",
+    description:
+      "Draw circular or polygon geofences on a demo map and watch simulated vehicles trigger arrival, departure, dwell, SOS and tamper alerts.",
+    indexable: true,
+  },
+  login: {
+    path: "/login",
+    label: "Customer Login",
+    title: "Customer Login — Franstrack",
+    description: "Sign in to the Franstrack customer portal.",
+    indexable: false,
+  },
+} satisfies Record<string, RouteMeta>;
+
+export type RouteId = keyof typeof ROUTES;
+
+export const NOT_FOUND_ROUTE: RouteMeta = {
+  path: "/404",
+  label: "Page Not Found",
+  title: "Page Not Found — Franstrack",
+  description: "The page you were looking for could not be found.",
+  indexable: false,
+};
+
+export const matchRoute = (path: string): RouteId | null =>
+  (Object.keys(ROUTES) as RouteId[]).find((id) => ROUTES[id].path === path) ??
+  null;
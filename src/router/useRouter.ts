@@ -0,0 +1,8 @@
+import { useContext } from "react";
+import { RouterContext } from "./context";
+
+export const useRouter = () => {
+  const ctx = useContext(RouterContext);
+  if (!ctx) throw new Error("useRouter must be used inside <Router>");
+  return ctx;
+};
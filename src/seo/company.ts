@@ -0,0 +1,75 @@
+import { SITE_NAME, SITE_URL } from "./site";
+
+// ===== Company Info =====
+// One record for everything we publish about the business: the contact
+// section, the footer and the LocalBusiness structured data read from here.
+
+export interface OpeningHours {
+  days: Array<
+    "Monday" | "Tuesday" | "Wednesday" | "Thursday" | "Friday" | "Saturday" | "Sunday"
+  >;
+  /** 24-hour "HH:MM", UK local time. */
+  opens: string;
+  closes: string;
+}
+
+export interface CompanyInfo {
+  name: string;
+  legalName: string;
+  description: string;
+  url: string;
+  logo: string;
+  email: string;
+  /** E.164. Left out of the page entirely until a real number is configured. */
+  telephone?: string;
+  address: {
+    addressLocality: string;
+    addressRegion: string;
+    addressCountry: string;
+  };
+  areaServed: string;
+  openingHours: OpeningHours[];
+  priceRange: string;
+  sameAs: string[];
+}
+
+export const COMPANY: CompanyInfo = {
+  name: SITE_NAME,
+  legalName: "Franstrack Ltd",
+  description:
+    "Professional GPS tracking and fleet management solutions with real-time vehicle monitoring and analytics.",
+  url: SITE_URL,
+  logo: `${SITE_URL}/logo.png`,
+  email: "sales@franstrack.co.uk",
+  telephone: import.meta.env.VITE_COMPANY_TELEPHONE || undefined,
+  address: {
+    addressLocality: "Liverpool",
+    addressRegion: "Merseyside",
+    addressCountry: "GB",
+  },
+  areaServed: "GB",
+  openingHours: [
+    {
+      days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
+      opens: "08:00",
+      closes: "18:00",
+    },
+  ],
+  priceRange: "££",
+  sameAs: [],
+};
+
+/** "Mon–Fri, 8am–6pm" for the first opening-hours block. */
+export const describeOpeningHours = (hours: OpeningHours) => {
+  const day = (name: string) => name.slice(0, 3);
+  const clock = (value: string) => {
+    const [h, m] = value.split(":").map(Number);
+    const suffix = h < 12 ? "am" : "pm";
+    const hour = h % 12 || 12;
+    return m ? `${hour}:${String(m).padStart(2, "0")}${suffix}` : `${hour}${suffix}`;
+  };
+  const first = hours.days[0];
+  const last = hours.days[hours.days.length - 1];
+  const days = first === last ? day(first) : `${day(first)}–${day(last)}`;
+  return `${days}, ${clock(hours.opens)}–${clock(hours.closes)}`;
+};
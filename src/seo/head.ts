@@ -0,0 +1,119 @@
+import { isBrowser } from "../lib/utils";
+import { SITE_LOCALE, SITE_NAME, TWITTER_HANDLE, absoluteUrl } from "./site";
+
+// ===== Document Head =====
+export interface PageHead {
+  title: string;
+  description: string;
+  /** Site-relative path; turned into the canonical URL. */
+  path: string;
+  indexable: boolean;
+  type?: "website" | "article";
+  /** Absolute URL, used for link previews. */
+  image?: { url: string; alt: string; width?: number; height?: number };
+  /** ISO dates for articles. */
+  publishedTime?: string;
+  modifiedTime?: string;
+}
+
+type HeadTag =
+  | { tag: "meta"; key: "name" | "property"; id: string; content: string }
+  | { tag: "link"; rel: string; href: string };
+
+const headTags = (head: PageHead): HeadTag[] => {
+  const url = absoluteUrl(head.path);
+  const meta = (key: "name" | "property", id: string, content: string) =>
+    ({ tag: "meta", key, id, content }) as const;
+  return [
+    meta("name", "description", head.description),
+    meta("name", "robots", head.indexable ? "index,follow" : "noindex,follow"),
+    { tag: "link", rel: "canonical", href: url },
+    meta("property", "og:type", head.type ?? "website"),
+    meta("property", "og:site_name", SITE_NAME),
+    meta("property", "og:locale", SITE_LOCALE),
+    meta("property", "og:title", head.title),
+    meta("property", "og:description", head.description),
+    meta("property", "og:url", url),
+    meta("name", "twitter:card", head.image ? "summary_large_image" : "summary"),
+    meta("name", "twitter:site", TWITTER_HANDLE),
+    meta("name", "twitter:title", head.title),
+    meta("name", "twitter:description", head.description),
+    ...(head.image
+      ? [
+          meta("property", "og:image", head.image.url),
+          meta("property", "og:image:alt", head.image.alt),
+          ...(head.image.width && head.image.height
+            ? [
+                meta("property", "og:image:width", String(head.image.width)),
+                meta("property", "og:image:height", String(head.image.height)),
+              ]
+            : []),
+          meta("name", "twitter:image", head.image.url),
+        ]
+      : []),
+    ...(head.publishedTime
+      ? [meta("property", "article:published_time", head.publishedTime)]
+      : []),
+    ...(head.modifiedTime
+      ? [meta("property", "article:modified_time", head.modifiedTime)]
+      : []),
+  ];
+};
+
+/** Tags only some pages carry; removed when navigating to a page without them. */
+const OPTIONAL_META = [
+  'meta[property="og:image"]',
+  'meta[property="og:image:alt"]',
+  'meta[property="og:image:width"]',
+  'meta[property="og:image:height"]',
+  'meta[name="twitter:image"]',
+  'meta[property="article:published_time"]',
+  'meta[property="article:modified_time"]',
+];
+
+const escapeAttr = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+/** Serialises the head for prerendered HTML. */
+export const renderHead = (head: PageHead) =>
+  [
+    `<title>${escapeAttr(head.title)}</title>`,
+    ...headTags(head).map((tag) =>
+      tag.tag === "meta"
+        ? `<meta ${tag.key}="${tag.id}" content="${escapeAttr(tag.content)}" />`
+        : `<link rel="${tag.rel}" href="${escapeAttr(tag.href)}" />`
+    ),
+  ].join("\n    ");
+
+/** Keeps the live document's head in step with client-side navigation. */
+export const applyHead = (head: PageHead) => {
+  if (!isBrowser) return;
+  document.title = head.title;
+  for (const selector of OPTIONAL_META)
+    document.head.querySelector(selector)?.remove();
+  for (const tag of headTags(head)) {
+    if (tag.tag === "link") {
+      let el = document.head.querySelector<HTMLLinkElement>(`link[rel="${tag.rel}"]`);
+      if (!el) {
+        el = document.createElement("link");
+        el.rel = tag.rel;
+        document.head.appendChild(el);
+      }
+      el.href = tag.href;
+      continue;
+    }
+    let el = document.head.querySelector<HTMLMetaElement>(
+      `meta[${tag.key}="${tag.id}"]`
+    );
+    if (!el) {
+      el = document.createElement("meta");
+      el.setAttribute(tag.key, tag.id);
+      document.head.appendChild(el);
+    }
+    el.content = tag.content;
+  }
+};
@@ -0,0 +1,109 @@
+import { POSTS, findPostByPath, postPath } from "../blog/posts";
+import {
+  CASE_STUDIES,
+  caseStudyPath,
+  findCaseStudyByPath,
+} from "../customers/caseStudies";
+import { SOLUTIONS, findSolutionByPath, solutionPath } from "../solutions/registry";
+import { HELP_ARTICLES, findHelpArticleByPath, helpArticlePath } from "../help/content";
+import { NOT_FOUND_ROUTE, ROUTES, matchRoute } from "../router/routes";
+import type { PageHead } from "./head";
+import { SHARE_IMAGE_HEIGHT, SHARE_IMAGE_WIDTH, SITE_NAME, absoluteUrl } from "./site";
+
+// ===== Page Heads =====
+export const headForPath = (path: string): PageHead => {
+  const post = findPostByPath(path);
+  if (post) {
+    return {
+      title: `${post.title} — ${SITE_NAME} Blog`,
+      description: post.summary,
+      path: postPath(post.slug),
+      indexable: true,
+      type: "article",
+      image: {
+        url: absoluteUrl(post.shareImage),
+        alt: post.hero.alt,
+        width: SHARE_IMAGE_WIDTH,
+        height: SHARE_IMAGE_HEIGHT,
+      },
+      publishedTime: post.date,
+      modifiedTime: post.updated,
+    };
+  }
+
+  const study = findCaseStudyByPath(path);
+  if (study) {
+    return {
+      title: `${study.company} Case Study — ${SITE_NAME}`,
+      description: study.summary,
+      path: caseStudyPath(study.slug),
+      indexable: true,
+      type: "article",
+      publishedTime: study.published,
+    };
+  }
+
+  const solution = findSolutionByPath(path);
+  if (solution) {
+    const subject =
+      solution.kind === "industry"
+        ? `Vehicle Tracking for ${solution.name}`
+        : `${solution.name} for UK Fleets`;
+    return {
+      title: `${subject} — ${SITE_NAME}`,
+      description: solution.description,
+      path: solutionPath(solution.slug),
+      indexable: true,
+    };
+  }
+
+  const article = findHelpArticleByPath(path);
+  if (article) {
+    return {
+      title: `${article.title} — ${SITE_NAME} Help Centre`,
+      description: article.summary,
+      path: helpArticlePath(article.slug),
+      indexable: true,
+      type: "article",
+      modifiedTime: article.updated,
+    };
+  }
+
+  const id = matchRoute(path);
+  const meta = id ? ROUTES[id] : NOT_FOUND_ROUTE;
+  return {
+    title: meta.title,
+    description: meta.description,
+    path: meta.indexable ? meta.path : path,
+    indexable: meta.indexable,
+  };
+};
+
+/** Every path to prerender, and whether it belongs in the sitemap. */
+export const staticPages = () => [
+  ...Object.values(ROUTES).map((route) => ({
+    path: route.path,
+    indexable: route.indexable,
+    lastmod: undefined as string | undefined,
+  })),
+  ...POSTS.map((post) => ({
+    path: postPath(post.slug),
+    indexable: true,
+    lastmod: post.updated ?? post.date,
+  })),
+  ...CASE_STUDIES.map((study) => ({
+    path: caseStudyPath(study.slug),
+    indexable: true,
+    lastmod: study.published,
+  })),
+  ...SOLUTIONS.map((solution) => ({
+    path: solutionPath(solution.slug),
+    indexable: true,
+    lastmod: undefined as string | undefined,
+  })),
+  ...HELP_ARTICLES.map((article) => ({
+    path: helpArticlePath(article.slug),
+    indexable: true,
+    lastmod: article.updated,
+  })),
+];
@@ -0,0 +1,12 @@
+// ===== Site Configuration =====
+/** Canonical origin. `vercel.json` redirects the bare domain here. */
+export const SITE_URL = "https://www.franstrack.co.uk";
+export const SITE_NAME = "Franstrack";
+export const SITE_LOCALE = "en_GB";
+export const TWITTER_HANDLE = "@franstrack";
+/** Link-preview images are drawn at the size Open Graph recommends. */
+export const SHARE_IMAGE_WIDTH = 1200;
+export const SHARE_IMAGE_HEIGHT = 630;
+
+export const absoluteUrl = (path: string) =>
+  path === "/" ? `${SITE_URL}/` : `${SITE_URL}${path}`;
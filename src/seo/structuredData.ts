@@ -0,0 +1,258 @@
+import { findPostByPath, postPath, type BlogPostMeta } from "../blog/posts";
+import {
+  caseStudyPath,
+  findCaseStudyByPath,
+  type CaseStudy,
+} from "../customers/caseStudies";
+import { FAQ_ITEMS, FEATURED_FAQ_ITEMS, type FaqItem } from "../faq/faq";
+import {
+  HELP_PATH,
+  faqAnchor,
+  findHelpArticleByPath,
+  helpArticlePath,
+} from "../help/content";
+import { REGIONS, convert, type Region } from "../money/money";
+import { PLANS, getPlan, type Plan } from "../pricing/catalog";
+import { ROUTES, matchRoute } from "../router/routes";
+import { findSolutionByPath, solutionPath } from "../solutions/registry";
+import { COMPANY, type CompanyInfo } from "./company";
+import { SITE_NAME, SITE_URL, absoluteUrl } from "./site";
+
+// ===== Structured Data =====
+// Builds the schema.org graph for each page from the site's own content.
+// Anything added here needs rules in ./validate, which the build enforces.
+
+export type JsonLdNode = {
+  "@type": string;
+  "@id"?: string;
+  [property: string]: unknown;
+};
+
+export interface JsonLdDocument {
+  "@context": "https://schema.org";
+  "@graph": JsonLdNode[];
+}
+
+export const ORGANIZATION_ID = `${SITE_URL}/#organization`;
+export const WEBSITE_ID = `${SITE_URL}/#website`;
+
+const ref = (id: string) => ({ "@id": id });
+
+export const organizationNode = (company: CompanyInfo = COMPANY): JsonLdNode => ({
+  "@type": "LocalBusiness",
+  "@id": ORGANIZATION_ID,
+  name: company.name,
+  legalName: company.legalName,
+  description: company.description,
+  url: `${company.url}/`,
+  logo: company.logo,
+  image: company.logo,
+  email: company.email,
+  ...(company.telephone ? { telephone: company.telephone } : {}),
+  address: { "@type": "PostalAddress", ...company.address },
+  areaServed: company.areaServed,
+  priceRange: company.priceRange,
+  openingHoursSpecification: company.openingHours.map((hours) => ({
+    "@type": "OpeningHoursSpecification",
+    dayOfWeek: hours.days,
+    opens: hours.opens,
+    closes: hours.closes,
+  })),
+  ...(company.sameAs.length ? { sameAs: company.sameAs } : {}),
+});
+
+export const websiteNode = (): JsonLdNode => ({
+  "@type": "WebSite",
+  "@id": WEBSITE_ID,
+  name: SITE_NAME,
+  url: `${SITE_URL}/`,
+  inLanguage: "en-GB",
+  publisher: ref(ORGANIZATION_ID),
+});
+
+const perVehicle = {
+  "@type": "QuantitativeValue",
+  value: 1,
+  unitText: "vehicle",
+};
+
+/** One Offer per region's currency, each priced ex VAT for both billing cycles. */
+const planOfferNode = (plan: Plan, region: Region): JsonLdNode => {
+  const price = (amount: number) => convert(amount, region.currency);
+  return {
+    "@type": "Offer",
+    url: absoluteUrl(`/?plan=${plan.id}#pricing`),
+    price: price(plan.monthlyPrice),
+    priceCurrency: region.currency,
+    eligibleRegion: region.id,
+    availability: "https://schema.org/InStock",
+    seller: ref(ORGANIZATION_ID),
+    priceSpecification: [
+      {
+        "@type": "UnitPriceSpecification",
+        name: "Billed monthly",
+        price: price(plan.monthlyPrice),
+        priceCurrency: region.currency,
+        valueAddedTaxIncluded: false,
+        unitCode: "MON",
+        unitText: "per vehicle per month",
+        billingDuration: "P1M",
+        referenceQuantity: perVehicle,
+      },
+      {
+        "@type": "UnitPriceSpecification",
+        name: "Billed annually",
+        price: price(plan.annualPrice * 12),
+        priceCurrency: region.currency,
+        valueAddedTaxIncluded: false,
+        unitCode: "ANN",
+        unitText: "per vehicle per year",
+        billingDuration: "P1Y",
+        referenceQuantity: perVehicle,
+      },
+    ],
+  };
+};
+
+export const planProductNode = (plan: Plan): JsonLdNode => ({
+  "@type": "Product",
+  "@id": `${SITE_URL}/#plan-${plan.id}`,
+  name: `${SITE_NAME} ${plan.name}`,
+  description: `${plan.name} fleet tracking plan. ${plan.description}.`,
+  category: "Fleet tracking software",
+  brand: ref(ORGANIZATION_ID),
+  offers: Object.values(REGIONS).map((region) => planOfferNode(plan, region)),
+});
+
+/** The questions shown on the page at `path`, each linked to its answer. */
+export const faqPageNode = (items: FaqItem[], path: string): JsonLdNode => ({
+  "@type": "FAQPage",
+  "@id": `${absoluteUrl(path)}#faq`,
+  mainEntity: items.map((item) => ({
+    "@type": "Question",
+    name: item.question,
+    url: absoluteUrl(`${path}#${faqAnchor(item.id)}`),
+    acceptedAnswer: { "@type": "Answer", text: item.answer },
+  })),
+});
+
+export const breadcrumbNode = (
+  trail: Array<{ name: string; path: string }>
+): JsonLdNode => ({
+  "@type": "BreadcrumbList",
+  itemListElement: trail.map((crumb, index) => ({
+    "@type": "ListItem",
+    position: index + 1,
+    name: crumb.name,
+    item: absoluteUrl(crumb.path),
+  })),
+});
+
+export const blogPostingNode = (post: BlogPostMeta): JsonLdNode => {
+  const url = absoluteUrl(postPath(post.slug));
+  return {
+    "@type": "BlogPosting",
+    "@id": `${url}#article`,
+    headline: post.title,
+    description: post.summary,
+    url,
+    mainEntityOfPage: url,
+    image: absoluteUrl(post.shareImage),
+    datePublished: post.date,
+    dateModified: post.updated ?? post.date,
+    author: { "@type": "Person", name: post.author },
+    publisher: ref(ORGANIZATION_ID),
+    keywords: post.tags.join(", "),
+    inLanguage: "en-GB",
+  };
+};
+
+/** A customer's quote, reviewing the plan they run on. */
+export const caseStudyReviewNode = (study: CaseStudy): JsonLdNode => ({
+  "@type": "Review",
+  "@id": `${absoluteUrl(caseStudyPath(study.slug))}#review`,
+  name: study.headline,
+  url: absoluteUrl(caseStudyPath(study.slug)),
+  itemReviewed: ref(`${SITE_URL}/#plan-${study.plan}`),
+  reviewBody: study.quote.text,
+  reviewRating: {
+    "@type": "Rating",
+    ratingValue: study.quote.rating,
+    bestRating: 5,
+    worstRating: 1,
+  },
+  author: { "@type": "Person", name: study.quote.author, jobTitle: study.quote.role },
+  datePublished: study.published,
+  publisher: ref(ORGANIZATION_ID),
+});
+
+export const structuredDataFor = (path: string): JsonLdDocument => {
+  const graph = [organizationNode(), websiteNode()];
+  const post = findPostByPath(path);
+  const study = findCaseStudyByPath(path);
+  const solution = findSolutionByPath(path);
+  const article = findHelpArticleByPath(path);
+  const route = matchRoute(path);
+  if (study) {
+    graph.push(
+      planProductNode(getPlan(study.plan)),
+      caseStudyReviewNode(study),
+      breadcrumbNode([
+        { name: ROUTES.home.label, path: ROUTES.home.path },
+        { name: "Customers", path: "/#customers" },
+        { name: study.company, path: caseStudyPath(study.slug) },
+      ])
+    );
+  } else if (solution) {
+    graph.push(
+      planProductNode(getPlan(solution.plan.id)),
+      breadcrumbNode([
+        { name: ROUTES.home.label, path: ROUTES.home.path },
+        { name: "Solutions", path: "/#features" },
+        { name: solution.name, path: solutionPath(solution.slug) },
+      ])
+    );
+  } else if (post) {
+    graph.push(
+      blogPostingNode(post),
+      breadcrumbNode([
+        { name: ROUTES.home.label, path: ROUTES.home.path },
+        { name: ROUTES.blog.label, path: ROUTES.blog.path },
+        { name: post.title, path: postPath(post.slug) },
+      ])
+    );
+  } else if (article) {
+    graph.push(
+      breadcrumbNode([
+        { name: ROUTES.home.label, path: ROUTES.home.path },
+        { name: ROUTES.help.label, path: HELP_PATH },
+        { name: article.title, path: helpArticlePath(article.slug) },
+      ])
+    );
+  } else if (route === "home") {
+    graph.push(
+      ...PLANS.map(planProductNode),
+      faqPageNode(FEATURED_FAQ_ITEMS, ROUTES.home.path)
+    );
+  } else if (route === "help") {
+    graph.push(
+      faqPageNode(FAQ_ITEMS, HELP_PATH),
+      breadcrumbNode([
+        { name: ROUTES.home.label, path: ROUTES.home.path },
+        { name: ROUTES.help.label, path: HELP_PATH },
+      ])
+    );
+  } else if (route) {
+    graph.push(
+      breadcrumbNode([
+        { name: ROUTES.home.label, path: ROUTES.home.path },
+        { name: ROUTES[route].label, path: ROUTES[route].path },
+      ])
+    );
+  }
+  return { "@context": "https://schema.org", "@graph": graph };
+};
+
+/** JSON for a `<script type="application/ld+json">`; `<` can't close the tag. */
+export const serializeJsonLd = (doc: JsonLdDocument) =>
+  JSON.stringify(doc).replace(/</g, "\\u003c");
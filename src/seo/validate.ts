@@ -0,0 +1,148 @@
+// ===== Structured Data Validation =====
+// Checks a JSON-LD document against the properties search engines require
+// for each type we publish. The prerender step fails the build on any issue;
+// in development the same issues are logged to the console.
+
+export interface StructuredDataIssue {
+  /** Dotted location in the document, e.g. `@graph[2].offers.price`. */
+  at: string;
+  message: string;
+}
+
+const REQUIRED_PROPERTIES: Record<string, string[]> = {
+  LocalBusiness: ["name", "url", "logo", "address"],
+  Organization: ["name", "url", "logo"],
+  WebSite: ["name", "url"],
+  PostalAddress: ["addressLocality", "addressCountry"],
+  OpeningHoursSpecification: ["dayOfWeek", "opens", "closes"],
+  Product: ["name", "description", "offers"],
+  Offer: ["url", "price", "priceCurrency", "availability"],
+  UnitPriceSpecification: ["price", "priceCurrency"],
+  QuantitativeValue: ["value"],
+  FAQPage: ["mainEntity"],
+  Question: ["name", "acceptedAnswer"],
+  Answer: ["text"],
+  BlogPosting: [
+    "headline",
+    "url",
+    "image",
+    "datePublished",
+    "author",
+    "publisher",
+  ],
+  Person: ["name"],
+  Review: ["itemReviewed", "reviewRating", "author", "reviewBody"],
+  Rating: ["ratingValue", "bestRating"],
+  BreadcrumbList: ["itemListElement"],
+  ListItem: ["position", "name", "item"],
+};
+
+const URL_PROPERTIES = new Set([
+  "url",
+  "logo",
+  "image",
+  "item",
+  "availability",
+  "mainEntityOfPage",
+]);
+
+type Json = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Json =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isEmpty = (value: unknown) =>
+  value === undefined ||
+  value === null ||
+  (typeof value === "string" && !value.trim()) ||
+  (Array.isArray(value) && value.length === 0);
+
+const isAbsoluteUrl = (value: unknown) => {
+  if (typeof value !== "string") return false;
+  try {
+    return new URL(value).protocol === "https:";
+  } catch {
+    return false;
+  }
+};
+
+/** A bare `{ "@id": ... }` pointing at a node elsewhere in the graph. */
+const isReference = (value: Json) =>
+  Object.keys(value).length === 1 && typeof value["@id"] === "string";
+
+const checkValue = (key: string, value: unknown): string | null => {
+  if (URL_PROPERTIES.has(key) && !isAbsoluteUrl(value))
+    return `"${key}" must be an absolute https URL`;
+  if (key === "price" && !(typeof value === "number" && value >= 0))
+    return `"price" must be a non-negative number`;
+  if (key === "priceCurrency" && !/^[A-Z]{3}$/.test(String(value)))
+    return `"priceCurrency" must be an ISO 4217 code`;
+  if (key === "ratingValue" && !(typeof value === "number" && value >= 1 && value <= 5))
+    return `"ratingValue" must be a number from 1 to 5`;
+  if (key === "telephone" && !/^\+[1-9]\d{6,14}$/.test(String(value)))
+    return `"telephone" must be in E.164 format`;
+  if (
+    (key === "datePublished" || key === "dateModified") &&
+    !/^\d{4}-\d{2}-\d{2}/.test(String(value))
+  )
+    return `"${key}" must be an ISO 8601 date`;
+  if ((key === "opens" || key === "closes") && !/^\d{2}:\d{2}$/.test(String(value)))
+    return `"${key}" must be HH:MM`;
+  return null;
+};
+
+export const validateStructuredData = (doc: unknown): StructuredDataIssue[] => {
+  const issues: StructuredDataIssue[] = [];
+  const ids = new Set<string>();
+  const references: Array<{ at: string; id: string }> = [];
+  const report = (at: string, message: string) => issues.push({ at, message });
+
+  const visit = (value: unknown, at: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => visit(item, `${at}[${index}]`));
+      return;
+    }
+    if (!isObject(value)) return;
+    if (isReference(value)) {
+      references.push({ at, id: value["@id"] as string });
+      return;
+    }
+
+    if (typeof value["@id"] === "string") {
+      if (ids.has(value["@id"])) report(at, `duplicate @id ${value["@id"]}`);
+      ids.add(value["@id"]);
+    }
+
+    const type = value["@type"];
+    if (typeof type !== "string") {
+      report(at, "missing @type");
+    } else if (!REQUIRED_PROPERTIES[type]) {
+      report(at, `no validation rules for @type ${type}`);
+    } else {
+      for (const key of REQUIRED_PROPERTIES[type]) {
+        if (isEmpty(value[key])) report(at, `${type} is missing "${key}"`);
+      }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      if (key.startsWith("@")) continue;
+      const childAt = at ? `${at}.${key}` : key;
+      if (!isEmpty(child) && !isObject(child) && !Array.isArray(child)) {
+        const problem = checkValue(key, child);
+        if (problem) report(childAt, problem);
+      }
+      visit(child, childAt);
+    }
+  };
+
+  if (!isObject(doc)) return [{ at: "", message: "document is not an object" }];
+  if (doc["@context"] !== "https://schema.org")
+    report("@context", 'must be "https://schema.org"');
+  if (Array.isArray(doc["@graph"])) visit(doc["@graph"], "@graph");
+  else visit({ ...doc, "@context": undefined }, "");
+
+  for (const { at, id } of references) {
+    if (!ids.has(id)) report(at, `reference to unknown @id ${id}`);
+  }
+  return issues;
+};
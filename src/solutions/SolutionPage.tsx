@@ -0,0 +1,194 @@
+import React from "react";
+import { ArrowRight, Check } from "lucide-react";
+import { m } from "framer-motion";
+import { Button, Card, Container } from "../components/ui";
+import { FeatureCard } from "../components/FeatureCard";
+import { Link } from "../router/Link";
+import { useAnalytics } from "../analytics/useAnalytics";
+import { CaseStudyCard } from "../customers/CustomersSection";
+import { CASE_STUDIES } from "../customers/caseStudies";
+import { describeFeature, getPlan } from "../pricing/catalog";
+import { trialHref } from "../trial/trial";
+import { useMoney } from "../money/useMoney";
+import { solutionPath, solutionsOfKind, type Solution } from "./registry";
+
+// ===== Solution Landing Page =====
+export const SolutionPage: React.FC<{ solution: Solution }> = ({ solution }) => {
+  const plan = getPlan(solution.plan.id);
+  const { format, vatNote } = useMoney();
+  const { track } = useAnalytics();
+  const stories = solution.industry
+    ? CASE_STUDIES.filter((study) => study.industry === solution.industry)
+    : [];
+  const related = solutionsOfKind(solution.kind).filter(
+    (other) => other.slug !== solution.slug
+  );
+
+  return (
+    <>
+      <section className="relative overflow-hidden bg-gradient-to-br from-canvas via-accent/10 to-canvas pt-20">
+        <Container className="py-20 lg:py-28">
+          <m.div
+            initial={{ opacity: 0, y: 30 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.7 }}
+            className="max-w-3xl mx-auto text-center"
+          >
+            <div className="inline-flex items-center gap-2 rounded-full bg-accent/10 px-4 py-2 text-sm text-accent mb-6">
+              <solution.icon className="h-4 w-4" />
+              {solution.hero.eyebrow}
+            </div>
+            <h1 className="text-4xl lg:text-6xl font-bold text-fg mb-6 leading-tight">
+              {solution.hero.title}
+              <span className="bg-gradient-to-r from-highlight to-highlight-alt bg-clip-text text-transparent">
+                {" "}
+                {solution.hero.highlight}
+              </span>
+            </h1>
+            <p className="text-xl text-fg/70 mb-8">{solution.hero.intro}</p>
+            <div className="flex flex-col sm:flex-row gap-4 justify-center">
+              <Button
+                as="a"
+                href="/#demo"
+                trackingId={`solution-${solution.slug}-demo`}
+                className="text-lg px-8 py-4"
+              >
+                Schedule Demo
+                <ArrowRight className="ml-2 h-5 w-5" />
+              </Button>
+              <Button
+                variant="secondary"
+                as="a"
+                href={`/?plan=${plan.id}#pricing`}
+                trackingId={`solution-${solution.slug}-pricing`}
+                className="text-lg px-8 py-4"
+              >
+                See Pricing
+              </Button>
+            </div>
+          </m.div>
+        </Container>
+      </section>
+
+      <Container className="py-16 lg:py-24">
+        <div className="grid lg:grid-cols-3 gap-8">
+          {solution.benefits.map((benefit, index) => (
+            <FeatureCard key={benefit.title} feature={benefit} index={index} />
+          ))}
+        </div>
+      </Container>
+
+      <Container className="pb-16 lg:pb-24">
+        <Card className="max-w-4xl mx-auto border border-accent/50 lg:p-10">
+          <div className="grid md:grid-cols-2 gap-8 items-center">
+            <div>
+              <p className="text-accent font-semibold mb-2">Recommended plan</p>
+              <h2 className="text-3xl font-bold text-fg mb-2">{plan.name}</h2>
+              <p className="text-fg/60 mb-4">
+                From{" "}
+                <span className="text-2xl font-bold text-fg">
+                  {format(plan.annualPrice)}
+                </span>{" "}
+                per vehicle / month, billed annually, {vatNote}
+              </p>
+              <p className="text-fg/70">{solution.plan.reason}</p>
+            </div>
+            <div>
+              <ul className="space-y-3 mb-8">
+                {plan.highlights.map((id) => (
+                  <li key={id} className="flex items-center gap-3 text-fg/80">
+                    <Check className="h-5 w-5 text-success flex-shrink-0" />
+                    {describeFeature(plan, id)}
+                  </li>
+                ))}
+              </ul>
+              <Button
+                as="a"
+                href={`/?plan=${plan.id}#contact`}
+                trackingId={`solution-${solution.slug}-get-started`}
+                onClick={() =>
+                  track("plan_selected", {
+                    plan: plan.id,
+                    cycle: "annual",
+                    source: solutionPath(solution.slug),
+                  })
+                }
+                className="w-full"
+              >
+                Get Started with {plan.name}
+              </Button>
+            </div>
+          </div>
+        </Card>
+      </Container>
+
+      {stories.length > 0 && (
+        <Container className="pb-16 lg:pb-24">
+          <h2 className="text-3xl font-bold text-fg text-center mb-12">
+            {solution.name} customers
+          </h2>
+          <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {stories.map((study) => (
+              <CaseStudyCard key={study.slug} study={study} />
+            ))}
+          </div>
+        </Container>
+      )}
+
+      <Container className="pb-16 lg:pb-24">
+        <m.div
+          initial={{ opacity: 0, y: 30 }}
+          whileInView={{ opacity: 1, y: 0 }}
+          className="bg-gradient-to-r from-primary to-primary-alt rounded-panel p-8 lg:p-12 text-center"
+        >
+          <h2 className="text-3xl lg:text-4xl font-bold text-on-primary mb-6">
+            See {solution.name} in Action
+          </h2>
+          <p className="text-on-primary/80 text-xl mb-8 max-w-2xl mx-auto">
+            Book a 30-minute demo with a UK fleet specialist, or start your
+            14-day free trial today.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-4 justify-center">
+            <Button
+              variant="inverse"
+              as="a"
+              href="/#demo"
+              trackingId={`solution-${solution.slug}-cta-demo`}
+              className="text-lg px-8 py-4"
+            >
+              Schedule Demo
+            </Button>
+            <Button
+              variant="outline-inverse"
+              as="a"
+              href={trialHref(plan.id)}
+              trackingId={`solution-${solution.slug}-cta-trial`}
+              className="text-lg px-8 py-4"
+            >
+              Start Free Trial
+            </Button>
+          </div>
+        </m.div>
+
+        <nav aria-label="Related solutions" className="mt-16 text-center">
+          <p className="text-sm text-fg/50 mb-4">
+            {solution.kind === "industry" ? "Other industries" : "More solutions"}
+          </p>
+          <ul className="flex flex-wrap justify-center gap-3">
+            {related.map((other) => (
+              <li key={other.slug}>
+                <Link
+                  to={solutionPath(other.slug)}
+                  className="inline-flex items-center gap-2 rounded-full border border-line px-4 py-2 text-sm text-fg/70 hover:text-fg hover:border-line-strong transition-colors"
+                >
+                  <other.icon className="h-4 w-4 text-accent" aria-hidden="true" />
+                  {other.name}
+                </Link>
+              </li>
+            ))}
+          </ul>
+        </nav>
+      </Container>
+    </>
+  );
+};
@@ -0,0 +1,462 @@
+import {
+  Activity,
+  BarChart3,
+  Bell,
+  Briefcase,
+  CalendarClock,
+  Car,
+  ClipboardCheck,
+  FileText,
+  Fuel,
+  Gauge,
+  HardHat,
+  History,
+  KeyRound,
+  Lock,
+  Map as MapIcon,
+  MapPinned,
+  Package,
+  PiggyBank,
+  Route,
+  Shield,
+  Siren,
+  Smartphone,
+  Timer,
+  TrendingDown,
+  Truck,
+  Users,
+  Wrench,
+  type LucideIcon,
+} from "lucide-react";
+import type { FeatureCardContent } from "../components/FeatureCard";
+import { ROUTES } from "../router/routes";
+import type { Industry } from "../customers/caseStudies";
+import type { PlanId } from "../pricing/catalog";
+
+// ===== Solutions Registry =====
+// Every solution landing page, plus the Nav menu and Footer columns that
+// link to them, is generated from this list. Add a page here and it is
+// routed, linked, prerendered and added to the sitemap.
+
+export type SolutionKind = "capability" | "industry";
+
+export interface Solution {
+  slug: string;
+  kind: SolutionKind;
+  /** Link text in the Nav and Footer. */
+  name: string;
+  icon: LucideIcon;
+  /** Meta description for the landing page. */
+  description: string;
+  hero: {
+    eyebrow: string;
+    title: string;
+    /** Gradient words that follow the title. */
+    highlight: string;
+    intro: string;
+  };
+  benefits: FeatureCardContent[];
+  plan: { id: PlanId; reason: string };
+  /** Industry pages show matching customer stories. */
+  industry?: Industry;
+}
+
+export const SOLUTIONS_PATH = "/solutions";
+
+export const SOLUTIONS: Solution[] = [
+  // ----- Capabilities -----
+  {
+    slug: "live-tracking",
+    kind: "capability",
+    name: "Live Tracking",
+    icon: MapIcon,
+    description:
+      "See every vehicle on one live map with five-second updates, route playback and geofence alerts.",
+    hero: {
+      eyebrow: "Live Tracking",
+      title: "Know Where Every Vehicle Is,",
+      highlight: "Right Now",
+      intro:
+        "Five-second position updates, full route history and instant alerts, on the web and in your pocket.",
+    },
+    benefits: [
+      {
+        icon: MapIcon,
+        title: "One Live Map",
+        description:
+          "Every vehicle's position, speed and status on a single map that updates every five seconds.",
+        features: ["5-second updates", "Vehicle status at a glance", "Traffic-aware ETAs", "Mobile app"],
+      },
+      {
+        icon: History,
+        title: "Route Playback",
+        description:
+          "Replay any journey to settle disputes, check a delivery or review a driver's day.",
+        features: ["Trip-by-trip history", "Stop and idle markers", "Speed along the route", "Export to CSV"],
+        link: { label: "Try route playback", href: ROUTES.playback.path },
+      },
+      {
+        icon: MapPinned,
+        title: "Geofencing",
+        description:
+          "Draw zones around depots, sites and customers and get told the moment vehicles arrive or leave.",
+        features: ["Circle and polygon zones", "Arrival and departure alerts", "Dwell-time reports", "Out-of-hours alerts"],
+        link: { label: "Try the geofencing sandbox", href: ROUTES.geofencing.path },
+      },
+    ],
+    plan: {
+      id: "essential",
+      reason: "Live tracking, route history and the mobile app are included from Essential upwards.",
+    },
+  },
+  {
+    slug: "fleet-analytics",
+    kind: "capability",
+    name: "Fleet Analytics",
+    icon: BarChart3,
+    description:
+      "Turn tracking data into utilisation, cost and performance reports you can act on.",
+    hero: {
+      eyebrow: "Fleet Analytics",
+      title: "Decisions Backed by",
+      highlight: "Real Data",
+      intro:
+        "Utilisation, mileage, idle time and cost reports built from every journey your fleet makes.",
+    },
+    benefits: [
+      {
+        icon: BarChart3,
+        title: "Utilisation Reports",
+        description:
+          "Find under-used vehicles and right-size the fleet before renewing leases.",
+        features: ["Daily utilisation", "Busiest and quietest vehicles", "Depot comparisons", "Trend charts"],
+      },
+      {
+        icon: FileText,
+        title: "Custom Reports",
+        description:
+          "Build the reports your board and finance team ask for and schedule them to arrive by email.",
+        features: ["Drag-and-drop builder", "Scheduled delivery", "PDF and CSV export", "Shared templates"],
+      },
+      {
+        icon: Activity,
+        title: "API Access",
+        description:
+          "Pull trips, positions and events into your own BI tools, payroll or job management system.",
+        features: ["REST API", "Webhooks", "Per-user API keys", "Sandbox account"],
+      },
+    ],
+    plan: {
+      id: "professional",
+      reason: "Advanced analytics, custom reports and API access start on Professional.",
+    },
+  },
+  {
+    slug: "driver-safety",
+    kind: "capability",
+    name: "Driver Safety",
+    icon: Shield,
+    description:
+      "Spot harsh driving and speeding early, coach drivers and protect lone workers.",
+    hero: {
+      eyebrow: "Driver Safety",
+      title: "Safer Drivers,",
+      highlight: "Fewer Incidents",
+      intro:
+        "Speeding, harsh braking and cornering events scored per driver, with SOS alerts for lone workers.",
+    },
+    benefits: [
+      {
+        icon: Gauge,
+        title: "Driver Scorecards",
+        description:
+          "A simple score per driver based on speeding, harsh braking, acceleration and cornering.",
+        features: ["Weekly scorecards", "League tables", "Coaching notes", "Improvement trends"],
+      },
+      {
+        icon: Siren,
+        title: "SOS & Lone Worker",
+        description:
+          "Drivers can raise an alarm from the cab or the app, and the office sees exactly where they are.",
+        features: ["Panic button", "Instant SMS alerts", "Escalation contacts", "Alarm history"],
+      },
+      {
+        icon: Bell,
+        title: "Speeding Alerts",
+        description:
+          "Get told when vehicles exceed the limit on the road they're on, not just a fixed threshold.",
+        features: ["Road speed limits", "Custom thresholds", "SMS and email alerts", "Repeat offender reports"],
+      },
+    ],
+    plan: {
+      id: "professional",
+      reason: "SMS alerts and driver behaviour analytics are part of Professional.",
+    },
+  },
+  {
+    slug: "fuel-management",
+    kind: "capability",
+    name: "Fuel Management",
+    icon: Fuel,
+    description:
+      "Cut idling, shorten routes and spot fuel card misuse to bring fuel spend down.",
+    hero: {
+      eyebrow: "Fuel Management",
+      title: "Spend Less on",
+      highlight: "Every Mile",
+      intro:
+        "Idle-time alerts, route efficiency and fuel card matching that show where the money goes.",
+    },
+    benefits: [
+      {
+        icon: Timer,
+        title: "Idle Alerts",
+        description:
+          "Flag engines left running so you can have the right conversation with the right driver.",
+        features: ["Configurable thresholds", "Idle time per driver", "Cost of idling", "Weekly summaries"],
+      },
+      {
+        icon: Route,
+        title: "Route Efficiency",
+        description:
+          "Compare planned and actual routes to find detours and schedules that waste fuel.",
+        features: ["Planned vs actual", "Detour detection", "Mileage by job", "Depot comparisons"],
+      },
+      {
+        icon: TrendingDown,
+        title: "Fuel Card Matching",
+        description:
+          "Match fuel transactions to vehicle locations and catch fills that don't add up.",
+        features: ["Card import", "Location matching", "Exception reports", "MPG by vehicle"],
+      },
+    ],
+    plan: {
+      id: "professional",
+      reason: "Fuel analytics and custom exception reports are included on Professional.",
+    },
+  },
+  {
+    slug: "maintenance",
+    kind: "capability",
+    name: "Maintenance",
+    icon: Wrench,
+    description:
+      "Service vehicles on real mileage and engine hours, and keep defects and MOTs on track.",
+    hero: {
+      eyebrow: "Maintenance",
+      title: "Keep Vehicles",
+      highlight: "On the Road",
+      intro:
+        "Service reminders on real mileage and engine hours, MOT and tax dates, and defect reporting in one place.",
+    },
+    benefits: [
+      {
+        icon: CalendarClock,
+        title: "Service Scheduling",
+        description:
+          "Reminders driven by actual odometer and engine-hours readings, not guesses.",
+        features: ["Mileage-based reminders", "Engine-hours tracking", "MOT and tax dates", "Workshop calendar"],
+      },
+      {
+        icon: ClipboardCheck,
+        title: "Walkaround Checks",
+        description:
+          "Drivers complete daily checks in the app, with photos of any defects sent straight to the workshop.",
+        features: ["Digital checklists", "Defect photos", "Sign-off trail", "DVSA-ready records"],
+      },
+      {
+        icon: Bell,
+        title: "Maintenance Alerts",
+        description:
+          "Dashboard warning lights and battery voltage alerts reach you before a breakdown does.",
+        features: ["Fault code alerts", "Low battery warnings", "Overdue service alerts", "Email and SMS"],
+      },
+    ],
+    plan: {
+      id: "professional",
+      reason: "Maintenance alerts and SMS notifications are included on Professional.",
+    },
+  },
+
+  // ----- Industries -----
+  {
+    slug: "courier",
+    kind: "industry",
+    name: "Courier & Delivery",
+    icon: Package,
+    industry: "courier",
+    description:
+      "Fleet tracking for couriers and delivery firms: live ETAs, proof of delivery times and lower fuel spend.",
+    hero: {
+      eyebrow: "For Couriers & Delivery",
+      title: "Every Drop,",
+      highlight: "On Time",
+      intro:
+        "Dispatch the nearest van, give customers accurate ETAs and prove delivery times when it matters.",
+    },
+    benefits: [
+      {
+        icon: Truck,
+        title: "Smarter Dispatch",
+        description:
+          "See which van is nearest and free, and allocate same-day jobs without ringing round.",
+        features: ["Nearest-vehicle search", "Live job status", "Driver app", "Traffic-aware ETAs"],
+      },
+      {
+        icon: ClipboardCheck,
+        title: "Proof of Delivery",
+        description:
+          "Time-stamped arrival and departure at every drop, ready to send when a customer asks.",
+        features: ["Stop-level history", "Shareable reports", "Geofenced customer sites", "Export to CSV"],
+      },
+      {
+        icon: Fuel,
+        title: "Lower Fuel Costs",
+        description:
+          "Idle alerts and route comparisons that take real money off the fuel bill.",
+        features: ["Idle alerts", "Route efficiency", "MPG by vehicle", "Weekly summaries"],
+      },
+    ],
+    plan: {
+      id: "professional",
+      reason: "Most couriers choose Professional for SMS alerts, API access to their dispatch system and 90-day history.",
+    },
+  },
+  {
+    slug: "construction",
+    kind: "industry",
+    name: "Construction",
+    icon: HardHat,
+    industry: "construction",
+    description:
+      "Track vans, tippers and plant across every site, cut theft and automate site timesheets.",
+    hero: {
+      eyebrow: "For Construction",
+      title: "Vans and Plant,",
+      highlight: "Every Site",
+      intro:
+        "Track vehicles and high-value plant across every site, get theft alerts and log site hours automatically.",
+    },
+    benefits: [
+      {
+        icon: Lock,
+        title: "Theft Protection",
+        description:
+          "Tamper and out-of-hours movement alerts, with live location to help police recover equipment.",
+        features: ["Out-of-hours alerts", "Tamper alerts", "Battery plant trackers", "Recovery support"],
+      },
+      {
+        icon: MapPinned,
+        title: "Site Geofences",
+        description:
+          "Arrivals and departures at each site logged automatically and fed into timesheets.",
+        features: ["Site zones", "Automatic timesheets", "Dwell-time reports", "Payroll export"],
+      },
+      {
+        icon: Wrench,
+        title: "Plant Utilisation",
+        description:
+          "See which machines are working and which are sitting idle before you hire more.",
+        features: ["Engine-hours tracking", "Utilisation reports", "Service reminders", "Hire vs own analysis"],
+      },
+    ],
+    plan: {
+      id: "enterprise",
+      reason: "Contractors running plant and multiple sites usually need Enterprise for custom integrations and an SLA.",
+    },
+  },
+  {
+    slug: "field-service",
+    kind: "industry",
+    name: "Field Service",
+    icon: Briefcase,
+    industry: "field-service",
+    description:
+      "Send the nearest engineer, fit more jobs into each day and respect engineers' privacy after hours.",
+    hero: {
+      eyebrow: "For Field Service",
+      title: "More Jobs,",
+      highlight: "Less Driving",
+      intro:
+        "Send the nearest engineer, fit more jobs into every day and give customers an accurate arrival time.",
+    },
+    benefits: [
+      {
+        icon: Users,
+        title: "Nearest Engineer",
+        description:
+          "Match urgent call-outs to whoever is closest and free, straight from the live map.",
+        features: ["Live engineer map", "Next-job visibility", "Skills tags", "Mobile app"],
+      },
+      {
+        icon: Smartphone,
+        title: "Customer ETAs",
+        description:
+          "Send customers an accurate arrival window so nobody waits in all day.",
+        features: ["ETA links", "SMS notifications", "Arrival alerts", "Job history"],
+      },
+      {
+        icon: Shield,
+        title: "Private-Use Mode",
+        description:
+          "Engineers who take vans home can switch tracking off outside working hours.",
+        features: ["Private-use toggle", "Business mileage only", "GDPR-friendly", "Audit trail"],
+      },
+    ],
+    plan: {
+      id: "professional",
+      reason: "Professional adds the SMS alerts and API access most field service teams use with their job systems.",
+    },
+  },
+  {
+    slug: "car-hire",
+    kind: "industry",
+    name: "Car & Van Hire",
+    icon: Car,
+    industry: "car-hire",
+    description:
+      "Accurate mileage, overdue-return alerts and utilisation reports for car and van rental fleets.",
+    hero: {
+      eyebrow: "For Car & Van Hire",
+      title: "Every Rental,",
+      highlight: "Accounted For",
+      intro:
+        "Accurate mileage for every rental, overdue-return alerts and utilisation reports across all your branches.",
+    },
+    benefits: [
+      {
+        icon: Gauge,
+        title: "Accurate Mileage",
+        description:
+          "Odometer and trip records for each rental that settle disputes in one call.",
+        features: ["Per-rental trip logs", "Odometer readings", "Shareable reports", "Booking system API"],
+      },
+      {
+        icon: KeyRound,
+        title: "Overdue & Recovery",
+        description:
+          "Know immediately when a vehicle isn't back, and where it was last seen.",
+        features: ["Overdue alerts", "Last known position", "Immobiliser support", "Recovery assistance"],
+      },
+      {
+        icon: PiggyBank,
+        title: "Fleet Utilisation",
+        description:
+          "Move vehicles between branches to match demand and stop paying for cars that sit still.",
+        features: ["Branch utilisation", "Idle vehicle reports", "Demand trends", "White-label portal"],
+      },
+    ],
+    plan: {
+      id: "enterprise",
+      reason: "Hire companies typically need Enterprise for booking-system integrations, white-label options and unlimited history.",
+    },
+  },
+];
+
+export const solutionPath = (slug: string) => `${SOLUTIONS_PATH}/${slug}`;
+
+export const findSolutionByPath = (path: string) =>
+  SOLUTIONS.find((solution) => solutionPath(solution.slug) === path) ?? null;
+
+export const solutionsOfKind = (kind: SolutionKind) =>
+  SOLUTIONS.filter((solution) => solution.kind === kind);
@@ -0,0 +1,49 @@
+import React from "react";
+import { cx } from "../lib/utils";
+import { ROUTES } from "../router/routes";
+import { Link } from "../router/Link";
+import { useStatus } from "./useStatus";
+import {
+  STATE_TONES,
+  describeOverallState,
+  overallState,
+  type StateTone,
+} from "./status";
+
+const DOT_TONES: Record<StateTone, string> = {
+  success: "bg-success",
+  accent: "bg-accent",
+  warning: "bg-warning",
+  danger: "bg-danger",
+};
+
+export const ToneDot: React.FC<{ tone: StateTone; className?: string }> = ({
+  tone,
+  className,
+}) => (
+  <span
+    aria-hidden="true"
+    className={cx("inline-block h-2.5 w-2.5 rounded-full", DOT_TONES[tone], className)}
+  />
+);
+
+// ===== Status Badge =====
+/** Compact overall status for the footer, linking to the full status page. */
+export const StatusBadge: React.FC<{ className?: string }> = ({ className }) => {
+  const { feed } = useStatus();
+  if (!feed) return null;
+  const state = overallState(feed);
+
+  return (
+    <Link
+      to={ROUTES.status.path}
+      className={cx(
+        "inline-flex items-center gap-2 rounded-full border border-line px-3 py-1 text-sm text-fg/70 hover:text-fg hover:border-line-strong transition-colors",
+        className
+      )}
+    >
+      <ToneDot tone={STATE_TONES[state]} />
+      {describeOverallState(state)}
+    </Link>
+  );
+};
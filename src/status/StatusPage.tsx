@@ -0,0 +1,352 @@
+import React, { useState } from "react";
+import { AlertTriangle, CalendarClock, CheckCircle2, Wrench } from "lucide-react";
+import { Card, Container } from "../components/ui";
+import { cx } from "../lib/utils";
+import { useStatus } from "./useStatus";
+import { ToneDot } from "./StatusBadge";
+import {
+  PHASE_LABELS,
+  SLA_TARGET,
+  STATE_LABELS,
+  STATE_TONES,
+  UPTIME_WINDOWS,
+  activeIncidents,
+  dailyUptime,
+  describeOverallState,
+  formatUptime,
+  isMaintenanceUnderway,
+  overallState,
+  pastIncidents,
+  pastMaintenance,
+  upcomingMaintenance,
+  uptimeOver,
+  uptimeTone,
+  type Incident,
+  type Maintenance,
+  type StateTone,
+  type StatusFeed,
+  type UptimeWindow,
+} from "./status";
+
+const STATUS_TIME_ZONE = "Europe/London";
+
+const timeFormatter = new Intl.DateTimeFormat("en-GB", {
+  timeZone: STATUS_TIME_ZONE,
+  day: "numeric",
+  month: "short",
+  year: "numeric",
+  hour: "2-digit",
+  minute: "2-digit",
+  timeZoneName: "short",
+});
+
+const dayFormatter = new Intl.DateTimeFormat("en-GB", {
+  timeZone: "UTC",
+  day: "numeric",
+  month: "short",
+  year: "numeric",
+});
+
+const formatTime = (iso: string) => timeFormatter.format(new Date(iso));
+
+const BAR_TONES: Record<StateTone, string> = {
+  success: "bg-success/80",
+  accent: "bg-accent/80",
+  warning: "bg-warning",
+  danger: "bg-danger",
+};
+
+const BANNER_TONES: Record<StateTone, string> = {
+  success: "border-success/40 bg-success/10",
+  accent: "border-accent/40 bg-accent/10",
+  warning: "border-warning/40 bg-warning/10",
+  danger: "border-danger/40 bg-danger/10",
+};
+
+const componentNames = (feed: StatusFeed, ids: string[]) =>
+  ids
+    .map((id) => feed.components.find((component) => component.id === id)?.name ?? id)
+    .join(", ");
+
+// ===== Uptime Bars =====
+const UptimeBars: React.FC<{
+  feed: StatusFeed;
+  componentId: string;
+  componentName: string;
+  days: UptimeWindow;
+}> = ({ feed, componentId, componentName, days }) => {
+  const bars = dailyUptime(feed, componentId, days);
+  const uptime = uptimeOver(feed, componentId, days);
+  const troubled = bars.filter((bar) => bar.incidents.length).length;
+
+  return (
+    <div>
+      <div
+        role="img"
+        aria-label={`${componentName}: ${formatUptime(uptime)} uptime over the last ${days} days, ${
+          troubled ? `incidents on ${troubled} ${troubled === 1 ? "day" : "days"}` : "no incidents"
+        }`}
+        className="flex items-end gap-px h-8"
+      >
+        {bars.map((bar) => (
+          <span
+            key={bar.date}
+            title={`${dayFormatter.format(new Date(`${bar.date}T00:00:00Z`))}: ${
+              bar.incidents.length
+                ? `${formatUptime(bar.uptime)}, ${bar.incidents.map((i) => i.title).join("; ")}`
+                : "no incidents"
+            }`}
+            className={cx(
+              "flex-1 h-full rounded-sm",
+              bar.incidents.length ? BAR_TONES[uptimeTone(bar.uptime)] : BAR_TONES.success,
+              bar.incidents.length > 0 && uptimeTone(bar.uptime) === "success" && "opacity-60"
+            )}
+          />
+        ))}
+      </div>
+      <div className="mt-2 flex justify-between text-xs text-fg/50">
+        <span>{days} days ago</span>
+        <span>{formatUptime(uptime)} uptime</span>
+        <span>Today</span>
+      </div>
+    </div>
+  );
+};
+
+// ===== Incidents =====
+const IncidentTimeline: React.FC<{ incident: Incident }> = ({ incident }) => (
+  <ol className="mt-4 space-y-4 border-l border-line pl-4">
+    {[...incident.updates].reverse().map((update) => (
+      <li key={update.at}>
+        <p className="text-sm">
+          <span className="font-semibold text-fg">{PHASE_LABELS[update.phase]}</span>
+          <span className="text-fg/50">
+            {" "}
+            · <time dateTime={update.at}>{formatTime(update.at)}</time>
+          </span>
+        </p>
+        <p className="text-sm text-fg/70 mt-1">{update.message}</p>
+      </li>
+    ))}
+  </ol>
+);
+
+const MaintenanceItem: React.FC<{ feed: StatusFeed; item: Maintenance }> = ({
+  feed,
+  item,
+}) => (
+  <li className="py-4 first:pt-0 last:pb-0">
+    <p className="font-semibold text-fg">{item.title}</p>
+    <p className="text-sm text-fg/50 mt-1">
+      <time dateTime={item.startsAt}>{formatTime(item.startsAt)}</time> to{" "}
+      <time dateTime={item.endsAt}>{formatTime(item.endsAt)}</time> ·{" "}
+      {componentNames(feed, item.components)}
+    </p>
+    <p className="text-sm text-fg/70 mt-2">{item.description}</p>
+  </li>
+);
+
+// ===== Status Page =====
+export const StatusPage: React.FC = () => {
+  const { feed, error } = useStatus();
+  const [days, setDays] = useState<UptimeWindow>(90);
+
+  if (!feed) {
+    return (
+      <Container className="min-h-screen pt-28 pb-16 text-center">
+        <h1 className="text-3xl lg:text-5xl font-bold text-fg mb-6">System Status</h1>
+        <p role="status" className="text-fg/70">
+          {error ?? "Loading the latest status…"}
+        </p>
+      </Container>
+    );
+  }
+
+  const state = overallState(feed);
+  const active = activeIncidents(feed);
+  const upcoming = upcomingMaintenance(feed);
+  const history = pastIncidents(feed, days);
+  const maintenanceHistory = pastMaintenance(feed, days);
+
+  return (
+    <Container className="pt-28 pb-16 lg:pb-24">
+      <div className="max-w-4xl mx-auto">
+        <h1 className="text-3xl lg:text-5xl font-bold text-fg mb-4 text-center">
+          System
+          <span className="bg-gradient-to-r from-highlight to-highlight-alt bg-clip-text text-transparent">
+            {" "}
+            Status
+          </span>
+        </h1>
+        <p className="text-xl text-fg/70 text-center mb-10">
+          Live health of the Franstrack platform, backed by our{" "}
+          {formatUptime(SLA_TARGET, 0)} uptime SLA.
+        </p>
+
+        <div
+          role="status"
+          className={cx(
+            "flex flex-col sm:flex-row sm:items-center gap-3 rounded-card border p-6 mb-10",
+            BANNER_TONES[STATE_TONES[state]]
+          )}
+        >
+          {state === "operational" ? (
+            <CheckCircle2 className="h-6 w-6 text-success" aria-hidden="true" />
+          ) : (
+            <AlertTriangle className="h-6 w-6 text-warning" aria-hidden="true" />
+          )}
+          <p className="text-lg font-semibold text-fg sm:mr-auto">
+            {describeOverallState(state)}
+          </p>
+          <p className="text-sm text-fg/60">
+            Updated <time dateTime={feed.generatedAt}>{formatTime(feed.generatedAt)}</time>
+          </p>
+        </div>
+
+        {error && (
+          <p className="text-sm text-warning mb-6">
+            {error} Showing the last status we received.
+          </p>
+        )}
+
+        {active.length > 0 && (
+          <section aria-labelledby="status-active" className="mb-10">
+            <h2 id="status-active" className="text-2xl font-bold text-fg mb-4">
+              Active incidents
+            </h2>
+            <div className="space-y-4">
+              {active.map((incident) => (
+                <Card key={incident.id} className="border border-warning/50">
+                  <h3 className="text-lg font-semibold text-fg">{incident.title}</h3>
+                  <p className="text-sm text-fg/60 mt-1">
+                    {STATE_LABELS[incident.impact]} ·{" "}
+                    {componentNames(feed, incident.components)}
+                  </p>
+                  <IncidentTimeline incident={incident} />
+                </Card>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {upcoming.length > 0 && (
+          <section aria-labelledby="status-maintenance" className="mb-10">
+            <h2
+              id="status-maintenance"
+              className="flex items-center gap-2 text-2xl font-bold text-fg mb-4"
+            >
+              <CalendarClock className="h-6 w-6 text-accent" aria-hidden="true" />
+              Scheduled maintenance
+            </h2>
+            <Card className="border border-line">
+              <ul className="divide-y divide-line">
+                {upcoming.map((item) => (
+                  <MaintenanceItem key={item.id} feed={feed} item={item} />
+                ))}
+              </ul>
+              {upcoming.some((item) => isMaintenanceUnderway(item, feed)) && (
+                <p className="text-sm text-accent mt-4">Maintenance is in progress.</p>
+              )}
+            </Card>
+          </section>
+        )}
+
+        <section aria-labelledby="status-components" className="mb-10">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+            <h2 id="status-components" className="text-2xl font-bold text-fg">
+              Components
+            </h2>
+            <div
+              role="group"
+              aria-label="Uptime period"
+              className="inline-flex rounded-control border border-line bg-surface p-1"
+            >
+              {UPTIME_WINDOWS.map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  aria-pressed={days === option}
+                  onClick={() => setDays(option)}
+                  className={cx(
+                    "px-3 py-1.5 rounded-lg text-sm font-medium transition-colors",
+                    days === option ? "bg-surface-muted text-fg" : "text-fg/60 hover:text-fg"
+                  )}
+                >
+                  {option} days
+                </button>
+              ))}
+            </div>
+          </div>
+          <Card className="border border-line">
+            <ul className="divide-y divide-line">
+              {feed.components.map((component) => (
+                <li key={component.id} className="py-6 first:pt-0 last:pb-0">
+                  <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-2 mb-4">
+                    <div>
+                      <h3 className="font-semibold text-fg">{component.name}</h3>
+                      <p className="text-sm text-fg/60">{component.description}</p>
+                    </div>
+                    <p className="flex items-center gap-2 text-sm text-fg/80 flex-shrink-0">
+                      <ToneDot tone={STATE_TONES[component.state]} />
+                      {STATE_LABELS[component.state]}
+                    </p>
+                  </div>
+                  <UptimeBars
+                    feed={feed}
+                    componentId={component.id}
+                    componentName={component.name}
+                    days={days}
+                  />
+                </li>
+              ))}
+            </ul>
+          </Card>
+        </section>
+
+        <section aria-labelledby="status-history">
+          <h2 id="status-history" className="text-2xl font-bold text-fg mb-4">
+            Past {days} days
+          </h2>
+          {history.length === 0 && maintenanceHistory.length === 0 ? (
+            <p className="text-fg/60">No incidents or maintenance in this period.</p>
+          ) : (
+            <div className="space-y-4">
+              {history.map((incident) => (
+                <Card key={incident.id} className="border border-line">
+                  <details>
+                    <summary className="cursor-pointer">
+                      <span className="block font-semibold text-fg">
+                        {incident.title}
+                      </span>
+                      <span className="block text-sm text-fg/60 mt-1">
+                        <time dateTime={incident.startedAt}>
+                          {formatTime(incident.startedAt)}
+                        </time>{" "}
+                        · {STATE_LABELS[incident.impact]} ·{" "}
+                        {componentNames(feed, incident.components)}
+                      </span>
+                    </summary>
+                    <IncidentTimeline incident={incident} />
+                  </details>
+                </Card>
+              ))}
+              {maintenanceHistory.length > 0 && (
+                <Card className="border border-line">
+                  <h3 className="flex items-center gap-2 font-semibold text-fg mb-4">
+                    <Wrench className="h-5 w-5 text-accent" aria-hidden="true" />
+                    Completed maintenance
+                  </h3>
+                  <ul className="divide-y divide-line">
+                    {maintenanceHistory.map((item) => (
+                      <MaintenanceItem key={item.id} feed={feed} item={item} />
+                    ))}
+                  </ul>
+                </Card>
+              )}
+            </div>
+          )}
+        </section>
+      </div>
+    </Container>
+  );
+};
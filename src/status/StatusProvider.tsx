@@ -0,0 +1,43 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { StatusContext, type StatusContextValue } from "./context";
+import { getDefaultStatusAdapter, type StatusAdapter } from "./adapters";
+import { STATUS_REFRESH_MS, type StatusFeed } from "./status";
+
+// ===== Status Provider =====
+// One feed for the whole site, so the footer badge, `Stats` and the status
+// page never disagree.
+export const StatusProvider: React.FC<{
+  adapter?: StatusAdapter;
+  children: React.ReactNode;
+}> = ({ adapter, children }) => {
+  const source = useMemo(() => adapter ?? getDefaultStatusAdapter(), [adapter]);
+  const [feed, setFeed] = useState<StatusFeed | null>(
+    () => source.snapshot?.() ?? null
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    source
+      .load()
+      .then((next) => {
+        setFeed(next);
+        setError(null);
+      })
+      .catch((err: unknown) =>
+        setError(err instanceof Error ? err.message : "Status is unavailable.")
+      );
+  }, [source]);
+
+  useEffect(() => {
+    refresh();
+    const timer = window.setInterval(refresh, STATUS_REFRESH_MS);
+    return () => window.clearInterval(timer);
+  }, [refresh]);
+
+  const value = useMemo<StatusContextValue>(
+    () => ({ feed, error, refresh }),
+    [feed, error, refresh]
+  );
+
+  return <StatusContext.Provider value={value}>{children}</StatusContext.Provider>;
+};
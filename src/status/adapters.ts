@@ -0,0 +1,74 @@
+import fixture from "./fixture.json";
+import type { StatusFeed } from "./status";
+
+// ===== Status Feed Adapters =====
+export interface StatusAdapter {
+  load: () => Promise<StatusFeed>;
+  /** A feed available without waiting, so prerendered pages can show it. */
+  snapshot?: () => StatusFeed;
+}
+
+export class StatusFeedError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "StatusFeedError";
+    this.status = status;
+  }
+}
+
+const isStatusFeed = (value: unknown): value is StatusFeed => {
+  const feed = value as Partial<StatusFeed> | null;
+  return (
+    !!feed &&
+    typeof feed.generatedAt === "string" &&
+    Array.isArray(feed.components) &&
+    Array.isArray(feed.incidents) &&
+    Array.isArray(feed.maintenance)
+  );
+};
+
+export const createFetchStatusAdapter = (endpoint: string): StatusAdapter => ({
+  async load() {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, { headers: { Accept: "application/json" } });
+    } catch {
+      throw new StatusFeedError("We couldn't reach the status service.");
+    }
+    if (!response.ok) {
+      throw new StatusFeedError("The status service returned an error.", response.status);
+    }
+    const body: unknown = await response.json();
+    if (!isStatusFeed(body)) {
+      throw new StatusFeedError("The status feed was not in the expected format.");
+    }
+    return body;
+  },
+});
+
+export const FIXTURE_FEED = fixture as StatusFeed;
+
+/** Serves a bundled feed, by default the development fixture. */
+export const createFixtureStatusAdapter = (
+  feed: StatusFeed = FIXTURE_FEED
+): StatusAdapter => ({
+  load: async () => feed,
+  snapshot: () => feed,
+});
+
+/** Used when no feed is configured, so visitors never see made-up figures. */
+export const createUnavailableStatusAdapter = (): StatusAdapter => ({
+  load: async () => {
+    throw new StatusFeedError("Live status isn't available right now.");
+  },
+});
+
+export const getDefaultStatusAdapter = (): StatusAdapter => {
+  const endpoint = import.meta.env.VITE_STATUS_ENDPOINT;
+  if (endpoint) return createFetchStatusAdapter(endpoint);
+  return import.meta.env.DEV
+    ? createFixtureStatusAdapter()
+    : createUnavailableStatusAdapter();
+};
@@ -0,0 +1,11 @@
+import { createContext } from "react";
+import type { StatusFeed } from "./status";
+
+export interface StatusContextValue {
+  /** Null until the first load when the adapter has no snapshot. */
+  feed: StatusFeed | null;
+  error: string | null;
+  refresh: () => void;
+}
+
+export const StatusContext = createContext<StatusContextValue | null>(null);
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { dailyUptime, uptimeOver, type Incident, type StatusFeed } from "./status";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const incident = (
+  id: string,
+  startedAt: string,
+  resolvedAt: string | null,
+  impact: Incident["impact"] = "major_outage",
+  components = ["api"]
+): Incident => ({
+  id,
+  title: id,
+  impact,
+  components,
+  startedAt,
+  resolvedAt,
+  updates: [],
+});
+
+const feed = (incidents: Incident[]): StatusFeed => ({
+  generatedAt: "2026-10-10T12:00:00Z",
+  components: [
+    { id: "api", name: "API", description: "", state: "operational" },
+    { id: "web", name: "Web", description: "", state: "operational" },
+  ],
+  incidents,
+  maintenance: [],
+});
+
+/** Uptime of the API on 9 October, a complete day in the feed. */
+const ninthOctober = (incidents: Incident[]) =>
+  dailyUptime(feed(incidents), "api", 30).find((day) => day.date === "2026-10-09")!;
+
+describe("uptime", () => {
+  it("counts overlapping incidents on a component once", () => {
+    const day = ninthOctober([
+      incident("a", "2026-10-09T10:00:00Z", "2026-10-09T12:00:00Z"),
+      incident("b", "2026-10-09T11:00:00Z", "2026-10-09T13:00:00Z"),
+    ]);
+    expect(day.incidents).toHaveLength(2);
+    expect(day.uptime).toBeCloseTo(1 - (3 * HOUR) / DAY, 10);
+  });
+
+  it("never goes below zero however many incidents overlap", () => {
+    const allDay = Array.from({ length: 5 }, (_, i) =>
+      incident(`outage-${i}`, "2026-10-09T00:00:00Z", "2026-10-10T00:00:00Z")
+    );
+    expect(ninthOctober(allDay).uptime).toBe(0);
+  });
+
+  it("counts each moment at the worst impact covering it", () => {
+    // Partial outage 09:00–15:00 with a major outage 10:00–12:00 inside it:
+    // two hours at full weight, four at the partial-outage weight.
+    const day = ninthOctober([
+      incident("partial", "2026-10-09T09:00:00Z", "2026-10-09T15:00:00Z", "partial_outage"),
+      incident("major", "2026-10-09T10:00:00Z", "2026-10-09T12:00:00Z"),
+    ]);
+    expect(day.uptime).toBeCloseTo(1 - (2 * HOUR + 4 * HOUR * 0.3) / DAY, 10);
+  });
+
+  it("costs nothing for degraded performance", () => {
+    const day = ninthOctober([
+      incident("slow", "2026-10-09T09:00:00Z", "2026-10-09T15:00:00Z", "degraded"),
+    ]);
+    expect(day.incidents).toHaveLength(1);
+    expect(day.uptime).toBe(1);
+  });
+
+  it("merges overlaps over a whole window too", () => {
+    const incidents = [
+      incident("a", "2026-10-09T10:00:00Z", "2026-10-09T12:00:00Z"),
+      incident("b", "2026-10-09T11:00:00Z", "2026-10-09T13:00:00Z"),
+      incident("web-only", "2026-10-09T00:00:00Z", "2026-10-10T00:00:00Z", "major_outage", [
+        "web",
+      ]),
+    ];
+    // 29 whole days plus twelve hours of today.
+    const window = 29 * DAY + 12 * HOUR;
+    expect(uptimeOver(feed(incidents), "api", 30)).toBeCloseTo(1 - (3 * HOUR) / window, 10);
+  });
+
+  it("counts an open incident up to the feed's own time", () => {
+    const today = dailyUptime(
+      feed([incident("open", "2026-10-10T06:00:00Z", null)]),
+      "api",
+      30
+    ).at(-1)!;
+    expect(today.date).toBe("2026-10-10");
+    expect(today.uptime).toBeCloseTo(0.5, 10);
+  });
+});
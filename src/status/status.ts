@@ -0,0 +1,255 @@
+import { addDays } from "../lib/time";
+
+// ===== System Status Model =====
+// The status feed lists each platform component's current state plus every
+// incident and maintenance window. Uptime isn't stored anywhere: it's derived
+// from incident timings, measured up to the feed's `generatedAt` rather than
+// the visitor's clock so every page render of one feed agrees.
+export type ComponentState =
+  | "operational"
+  | "degraded"
+  | "partial_outage"
+  | "major_outage"
+  | "maintenance";
+
+export interface StatusComponent {
+  id: string;
+  name: string;
+  description: string;
+  state: ComponentState;
+}
+
+export type IncidentImpact = "degraded" | "partial_outage" | "major_outage";
+export type IncidentPhase = "investigating" | "identified" | "monitoring" | "resolved";
+
+export interface IncidentUpdate {
+  at: string;
+  phase: IncidentPhase;
+  message: string;
+}
+
+export interface Incident {
+  id: string;
+  title: string;
+  impact: IncidentImpact;
+  /** IDs of the affected components. */
+  components: string[];
+  startedAt: string;
+  /** `null` while the incident is still open. */
+  resolvedAt: string | null;
+  /** Newest last, as they were posted. */
+  updates: IncidentUpdate[];
+}
+
+export interface Maintenance {
+  id: string;
+  title: string;
+  description: string;
+  components: string[];
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface StatusFeed {
+  generatedAt: string;
+  components: StatusComponent[];
+  incidents: Incident[];
+  maintenance: Maintenance[];
+}
+
+/** The uptime SLA we advertise, as a fraction. */
+export const SLA_TARGET = 0.98;
+
+/** Uptime at or above this shows green; below it, amber until the SLA is missed. */
+const HEALTHY_UPTIME = 0.999;
+
+/** How often an open page re-reads the feed. */
+export const STATUS_REFRESH_MS = 5 * 60 * 1000;
+
+export const UPTIME_WINDOWS = [30, 90] as const;
+export type UptimeWindow = (typeof UPTIME_WINDOWS)[number];
+
+export const STATE_LABELS: Record<ComponentState, string> = {
+  operational: "Operational",
+  degraded: "Degraded performance",
+  partial_outage: "Partial outage",
+  major_outage: "Major outage",
+  maintenance: "Under maintenance",
+};
+
+export const PHASE_LABELS: Record<IncidentPhase, string> = {
+  investigating: "Investigating",
+  identified: "Identified",
+  monitoring: "Monitoring",
+  resolved: "Resolved",
+};
+
+export type StateTone = "success" | "accent" | "warning" | "danger";
+
+export const STATE_TONES: Record<ComponentState, StateTone> = {
+  operational: "success",
+  maintenance: "accent",
+  degraded: "warning",
+  partial_outage: "warning",
+  major_outage: "danger",
+};
+
+/** Colour for one uptime bar: anything under the SLA stands out. */
+export const uptimeTone = (uptime: number): StateTone =>
+  uptime >= HEALTHY_UPTIME ? "success" : uptime >= SLA_TARGET ? "warning" : "danger";
+
+const STATE_SEVERITY: ComponentState[] = [
+  "operational",
+  "maintenance",
+  "degraded",
+  "partial_outage",
+  "major_outage",
+];
+
+// Slow isn't down; a partial outage counts for 30% of its duration, the
+// same weighting most public status pages use.
+const DOWNTIME_WEIGHT: Record<IncidentImpact, number> = {
+  degraded: 0,
+  partial_outage: 0.3,
+  major_outage: 1,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const time = (iso: string) => new Date(iso).getTime();
+
+export const worstState = (states: ComponentState[]): ComponentState =>
+  states.reduce<ComponentState>(
+    (worst, state) =>
+      STATE_SEVERITY.indexOf(state) > STATE_SEVERITY.indexOf(worst) ? state : worst,
+    "operational"
+  );
+
+export const overallState = (feed: StatusFeed) =>
+  worstState(feed.components.map((component) => component.state));
+
+export const describeOverallState = (state: ComponentState) =>
+  state === "operational" ? "All systems operational" : STATE_LABELS[state];
+
+// ===== Uptime =====
+export interface UptimeDay {
+  /** `YYYY-MM-DD`, UTC. */
+  date: string;
+  uptime: number;
+  incidents: Incident[];
+}
+
+/**
+ * Weighted downtime, in ms, that `incidents` caused within [from, to).
+ * Overlapping incidents are one outage, so each moment counts once, at the
+ * worst impact covering it.
+ */
+const downtimeWithin = (incidents: Incident[], from: number, to: number, now: number) => {
+  const spans = incidents
+    .map((incident) => ({
+      start: Math.max(from, time(incident.startedAt)),
+      end: Math.min(to, incident.resolvedAt ? time(incident.resolvedAt) : now),
+      weight: DOWNTIME_WEIGHT[incident.impact],
+    }))
+    .filter((span) => span.end > span.start && span.weight > 0);
+  const edges = [...new Set(spans.flatMap((span) => [span.start, span.end]))].sort(
+    (a, b) => a - b
+  );
+  let downtime = 0;
+  for (let i = 1; i < edges.length; i++) {
+    const [start, end] = [edges[i - 1], edges[i]];
+    const weight = Math.max(
+      0,
+      ...spans.filter((span) => span.start <= start && span.end >= end).map((span) => span.weight)
+    );
+    downtime += (end - start) * weight;
+  }
+  return downtime;
+};
+
+/** One bar per UTC day, oldest first, ending on the feed's own date. */
+export const dailyUptime = (
+  feed: StatusFeed,
+  componentId: string,
+  days: UptimeWindow
+): UptimeDay[] => {
+  const now = time(feed.generatedAt);
+  const today = feed.generatedAt.slice(0, 10);
+  const incidents = feed.incidents.filter((incident) =>
+    incident.components.includes(componentId)
+  );
+
+  return Array.from({ length: days }, (_, index) => {
+    const date = addDays(today, index - days + 1);
+    const from = time(`${date}T00:00:00Z`);
+    const to = Math.min(from + DAY_MS, now);
+    // Degraded-only incidents cost no uptime but still belong on the bar.
+    const touching = incidents.filter(
+      (incident) =>
+        time(incident.startedAt) < to &&
+        (incident.resolvedAt ? time(incident.resolvedAt) : now) > from
+    );
+    const downtime = downtimeWithin(touching, from, to, now);
+    return {
+      date,
+      uptime: to > from ? 1 - downtime / (to - from) : 1,
+      incidents: touching,
+    };
+  });
+};
+
+export const uptimeOver = (feed: StatusFeed, componentId: string, days: UptimeWindow) => {
+  const now = time(feed.generatedAt);
+  const from = time(`${addDays(feed.generatedAt.slice(0, 10), 1 - days)}T00:00:00Z`);
+  const incidents = feed.incidents.filter((incident) =>
+    incident.components.includes(componentId)
+  );
+  return 1 - downtimeWithin(incidents, from, now, now) / (now - from);
+};
+
+/** Mean uptime across every component; what `Stats` advertises. */
+export const overallUptime = (feed: StatusFeed, days: UptimeWindow) =>
+  feed.components.length
+    ? feed.components.reduce(
+        (sum, component) => sum + uptimeOver(feed, component.id, days),
+        0
+      ) / feed.components.length
+    : 1;
+
+/** Rounds down, so any downtime at all keeps us off a flat 100%. */
+export const formatUptime = (uptime: number, digits = 2) => {
+  const factor = 10 ** digits;
+  // The epsilon stops float noise (99.9 stored as 99.8999…) flooring a step down.
+  return `${(Math.floor(uptime * 100 * factor + 1e-9) / factor).toFixed(digits)}%`;
+};
+
+// ===== Incidents & Maintenance =====
+const newestFirst = (a: Incident, b: Incident) => time(b.startedAt) - time(a.startedAt);
+
+export const activeIncidents = (feed: StatusFeed) =>
+  feed.incidents.filter((incident) => !incident.resolvedAt).sort(newestFirst);
+
+export const pastIncidents = (feed: StatusFeed, days: UptimeWindow) => {
+  const from = time(feed.generatedAt) - days * DAY_MS;
+  return feed.incidents
+    .filter((incident) => incident.resolvedAt && time(incident.startedAt) >= from)
+    .sort(newestFirst);
+};
+
+export const upcomingMaintenance = (feed: StatusFeed) =>
+  feed.maintenance
+    .filter((item) => time(item.endsAt) > time(feed.generatedAt))
+    .sort((a, b) => time(a.startsAt) - time(b.startsAt));
+
+export const isMaintenanceUnderway = (item: Maintenance, feed: StatusFeed) =>
+  time(item.startsAt) <= time(feed.generatedAt);
+
+export const pastMaintenance = (feed: StatusFeed, days: UptimeWindow) => {
+  const now = time(feed.generatedAt);
+  return feed.maintenance
+    .filter(
+      (item) =>
+        time(item.endsAt) <= now && time(item.startsAt) >= now - days * DAY_MS
+    )
+    .sort((a, b) => time(b.startsAt) - time(a.startsAt));
+};
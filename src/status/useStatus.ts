@@ -0,0 +1,8 @@
+import { useContext } from "react";
+import { StatusContext } from "./context";
+
+export const useStatus = () => {
+  const ctx = useContext(StatusContext);
+  if (!ctx) throw new Error("useStatus must be used inside <StatusProvider>");
+  return ctx;
+};
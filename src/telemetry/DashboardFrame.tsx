@@ -0,0 +1,27 @@
+import React from "react";
+import { Card } from "../components/ui";
+import { cx } from "../lib/utils";
+
+// ===== Dashboard Frame =====
+/** The app-window chrome around the Hero's live dashboard and other product demos. */
+export const DashboardFrame: React.FC<{
+  title: string;
+  children: React.ReactNode;
+  bodyRef?: React.Ref<HTMLDivElement>;
+  className?: string;
+}> = ({ title, children, bodyRef, className }) => (
+  <Card className={cx("overflow-hidden border border-line", className)}>
+    <div ref={bodyRef} className="bg-gradient-to-br from-surface to-canvas p-8">
+      <div className="flex items-center gap-3 mb-6">
+        <div className="flex gap-1">
+          <div className="w-3 h-3 rounded-full bg-red-500"></div>
+          <div className="w-3 h-3 rounded-full bg-yellow-500"></div>
+          <div className="w-3 h-3 rounded-full bg-green-500"></div>
+        </div>
+        <div className="text-sm text-fg/60">{title}</div>
+      </div>
+
+      <div className="bg-canvas rounded-control p-6 border border-line">{children}</div>
+    </div>
+  </Card>
+);
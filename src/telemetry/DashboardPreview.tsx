@@ -0,0 +1,72 @@
+import React from "react";
+import { cx } from "../lib/utils";
+import { DashboardFrame } from "./DashboardFrame";
+import type { VehicleStatus } from "./simulator";
+import { useTelemetry } from "./useTelemetry";
+
+const STATUS_DOT: Record<VehicleStatus, string> = {
+  moving: "bg-success",
+  idle: "bg-accent",
+  offline: "bg-fg/40",
+};
+
+const PREVIEW_VEHICLES = 3;
+
+// ===== Live Dashboard Preview =====
+export const DashboardPreview: React.FC<{ seed?: number }> = ({ seed }) => {
+  const { ref, snapshot } = useTelemetry<HTMLDivElement>({ seed });
+  const shown = snapshot.vehicles.slice(0, PREVIEW_VEHICLES);
+
+  return (
+    <DashboardFrame title="Live Dashboard Preview" bodyRef={ref}>
+      <div className="flex justify-between items-center mb-4">
+        <div className="text-fg font-semibold">Active Vehicles</div>
+        <div
+          className={cx(
+            "text-sm font-medium",
+            snapshot.online === snapshot.vehicles.length
+              ? "text-success"
+              : "text-warning"
+          )}
+        >
+          {snapshot.online}/{snapshot.vehicles.length} Online
+        </div>
+      </div>
+
+      <ul className="space-y-3" aria-label="Simulated vehicles">
+        {shown.map((vehicle) => (
+          <li
+            key={vehicle.id}
+            className="flex items-center justify-between p-3 rounded-lg bg-surface/50"
+          >
+            <div className="flex items-center gap-3">
+              <div
+                className={cx(
+                  "w-2 h-2 rounded-full",
+                  STATUS_DOT[vehicle.status]
+                )}
+              ></div>
+              <span className="text-fg text-sm">{vehicle.name}</span>
+            </div>
+            <div className="text-fg/60 text-sm tabular-nums">
+              {vehicle.status === "moving"
+                ? `${vehicle.speedMph} mph`
+                : vehicle.status === "idle"
+                  ? "Idle"
+                  : "Offline"}
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      <div className="mt-6 pt-4 border-t border-line">
+        <div className="flex justify-between text-sm">
+          <div className="text-fg/60">Total Distance Today</div>
+          <div className="text-fg font-semibold tabular-nums">
+            {Math.round(snapshot.totalDistanceMiles)} mi
+          </div>
+        </div>
+      </div>
+    </DashboardFrame>
+  );
+};
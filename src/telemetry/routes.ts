@@ -0,0 +1,86 @@
+import { haversine, type LatLng } from "../lib/geo";
+
+// ===== Demo Routes =====
+// Closed loops around Merseyside. Each waypoint carries the speed limit for
+// the leg that starts there.
+export interface Waypoint extends LatLng {
+  limitMph: number;
+}
+
+export interface Route {
+  id: string;
+  name: string;
+  waypoints: Waypoint[];
+}
+
+export interface RouteGeometry extends Route {
+  /** Cumulative distance in metres at each waypoint, closing back to the start. */
+  offsets: number[];
+  length: number;
+}
+
+export const DEMO_ROUTES: Route[] = [
+  {
+    id: "city-centre",
+    name: "City centre deliveries",
+    waypoints: [
+      { lat: 53.4084, lng: -2.9916, limitMph: 20 },
+      { lat: 53.4033, lng: -2.9822, limitMph: 30 },
+      { lat: 53.3975, lng: -2.9744, limitMph: 30 },
+      { lat: 53.3921, lng: -2.9857, limitMph: 20 },
+      { lat: 53.4005, lng: -2.9951, limitMph: 20 },
+    ],
+  },
+  {
+    id: "m62-corridor",
+    name: "M62 to Warrington",
+    waypoints: [
+      { lat: 53.4106, lng: -2.9312, limitMph: 40 },
+      { lat: 53.4031, lng: -2.8524, limitMph: 70 },
+      { lat: 53.4089, lng: -2.6802, limitMph: 70 },
+      { lat: 53.3925, lng: -2.5968, limitMph: 30 },
+      { lat: 53.4001, lng: -2.7411, limitMph: 70 },
+      { lat: 53.4098, lng: -2.8899, limitMph: 40 },
+    ],
+  },
+  {
+    id: "wirral-loop",
+    name: "Wirral service calls",
+    waypoints: [
+      { lat: 53.3934, lng: -3.0149, limitMph: 30 },
+      { lat: 53.3725, lng: -3.0612, limitMph: 40 },
+      { lat: 53.3496, lng: -3.0922, limitMph: 60 },
+      { lat: 53.3221, lng: -3.0410, limitMph: 40 },
+      { lat: 53.3612, lng: -3.0088, limitMph: 30 },
+    ],
+  },
+  {
+    id: "north-docks",
+    name: "North docks shuttle",
+    waypoints: [
+      { lat: 53.4162, lng: -2.9984, limitMph: 30 },
+      { lat: 53.4378, lng: -3.0039, limitMph: 40 },
+      { lat: 53.4611, lng: -3.0198, limitMph: 30 },
+      { lat: 53.4474, lng: -2.9861, limitMph: 40 },
+    ],
+  },
+];
+
+export const buildRouteGeometry = (route: Route): RouteGeometry => {
+  const offsets = [0];
+  const points = route.waypoints;
+  for (let i = 0; i < points.length; i++) {
+    const next = points[(i + 1) % points.length];
+    offsets.push(offsets[i] + haversine(points[i], next));
+  }
+  return { ...route, offsets, length: offsets[offsets.length - 1] };
+};
+
+/** Leg index and fraction along it for a distance travelled on the loop. */
+export const locateOnRoute = (route: RouteGeometry, distance: number) => {
+  const d = ((distance % route.length) + route.length) % route.length;
+  let leg = 0;
+  while (leg < route.waypoints.length - 1 && route.offsets[leg + 1] <= d) leg++;
+  const legLength = route.offsets[leg + 1] - route.offsets[leg];
+  return { leg, t: legLength ? (d - route.offsets[leg]) / legLength : 0 };
+};
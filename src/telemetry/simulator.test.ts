@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { createRandom } from "../lib/random";
+import { createTelemetrySimulator, type TelemetrySnapshot } from "./simulator";
+
+const run = (seed: number, ticks: number) => {
+  const simulator = createTelemetrySimulator({ seed });
+  const snapshots: TelemetrySnapshot[] = [simulator.snapshot()];
+  for (let i = 0; i < ticks; i++) snapshots.push(simulator.advance());
+  return snapshots;
+};
+
+describe("createRandom", () => {
+  it("replays the same sequence for a seed", () => {
+    const a = createRandom(42);
+    const b = createRandom(42);
+    const first = Array.from({ length: 20 }, () => a.next());
+    expect(Array.from({ length: 20 }, () => b.next())).toEqual(first);
+    expect(first.every((value) => value >= 0 && value < 1)).toBe(true);
+  });
+
+  it("gives a different sequence for a different seed", () => {
+    expect(createRandom(1).next()).not.toBe(createRandom(2).next());
+  });
+});
+
+describe("createTelemetrySimulator", () => {
+  it("replays identically for the same seed", () => {
+    expect(run(7, 200)).toEqual(run(7, 200));
+  });
+
+  it("diverges for a different seed", () => {
+    expect(run(7, 20)).not.toEqual(run(8, 20));
+  });
+
+  it("keeps every snapshot consistent", () => {
+    const snapshots = run(2020, 500);
+    snapshots.forEach((snapshot, index) => {
+      expect(snapshot.tick).toBe(index);
+      expect(snapshot.online).toBe(
+        snapshot.vehicles.filter((vehicle) => vehicle.status !== "offline").length
+      );
+      for (const vehicle of snapshot.vehicles) {
+        if (vehicle.status !== "moving") expect(vehicle.speedMph).toBe(0);
+        else expect(vehicle.speedMph).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  it("only ever adds to the distance driven", () => {
+    const snapshots = run(2020, 500);
+    for (let i = 1; i < snapshots.length; i++) {
+      snapshots[i].vehicles.forEach((vehicle, v) => {
+        const before = snapshots[i - 1].vehicles[v];
+        expect(vehicle.odometer).toBeGreaterThanOrEqual(before.odometer);
+        if (vehicle.status !== "moving") expect(vehicle.position).toEqual(before.position);
+      });
+    }
+    expect(snapshots.at(-1)!.totalDistanceMiles).toBeGreaterThan(
+      snapshots[0].totalDistanceMiles
+    );
+  });
+
+  it("rejects a vehicle on an unknown route", () => {
+    expect(() =>
+      createTelemetrySimulator({ fleet: [{ id: "x", name: "X", routeId: "nowhere" }] })
+    ).toThrow('Unknown route "nowhere" for x');
+  });
+});
@@ -0,0 +1,152 @@
+import { interpolate, METRES_PER_MILE, type LatLng } from "../lib/geo";
+import { createRandom } from "../lib/random";
+import {
+  DEMO_ROUTES,
+  buildRouteGeometry,
+  locateOnRoute,
+  type Route,
+} from "./routes";
+
+// ===== Telemetry Simulator =====
+/** Matches the "5s Updates" we advertise in the Hero. */
+export const TELEMETRY_INTERVAL_MS = 5000;
+export const DEFAULT_TELEMETRY_SEED = 2020;
+
+export type VehicleStatus = "moving" | "idle" | "offline";
+
+export interface VehicleSpec {
+  id: string;
+  name: string;
+  routeId: string;
+}
+
+export interface VehicleState extends VehicleSpec {
+  status: VehicleStatus;
+  speedMph: number;
+  limitMph: number;
+  position: LatLng;
+  heading: number;
+  /** Distance travelled along the route loop, in metres. */
+  odometer: number;
+  distanceTodayMiles: number;
+}
+
+export interface TelemetrySnapshot {
+  tick: number;
+  vehicles: VehicleState[];
+  online: number;
+  totalDistanceMiles: number;
+}
+
+export const DEMO_FLEET: VehicleSpec[] = [
+  { id: "van-25", name: "Delivery Van #25", routeId: "city-centre" },
+  { id: "truck-08", name: "Service Truck #08", routeId: "wirral-loop" },
+  { id: "car-03", name: "Executive Car #03", routeId: "m62-corridor" },
+  { id: "van-11", name: "Delivery Van #11", routeId: "north-docks" },
+  { id: "van-14", name: "Delivery Van #14", routeId: "city-centre" },
+  { id: "truck-02", name: "Service Truck #02", routeId: "m62-corridor" },
+  { id: "truck-05", name: "Service Truck #05", routeId: "wirral-loop" },
+  { id: "van-19", name: "Delivery Van #19", routeId: "north-docks" },
+  { id: "car-07", name: "Executive Car #07", routeId: "m62-corridor" },
+  { id: "van-31", name: "Delivery Van #31", routeId: "city-centre" },
+  { id: "truck-12", name: "Service Truck #12", routeId: "north-docks" },
+  { id: "van-40", name: "Delivery Van #40", routeId: "wirral-loop" },
+];
+
+export interface SimulatorOptions {
+  seed?: number;
+  fleet?: VehicleSpec[];
+  routes?: Route[];
+}
+
+// Per-tick transition probabilities, tuned for a 5 second tick.
+const P_STOP = 0.06;
+const P_START = 0.3;
+const P_DROP_OUT = 0.004;
+const P_RECONNECT = 0.25;
+
+export const createTelemetrySimulator = ({
+  seed = DEFAULT_TELEMETRY_SEED,
+  fleet = DEMO_FLEET,
+  routes = DEMO_ROUTES,
+}: SimulatorOptions = {}) => {
+  const random = createRandom(seed);
+  const geometry = new Map(routes.map((r) => [r.id, buildRouteGeometry(r)]));
+  let tick = 0;
+
+  const place = (vehicle: VehicleState) => {
+    const route = geometry.get(vehicle.routeId)!;
+    const { leg, t } = locateOnRoute(route, vehicle.odometer);
+    const from = route.waypoints[leg];
+    const to = route.waypoints[(leg + 1) % route.waypoints.length];
+    const position = interpolate(from, to, t);
+    const heading =
+      (Math.atan2(to.lng - from.lng, to.lat - from.lat) * 180) / Math.PI;
+    return { position, heading: (heading + 360) % 360, limitMph: from.limitMph };
+  };
+
+  let vehicles: VehicleState[] = fleet.map((spec) => {
+    const route = geometry.get(spec.routeId);
+    if (!route) throw new Error(`Unknown route "${spec.routeId}" for ${spec.id}`);
+    const base = {
+      ...spec,
+      status: random.chance(0.75) ? "moving" : "idle",
+      speedMph: 0,
+      odometer: random.between(0, route.length),
+      distanceTodayMiles: Math.round(random.between(18, 52) * 10) / 10,
+    } as VehicleState;
+    const placed = { ...base, ...place(base) };
+    if (placed.status === "moving")
+      placed.speedMph = Math.round(placed.limitMph * random.between(0.7, 0.95));
+    return placed;
+  });
+
+  const step = (vehicle: VehicleState, seconds: number): VehicleState => {
+    let { status, speedMph } = vehicle;
+
+    if (status === "offline") {
+      if (random.chance(P_RECONNECT)) status = "idle";
+    } else if (random.chance(P_DROP_OUT)) {
+      status = "offline";
+    } else if (status === "moving" && random.chance(P_STOP)) {
+      status = "idle";
+    } else if (status === "idle" && random.chance(P_START)) {
+      status = "moving";
+    }
+
+    if (status !== "moving") {
+      return { ...vehicle, status, speedMph: 0 };
+    }
+
+    // Ease towards a target just around the limit, with the odd speeder.
+    const target = vehicle.limitMph * random.between(0.75, 1.08);
+    speedMph = Math.max(5, speedMph + (target - speedMph) * 0.6);
+    const metres = (speedMph * METRES_PER_MILE * seconds) / 3600;
+    const moved = { ...vehicle, status, odometer: vehicle.odometer + metres };
+
+    return {
+      ...moved,
+      ...place(moved),
+      speedMph: Math.round(speedMph),
+      distanceTodayMiles: vehicle.distanceTodayMiles + metres / METRES_PER_MILE,
+    };
+  };
+
+  const snapshot = (): TelemetrySnapshot => ({
+    tick,
+    vehicles,
+    online: vehicles.filter((v) => v.status !== "offline").length,
+    totalDistanceMiles: vehicles.reduce((sum, v) => sum + v.distanceTodayMiles, 0),
+  });
+
+  return {
+    snapshot,
+    advance(seconds: number = TELEMETRY_INTERVAL_MS / 1000) {
+      tick += 1;
+      vehicles = vehicles.map((vehicle) => step(vehicle, seconds));
+      return snapshot();
+    },
+  };
+};
+
+export type TelemetrySimulator = ReturnType<typeof createTelemetrySimulator>;
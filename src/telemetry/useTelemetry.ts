@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState } from "react";
+import { isBrowser } from "../lib/utils";
+import {
+  TELEMETRY_INTERVAL_MS,
+  createTelemetrySimulator,
+  type SimulatorOptions,
+} from "./simulator";
+
+/**
+ * Drives a seeded simulator on a fixed interval. Ticks pause while the tab is
+ * hidden or the element behind `ref` is scrolled off-screen.
+ */
+export const useTelemetry = <T extends Element>(
+  options: SimulatorOptions & { intervalMs?: number } = {}
+) => {
+  const { intervalMs = TELEMETRY_INTERVAL_MS, ...simOptions } = options;
+  const ref = useRef<T>(null);
+  const [simulator] = useState(() => createTelemetrySimulator(simOptions));
+  const [snapshot, setSnapshot] = useState(() => simulator.snapshot());
+
+  useEffect(() => {
+    if (!isBrowser) return;
+    let onScreen = true;
+    let timer: number | undefined;
+
+    const sync = () => {
+      const shouldRun = onScreen && document.visibilityState === "visible";
+      if (shouldRun && timer === undefined) {
+        timer = window.setInterval(
+          () => setSnapshot(simulator.advance(intervalMs / 1000)),
+          intervalMs
+        );
+      } else if (!shouldRun && timer !== undefined) {
+        window.clearInterval(timer);
+        timer = undefined;
+      }
+    };
+
+    const observer =
+      ref.current && "IntersectionObserver" in window
+        ? new IntersectionObserver(([entry]) => {
+            onScreen = entry.isIntersecting;
+            sync();
+          })
+        : null;
+    if (observer && ref.current) observer.observe(ref.current);
+
+    document.addEventListener("visibilitychange", sync);
+    sync();
+
+    return () => {
+      observer?.disconnect();
+      document.removeEventListener("visibilitychange", sync);
+      if (timer !== undefined) window.clearInterval(timer);
+    };
+  }, [simulator, intervalMs]);
+
+  return { ref, snapshot };
+};
@@ -0,0 +1,54 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { useConsent } from "../consent/useConsent";
+import { ThemeContext, type ThemeContextValue } from "./context";
+import {
+  DARK_QUERY,
+  applyTheme,
+  readThemePreference,
+  resolveTheme,
+  writeThemePreference,
+  type ResolvedTheme,
+  type ThemePreference,
+} from "./theme";
+
+// ===== Theme Provider =====
+export const ThemeProvider: React.FC<{ children: React.ReactNode }> = ({
+  children,
+}) => {
+  // Null until the stored choice has been read, so hydration matches the
+  // prerendered markup and the pre-paint theme isn't overridden meanwhile.
+  const [stored, setPreference] = useState<ThemePreference | null>(null);
+  const preference = stored ?? "system";
+  const [resolved, setResolved] = useState<ResolvedTheme>("dark");
+  const { ready, decided, isAllowed } = useConsent();
+  const remember = isAllowed("functional");
+
+  useEffect(() => setPreference(readThemePreference()), []);
+
+  useEffect(() => {
+    if (!stored) return;
+    const sync = () => {
+      const next = resolveTheme(stored);
+      setResolved(next);
+      applyTheme(next);
+    };
+    sync();
+    if (stored !== "system") return;
+    const query = window.matchMedia(DARK_QUERY);
+    query.addEventListener("change", sync);
+    return () => query.removeEventListener("change", sync);
+  }, [stored]);
+
+  // Forget a stored choice if functional storage is refused later on.
+  useEffect(() => {
+    if (!stored || !ready || !decided) return;
+    writeThemePreference(remember ? stored : null);
+  }, [stored, ready, decided, remember]);
+
+  const value = useMemo<ThemeContextValue>(
+    () => ({ preference, resolved, setPreference }),
+    [preference, resolved]
+  );
+
+  return <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>;
+};
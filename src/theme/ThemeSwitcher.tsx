@@ -0,0 +1,49 @@
+import React from "react";
+import { Monitor, Moon, Sun, type LucideIcon } from "lucide-react";
+import { cx } from "../lib/utils";
+import { useTheme } from "./useTheme";
+import { THEME_OPTIONS, type ThemePreference } from "./theme";
+
+const ICONS: Record<ThemePreference, LucideIcon> = {
+  light: Sun,
+  dark: Moon,
+  system: Monitor,
+};
+
+// ===== Theme Switcher =====
+export const ThemeSwitcher: React.FC<{ className?: string }> = ({ className }) => {
+  const { preference, setPreference } = useTheme();
+
+  return (
+    <div
+      role="group"
+      aria-label="Colour theme"
+      className={cx(
+        "inline-flex rounded-control border border-line bg-surface p-1",
+        className
+      )}
+    >
+      {THEME_OPTIONS.map((option) => {
+        const Icon = ICONS[option.id];
+        return (
+          <button
+            key={option.id}
+            type="button"
+            aria-pressed={preference === option.id}
+            title={`${option.label} theme`}
+            onClick={() => setPreference(option.id)}
+            className={cx(
+              "rounded-lg p-1.5 transition-colors",
+              preference === option.id
+                ? "bg-surface-muted text-fg"
+                : "text-fg/60 hover:text-fg"
+            )}
+          >
+            <Icon className="h-4 w-4" aria-hidden="true" />
+            <span className="sr-only">{option.label} theme</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,11 @@
+import { createContext } from "react";
+import type { ResolvedTheme, ThemePreference } from "./theme";
+
+export interface ThemeContextValue {
+  preference: ThemePreference;
+  /** What's on screen: the preference, or the OS setting for "system". */
+  resolved: ResolvedTheme;
+  setPreference: (preference: ThemePreference) => void;
+}
+
+export const ThemeContext = createContext<ThemeContextValue | null>(null);
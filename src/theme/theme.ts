@@ -0,0 +1,57 @@
+import { isBrowser } from "../lib/utils";
+
+// ===== Theme =====
+// The visitor picks light, dark or "system", which follows the OS setting.
+// The choice is applied as `data-theme` on <html>, which swaps the design
+// tokens in index.css.
+export type ThemePreference = "light" | "dark" | "system";
+export type ResolvedTheme = "light" | "dark";
+
+/** Also read by the pre-paint script in index.html; keep the two in step. */
+export const THEME_STORAGE_KEY = "ft_theme";
+
+export const THEME_OPTIONS: Array<{ id: ThemePreference; label: string }> = [
+  { id: "light", label: "Light" },
+  { id: "dark", label: "Dark" },
+  { id: "system", label: "System" },
+];
+
+export const DARK_QUERY = "(prefers-color-scheme: dark)";
+
+const isThemePreference = (value: unknown): value is ThemePreference =>
+  THEME_OPTIONS.some((option) => option.id === value);
+
+export const systemTheme = (): ResolvedTheme =>
+  isBrowser && !window.matchMedia(DARK_QUERY).matches ? "light" : "dark";
+
+export const resolveTheme = (preference: ThemePreference): ResolvedTheme =>
+  preference === "system" ? systemTheme() : preference;
+
+export const applyTheme = (theme: ResolvedTheme) => {
+  if (!isBrowser) return;
+  document.documentElement.dataset.theme = theme;
+};
+
+export const readThemePreference = (): ThemePreference => {
+  if (!isBrowser) return "system";
+  try {
+    const stored = localStorage.getItem(THEME_STORAGE_KEY);
+    return isThemePreference(stored) ? stored : "system";
+  } catch {
+    return "system";
+  }
+};
+
+/** Only called when the visitor has allowed functional storage. */
+export const writeThemePreference = (preference: ThemePreference | null) => {
+  if (!isBrowser) return;
+  try {
+    if (preference && preference !== "system") {
+      localStorage.setItem(THEME_STORAGE_KEY, preference);
+    } else {
+      localStorage.removeItem(THEME_STORAGE_KEY);
+    }
+  } catch {
+    // Storage unavailable; the choice lasts for this page view.
+  }
+};
@@ -0,0 +1,8 @@
+import { useContext } from "react";
+import { ThemeContext } from "./context";
+
+export const useTheme = () => {
+  const ctx = useContext(ThemeContext);
+  if (!ctx) throw new Error("useTheme must be used inside <ThemeProvider>");
+  return ctx;
+};
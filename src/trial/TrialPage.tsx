@@ -0,0 +1,725 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  ArrowRight,
+  Check,
+  CheckCircle2,
+  Loader2,
+  Pencil,
+} from "lucide-react";
+import { Button, Card, Container } from "../components/ui";
+import { TextField } from "../components/form";
+import { cx } from "../lib/utils";
+import { Link } from "../router/Link";
+import { useRouter } from "../router/useRouter";
+import { ROUTES } from "../router/routes";
+import { useAnalytics } from "../analytics/useAnalytics";
+import { useMoney } from "../money/useMoney";
+import { COMPANY } from "../seo/company";
+import { PLANS, getPlan } from "../pricing/catalog";
+import { quotePlan, type BillingCycle } from "../pricing/calculator";
+import {
+  HARDWARE_OPTIONS,
+  INSTALL_OPTIONS,
+  TRIAL_DAYS,
+  TRIAL_PARAMS,
+  TRIAL_STEPS,
+  VEHICLE_TYPES,
+  emptyTrialDetails,
+  furthestReachableStep,
+  parseTrialStep,
+  readTrialDeepLink,
+  readTrialProgress,
+  stepIndex,
+  toTrialSubmission,
+  trialStepHref,
+  validateTrialStep,
+  writeTrialProgress,
+  type TrialDetails,
+  type TrialErrors,
+  type TrialStepId,
+} from "./trial";
+import {
+  TrialUnavailableError,
+  getDefaultTrialAdapter,
+  type TrialAdapter,
+} from "./adapters";
+
+type Status = "idle" | "submitting" | "success" | "error";
+
+const fieldId = (key: keyof TrialDetails) => `trial-${key}`;
+
+const CYCLE_OPTIONS: Array<{ id: BillingCycle; label: string }> = [
+  { id: "monthly", label: "Monthly" },
+  { id: "annual", label: "Annual (Save 20%)" },
+];
+
+const STEP_HEADINGS: Record<TrialStepId, { title: string; intro: string }> = {
+  plan: {
+    title: "Choose your plan",
+    intro: "Every plan is free for 14 days. You can switch at any time.",
+  },
+  fleet: {
+    title: "Tell us about your fleet",
+    intro: "We'll size your trial and ship enough trackers to cover it.",
+  },
+  hardware: {
+    title: "Trackers and installation",
+    intro: "Trial trackers are loaned free of charge and returned if you cancel.",
+  },
+  company: {
+    title: "Company and billing contact",
+    intro: "We'll send your login and trial details here.",
+  },
+  review: {
+    title: "Review and start your trial",
+    intro: "Check everything looks right. Nothing is charged during the trial.",
+  },
+};
+
+// ===== Choice Groups =====
+// Radio and checkbox cards share one layout; the group itself takes focus
+// when validation sends the visitor back to it.
+const ChoiceGroup: React.FC<{
+  id: string;
+  legend: string;
+  error?: string;
+  columns?: string;
+  children: React.ReactNode;
+}> = ({ id, legend, error, columns = "sm:grid-cols-2", children }) => (
+  <fieldset
+    id={id}
+    tabIndex={-1}
+    aria-describedby={error ? `${id}-error` : undefined}
+    className="text-left focus:outline-none"
+  >
+    <legend className="block text-sm font-medium text-fg/80 mb-3">
+      {legend}
+      <span className="text-accent ml-1" aria-hidden="true">
+        *
+      </span>
+    </legend>
+    <div className={cx("grid gap-3", columns)}>{children}</div>
+    {error && (
+      <p id={`${id}-error`} role="alert" className="mt-2 text-xs text-danger">
+        {error}
+      </p>
+    )}
+  </fieldset>
+);
+
+const ChoiceCard: React.FC<{
+  type: "radio" | "checkbox";
+  name: string;
+  checked: boolean;
+  onChange: () => void;
+  label: React.ReactNode;
+  description?: React.ReactNode;
+}> = ({ type, name, checked, onChange, label, description }) => (
+  <label
+    className={cx(
+      "flex items-start gap-3 rounded-control border p-4 cursor-pointer transition-colors",
+      checked
+        ? "border-accent bg-accent/10"
+        : "border-line hover:border-line-strong"
+    )}
+  >
+    <input
+      type={type}
+      name={name}
+      checked={checked}
+      onChange={onChange}
+      className="mt-1 h-4 w-4 accent-primary"
+    />
+    <span>
+      <span className="block font-medium text-fg">{label}</span>
+      {description && (
+        <span className="block text-sm text-fg/60 mt-1">{description}</span>
+      )}
+    </span>
+  </label>
+);
+
+// ===== Free Trial =====
+export const TrialPage: React.FC<{ adapter?: TrialAdapter }> = ({ adapter }) => {
+  const submitter = useMemo(() => adapter ?? getDefaultTrialAdapter(), [adapter]);
+  const { track } = useAnalytics();
+  const { location, navigate } = useRouter();
+  const { format, vatNote } = useMoney();
+
+  const [details, setDetails] = useState<TrialDetails>(() => emptyTrialDetails());
+  // Saved progress and the URL are only read after mount, so the prerendered
+  // page always shows the first step.
+  const [restored, setRestored] = useState(false);
+  const [errors, setErrors] = useState<TrialErrors>({});
+  const [status, setStatus] = useState<Status>("idle");
+  const [failure, setFailure] = useState("");
+  const [unavailable, setUnavailable] = useState(false);
+
+  const requested = restored
+    ? (parseTrialStep(new URLSearchParams(location.search).get(TRIAL_PARAMS.step)) ??
+      "plan")
+    : "plan";
+  const furthest = furthestReachableStep(details);
+  const step =
+    stepIndex(requested) > stepIndex(furthest) ? furthest : requested;
+  const index = stepIndex(step);
+
+  useEffect(() => {
+    const saved = readTrialProgress() ?? emptyTrialDetails();
+    const deepLink = readTrialDeepLink(window.location.search);
+    if (deepLink) {
+      // A pricing card already chose the plan, so skip straight past it.
+      saved.plan = deepLink.plan;
+      if (deepLink.cycle) saved.cycle = deepLink.cycle;
+      navigate(trialStepHref("fleet"), { replace: true });
+    }
+    setDetails(saved);
+    setRestored(true);
+    // `navigate` is stable, so this runs once on arrival; later plan changes
+    // happen inside the wizard.
+  }, [navigate]);
+
+  useEffect(() => {
+    if (restored && status !== "success") writeTrialProgress(details);
+  }, [details, restored, status]);
+
+  // Keep the address bar honest when a step isn't reachable yet.
+  useEffect(() => {
+    if (restored && requested !== step) {
+      navigate(trialStepHref(step), { replace: true });
+    }
+  }, [restored, requested, step, navigate]);
+
+  useEffect(() => {
+    setErrors({});
+    setStatus((prev) => (prev === "error" ? "idle" : prev));
+  }, [step]);
+
+  const update = <K extends keyof TrialDetails>(key: K, value: TrialDetails[K]) => {
+    setDetails((prev) => ({ ...prev, [key]: value }));
+    if (errors[key]) setErrors((prev) => ({ ...prev, [key]: undefined }));
+  };
+
+  const toggleVehicleType = (type: TrialDetails["vehicleTypes"][number]) =>
+    update(
+      "vehicleTypes",
+      details.vehicleTypes.includes(type)
+        ? details.vehicleTypes.filter((t) => t !== type)
+        : [...details.vehicleTypes, type]
+    );
+
+  const checkStep = () => {
+    const nextErrors = validateTrialStep(step, details);
+    setErrors(nextErrors);
+    const firstInvalid = Object.keys(nextErrors)[0] as keyof TrialDetails | undefined;
+    if (firstInvalid) document.getElementById(fieldId(firstInvalid))?.focus();
+    return !firstInvalid;
+  };
+
+  const submit = async () => {
+    setStatus("submitting");
+    setFailure("");
+    setUnavailable(false);
+    try {
+      await submitter.submit(toTrialSubmission(details));
+      track("form_submitted", { form: "trial", plan: details.plan ?? undefined });
+      writeTrialProgress(null);
+      setStatus("success");
+    } catch (err) {
+      setFailure(
+        err instanceof Error ? err.message : "Something went wrong starting your trial."
+      );
+      setUnavailable(err instanceof TrialUnavailableError);
+      setStatus("error");
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!checkStep()) return;
+    if (step === "review") {
+      submit();
+      return;
+    }
+    navigate(trialStepHref(TRIAL_STEPS[index + 1].id));
+  };
+
+  const plan = details.plan ? getPlan(details.plan) : null;
+  const vehicles = Number(details.vehicles);
+  const quote =
+    plan && details.install && Number.isInteger(vehicles) && vehicles > 0
+      ? quotePlan(plan, vehicles, details.cycle, details.install)
+      : null;
+
+  if (status === "success") {
+    return (
+      <Container className="min-h-screen flex items-center justify-center pt-28 pb-16">
+        <Card className="w-full max-w-xl border border-line text-center py-12">
+          <div role="status">
+            <CheckCircle2 className="h-12 w-12 text-success mx-auto mb-4" />
+            <h1 className="text-2xl font-bold text-fg mb-2">
+              Your {TRIAL_DAYS}-day trial is on its way
+            </h1>
+            <p className="text-fg/70 mb-8">
+              We've sent your login to {details.email.trim()}. Your trackers
+              ship within two working days
+              {details.install === "professional"
+                ? ", and an engineer will call to book installation."
+                : "."}
+            </p>
+          </div>
+          <div className="flex flex-col sm:flex-row gap-4 justify-center">
+            <Button as="a" href={ROUTES.login.path}>
+              Sign in to the portal
+            </Button>
+            <Button variant="secondary" as="a" href="/">
+              Back to home
+            </Button>
+          </div>
+        </Card>
+      </Container>
+    );
+  }
+
+  const editLink = (target: TrialStepId) => (
+    <Link
+      to={trialStepHref(target)}
+      className="inline-flex items-center gap-1 text-sm text-accent hover:text-accent-hover"
+    >
+      <Pencil className="h-3.5 w-3.5" aria-hidden="true" />
+      Edit
+      <span className="sr-only">
+        {" "}
+        {TRIAL_STEPS[stepIndex(target)].label.toLowerCase()}
+      </span>
+    </Link>
+  );
+
+  return (
+    <Container className="pt-28 pb-16 lg:pb-24">
+      <div className="text-center mb-10">
+        <h1 className="text-3xl lg:text-5xl font-bold text-fg mb-4">
+          Start Your
+          <span className="bg-gradient-to-r from-highlight to-highlight-alt bg-clip-text text-transparent">
+            {" "}
+            {TRIAL_DAYS}-Day Free Trial
+          </span>
+        </h1>
+        <p className="text-xl text-fg/70 max-w-2xl mx-auto">
+          No card required. Set up takes about two minutes.
+        </p>
+      </div>
+
+      <nav aria-label="Trial signup progress" className="max-w-3xl mx-auto mb-10">
+        <ol className="flex items-center justify-between gap-2">
+          {TRIAL_STEPS.map((s, i) => {
+            const reachable = i <= stepIndex(furthest);
+            const done = i < index;
+            const marker = (
+              <>
+                <span
+                  aria-hidden="true"
+                  className={cx(
+                    "grid place-items-center h-8 w-8 rounded-full text-sm font-semibold border",
+                    i === index
+                      ? "bg-primary border-primary text-on-primary"
+                      : done
+                        ? "bg-accent/10 border-accent text-accent"
+                        : "border-line text-fg/50"
+                  )}
+                >
+                  {done ? <Check className="h-4 w-4" /> : i + 1}
+                </span>
+                <span
+                  className={cx(
+                    "sr-only sm:not-sr-only text-sm",
+                    i === index ? "text-fg font-medium" : "text-fg/60"
+                  )}
+                >
+                  {s.label}
+                  {done && <span className="sr-only"> (completed)</span>}
+                </span>
+              </>
+            );
+            return (
+              <li
+                key={s.id}
+                aria-current={i === index ? "step" : undefined}
+                className="flex-1"
+              >
+                {reachable && i !== index ? (
+                  <Link
+                    to={trialStepHref(s.id)}
+                    className="flex flex-col items-center gap-2 hover:opacity-80"
+                  >
+                    {marker}
+                  </Link>
+                ) : (
+                  <span className="flex flex-col items-center gap-2">{marker}</span>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </nav>
+
+      <Card className="max-w-3xl mx-auto border border-line">
+        <form noValidate onSubmit={handleSubmit} className="space-y-8">
+          <div>
+            <p className="text-sm text-fg/50 mb-1">
+              Step {index + 1} of {TRIAL_STEPS.length}
+            </p>
+            <h2 className="text-2xl font-bold text-fg mb-2">
+              {STEP_HEADINGS[step].title}
+            </h2>
+            <p className="text-fg/70">{STEP_HEADINGS[step].intro}</p>
+          </div>
+
+          {status === "error" && (
+            <div
+              role="alert"
+              className="flex items-start gap-3 rounded-control border border-danger/50 bg-danger/10 p-4 text-sm text-danger"
+            >
+              <AlertTriangle className="h-5 w-5 flex-shrink-0 text-danger" />
+              {unavailable ? (
+                <div>
+                  {failure}{" "}
+                  <Link to="/#contact" className="underline hover:text-fg">
+                    Contact our team
+                  </Link>{" "}
+                  and we'll set your trial up for you.
+                </div>
+              ) : (
+                <div>
+                  {failure} If it keeps happening, email us at {COMPANY.email}.
+                </div>
+              )}
+            </div>
+          )}
+
+          {step === "plan" && (
+            <>
+              <ChoiceGroup id={fieldId("cycle")} legend="Billing after your trial">
+                {CYCLE_OPTIONS.map((option) => (
+                  <ChoiceCard
+                    key={option.id}
+                    type="radio"
+                    name="trial-cycle"
+                    checked={details.cycle === option.id}
+                    onChange={() => update("cycle", option.id)}
+                    label={option.label}
+                  />
+                ))}
+              </ChoiceGroup>
+              <ChoiceGroup
+                id={fieldId("plan")}
+                legend="Plan"
+                error={errors.plan}
+                columns="sm:grid-cols-3"
+              >
+                {PLANS.map((option) => (
+                  <ChoiceCard
+                    key={option.id}
+                    type="radio"
+                    name="trial-plan"
+                    checked={details.plan === option.id}
+                    onChange={() => update("plan", option.id)}
+                    label={option.name}
+                    description={
+                      <>
+                        {format(
+                          details.cycle === "monthly"
+                            ? option.monthlyPrice
+                            : option.annualPrice
+                        )}{" "}
+                        per vehicle/month after the trial, {vatNote}
+                      </>
+                    }
+                  />
+                ))}
+              </ChoiceGroup>
+            </>
+          )}
+
+          {step === "fleet" && (
+            <>
+              <TextField
+                id={fieldId("vehicles")}
+                label="How many vehicles will you track?"
+                type="number"
+                inputMode="numeric"
+                min={1}
+                required
+                value={details.vehicles}
+                onChange={(e) => update("vehicles", e.target.value)}
+                error={errors.vehicles}
+                className="sm:max-w-xs"
+              />
+              <ChoiceGroup
+                id={fieldId("vehicleTypes")}
+                legend="Vehicle types"
+                error={errors.vehicleTypes}
+                columns="grid-cols-2 sm:grid-cols-3"
+              >
+                {VEHICLE_TYPES.map((type) => (
+                  <ChoiceCard
+                    key={type.id}
+                    type="checkbox"
+                    name="trial-vehicle-types"
+                    checked={details.vehicleTypes.includes(type.id)}
+                    onChange={() => toggleVehicleType(type.id)}
+                    label={type.label}
+                  />
+                ))}
+              </ChoiceGroup>
+            </>
+          )}
+
+          {step === "hardware" && (
+            <>
+              <ChoiceGroup
+                id={fieldId("hardware")}
+                legend="Tracker"
+                error={errors.hardware}
+                columns="sm:grid-cols-3"
+              >
+                {HARDWARE_OPTIONS.map((option) => (
+                  <ChoiceCard
+                    key={option.id}
+                    type="radio"
+                    name="trial-hardware"
+                    checked={details.hardware === option.id}
+                    onChange={() => update("hardware", option.id)}
+                    label={option.label}
+                    description={option.description}
+                  />
+                ))}
+              </ChoiceGroup>
+              <ChoiceGroup
+                id={fieldId("install")}
+                legend="Installation"
+                error={errors.install}
+              >
+                {INSTALL_OPTIONS.map((option) => (
+                  <ChoiceCard
+                    key={option.id}
+                    type="radio"
+                    name="trial-install"
+                    checked={details.install === option.id}
+                    onChange={() => update("install", option.id)}
+                    label={option.label}
+                  />
+                ))}
+              </ChoiceGroup>
+              {details.install === "professional" && (
+                <TextField
+                  id={fieldId("installPostcode")}
+                  label="Where are the vehicles based?"
+                  autoComplete="postal-code"
+                  hint="UK postcode, so we can book a local engineer"
+                  required
+                  value={details.installPostcode}
+                  onChange={(e) => update("installPostcode", e.target.value)}
+                  error={errors.installPostcode}
+                  className="sm:max-w-xs"
+                />
+              )}
+            </>
+          )}
+
+          {step === "company" && (
+            <div className="grid sm:grid-cols-2 gap-6">
+              <TextField
+                id={fieldId("company")}
+                label="Company"
+                autoComplete="organization"
+                required
+                value={details.company}
+                onChange={(e) => update("company", e.target.value)}
+                error={errors.company}
+              />
+              <TextField
+                id={fieldId("name")}
+                label="Full name"
+                autoComplete="name"
+                required
+                value={details.name}
+                onChange={(e) => update("name", e.target.value)}
+                error={errors.name}
+              />
+              <TextField
+                id={fieldId("email")}
+                label="Work email"
+                type="email"
+                autoComplete="email"
+                required
+                value={details.email}
+                onChange={(e) => update("email", e.target.value)}
+                error={errors.email}
+              />
+              <TextField
+                id={fieldId("phone")}
+                label="Phone"
+                type="tel"
+                autoComplete="tel"
+                hint="Optional"
+                value={details.phone}
+                onChange={(e) => update("phone", e.target.value)}
+                error={errors.phone}
+              />
+              <TextField
+                id={fieldId("billingEmail")}
+                label="Billing email"
+                type="email"
+                autoComplete="off"
+                hint="Optional. Invoices go to your work email if left blank."
+                value={details.billingEmail}
+                onChange={(e) => update("billingEmail", e.target.value)}
+                error={errors.billingEmail}
+                className="sm:col-span-2"
+              />
+            </div>
+          )}
+
+          {step === "review" && plan && (
+            <>
+              <dl className="divide-y divide-line rounded-control border border-line">
+                {(
+                  [
+                    [
+                      "plan",
+                      "Plan",
+                      `${plan.name}, billed ${details.cycle} after the trial`,
+                    ],
+                    [
+                      "fleet",
+                      "Fleet",
+                      `${vehicles} ${vehicles === 1 ? "vehicle" : "vehicles"}: ${VEHICLE_TYPES.filter(
+                        (type) => details.vehicleTypes.includes(type.id)
+                      )
+                        .map((type) => type.label)
+                        .join(", ")}`,
+                    ],
+                    [
+                      "hardware",
+                      "Hardware",
+                      `${HARDWARE_OPTIONS.find((o) => o.id === details.hardware)?.label}, ${INSTALL_OPTIONS.find(
+                        (o) => o.id === details.install
+                      )?.label.toLowerCase()}${
+                        details.install === "professional"
+                          ? ` near ${details.installPostcode.trim().toUpperCase()}`
+                          : ""
+                      }`,
+                    ],
+                    [
+                      "company",
+                      "Contact",
+                      `${details.name.trim()}, ${details.company.trim()} (${details.email.trim()})`,
+                    ],
+                  ] as Array<[TrialStepId, string, string]>
+                ).map(([target, label, value]) => (
+                  <div
+                    key={target}
+                    className="flex flex-col sm:flex-row sm:items-start gap-2 p-4"
+                  >
+                    <dt className="sm:w-28 flex-shrink-0 text-sm text-fg/60">
+                      {label}
+                    </dt>
+                    <dd className="flex-1 text-fg">{value}</dd>
+                    <dd>{editLink(target)}</dd>
+                  </div>
+                ))}
+              </dl>
+
+              {quote && (
+                <p className="text-sm text-fg/70">
+                  After {TRIAL_DAYS} days you'd pay{" "}
+                  <strong className="text-fg">
+                    {format(quote.monthlyTotal)}/month
+                  </strong>{" "}
+                  {vatNote} ({format(quote.perVehicle)} per vehicle
+                  {quote.tier ? `, ${quote.tier.label} discount` : ""}). Keep
+                  the trackers for a one-off {format(quote.oneOff)}, or
+                  send them back free.
+                </p>
+              )}
+
+              <div>
+                <label className="flex items-start gap-3 text-sm text-fg/80">
+                  <input
+                    id={fieldId("acceptTerms")}
+                    type="checkbox"
+                    className="mt-0.5 h-4 w-4 accent-primary"
+                    checked={details.acceptTerms}
+                    aria-invalid={!!errors.acceptTerms}
+                    aria-describedby={
+                      errors.acceptTerms ? `${fieldId("acceptTerms")}-error` : undefined
+                    }
+                    onChange={(e) => update("acceptTerms", e.target.checked)}
+                  />
+                  <span>
+                    I agree to the{" "}
+                    <Link
+                      to={ROUTES.terms.path}
+                      className="text-accent hover:text-accent-hover underline"
+                    >
+                      Terms of Service
+                    </Link>{" "}
+                    and understand trial trackers must be returned within 14
+                    days if I cancel.
+                  </span>
+                </label>
+                {errors.acceptTerms && (
+                  <p
+                    id={`${fieldId("acceptTerms")}-error`}
+                    role="alert"
+                    className="mt-1 text-xs text-danger"
+                  >
+                    {errors.acceptTerms}
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+
+          <div className="flex flex-col-reverse sm:flex-row items-center justify-between gap-4 pt-2">
+            {index > 0 ? (
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={() => navigate(trialStepHref(TRIAL_STEPS[index - 1].id))}
+                className="w-full sm:w-auto"
+              >
+                <ArrowLeft className="mr-2 h-5 w-5" aria-hidden="true" />
+                Back
+              </Button>
+            ) : (
+              <span />
+            )}
+            <Button
+              type="submit"
+              disabled={status === "submitting"}
+              className="w-full sm:w-auto disabled:opacity-60"
+            >
+              {status === "submitting" ? (
+                <>
+                  <Loader2 className="mr-2 h-5 w-5 animate-spin" aria-hidden="true" />
+                  Starting your trial…
+                </>
+              ) : step === "review" ? (
+                "Start free trial"
+              ) : (
+                <>
+                  Continue
+                  <ArrowRight className="ml-2 h-5 w-5" aria-hidden="true" />
+                </>
+              )}
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </Container>
+  );
+};
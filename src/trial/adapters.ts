@@ -0,0 +1,119 @@
+import { isBrowser } from "../lib/utils";
+import type { TrialSubmission } from "./trial";
+
+// ===== Trial Signup Adapters =====
+export interface TrialAdapter {
+  submit: (submission: TrialSubmission) => Promise<void>;
+}
+
+export class TrialSubmissionError extends Error {
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "TrialSubmissionError";
+    this.status = status;
+  }
+}
+
+/** Signups can't be taken at all; the page points people to the contact form. */
+export class TrialUnavailableError extends TrialSubmissionError {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrialUnavailableError";
+  }
+}
+
+export const createFetchTrialAdapter = (
+  endpoint: string,
+  init: RequestInit = {}
+): TrialAdapter => ({
+  async submit(submission) {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: "POST",
+        ...init,
+        headers: { "Content-Type": "application/json", ...init.headers },
+        body: JSON.stringify(submission),
+      });
+    } catch {
+      throw new TrialSubmissionError(
+        "We couldn't reach our servers. Please check your connection."
+      );
+    }
+    if (response.status === 409) {
+      throw new TrialSubmissionError(
+        "A trial has already been started with this email. Try signing in instead.",
+        response.status
+      );
+    }
+    if (!response.ok) {
+      throw new TrialSubmissionError(
+        "Something went wrong starting your trial.",
+        response.status
+      );
+    }
+  },
+});
+
+export const LOCAL_TRIALS_KEY = "ft_trial_signups";
+
+/** Keeps signups in localStorage (or memory) for local development. */
+export const createLocalTrialAdapter = (
+  storageKey: string = LOCAL_TRIALS_KEY
+): TrialAdapter & { list: () => TrialSubmission[] } => {
+  const memory: TrialSubmission[] = [];
+
+  const readStored = (): TrialSubmission[] => {
+    if (!isBrowser) return [];
+    try {
+      const raw = localStorage.getItem(storageKey);
+      return raw ? (JSON.parse(raw) as TrialSubmission[]) : [];
+    } catch {
+      return [];
+    }
+  };
+
+  return {
+    list: () => [...readStored(), ...memory],
+    async submit(submission) {
+      const email = submission.email.trim().toLowerCase();
+      if (
+        [...readStored(), ...memory].some(
+          (existing) => existing.email.trim().toLowerCase() === email
+        )
+      ) {
+        throw new TrialSubmissionError(
+          "A trial has already been started with this email. Try signing in instead.",
+          409
+        );
+      }
+      if (isBrowser) {
+        try {
+          localStorage.setItem(
+            storageKey,
+            JSON.stringify([...readStored(), submission])
+          );
+          return;
+        } catch {
+          // Storage unavailable; fall back to the in-memory list.
+        }
+      }
+      memory.push(submission);
+    },
+  };
+};
+
+/** Used when no endpoint is configured, so no one is promised a trial that wasn't requested. */
+export const createUnavailableTrialAdapter = (): TrialAdapter => ({
+  submit: async () => {
+    throw new TrialUnavailableError("Online trial signup isn't available right now.");
+  },
+});
+
+export const getDefaultTrialAdapter = (): TrialAdapter => {
+  const endpoint = import.meta.env.VITE_TRIAL_ENDPOINT;
+  if (endpoint) return createFetchTrialAdapter(endpoint);
+  return import.meta.env.DEV ? createLocalTrialAdapter() : createUnavailableTrialAdapter();
+};
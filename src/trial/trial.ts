@@ -0,0 +1,246 @@
+import { isBrowser } from "../lib/utils";
+import { isEmail, isPhone, isUkPostcode } from "../lib/validation";
+import { isPlanId, type PlanId } from "../pricing/catalog";
+import {
+  DEFAULT_CALCULATOR_CONFIG,
+  parseBillingCycle,
+  type BillingCycle,
+  type InstallOption,
+} from "../pricing/calculator";
+
+// ===== Free Trial Model =====
+export const TRIAL_PATH = "/trial";
+export const TRIAL_DAYS = 14;
+
+export type TrialStepId = "plan" | "fleet" | "hardware" | "company" | "review";
+
+export const TRIAL_STEPS: Array<{ id: TrialStepId; label: string }> = [
+  { id: "plan", label: "Plan" },
+  { id: "fleet", label: "Fleet" },
+  { id: "hardware", label: "Hardware" },
+  { id: "company", label: "Company" },
+  { id: "review", label: "Review" },
+];
+
+export type VehicleType = "car" | "van" | "hgv" | "plant" | "trailer" | "motorcycle";
+
+export const VEHICLE_TYPES: Array<{ id: VehicleType; label: string }> = [
+  { id: "car", label: "Cars" },
+  { id: "van", label: "Vans & LCVs" },
+  { id: "hgv", label: "HGVs" },
+  { id: "plant", label: "Plant & machinery" },
+  { id: "trailer", label: "Trailers" },
+  { id: "motorcycle", label: "Motorcycles" },
+];
+
+export type HardwareOption = "obd" | "hardwired" | "asset";
+
+export const HARDWARE_OPTIONS: Array<{
+  id: HardwareOption;
+  label: string;
+  description: string;
+}> = [
+  {
+    id: "obd",
+    label: "Plug-in OBD tracker",
+    description: "Fits the diagnostic port in seconds. Best for cars and vans.",
+  },
+  {
+    id: "hardwired",
+    label: "Hardwired tracker",
+    description: "Hidden behind the dash and tamper-resistant. Best for HGVs and high-value vehicles.",
+  },
+  {
+    id: "asset",
+    label: "Battery asset tracker",
+    description: "No wiring, up to three years per battery. Best for trailers and plant.",
+  },
+];
+
+export const INSTALL_OPTIONS: Array<{ id: InstallOption; label: string }> = (
+  Object.keys(DEFAULT_CALCULATOR_CONFIG.installation) as InstallOption[]
+).map((id) => ({ id, label: DEFAULT_CALCULATOR_CONFIG.installation[id].label }));
+
+export interface TrialDetails {
+  plan: PlanId | null;
+  cycle: BillingCycle;
+  /** Kept as typed so a half-entered number survives a refresh. */
+  vehicles: string;
+  vehicleTypes: VehicleType[];
+  hardware: HardwareOption | null;
+  install: InstallOption | null;
+  /** Where an engineer should meet the vehicles; professional installs only. */
+  installPostcode: string;
+  company: string;
+  name: string;
+  email: string;
+  phone: string;
+  /** Invoices go to `email` when left blank. */
+  billingEmail: string;
+  acceptTerms: boolean;
+}
+
+export type TrialErrors = Partial<Record<keyof TrialDetails, string>>;
+
+export const emptyTrialDetails = (): TrialDetails => ({
+  plan: null,
+  cycle: "monthly",
+  vehicles: "",
+  vehicleTypes: [],
+  hardware: null,
+  install: null,
+  installPostcode: "",
+  company: "",
+  name: "",
+  email: "",
+  phone: "",
+  billingEmail: "",
+  acceptTerms: false,
+});
+
+// ===== Validation =====
+const { minVehicles, maxVehicles } = DEFAULT_CALCULATOR_CONFIG;
+
+const STEP_VALIDATORS: Record<TrialStepId, (details: TrialDetails) => TrialErrors> = {
+  plan: (details) => (details.plan ? {} : { plan: "Please choose a plan." }),
+  fleet: (details) => {
+    const errors: TrialErrors = {};
+    const vehicles = Number(details.vehicles);
+    if (
+      !Number.isInteger(vehicles) ||
+      vehicles < minVehicles ||
+      vehicles > maxVehicles
+    ) {
+      errors.vehicles = `Please enter between ${minVehicles} and ${maxVehicles} vehicles.`;
+    }
+    if (!details.vehicleTypes.length)
+      errors.vehicleTypes = "Please choose at least one vehicle type.";
+    return errors;
+  },
+  hardware: (details) => {
+    const errors: TrialErrors = {};
+    if (!details.hardware) errors.hardware = "Please choose a tracker.";
+    if (!details.install) errors.install = "Please choose how it's installed.";
+    if (details.install === "professional" && !isUkPostcode(details.installPostcode))
+      errors.installPostcode = "Please enter a valid UK postcode.";
+    return errors;
+  },
+  company: (details) => {
+    const errors: TrialErrors = {};
+    if (!details.company.trim()) errors.company = "Please enter your company.";
+    if (details.name.trim().length < 2) errors.name = "Please enter your name.";
+    if (!isEmail(details.email))
+      errors.email = "Please enter a valid email address.";
+    if (details.phone.trim() && !isPhone(details.phone))
+      errors.phone = "Please enter a valid phone number.";
+    if (details.billingEmail.trim() && !isEmail(details.billingEmail))
+      errors.billingEmail = "Please enter a valid email address.";
+    return errors;
+  },
+  review: (details) =>
+    details.acceptTerms ? {} : { acceptTerms: "Please accept the trial terms." },
+};
+
+export const validateTrialStep = (step: TrialStepId, details: TrialDetails) =>
+  STEP_VALIDATORS[step](details);
+
+export const stepIndex = (step: TrialStepId) =>
+  TRIAL_STEPS.findIndex((s) => s.id === step);
+
+/** The furthest step the visitor may see: every step before it is valid. */
+export const furthestReachableStep = (details: TrialDetails): TrialStepId =>
+  TRIAL_STEPS.find(
+    (step) =>
+      step.id !== "review" && Object.keys(validateTrialStep(step.id, details)).length
+  )?.id ?? "review";
+
+// ===== Links =====
+export const TRIAL_PARAMS = { step: "step", plan: "plan", billing: "billing" } as const;
+
+export const parseTrialStep = (value: string | null): TrialStepId | null =>
+  TRIAL_STEPS.find((step) => step.id === value)?.id ?? null;
+
+export const trialStepHref = (step: TrialStepId) =>
+  step === "plan" ? TRIAL_PATH : `${TRIAL_PATH}?${TRIAL_PARAMS.step}=${step}`;
+
+/** Pricing cards link here; a plan in the link skips the plan step. */
+export const trialHref = (plan?: PlanId, cycle?: BillingCycle) => {
+  const params = new URLSearchParams();
+  if (plan) params.set(TRIAL_PARAMS.plan, plan);
+  if (plan && cycle) params.set(TRIAL_PARAMS.billing, cycle);
+  const query = params.toString();
+  return query ? `${TRIAL_PATH}?${query}` : TRIAL_PATH;
+};
+
+export const readTrialDeepLink = (
+  search: string
+): { plan: PlanId; cycle: BillingCycle | null } | null => {
+  const params = new URLSearchParams(search);
+  const plan = params.get(TRIAL_PARAMS.plan);
+  if (!isPlanId(plan)) return null;
+  return { plan, cycle: parseBillingCycle(params.get(TRIAL_PARAMS.billing)) };
+};
+
+// ===== Saved Progress =====
+// Session storage: progress survives a refresh or an accidental back, but not
+// closing the tab, and it never needs cookie consent.
+export const TRIAL_PROGRESS_KEY = "ft_trial_progress";
+
+export const readTrialProgress = (): TrialDetails | null => {
+  if (!isBrowser) return null;
+  try {
+    const raw = sessionStorage.getItem(TRIAL_PROGRESS_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Partial<TrialDetails>;
+    return {
+      ...emptyTrialDetails(),
+      ...parsed,
+      plan: isPlanId(parsed.plan) ? parsed.plan : null,
+      cycle: parseBillingCycle(parsed.cycle ?? null) ?? "monthly",
+      vehicleTypes: Array.isArray(parsed.vehicleTypes)
+        ? parsed.vehicleTypes.filter((type) =>
+            VEHICLE_TYPES.some((option) => option.id === type)
+          )
+        : [],
+    };
+  } catch {
+    return null;
+  }
+};
+
+export const writeTrialProgress = (details: TrialDetails | null) => {
+  if (!isBrowser) return;
+  try {
+    if (details) sessionStorage.setItem(TRIAL_PROGRESS_KEY, JSON.stringify(details));
+    else sessionStorage.removeItem(TRIAL_PROGRESS_KEY);
+  } catch {
+    // Storage unavailable; progress lasts until the page is left.
+  }
+};
+
+// ===== Submission =====
+export interface TrialSubmission
+  extends Omit<TrialDetails, "plan" | "vehicles" | "acceptTerms"> {
+  plan: PlanId;
+  vehicles: number;
+  submittedAt: string;
+}
+
+export const toTrialSubmission = (details: TrialDetails): TrialSubmission => ({
+  cycle: details.cycle,
+  plan: details.plan!,
+  vehicles: Number(details.vehicles),
+  vehicleTypes: details.vehicleTypes,
+  hardware: details.hardware,
+  install: details.install,
+  installPostcode:
+    details.install === "professional"
+      ? details.installPostcode.trim().toUpperCase()
+      : "",
+  company: details.company.trim(),
+  name: details.name.trim(),
+  email: details.email.trim(),
+  phone: details.phone.trim(),
+  billingEmail: details.billingEmail.trim() || details.email.trim(),
+  submittedAt: new Date().toISOString(),
+});
@@ -0,0 +1,24 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Endpoint that receives contact form submissions as JSON; required outside development. */
+  readonly VITE_CONTACT_ENDPOINT?: string;
+  /** Endpoint that receives demo bookings and returns busy slots; required outside development. */
+  readonly VITE_DEMO_ENDPOINT?: string;
+  /** Endpoint that receives free-trial signups as JSON; required outside development. */
+  readonly VITE_TRIAL_ENDPOINT?: string;
+  /** URL of the public status feed (JSON); without it, development uses the bundled fixture. */
+  readonly VITE_STATUS_ENDPOINT?: string;
+  /** Set to "true" to use the mock sign-in provider outside development. */
+  readonly VITE_AUTH_MOCK?: string;
+  /** Where customers land after signing in. */
+  readonly VITE_PORTAL_URL?: string;
+  /** Endpoint that receives consented analytics events in batches. */
+  readonly VITE_ANALYTICS_ENDPOINT?: string;
+  /** Public sales number in E.164, e.g. +441510000000. */
+  readonly VITE_COMPANY_TELEPHONE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,7 +1,26 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 
+// The help centre fetches its search index; production builds write it during
+// prerender, so in development we build it from source on request.
+const helpSearchIndex = (): Plugin => ({
+  name: 'help-search-index',
+  configureServer(server) {
+    server.middlewares.use(async (req, res, next) => {
+      try {
+        const { HELP_INDEX_PATH } = await server.ssrLoadModule('/src/help/search.ts')
+        if (req.url?.split('?')[0] !== HELP_INDEX_PATH) return next()
+        const { helpSearchIndex } = await server.ssrLoadModule('/src/help/searchIndex.ts')
+        res.setHeader('Content-Type', 'application/json')
+        res.end(JSON.stringify(helpSearchIndex()))
+      } catch (err) {
+        next(err)
+      }
+    })
+  },
+})
+
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), helpSearchIndex()],
 })